@@ -0,0 +1,100 @@
+/**
+ * Add To Watchlist Button Component
+ * Star button with a dropdown to add or remove a stock ticker or crypto ID
+ * from any watchlist, or create a new watchlist containing it
+ */
+import { useState, useEffect } from 'react';
+import { Star, Plus, Check } from 'lucide-react';
+import {
+  getWatchlists,
+  subscribeToWatchlists,
+  createWatchlist,
+  addWatchlistItem,
+  removeWatchlistItem,
+  Watchlist,
+  WatchlistItemKind,
+} from '../services/watchlists';
+
+interface AddToWatchlistButtonProps {
+  kind: WatchlistItemKind;
+  itemId: string;
+}
+
+export default function AddToWatchlistButton({ kind, itemId }: AddToWatchlistButtonProps) {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>(getWatchlists);
+  const [open, setOpen] = useState<boolean>(false);
+  const [newName, setNewName] = useState<string>('');
+
+  useEffect(() => subscribeToWatchlists(setWatchlists), []);
+
+  const id = kind === 'stock' ? itemId.toUpperCase() : itemId.toLowerCase();
+  const isInList = (list: Watchlist) => list.items.some((item) => item.kind === kind && item.id === id);
+  const watched = watchlists.some(isInList);
+
+  const handleToggle = (list: Watchlist) => {
+    if (isInList(list)) {
+      removeWatchlistItem(list.id, kind, id);
+    } else {
+      addWatchlistItem(list.id, kind, id);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    const list = createWatchlist(newName);
+    addWatchlistItem(list.id, kind, id);
+    setNewName('');
+  };
+
+  return (
+    <div className="relative inline-block">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`p-1.5 rounded-lg transition-colors ${
+          watched ? 'text-amber-500 hover:bg-amber-50' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'
+        }`}
+        title={watched ? 'In a watchlist' : 'Add to watchlist'}
+        aria-label={`Add ${id} to watchlist`}
+      >
+        <Star className={`w-4 h-4 ${watched ? 'fill-amber-400' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-56 bg-white border border-slate-200 rounded-lg shadow-lg p-2 text-left">
+          <p className="px-2 py-1 text-xs font-semibold text-slate-500 uppercase">Watchlists</p>
+          {watchlists.length === 0 && (
+            <p className="px-2 py-1 text-sm text-slate-500">No watchlists yet</p>
+          )}
+          {watchlists.map((list) => (
+            <button
+              key={list.id}
+              onClick={() => handleToggle(list)}
+              className="w-full flex items-center justify-between px-2 py-1.5 rounded-md text-sm text-slate-700 hover:bg-slate-100"
+            >
+              <span className="truncate">{list.name}</span>
+              {isInList(list) && <Check className="w-4 h-4 text-emerald-600" />}
+            </button>
+          ))}
+          <div className="mt-2 flex gap-1 border-t border-slate-100 pt-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="New watchlist"
+              className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="p-1.5 bg-amber-500 hover:bg-amber-600 disabled:bg-slate-300 text-white rounded-md"
+              aria-label="Create watchlist"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Alert Notifier Component
+ * Runs the price alert poller for the whole app and surfaces fired alerts
+ * Features:
+ * - In-app toasts (auto-dismiss after 10 seconds)
+ * - Browser notifications when permission has been granted
+ */
+import { useState, useEffect } from 'react';
+import { BellRing, X } from 'lucide-react';
+import { startAlertPoller, subscribeToAlertTriggers, AlertTrigger } from '../services/alerts';
+
+const TOAST_DURATION_MS = 10000;
+
+export default function AlertNotifier() {
+  const [toasts, setToasts] = useState<AlertTrigger[]>([]);
+
+  useEffect(() => {
+    const stopPoller = startAlertPoller();
+
+    const unsubscribe = subscribeToAlertTriggers((trigger) => {
+      setToasts((current) => [...current, trigger]);
+      setTimeout(() => {
+        setToasts((current) => current.filter((toast) => toast.id !== trigger.id));
+      }, TOAST_DURATION_MS);
+
+      if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+        new Notification('Price alert', { body: trigger.message, tag: trigger.ruleId });
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      stopPoller();
+    };
+  }, []);
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 w-80">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className="flex items-start gap-3 p-4 bg-white border border-amber-200 rounded-lg shadow-lg"
+          role="alert"
+        >
+          <BellRing className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="font-semibold text-slate-900 text-sm">Price alert</p>
+            <p className="text-sm text-slate-700">{toast.message}</p>
+          </div>
+          <button
+            onClick={() => setToasts((current) => current.filter((item) => item.id !== toast.id))}
+            className="text-slate-400 hover:text-slate-600"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * API Budget Indicator Component
+ * Shows the remaining client-side rate-limit budget for a data provider
+ * Features:
+ * - Remaining calls per quota window (per minute / per day)
+ * - Queued request count
+ * - Warning state when the provider is blocked or nearly exhausted
+ * - Offline badge in fixture mode, where no quota is spent
+ */
+import { useState, useEffect } from 'react';
+import { Gauge, HardDrive } from 'lucide-react';
+import {
+  getRateLimitBudget,
+  subscribeToRateLimits,
+  ProviderBudget,
+  ProviderId,
+} from '../services/rateLimiter';
+import { isFixtureMode } from '../services/fixtures';
+
+interface ApiBudgetIndicatorProps {
+  providers: ProviderId[];
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Format a quota window length for display
+ */
+const formatWindow = (intervalMs: number) => {
+  if (intervalMs >= 24 * HOUR) return 'day';
+  if (intervalMs >= HOUR) return 'hour';
+  return 'min';
+};
+
+export default function ApiBudgetIndicator({ providers }: ApiBudgetIndicatorProps) {
+  const [budgets, setBudgets] = useState<ProviderBudget[]>(() => providers.map(getRateLimitBudget));
+  const providerKey = providers.join(',');
+
+  /**
+   * Refresh on every budget change, and periodically so refills show up
+   */
+  useEffect(() => {
+    const ids = providerKey.split(',') as ProviderId[];
+    const refresh = () => setBudgets(ids.map(getRateLimitBudget));
+    refresh();
+
+    const unsubscribe = subscribeToRateLimits(refresh);
+    const interval = setInterval(refresh, 5000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [providerKey]);
+
+  if (isFixtureMode()) {
+    return (
+      <div className="flex flex-wrap gap-2 text-xs">
+        <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full border bg-slate-50 border-slate-200 text-slate-600">
+          <HardDrive className="w-3.5 h-3.5" />
+          <span className="font-semibold">Offline fixture data</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 text-xs">
+      {budgets.map((budget) => {
+        const exhausted = budget.blockedUntil !== null || budget.windows.some((window) => window.remaining < 1);
+        const low = budget.windows.some((window) => window.remaining <= window.limit * 0.2);
+
+        return (
+          <div
+            key={budget.provider}
+            className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full border ${
+              exhausted
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : low
+                  ? 'bg-amber-50 border-amber-200 text-amber-700'
+                  : 'bg-slate-50 border-slate-200 text-slate-600'
+            }`}
+          >
+            <Gauge className="w-3.5 h-3.5" />
+            <span className="font-semibold">{budget.name}</span>
+            {budget.windows.map((window) => (
+              <span key={window.intervalMs}>
+                {window.remaining}/{window.limit} per {formatWindow(window.intervalMs)}
+              </span>
+            ))}
+            {budget.queued > 0 && <span>· {budget.queued} queued</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+/**
+ * Asset Allocation Planner Component
+ * Target allocation from the capital-market assumptions and drift of actual holdings
+ * Features:
+ * - Risk tolerance preset, glide path by age, mean-variance or risk-parity targets
+ * - Expected return, volatility and risk contribution of the target
+ * - Glide path chart from today to life expectancy
+ * - Drift of Portfolio Tracker holdings from the target with rebalancing trades
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { PieChart, Pie, Cell, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { PieChart as PieChartIcon, RefreshCw, Loader, Scale } from 'lucide-react';
+import {
+  ALLOCATION_METHOD_LABELS,
+  analyzeDrift,
+  computeTargetAllocation,
+  glidePathSchedule,
+  holdingAssetClass,
+  AllocationMethod,
+  AllocationSettings,
+  AllocationTarget,
+  GlidePath,
+  GlidePathPoint,
+} from '../services/allocation';
+import { getAssumptions, subscribeToAssumptions, CapitalMarketAssumptions } from '../services/assumptions';
+import { computePositions, fetchPortfolioQuotes, getTransactions, valuePositions, ValuedPosition } from '../services/portfolio';
+import { getErrorMessage } from '../services/api';
+
+interface AssetAllocationPlannerProps {
+  settings: AllocationSettings;
+  onChange: (settings: AllocationSettings) => void;
+  riskTolerance: string;
+  age: number;
+  retirementAge: number;
+  planningAge: number;
+  investableAssets: number;
+}
+
+const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900';
+
+const GLIDE_PATH_FIELDS: Array<{ key: keyof GlidePath; label: string }> = [
+  { key: 'earlyEquity', label: 'Growth assets early (%)' },
+  { key: 'retirementEquity', label: 'At retirement (%)' },
+  { key: 'finalEquity', label: 'Final (%)' },
+  { key: 'declineYears', label: 'Decline over (years)' },
+  { key: 'landingYears', label: 'Lands after retirement (years)' },
+];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+export default function AssetAllocationPlanner({
+  settings,
+  onChange,
+  riskTolerance,
+  age,
+  retirementAge,
+  planningAge,
+  investableAssets,
+}: AssetAllocationPlannerProps) {
+  const [assumptions, setAssumptions] = useState<CapitalMarketAssumptions>(getAssumptions);
+  const [holdings, setHoldings] = useState<ValuedPosition[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [holdingsError, setHoldingsError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToAssumptions(setAssumptions), []);
+
+  const { target, schedule, error } = useMemo((): {
+    target: AllocationTarget | null;
+    schedule: GlidePathPoint[];
+    error: string | null;
+  } => {
+    const profile = { riskTolerance, age, retirementAge };
+    try {
+      return {
+        target: computeTargetAllocation(assumptions, settings, profile),
+        schedule: settings.method === 'glidePath' ? glidePathSchedule(assumptions, settings, profile, planningAge) : [],
+        error: null,
+      };
+    } catch (err) {
+      return { target: null, schedule: [], error: getErrorMessage(err) };
+    }
+  }, [assumptions, settings, riskTolerance, age, retirementAge, planningAge]);
+
+  const drift = useMemo(
+    () => (target && holdings ? analyzeDrift(assumptions, settings, target.weights, holdings) : null),
+    [assumptions, settings, target, holdings]
+  );
+
+  const update = (changes: Partial<AllocationSettings>) => onChange({ ...settings, ...changes });
+
+  const handleLoadHoldings = async () => {
+    setLoading(true);
+    setHoldingsError(null);
+    try {
+      const { positions } = computePositions(getTransactions());
+      const { quotes, errors } = await fetchPortfolioQuotes(positions);
+      setHoldings(valuePositions(positions, quotes));
+      if (errors.length > 0) setHoldingsError(`Valued at cost: ${errors.join('; ')}`);
+    } catch (err) {
+      setHoldingsError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const nameOf = (id: string) => assumptions.assetClasses.find((assetClass) => assetClass.id === id)?.name ?? id;
+  const colorOf = (id: string) => {
+    const index = assumptions.assetClasses.findIndex((assetClass) => assetClass.id === id);
+    return COLORS[(index < 0 ? 0 : index) % COLORS.length];
+  };
+  const slices = target
+    ? Object.entries(target.weights)
+      .filter(([, weight]) => weight > 0)
+      .map(([id, weight]) => ({ id, name: nameOf(id), weight, value: (Math.max(investableAssets, 0) * weight) / 100 }))
+    : [];
+  const scheduleIds = assumptions.assetClasses
+    .map((assetClass) => assetClass.id)
+    .filter((id) => schedule.some((point) => (point.weights[id] ?? 0) > 0));
+  const chartData = schedule.map((point) => ({
+    age: point.age,
+    ...Object.fromEntries(scheduleIds.map((id) => [id, point.weights[id] ?? 0])),
+  }));
+  const openHoldings = holdings ?? [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-bold text-slate-900 mb-1 flex items-center gap-2">
+        <PieChartIcon className="w-5 h-5 text-teal-600" />
+        Asset Allocation
+      </h2>
+      <p className="text-sm text-slate-600 mb-4">From the capital-market assumptions; edit them in the Investment Scenario Simulator</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <div className="col-span-2">
+          <label className="block text-xs font-medium text-slate-600 mb-1">Method</label>
+          <select
+            value={settings.method}
+            onChange={(e) => update({ method: e.target.value as AllocationMethod })}
+            className={inputClassName}
+          >
+            {(Object.keys(ALLOCATION_METHOD_LABELS) as AllocationMethod[]).map((method) => (
+              <option key={method} value={method}>{ALLOCATION_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+        {settings.method === 'glidePath' && GLIDE_PATH_FIELDS.map(({ key, label }) => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-slate-600 mb-1">{label}</label>
+            <input
+              type="number"
+              min="0"
+              value={settings.glidePath[key]}
+              onChange={(e) => update({ glidePath: { ...settings.glidePath, [key]: parseFloat(e.target.value) || 0 } })}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+        {settings.method === 'meanVariance' && (
+          <>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Target volatility (%)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={settings.targetVolatility}
+                onChange={(e) => update({ targetVolatility: parseFloat(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Max per asset class (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="5"
+                value={settings.maxWeight}
+                onChange={(e) => update({ maxWeight: parseFloat(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {settings.method !== 'preset' && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2 mb-6">
+          <span className="text-xs font-medium text-slate-600">Include:</span>
+          {assumptions.assetClasses.map((assetClass) => (
+            <label key={assetClass.id} className="flex items-center gap-1 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={!settings.excluded.includes(assetClass.id)}
+                onChange={(e) =>
+                  update({
+                    excluded: e.target.checked
+                      ? settings.excluded.filter((id) => id !== assetClass.id)
+                      : [...settings.excluded, assetClass.id],
+                  })
+                }
+                className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500"
+              />
+              {assetClass.name}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {target && (
+        <>
+          {target.note && <p className="text-sm text-amber-700 mb-4">{target.note}</p>}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            <ResponsiveContainer width="100%" height={300}>
+              <PieChart>
+                <Pie
+                  data={slices}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={({ name, percent }) => `${name}: ${((percent ?? 0) * 100).toFixed(0)}%`}
+                  outerRadius={100}
+                  dataKey="weight"
+                >
+                  {slices.map((slice) => (
+                    <Cell key={slice.id} fill={colorOf(slice.id)} />
+                  ))}
+                </Pie>
+                <Tooltip formatter={(value: number | undefined) => (value !== undefined ? `${value.toFixed(1)}%` : '')} />
+              </PieChart>
+            </ResponsiveContainer>
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Expected Return</p>
+                  <p className="text-lg font-bold text-slate-900">{(target.expectedReturn * 100).toFixed(2)}%</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Volatility</p>
+                  <p className="text-lg font-bold text-slate-900">{(target.volatility * 100).toFixed(2)}%</p>
+                </div>
+              </div>
+              {slices.map((slice) => (
+                <div key={slice.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <div className="w-4 h-4 rounded" style={{ backgroundColor: colorOf(slice.id) }}></div>
+                    <div>
+                      <span className="font-semibold text-slate-900">{slice.name}</span>
+                      <p className="text-xs text-slate-500">{(target.riskContributions[slice.id] ?? 0).toFixed(0)}% of risk</p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-bold text-slate-900">{slice.weight.toFixed(1)}%</p>
+                    <p className="text-sm text-slate-600">{formatCurrency(slice.value)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {chartData.length > 1 && (
+            <>
+              <h3 className="text-sm font-semibold text-slate-700 mb-2">Glide Path</h3>
+              <ResponsiveContainer width="100%" height={260}>
+                <AreaChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="age" />
+                  <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                  <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} labelFormatter={(label) => `Age ${label}`} />
+                  <Legend />
+                  {scheduleIds.map((id) => (
+                    <Area
+                      key={id}
+                      type="monotone"
+                      dataKey={id}
+                      stackId="weights"
+                      stroke={colorOf(id)}
+                      fill={colorOf(id)}
+                      fillOpacity={0.6}
+                      name={nameOf(id)}
+                    />
+                  ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </>
+          )}
+
+          <div className="mt-6 pt-6 border-t border-slate-200">
+            <div className="flex flex-wrap items-end justify-between gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                <Scale className="w-5 h-5 text-teal-600" />
+                Drift & Rebalancing
+              </h3>
+              <div className="flex items-end gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Band (± pts)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={settings.driftBand}
+                    onChange={(e) => update({ driftBand: parseFloat(e.target.value) || 0 })}
+                    className="w-20 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+                  />
+                </div>
+                <button
+                  onClick={handleLoadHoldings}
+                  disabled={loading}
+                  className="px-4 py-2 bg-teal-600 hover:bg-teal-700 disabled:bg-slate-300 text-white rounded-lg text-sm font-semibold flex items-center gap-1"
+                >
+                  {loading ? <Loader className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  {holdings ? 'Refresh Holdings' : 'Compare with Holdings'}
+                </button>
+              </div>
+            </div>
+            {holdingsError && <p className="text-xs text-amber-700 mb-3">{holdingsError}</p>}
+            {holdings && openHoldings.length === 0 && (
+              <p className="text-sm text-slate-500">No holdings yet. Add them in the Portfolio Tracker.</p>
+            )}
+
+            {drift && openHoldings.length > 0 && (
+              <>
+                <p className={`text-sm mb-3 ${drift.needsRebalance ? 'text-amber-700' : 'text-emerald-700'}`}>
+                  {drift.needsRebalance
+                    ? `Outside the ±${settings.driftBand} point band: rebalancing sells ${formatCurrency(drift.turnover)} of ${formatCurrency(drift.totalValue)}.`
+                    : `Every asset class is within ±${settings.driftBand} points of the target.`}
+                </p>
+                <div className="overflow-x-auto mb-4">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-slate-200 text-slate-600">
+                        <th className="py-2 pr-3 text-left font-semibold">Asset Class</th>
+                        <th className="py-2 px-3 text-right font-semibold">Current</th>
+                        <th className="py-2 px-3 text-right font-semibold">Target</th>
+                        <th className="py-2 px-3 text-right font-semibold">Drift</th>
+                        <th className="py-2 pl-3 text-right font-semibold">Trade</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {drift.rows.map((row) => (
+                        <tr key={row.assetClassId} className={`border-b border-slate-100 ${row.outsideBand ? 'bg-amber-50' : ''}`}>
+                          <td className="py-2 pr-3 text-slate-900">{row.name}</td>
+                          <td className="py-2 px-3 text-right text-slate-900">
+                            {row.currentWeight.toFixed(1)}%
+                            <span className="block text-xs text-slate-500">{formatCurrency(row.currentValue)}</span>
+                          </td>
+                          <td className="py-2 px-3 text-right text-slate-900">{row.targetWeight.toFixed(1)}%</td>
+                          <td className={`py-2 px-3 text-right font-semibold ${row.outsideBand ? 'text-amber-700' : 'text-slate-600'}`}>
+                            {row.drift > 0 ? '+' : ''}{row.drift.toFixed(1)} pts
+                          </td>
+                          <td className={`py-2 pl-3 text-right ${row.trade >= 0 ? 'text-emerald-700' : 'text-red-600'}`}>
+                            {Math.abs(row.trade) < 1 ? '—' : `${row.trade > 0 ? 'Buy' : 'Sell'} ${formatCurrency(Math.abs(row.trade))}`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-slate-700 font-medium">Holdings by asset class</summary>
+                  <div className="mt-2 divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                    {openHoldings.map((position) => {
+                      const key = `${position.assetClass}:${position.symbol}`;
+                      return (
+                        <div key={key} className="flex items-center gap-3 px-3 py-2">
+                          <span className="flex-1 font-medium text-slate-900">{position.symbol}</span>
+                          <span className="text-slate-600">{formatCurrency(position.marketValue)}</span>
+                          <select
+                            value={holdingAssetClass(assumptions, settings, position) ?? ''}
+                            onChange={(e) => update({ holdingClasses: { ...settings.holdingClasses, [key]: e.target.value } })}
+                            className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm"
+                          >
+                            <option value="">Not in the model</option>
+                            {assumptions.assetClasses.map((assetClass) => (
+                              <option key={assetClass.id} value={assetClass.id}>{assetClass.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {drift.unmodeled.length > 0 && (
+                    <p className="text-xs text-slate-500 mt-2">
+                      Left out of the drift: {drift.unmodeled.map((item) => `${item.symbol} (${formatCurrency(item.value)})`).join(', ')}
+                    </p>
+                  )}
+                </details>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
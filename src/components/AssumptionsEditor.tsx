@@ -0,0 +1,415 @@
+/**
+ * Assumptions Editor Component
+ * Edits the capital-market assumptions and portfolio presets the simulator runs against
+ * Features:
+ * - Expected return and volatility per asset class; add, rename and remove classes
+ * - Correlation matrix with a consistency check
+ * - Named presets blending asset classes by weight, with a live return and volatility preview
+ * - Built-in presets are read-only but can be saved as a copy
+ */
+import { useState, useEffect } from 'react';
+import { SlidersHorizontal, Plus, Trash2, X, AlertCircle, CheckCircle, RotateCcw } from 'lucide-react';
+import {
+  getAssumptions,
+  subscribeToAssumptions,
+  getCorrelation,
+  createAssetClass,
+  saveMarketAssumptions,
+  resetAssumptions,
+  savePreset,
+  deletePreset,
+  blendPreset,
+  validatePresetWeights,
+  isValidCorrelationMatrix,
+  AssetClassAssumption,
+  AssumptionPreset,
+  CapitalMarketAssumptions,
+} from '../services/assumptions';
+import { getErrorMessage } from '../services/api';
+
+interface AssumptionsEditorProps {
+  onClose?: () => void;
+}
+
+interface PresetDraft {
+  id?: string; // Unset for a new preset
+  name: string;
+  description: string;
+  weights: Record<string, number>;
+  builtIn?: boolean;
+}
+
+const toDraft = (preset: AssumptionPreset): PresetDraft => ({
+  id: preset.id,
+  name: preset.name,
+  description: preset.description,
+  weights: { ...preset.weights },
+  builtIn: preset.builtIn,
+});
+
+const inputClass =
+  'px-2 py-1.5 border border-slate-300 rounded-md text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function AssumptionsEditor({ onClose }: AssumptionsEditorProps) {
+  const [assumptions, setAssumptions] = useState<CapitalMarketAssumptions>(getAssumptions);
+  const [assetClasses, setAssetClasses] = useState<AssetClassAssumption[]>(assumptions.assetClasses);
+  const [correlations, setCorrelations] = useState(assumptions.correlations);
+  const [preset, setPreset] = useState<PresetDraft>(() => toDraft(assumptions.presets[0]));
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => subscribeToAssumptions(setAssumptions), []);
+
+  const marketChanged =
+    JSON.stringify(assetClasses) !== JSON.stringify(assumptions.assetClasses) ||
+    JSON.stringify(correlations) !== JSON.stringify(assumptions.correlations);
+  const matrixValid = isValidCorrelationMatrix({ assetClasses, correlations });
+
+  const report = (action: () => void, success: string) => {
+    try {
+      action();
+      setError(null);
+      setNotice(success);
+    } catch (err) {
+      setNotice(null);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const updateAssetClass = (id: string, changes: Partial<AssetClassAssumption>) => {
+    setAssetClasses((current) => current.map((assetClass) => (assetClass.id === id ? { ...assetClass, ...changes } : assetClass)));
+  };
+
+  const updateCorrelation = (a: string, b: string, value: number) => {
+    setCorrelations((current) => ({
+      ...current,
+      [a]: { ...current[a], [b]: value },
+      [b]: { ...current[b], [a]: value },
+    }));
+  };
+
+  const handleSaveMarket = () =>
+    report(() => saveMarketAssumptions(assetClasses, correlations), 'Asset class assumptions saved');
+
+  const handleDiscardMarket = () => {
+    setAssetClasses(assumptions.assetClasses);
+    setCorrelations(assumptions.correlations);
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Restore the default asset classes and correlations? Custom presets are kept.')) return;
+    report(() => {
+      resetAssumptions();
+      const restored = getAssumptions();
+      setAssetClasses(restored.assetClasses);
+      setCorrelations(restored.correlations);
+    }, 'Default assumptions restored');
+  };
+
+  const handleSelectPreset = (id: string) => {
+    const selected = assumptions.presets.find((item) => item.id === id);
+    if (selected) setPreset(toDraft(selected));
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleSavePreset = (asNew: boolean) =>
+    report(() => {
+      const saved = savePreset({
+        id: asNew ? undefined : preset.id,
+        name: asNew && preset.builtIn ? `${preset.name} (copy)` : preset.name,
+        description: preset.description,
+        weights: preset.weights,
+      });
+      setPreset(toDraft(saved));
+    }, asNew ? 'Preset saved as new' : 'Preset saved');
+
+  const handleDeletePreset = () => {
+    if (!preset.id || !window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    report(() => {
+      deletePreset(preset.id as string);
+      setPreset(toDraft(getAssumptions().presets[0]));
+    }, 'Preset deleted');
+  };
+
+  // Preview against the assumptions being edited, so changes show up before they are saved
+  const weightError = validatePresetWeights(preset.weights, assetClasses);
+  const blended = weightError
+    ? null
+    : blendPreset({ assetClasses, correlations, presets: [] }, { ...preset, id: preset.id || 'draft' });
+  const totalWeight = Object.values(preset.weights).reduce((sum, weight) => sum + (weight || 0), 0);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-slate-600" />
+          <h3 className="text-lg font-semibold text-slate-900">Capital-Market Assumptions</h3>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close assumptions editor">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 p-3 bg-emerald-50 border border-emerald-200 rounded-lg flex items-start gap-2 text-sm text-emerald-800">
+          <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          {notice}
+        </div>
+      )}
+
+      {/* Asset Classes */}
+      <h4 className="text-sm font-semibold text-slate-700 mb-2">Asset Classes</h4>
+      <div className="overflow-x-auto mb-3">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-200">
+              <th className="text-left py-2 px-2 text-slate-600 font-semibold">Name</th>
+              <th className="text-right py-2 px-2 text-slate-600 font-semibold">Expected Return (%)</th>
+              <th className="text-right py-2 px-2 text-slate-600 font-semibold">Volatility (%)</th>
+              <th className="py-2 px-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {assetClasses.map((assetClass) => (
+              <tr key={assetClass.id} className="border-b border-slate-100">
+                <td className="py-1.5 px-2">
+                  <input
+                    type="text"
+                    value={assetClass.name}
+                    onChange={(e) => updateAssetClass(assetClass.id, { name: e.target.value })}
+                    className={`${inputClass} w-full`}
+                  />
+                </td>
+                <td className="py-1.5 px-2 text-right">
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={Math.round(assetClass.expectedReturn * 10000) / 100}
+                    onChange={(e) => updateAssetClass(assetClass.id, { expectedReturn: (parseFloat(e.target.value) || 0) / 100 })}
+                    className={`${inputClass} w-24 text-right`}
+                  />
+                </td>
+                <td className="py-1.5 px-2 text-right">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={Math.round(assetClass.volatility * 10000) / 100}
+                    onChange={(e) => updateAssetClass(assetClass.id, { volatility: (parseFloat(e.target.value) || 0) / 100 })}
+                    className={`${inputClass} w-24 text-right`}
+                  />
+                </td>
+                <td className="py-1.5 px-2 text-right">
+                  <button
+                    onClick={() => setAssetClasses((current) => current.filter((item) => item.id !== assetClass.id))}
+                    className="text-slate-400 hover:text-red-600"
+                    aria-label={`Remove ${assetClass.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        onClick={() => setAssetClasses((current) => [...current, createAssetClass(`Asset Class ${current.length + 1}`)])}
+        className="mb-5 flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-800"
+      >
+        <Plus className="w-4 h-4" />
+        Add asset class
+      </button>
+
+      {/* Correlations */}
+      <h4 className="text-sm font-semibold text-slate-700 mb-2">Correlations</h4>
+      <div className="overflow-x-auto mb-2">
+        <table className="text-sm">
+          <thead>
+            <tr>
+              <th className="py-1 px-2" />
+              {assetClasses.map((assetClass) => (
+                <th key={assetClass.id} className="py-1 px-2 text-center text-xs text-slate-600 font-semibold">{assetClass.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {assetClasses.map((row, rowIndex) => (
+              <tr key={row.id}>
+                <th className="py-1 px-2 text-left text-xs text-slate-600 font-semibold whitespace-nowrap">{row.name}</th>
+                {assetClasses.map((column, columnIndex) => {
+                  const value = getCorrelation({ correlations }, row.id, column.id);
+                  return (
+                    <td key={column.id} className="py-1 px-1 text-center">
+                      {columnIndex > rowIndex ? (
+                        <input
+                          type="number"
+                          min="-1"
+                          max="1"
+                          step="0.05"
+                          value={value}
+                          onChange={(e) => updateCorrelation(row.id, column.id, parseFloat(e.target.value) || 0)}
+                          className={`${inputClass} w-20 text-center`}
+                        />
+                      ) : (
+                        <span className="text-slate-400">{value.toFixed(2)}</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!matrixValid && (
+        <p className="text-xs text-red-600 mb-2">
+          These correlations contradict each other (e.g. A and B move together, B and C move together, but A and C move apart). Adjust them before saving.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button
+          onClick={handleSaveMarket}
+          disabled={!marketChanged || !matrixValid}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white rounded-lg text-sm font-semibold transition-colors"
+        >
+          Save assumptions
+        </button>
+        <button
+          onClick={handleDiscardMarket}
+          disabled={!marketChanged}
+          className="px-4 py-2 bg-slate-100 hover:bg-slate-200 disabled:text-slate-400 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          Discard changes
+        </button>
+        <button
+          onClick={handleReset}
+          className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Restore defaults
+        </button>
+      </div>
+
+      {/* Presets */}
+      <h4 className="text-sm font-semibold text-slate-700 mb-2">Portfolio Presets</h4>
+      <div className="flex flex-wrap gap-2 mb-3">
+        <select
+          value={preset.id || ''}
+          onChange={(e) => handleSelectPreset(e.target.value)}
+          className={inputClass}
+        >
+          {!preset.id && <option value="">New preset</option>}
+          {assumptions.presets.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}{item.builtIn ? ' (built-in)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setPreset({ name: 'My Portfolio', description: '', weights: {} })}
+          className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-md text-sm font-medium transition-colors flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          New
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+        <input
+          type="text"
+          value={preset.name}
+          onChange={(e) => setPreset({ ...preset, name: e.target.value })}
+          disabled={preset.builtIn}
+          placeholder="Preset name"
+          className={`${inputClass} disabled:bg-slate-100`}
+        />
+        <input
+          type="text"
+          value={preset.description}
+          onChange={(e) => setPreset({ ...preset, description: e.target.value })}
+          disabled={preset.builtIn}
+          placeholder="Description"
+          className={`${inputClass} disabled:bg-slate-100`}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-3">
+        {assetClasses.map((assetClass) => (
+          <label key={assetClass.id} className="flex items-center justify-between gap-2 text-sm text-slate-700 bg-slate-50 rounded-md px-2 py-1">
+            <span className="truncate">{assetClass.name}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={preset.weights[assetClass.id] || 0}
+                onChange={(e) =>
+                  setPreset({ ...preset, weights: { ...preset.weights, [assetClass.id]: parseFloat(e.target.value) || 0 } })
+                }
+                className={`${inputClass} w-20 text-right`}
+              />
+              %
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3 text-sm">
+        <span className={Math.abs(totalWeight - 100) < 0.01 ? 'text-emerald-600 font-semibold' : 'text-red-600 font-semibold'}>
+          Total {totalWeight.toFixed(1)}%
+        </span>
+        {blended ? (
+          <span className="text-slate-700">
+            Expected return <strong>{(blended.annualReturn * 100).toFixed(2)}%</strong> · volatility{' '}
+            <strong>{(blended.volatility * 100).toFixed(2)}%</strong>
+          </span>
+        ) : (
+          <span className="text-slate-500">{weightError}</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => handleSavePreset(false)}
+          disabled={preset.builtIn || !!weightError}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white rounded-lg text-sm font-semibold transition-colors"
+        >
+          Save preset
+        </button>
+        <button
+          onClick={() => handleSavePreset(true)}
+          disabled={!!weightError}
+          className="px-4 py-2 bg-slate-100 hover:bg-slate-200 disabled:text-slate-400 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          Save as new
+        </button>
+        {preset.id && !preset.builtIn && (
+          <button
+            onClick={handleDeletePreset}
+            className="px-4 py-2 bg-red-50 hover:bg-red-100 text-red-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      {marketChanged && (
+        <p className="text-xs text-amber-600 mt-2">Save the asset class assumptions before saving presets that use new asset classes.</p>
+      )}
+    </div>
+  );
+}
@@ -9,12 +9,29 @@
  */
 import { useState } from 'react';
 import { LineChart, Line, BarChart, Bar, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { FileText, Download, Loader, TrendingUp, AlertCircle, BarChart3 } from 'lucide-react';
+import { FileText, Download, Loader, TrendingUp, AlertCircle, BarChart3, Briefcase } from 'lucide-react';
 import { generateFinancialReport, FinancialReport } from '../services/aiService';
 import { fetchTopCryptocurrencies } from '../services/cryptoApi';
-import { fetchStockTimeSeries } from '../services/stockApi';
+import { getStockTimeSeries } from '../services/marketData';
+import {
+  getTransactions,
+  computePositions,
+  fetchPortfolioQuotes,
+  fetchPortfolioHistories,
+  valuePositions,
+  summarizePortfolio,
+  computePortfolioReturns,
+} from '../services/portfolio';
+import { getErrorMessage } from '../services/api';
 import jsPDF from 'jspdf';
 
+interface PortfolioPerformance {
+  since: string;
+  timeWeightedReturn: number | null; // Percent
+  moneyWeightedReturn: number | null; // Percent, annualized
+  modifiedDietzReturn: number | null; // Percent
+}
+
 interface ReportData {
   stocks?: any[];
   crypto?: any[];
@@ -22,6 +39,7 @@ interface ReportData {
     assets: number;
     liabilities: number;
     netWorth: number;
+    performance?: PortfolioPerformance;
   };
   clientName?: string;
 }
@@ -39,6 +57,47 @@ export default function AutomatedFinancialReports() {
     liabilities: 50000,
     netWorth: 200000,
   });
+  const [loadingPortfolio, setLoadingPortfolio] = useState(false);
+  const [portfolioPerformance, setPortfolioPerformance] = useState<PortfolioPerformance | null>(null);
+
+  /**
+   * Fill total assets from the tracked portfolio's current market value, with
+   * returns from daily price history between cash flows
+   */
+  const handleUseTrackedPortfolio = async () => {
+    setLoadingPortfolio(true);
+    setError(null);
+
+    try {
+      const transactions = getTransactions();
+      const { positions } = computePositions(transactions);
+      const [{ quotes }, { histories, errors }] = await Promise.all([
+        fetchPortfolioQuotes(positions),
+        fetchPortfolioHistories(transactions),
+      ]);
+      const { marketValue } = summarizePortfolio(valuePositions(positions, quotes), []);
+      const assets = Math.round(marketValue);
+      setPortfolioData({ ...portfolioData, assets, netWorth: assets - portfolioData.liabilities });
+
+      const returns = computePortfolioReturns(transactions, histories, marketValue, new Date().toISOString().split('T')[0]);
+      const toPercent = (value: number | null) => (value === null ? null : Math.round(value * 10000) / 100);
+      setPortfolioPerformance(
+        returns && {
+          since: transactions[0].date,
+          timeWeightedReturn: toPercent(returns.timeWeighted),
+          moneyWeightedReturn: toPercent(returns.moneyWeighted),
+          modifiedDietzReturn: toPercent(returns.modifiedDietz),
+        }
+      );
+      if (errors.length > 0) {
+        setError(`Price history unavailable for ${errors.join('; ')}; returns value those holdings at their last trade price`);
+      }
+    } catch (error) {
+      setError(getErrorMessage(error));
+    } finally {
+      setLoadingPortfolio(false);
+    }
+  };
 
   /**
    * Generate financial report
@@ -50,13 +109,13 @@ export default function AutomatedFinancialReports() {
     try {
       const reportData: ReportData = {
         clientName: clientName || 'Client',
-        portfolio: portfolioData,
+        portfolio: { ...portfolioData, ...(portfolioPerformance && { performance: portfolioPerformance }) },
       };
 
       // Fetch stock data if enabled
       if (includeStocks && stockSymbol) {
         try {
-          const stockData = await fetchStockTimeSeries(stockSymbol, 'compact');
+          const { data: stockData } = await getStockTimeSeries(stockSymbol, 'compact');
           reportData.stocks = stockData.slice(-30).map((item) => ({
             date: item.date,
             price: item.close,
@@ -241,7 +300,18 @@ export default function AutomatedFinancialReports() {
 
                 {/* Portfolio Data */}
                 <div>
-                  <h3 className="text-lg font-semibold text-slate-900 mb-4">Portfolio Information</h3>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-slate-900">Portfolio Information</h3>
+                    <button
+                      onClick={handleUseTrackedPortfolio}
+                      disabled={loadingPortfolio || getTransactions().length === 0}
+                      className="px-3 py-1.5 text-sm bg-indigo-100 hover:bg-indigo-200 text-indigo-700 font-medium rounded-lg flex items-center gap-2 disabled:opacity-50"
+                      title="Use the market value of your tracked portfolio as total assets"
+                    >
+                      {loadingPortfolio ? <Loader className="w-4 h-4 animate-spin" /> : <Briefcase className="w-4 h-4" />}
+                      Use tracked portfolio
+                    </button>
+                  </div>
                   <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-medium text-slate-700 mb-2">Total Assets ($)</label>
@@ -276,6 +346,14 @@ export default function AutomatedFinancialReports() {
                         step="1000"
                       />
                     </div>
+                    {portfolioPerformance && (
+                      <div className="p-3 bg-indigo-50 rounded-lg text-sm text-slate-700 space-y-1">
+                        <p className="font-medium text-slate-900">Tracked portfolio since {portfolioPerformance.since}</p>
+                        <p>Time-weighted return: {portfolioPerformance.timeWeightedReturn ?? '-'}%</p>
+                        <p>Money-weighted return (XIRR, annual): {portfolioPerformance.moneyWeightedReturn ?? '-'}%</p>
+                        <p>Modified Dietz return: {portfolioPerformance.modifiedDietzReturn ?? '-'}%</p>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -0,0 +1,525 @@
+/**
+ * Backtester Component
+ * Replays an allocation strategy over historical prices instead of assumed returns
+ * Features:
+ * - Preset portfolios (60/40, three-fund, all equity) and custom weights
+ * - Periodic or threshold rebalancing, monthly contributions, expense ratio and trading costs
+ * - CAGR, money-weighted return, volatility, Sharpe, Sortino and max drawdown
+ * - Growth, drawdown, rolling return and calendar-year return charts
+ */
+import { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { History, Plus, X, Loader, AlertCircle, Play } from 'lucide-react';
+import { getStockSeries } from '../services/marketData';
+import { getErrorMessage } from '../services/api';
+import { PricePoint } from '../services/comparison';
+import {
+  runBacktest,
+  rollingReturns,
+  validateAllocations,
+  BacktestAllocation,
+  BacktestResult,
+  RebalanceFrequency,
+  RebalanceRule,
+  REBALANCE_FREQUENCY_LABELS,
+} from '../services/backtest';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
+
+type RebalanceType = RebalanceRule['type'];
+
+const PRESETS: Array<{ name: string; allocations: BacktestAllocation[] }> = [
+  { name: '60/40', allocations: [{ symbol: 'SPY', weight: 60 }, { symbol: 'AGG', weight: 40 }] },
+  {
+    name: 'Three-Fund',
+    allocations: [
+      { symbol: 'VTI', weight: 50 },
+      { symbol: 'VXUS', weight: 30 },
+      { symbol: 'BND', weight: 20 },
+    ],
+  },
+  { name: 'All Equity', allocations: [{ symbol: 'SPY', weight: 100 }] },
+  { name: 'AAPL/MSFT', allocations: [{ symbol: 'AAPL', weight: 50 }, { symbol: 'MSFT', weight: 50 }] },
+];
+
+const ROLLING_WINDOWS = [12, 36, 60];
+
+// Charts get at most this many points; longer series are thinned evenly
+const MAX_CHART_POINTS = 400;
+
+const thin = <T,>(items: T[]): T[] => {
+  if (items.length <= MAX_CHART_POINTS) return items;
+  const step = Math.ceil(items.length / MAX_CHART_POINTS);
+  return items.filter((_, index) => index % step === 0 || index === items.length - 1);
+};
+
+export default function Backtester() {
+  const [allocations, setAllocations] = useState<BacktestAllocation[]>(PRESETS[0].allocations);
+  const [initialAmount, setInitialAmount] = useState<number>(10000);
+  const [monthlyContribution, setMonthlyContribution] = useState<number>(500);
+  const [rebalanceType, setRebalanceType] = useState<RebalanceType>('periodic');
+  const [frequency, setFrequency] = useState<RebalanceFrequency>('annually');
+  const [band, setBand] = useState<number>(5);
+  const [expenseRatio, setExpenseRatio] = useState<number>(0.1);
+  const [tradingCost, setTradingCost] = useState<number>(0.05);
+  const [riskFreeRate, setRiskFreeRate] = useState<number>(2);
+  const [startDate, setStartDate] = useState<string>('');
+  const [endDate, setEndDate] = useState<string>('');
+  const [rollingWindow, setRollingWindow] = useState<number>(12);
+  const [prices, setPrices] = useState<Record<string, PricePoint[]>>({});
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalWeight = allocations.reduce((sum, allocation) => sum + (allocation.weight || 0), 0);
+
+  const updateAllocation = (index: number, changes: Partial<BacktestAllocation>) => {
+    setAllocations((current) => current.map((allocation, i) => (i === index ? { ...allocation, ...changes } : allocation)));
+  };
+
+  const buildRebalanceRule = (): RebalanceRule => {
+    if (rebalanceType === 'periodic') return { type: 'periodic', frequency };
+    if (rebalanceType === 'threshold') return { type: 'threshold', band };
+    return { type: 'none' };
+  };
+
+  /**
+   * Load any missing price histories, then run the backtest
+   */
+  const handleRun = async () => {
+    const cleaned = allocations.map((allocation) => ({
+      symbol: allocation.symbol.trim().toUpperCase(),
+      weight: allocation.weight,
+    }));
+    const validation = validateAllocations(cleaned);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const loaded = { ...prices };
+      // One symbol at a time keeps within the providers' per-minute quotas
+      for (const { symbol } of cleaned) {
+        if (loaded[symbol]) continue;
+        const response = await getStockSeries(symbol, 'daily', 'full');
+        loaded[symbol] = response.data.map((bar) => ({ date: bar.date, close: bar.adjustedClose ?? bar.close }));
+      }
+      setPrices(loaded);
+      setAllocations(cleaned);
+
+      setResult(
+        runBacktest(
+          {
+            allocations: cleaned,
+            initialAmount,
+            monthlyContribution,
+            rebalance: buildRebalanceRule(),
+            expenseRatio,
+            tradingCost,
+            riskFreeRate,
+            startDate: startDate || undefined,
+            endDate: endDate || undefined,
+          },
+          loaded
+        )
+      );
+    } catch (err) {
+      setError(getErrorMessage(err) || 'Failed to run the backtest');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+  const formatPercent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(2)}%`);
+
+  const formatRatio = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+  const formatDate = (dateString: string) =>
+    new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+  const rolling = result ? thin(rollingReturns(result.points, rollingWindow)) : [];
+  const chartPoints = result ? thin(result.points) : [];
+
+  const tooltipStyle = {
+    backgroundColor: '#fff',
+    border: '1px solid #e2e8f0',
+    borderRadius: '8px',
+    padding: '8px',
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-4">
+        <div className="bg-indigo-100 p-3 rounded-lg">
+          <History className="w-6 h-6 text-indigo-600" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Historical Backtest</h2>
+          <p className="text-sm text-slate-600">Test an allocation strategy against real price history</p>
+        </div>
+      </div>
+
+      {/* API Budget */}
+      <div className="mb-6">
+        <ApiBudgetIndicator providers={['alphaVantage', 'fmp']} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Allocation */}
+        <div className="bg-slate-50 rounded-lg p-4">
+          <h3 className="text-lg font-semibold text-slate-900 mb-3">Allocation</h3>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.name}
+                onClick={() => setAllocations(preset.allocations)}
+                className="px-3 py-1.5 rounded-md text-sm font-semibold bg-white border border-slate-200 text-slate-700 hover:bg-indigo-50 hover:border-indigo-300 transition-colors"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-2">
+            {allocations.map((allocation, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={allocation.symbol}
+                  onChange={(e) => updateAllocation(index, { symbol: e.target.value.toUpperCase() })}
+                  placeholder="Ticker"
+                  className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={allocation.weight}
+                  onChange={(e) => updateAllocation(index, { weight: parseFloat(e.target.value) || 0 })}
+                  className="w-24 px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 text-right focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <span className="text-sm text-slate-500">%</span>
+                <button
+                  onClick={() => setAllocations((current) => current.filter((_, i) => i !== index))}
+                  className="text-slate-400 hover:text-red-600"
+                  aria-label={`Remove ${allocation.symbol || 'asset'}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between mt-3">
+            <button
+              onClick={() => setAllocations((current) => [...current, { symbol: '', weight: 0 }])}
+              className="flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:text-indigo-800"
+            >
+              <Plus className="w-4 h-4" />
+              Add asset
+            </button>
+            <span className={`text-sm font-semibold ${Math.abs(totalWeight - 100) < 0.01 ? 'text-emerald-600' : 'text-red-600'}`}>
+              Total {totalWeight.toFixed(1)}%
+            </span>
+          </div>
+        </div>
+
+        {/* Strategy */}
+        <div className="bg-slate-50 rounded-lg p-4">
+          <h3 className="text-lg font-semibold text-slate-900 mb-3">Strategy</h3>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <label className="flex flex-col gap-1 text-slate-700">
+              Initial amount ($)
+              <input
+                type="number"
+                min="0"
+                value={initialAmount}
+                onChange={(e) => setInitialAmount(parseFloat(e.target.value) || 0)}
+                className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-700">
+              Monthly contribution ($)
+              <input
+                type="number"
+                min="0"
+                value={monthlyContribution}
+                onChange={(e) => setMonthlyContribution(parseFloat(e.target.value) || 0)}
+                className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-700">
+              Rebalancing
+              <select
+                value={rebalanceType}
+                onChange={(e) => setRebalanceType(e.target.value as RebalanceType)}
+                className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="periodic">Periodic</option>
+                <option value="threshold">Threshold</option>
+                <option value="none">Never (buy and hold)</option>
+              </select>
+            </label>
+            {rebalanceType === 'periodic' && (
+              <label className="flex flex-col gap-1 text-slate-700">
+                Frequency
+                <select
+                  value={frequency}
+                  onChange={(e) => setFrequency(e.target.value as RebalanceFrequency)}
+                  className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {(Object.keys(REBALANCE_FREQUENCY_LABELS) as RebalanceFrequency[]).map((option) => (
+                    <option key={option} value={option}>{REBALANCE_FREQUENCY_LABELS[option]}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {rebalanceType === 'threshold' && (
+              <label className="flex flex-col gap-1 text-slate-700">
+                Drift band (± pts)
+                <input
+                  type="number"
+                  min="0.5"
+                  step="0.5"
+                  value={band}
+                  onChange={(e) => setBand(parseFloat(e.target.value) || 0)}
+                  className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+            )}
+            {rebalanceType === 'none' && <div />}
+            <label className="flex flex-col gap-1 text-slate-700">
+              Expense ratio (%/yr)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={expenseRatio}
+                onChange={(e) => setExpenseRatio(parseFloat(e.target.value) || 0)}
+                className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-700">
+              Trading cost (% of trade)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={tradingCost}
+                onChange={(e) => setTradingCost(parseFloat(e.target.value) || 0)}
+                className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-700">
+              Risk-free rate (%/yr)
+              <input
+                type="number"
+                step="0.1"
+                value={riskFreeRate}
+                onChange={(e) => setRiskFreeRate(parseFloat(e.target.value) || 0)}
+                className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <div />
+            <label className="flex flex-col gap-1 text-slate-700">
+              Start date
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-700">
+              End date
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={handleRun}
+        disabled={loading}
+        className="mb-6 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-semibold rounded-lg transition-colors flex items-center gap-2"
+      >
+        {loading ? <Loader className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
+        {loading ? 'Loading price history...' : 'Run Backtest'}
+      </button>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-semibold text-red-900">Error</p>
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {!result && !loading && !error && (
+        <p className="text-center text-slate-500 py-12">
+          Pick a preset or enter your own weights, then run the backtest on daily adjusted prices.
+        </p>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          {/* Metrics */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Final Value', value: formatCurrency(result.metrics.finalValue), detail: `${formatCurrency(result.metrics.totalContributed)} contributed` },
+              { label: 'CAGR', value: formatPercent(result.metrics.cagr), detail: `${formatPercent(result.metrics.totalReturn)} total, time-weighted` },
+              { label: 'Money-Weighted', value: formatPercent(result.metrics.moneyWeightedReturn), detail: 'Annualized, with contributions' },
+              { label: 'Volatility', value: formatPercent(result.metrics.volatility), detail: 'Annualized' },
+              { label: 'Sharpe Ratio', value: formatRatio(result.metrics.sharpeRatio), detail: `Risk-free ${riskFreeRate}%` },
+              { label: 'Sortino Ratio', value: formatRatio(result.metrics.sortinoRatio), detail: 'Downside deviation only' },
+              {
+                label: 'Max Drawdown',
+                value: formatPercent(result.metrics.maxDrawdown),
+                detail: `${formatDate(result.metrics.maxDrawdownPeak)} to ${formatDate(result.metrics.maxDrawdownTrough)}`,
+              },
+              {
+                label: 'Costs',
+                value: formatCurrency(result.metrics.expenses + result.metrics.tradingCosts),
+                detail: `${result.metrics.rebalances} rebalances`,
+              },
+            ].map((card) => (
+              <div key={card.label} className="bg-slate-50 rounded-lg p-4">
+                <p className="text-xs text-slate-500">{card.label}</p>
+                <p className="text-xl font-bold text-slate-900">{card.value}</p>
+                <p className="text-xs text-slate-500">{card.detail}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            {result.metrics.startDate} to {result.metrics.endDate} ({result.metrics.years.toFixed(1)} years,{' '}
+            {result.metrics.tradingDays} common trading days)
+          </p>
+
+          {/* Growth */}
+          <div className="bg-slate-50 rounded-lg p-4">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Portfolio Value</h3>
+            <ResponsiveContainer width="100%" height={320}>
+              <LineChart data={chartPoints}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="date" tickFormatter={formatDate} stroke="#64748b" style={{ fontSize: '12px' }} />
+                <YAxis tickFormatter={(value) => `$${(Number(value) / 1000).toFixed(0)}k`} stroke="#64748b" style={{ fontSize: '12px' }} />
+                <Tooltip
+                  formatter={(value) => formatCurrency(Number(value))}
+                  labelFormatter={(label) => String(label)}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend />
+                <Line type="monotone" dataKey="value" name="Portfolio" stroke="#4f46e5" strokeWidth={2} dot={false} />
+                <Line type="stepAfter" dataKey="contributed" name="Contributed" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Drawdown */}
+          <div className="bg-slate-50 rounded-lg p-4">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Drawdown</h3>
+            <ResponsiveContainer width="100%" height={200}>
+              <AreaChart data={chartPoints}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="date" tickFormatter={formatDate} stroke="#64748b" style={{ fontSize: '12px' }} />
+                <YAxis tickFormatter={(value) => `${(Number(value) * 100).toFixed(0)}%`} stroke="#64748b" style={{ fontSize: '12px' }} />
+                <Tooltip formatter={(value) => formatPercent(Number(value))} contentStyle={tooltipStyle} />
+                <Area type="monotone" dataKey="drawdown" name="Drawdown" stroke="#ef4444" fill="#fecaca" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Rolling Returns */}
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-slate-900">Rolling Returns</h3>
+              <div className="flex gap-1 bg-slate-100 rounded-lg p-1">
+                {ROLLING_WINDOWS.map((months) => (
+                  <button
+                    key={months}
+                    onClick={() => setRollingWindow(months)}
+                    className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                      rollingWindow === months ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-white'
+                    }`}
+                  >
+                    {months / 12}Y
+                  </button>
+                ))}
+              </div>
+            </div>
+            {rolling.length === 0 ? (
+              <p className="text-center text-slate-500 py-8">The backtest is shorter than the {rollingWindow / 12}-year window.</p>
+            ) : (
+              <>
+                <ResponsiveContainer width="100%" height={240}>
+                  <LineChart data={rolling}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="date" tickFormatter={formatDate} stroke="#64748b" style={{ fontSize: '12px' }} />
+                    <YAxis tickFormatter={(value) => `${(Number(value) * 100).toFixed(0)}%`} stroke="#64748b" style={{ fontSize: '12px' }} />
+                    <Tooltip formatter={(value) => formatPercent(Number(value))} contentStyle={tooltipStyle} />
+                    <ReferenceLine y={0} stroke="#94a3b8" strokeDasharray="3 3" />
+                    <Line type="monotone" dataKey="return" name={`${rollingWindow / 12}Y return`} stroke="#10b981" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+                {rollingWindow > 12 && <p className="text-xs text-slate-500 mt-2">Annualized</p>}
+              </>
+            )}
+          </div>
+
+          {/* Calendar-Year Returns */}
+          {result.yearlyReturns.length > 0 && (
+            <div className="bg-slate-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-slate-900 mb-4">Calendar-Year Returns</h3>
+              <ResponsiveContainer width="100%" height={220}>
+                <BarChart data={result.yearlyReturns.map((item) => ({ ...item, label: item.partial ? `${item.year}*` : String(item.year) }))}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="label" stroke="#64748b" style={{ fontSize: '12px' }} />
+                  <YAxis tickFormatter={(value) => `${(Number(value) * 100).toFixed(0)}%`} stroke="#64748b" style={{ fontSize: '12px' }} />
+                  <Tooltip formatter={(value) => formatPercent(Number(value))} contentStyle={tooltipStyle} />
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  <Bar dataKey="return" name="Return">
+                    {result.yearlyReturns.map((item) => (
+                      <Cell key={item.year} fill={item.return >= 0 ? '#10b981' : '#ef4444'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+              {result.yearlyReturns.some((item) => item.partial) && (
+                <p className="text-xs text-slate-500 mt-2">* Partial year</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,6 @@
 import { useState } from 'react';
 import { Building2, Search, Loader, AlertCircle, TrendingUp, DollarSign, BarChart3 } from 'lucide-react';
 import {
-  fetchCompanyProfile,
   fetchIncomeStatement,
   fetchBalanceSheet,
   fetchCashFlow,
@@ -21,6 +20,8 @@ import {
   CashFlow,
   KeyMetrics,
 } from '../services/financialApi';
+import { getCompanyProfile } from '../services/marketData';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
 
 export default function CompanyFinancialPanel() {
   const [symbol, setSymbol] = useState<string>('AAPL');
@@ -28,6 +29,7 @@ export default function CompanyFinancialPanel() {
   const [error, setError] = useState<string | null>(null);
   
   const [profile, setProfile] = useState<CompanyProfile | null>(null);
+  const [profileSource, setProfileSource] = useState<string | null>(null);
   const [incomeStatement, setIncomeStatement] = useState<IncomeStatement[]>([]);
   const [balanceSheet, setBalanceSheet] = useState<BalanceSheet[]>([]);
   const [cashFlow, setCashFlow] = useState<CashFlow[]>([]);
@@ -45,6 +47,7 @@ export default function CompanyFinancialPanel() {
     setLoading(true);
     setError(null);
     setProfile(null);
+    setProfileSource(null);
     setIncomeStatement([]);
     setBalanceSheet([]);
     setCashFlow([]);
@@ -52,20 +55,21 @@ export default function CompanyFinancialPanel() {
 
     try {
       // Fetch all data in parallel for better performance
-      const [profileData, incomeData, balanceData, cashData, metricsData] = await Promise.all([
-        fetchCompanyProfile(symbol.trim()),
+      const [profileResult, incomeData, balanceData, cashData, metricsData] = await Promise.all([
+        getCompanyProfile(symbol.trim()),
         fetchIncomeStatement(symbol.trim()),
         fetchBalanceSheet(symbol.trim()),
         fetchCashFlow(symbol.trim()),
         fetchKeyMetrics(symbol.trim()),
       ]);
 
-      if (!profileData) {
+      if (!profileResult.data) {
         setError('Company not found. Please check the ticker symbol.');
         return;
       }
 
-      setProfile(profileData);
+      setProfile(profileResult.data);
+      setProfileSource(profileResult.sourceName);
       setIncomeStatement(incomeData);
       setBalanceSheet(balanceData);
       setCashFlow(cashData);
@@ -98,7 +102,7 @@ export default function CompanyFinancialPanel() {
   return (
     <div className="bg-white rounded-xl shadow-lg p-6">
       {/* Header */}
-      <div className="flex items-center gap-3 mb-6">
+      <div className="flex items-center gap-3 mb-4">
         <div className="bg-emerald-100 p-3 rounded-lg">
           <Building2 className="w-6 h-6 text-emerald-600" />
         </div>
@@ -108,6 +112,11 @@ export default function CompanyFinancialPanel() {
         </div>
       </div>
 
+      {/* API Budget */}
+      <div className="mb-6">
+        <ApiBudgetIndicator providers={['fmp', 'alphaVantage']} />
+      </div>
+
       {/* Search Bar */}
       <div className="mb-6">
         <div className="flex gap-3">
@@ -179,6 +188,9 @@ export default function CompanyFinancialPanel() {
                   <p className="font-semibold text-slate-900">{formatCurrency(profile.marketCap)}</p>
                 </div>
               </div>
+              {profileSource && (
+                <p className="text-xs text-slate-500 mt-4">Profile source: {profileSource}</p>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,375 @@
+/**
+ * Comparison Chart Component
+ * Compares stocks and cryptocurrencies side by side on one normalized chart
+ * Features:
+ * - Add several stock tickers and CoinGecko crypto IDs
+ * - Performance rebased to 100 at a chosen start date
+ * - Correlation matrix of daily returns
+ * - Relative performance table (return, volatility, drawdown vs benchmark)
+ */
+import { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { GitCompare, Plus, X, Loader, AlertCircle } from 'lucide-react';
+import { getStockSeries } from '../services/marketData';
+import { fetchCryptoHistory } from '../services/cryptoApi';
+import { getErrorMessage } from '../services/api';
+import {
+  alignSeries,
+  correlationMatrix,
+  performanceStats,
+  ComparisonAssetKind,
+  ComparisonSeries,
+} from '../services/comparison';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
+
+type StartPreset = '1M' | '3M' | '6M' | 'YTD' | '1Y' | 'Max' | 'custom';
+
+const START_PRESETS: Array<{ id: StartPreset; days?: number }> = [
+  { id: '1M', days: 31 },
+  { id: '3M', days: 92 },
+  { id: '6M', days: 183 },
+  { id: 'YTD' },
+  { id: '1Y', days: 366 },
+  { id: 'Max' },
+];
+
+const SERIES_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#ef4444', '#84cc16'];
+
+// CoinGecko's public API serves at most one year of daily history
+const CRYPTO_HISTORY_DAYS = 365;
+
+/**
+ * Resolve a start preset to a date, relative to the latest common date
+ */
+const resolveStartDate = (preset: StartPreset, customStart: string, lastDate: string | undefined) => {
+  if (preset === 'custom') return customStart;
+  if (!lastDate || preset === 'Max') return '';
+  if (preset === 'YTD') return `${lastDate.slice(0, 4)}-01-01`;
+
+  const days = START_PRESETS.find((item) => item.id === preset)?.days || 0;
+  const start = new Date(`${lastDate}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - days);
+  return start.toISOString().split('T')[0];
+};
+
+/**
+ * Background color for a correlation cell (blue positive, red negative)
+ */
+const correlationColor = (value: number) => {
+  if (Number.isNaN(value)) return 'transparent';
+  const alpha = Math.min(Math.abs(value), 1) * 0.6;
+  return value >= 0 ? `rgba(59, 130, 246, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+};
+
+export default function ComparisonChart() {
+  const [input, setInput] = useState<string>('');
+  const [kind, setKind] = useState<ComparisonAssetKind>('stock');
+  const [series, setSeries] = useState<ComparisonSeries[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [startPreset, setStartPreset] = useState<StartPreset>('1Y');
+  const [customStart, setCustomStart] = useState<string>('');
+
+  /**
+   * Load a stock or crypto history and add it to the comparison
+   */
+  const handleAdd = async () => {
+    const raw = input.trim();
+    if (!raw) return;
+
+    const id = kind === 'stock' ? raw.toUpperCase() : raw.toLowerCase();
+    if (series.some((item) => item.id === id)) {
+      setError(`${id} is already in the comparison`);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const points = kind === 'stock'
+        ? (await getStockSeries(id, 'daily', 'full')).data.map((bar) => ({
+            date: bar.date,
+            close: bar.adjustedClose ?? bar.close,
+          }))
+        : (await fetchCryptoHistory(id, CRYPTO_HISTORY_DAYS)).map((point) => ({
+            date: point.date,
+            close: point.price,
+          }));
+
+      if (points.length === 0) {
+        setError(`No price history found for ${id}`);
+        return;
+      }
+
+      setSeries((current) => [...current, { id, label: id, kind, points }]);
+      setInput('');
+    } catch (err) {
+      setError(getErrorMessage(err) || 'Failed to load price history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    setSeries((current) => current.filter((item) => item.id !== id));
+  };
+
+  // Latest date every series shares anchors the start presets
+  const lastCommonDate = useMemo(() => {
+    const { dates } = alignSeries(series, '');
+    return dates[dates.length - 1];
+  }, [series]);
+
+  const startDate = resolveStartDate(startPreset, customStart, lastCommonDate);
+  const aligned = useMemo(() => alignSeries(series, startDate), [series, startDate]);
+  const correlations = useMemo(() => correlationMatrix(aligned), [aligned]);
+  const stats = useMemo(() => performanceStats(series, aligned), [series, aligned]);
+
+  const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+  const formatDate = (dateString: string) =>
+    new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-4">
+        <div className="bg-indigo-100 p-3 rounded-lg">
+          <GitCompare className="w-6 h-6 text-indigo-600" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Performance Comparison</h2>
+          <p className="text-sm text-slate-600">Compare stocks and cryptocurrencies rebased to 100</p>
+        </div>
+      </div>
+
+      {/* API Budget */}
+      <div className="mb-6">
+        <ApiBudgetIndicator providers={['alphaVantage', 'fmp', 'coinGecko']} />
+      </div>
+
+      {/* Add Asset */}
+      <div className="mb-4 flex flex-wrap gap-3">
+        <div className="flex gap-1 bg-slate-100 rounded-lg p-1">
+          {(['stock', 'crypto'] as ComparisonAssetKind[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setKind(option)}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                kind === option ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-white'
+              }`}
+            >
+              {option === 'stock' ? 'Stock' : 'Crypto'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={kind === 'stock' ? 'Ticker (e.g., AAPL)' : 'CoinGecko ID (e.g., bitcoin)'}
+          className="flex-1 min-w-[200px] px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-slate-900"
+          disabled={loading}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={loading || !input.trim()}
+          className="px-5 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-semibold rounded-lg transition-colors flex items-center gap-2"
+        >
+          {loading ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Add
+        </button>
+      </div>
+
+      {/* Selected Assets */}
+      {series.length > 0 && (
+        <div className="mb-4 flex flex-wrap gap-2">
+          {series.map((item, index) => (
+            <span
+              key={item.id}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-100 text-sm text-slate-700"
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }} />
+              <span className="font-semibold">{item.label}</span>
+              <span className="text-xs text-slate-400">{index === 0 ? 'benchmark' : item.kind}</span>
+              <button
+                onClick={() => handleRemove(item.id)}
+                className="text-slate-400 hover:text-red-600"
+                aria-label={`Remove ${item.label}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Start Date Controls */}
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <div className="flex flex-wrap gap-1 bg-slate-100 rounded-lg p-1">
+          {START_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => setStartPreset(preset.id)}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                startPreset === preset.id ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-white'
+              }`}
+            >
+              {preset.id}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          Rebase from
+          <input
+            type="date"
+            value={startPreset === 'custom' ? customStart : aligned.dates[0] || ''}
+            onChange={(e) => {
+              setCustomStart(e.target.value);
+              setStartPreset('custom');
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-semibold text-red-900">Error</p>
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {series.length === 0 && !loading && (
+        <p className="text-center text-slate-500 py-12">Add two or more tickers or crypto IDs to compare their performance.</p>
+      )}
+
+      {series.length > 0 && aligned.rows.length === 0 && !loading && (
+        <p className="text-center text-slate-500 py-12">The selected assets have no common trading dates after the start date.</p>
+      )}
+
+      {aligned.rows.length > 0 && (
+        <div className="space-y-4">
+          {/* Normalized Chart */}
+          <div className="bg-slate-50 rounded-lg p-4">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Normalized Performance (Start = 100)</h3>
+            <ResponsiveContainer width="100%" height={400}>
+              <LineChart data={aligned.rows}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="date" tickFormatter={formatDate} stroke="#64748b" style={{ fontSize: '12px' }} />
+                <YAxis domain={['auto', 'auto']} stroke="#64748b" style={{ fontSize: '12px' }} />
+                <Tooltip
+                  formatter={(value) => Number(value).toFixed(2)}
+                  labelFormatter={(label) => `Date: ${formatDate(String(label))}`}
+                  contentStyle={{
+                    backgroundColor: '#fff',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '8px',
+                    padding: '8px',
+                  }}
+                />
+                <Legend />
+                <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="3 3" />
+                {series.map((item, index) => (
+                  <Line
+                    key={item.id}
+                    type="monotone"
+                    dataKey={item.id}
+                    name={item.label}
+                    stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Relative Performance */}
+          <div className="bg-slate-50 rounded-lg p-4">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Relative Performance</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="text-left py-2 px-3 text-slate-600 font-semibold">Asset</th>
+                    <th className="text-right py-2 px-3 text-slate-600 font-semibold">Start</th>
+                    <th className="text-right py-2 px-3 text-slate-600 font-semibold">End</th>
+                    <th className="text-right py-2 px-3 text-slate-600 font-semibold">Total Return</th>
+                    <th className="text-right py-2 px-3 text-slate-600 font-semibold">Annualized</th>
+                    <th className="text-right py-2 px-3 text-slate-600 font-semibold">Volatility</th>
+                    <th className="text-right py-2 px-3 text-slate-600 font-semibold">Max Drawdown</th>
+                    <th className="text-right py-2 px-3 text-slate-600 font-semibold">vs {series[0].label}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.map((item) => (
+                    <tr key={item.id} className="border-b border-slate-100 hover:bg-white transition-colors">
+                      <td className="py-2 px-3 font-semibold text-slate-900">{item.label}</td>
+                      <td className="py-2 px-3 text-right text-slate-700">{item.startPrice.toLocaleString('en-US', { maximumFractionDigits: 2 })}</td>
+                      <td className="py-2 px-3 text-right text-slate-700">{item.endPrice.toLocaleString('en-US', { maximumFractionDigits: 2 })}</td>
+                      <td className={`py-2 px-3 text-right font-semibold ${item.totalReturn >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                        {formatPercent(item.totalReturn)}
+                      </td>
+                      <td className="py-2 px-3 text-right text-slate-700">{formatPercent(item.annualizedReturn)}</td>
+                      <td className="py-2 px-3 text-right text-slate-700">{item.annualizedVolatility.toFixed(2)}%</td>
+                      <td className="py-2 px-3 text-right text-red-600">{item.maxDrawdown.toFixed(2)}%</td>
+                      <td className={`py-2 px-3 text-right ${item.relativeToBenchmark >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                        {item.id === series[0].id ? '-' : `${formatPercent(item.relativeToBenchmark).replace('%', '')} pts`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Correlation Matrix */}
+          {series.length > 1 && (
+            <div className="bg-slate-50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-slate-900 mb-1">Correlation of Daily Returns</h3>
+              <p className="text-xs text-slate-500 mb-4">{aligned.dates.length} common trading days</p>
+              <div className="overflow-x-auto">
+                <table className="text-sm">
+                  <thead>
+                    <tr>
+                      <th className="py-2 px-3" />
+                      {series.map((item) => (
+                        <th key={item.id} className="py-2 px-3 text-center text-slate-600 font-semibold">{item.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {series.map((rowItem) => (
+                      <tr key={rowItem.id}>
+                        <th className="py-2 px-3 text-left text-slate-600 font-semibold">{rowItem.label}</th>
+                        {series.map((columnItem) => {
+                          const value = correlations[rowItem.id]?.[columnItem.id] ?? NaN;
+                          return (
+                            <td
+                              key={columnItem.id}
+                              className="py-2 px-3 text-center text-slate-900 font-medium"
+                              style={{ backgroundColor: correlationColor(value) }}
+                            >
+                              {Number.isNaN(value) ? '-' : value.toFixed(2)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
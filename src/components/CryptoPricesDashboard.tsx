@@ -2,14 +2,18 @@
  * Crypto Prices Dashboard Component
  * Displays top cryptocurrencies with real-time prices
  * Features:
- * - Top 10 cryptocurrencies by market cap
+ * - Top 10 cryptocurrencies by market cap, or the coins in a saved watchlist
  * - Price, 24h change, and market cap
  * - Responsive table layout
  * - Auto-refresh capability
  */
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Coins, RefreshCw, TrendingUp, TrendingDown, Loader, AlertCircle } from 'lucide-react';
-import { fetchTopCryptocurrencies, Cryptocurrency } from '../services/cryptoApi';
+import { fetchTopCryptocurrencies, fetchCryptocurrencies, Cryptocurrency } from '../services/cryptoApi';
+import { getWatchlists, subscribeToWatchlists, Watchlist } from '../services/watchlists';
+import { subscribeToRevalidation } from '../services/api';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
+import AddToWatchlistButton from './AddToWatchlistButton';
 
 export default function CryptoPricesDashboard() {
   const [cryptos, setCryptos] = useState<Cryptocurrency[]>([]);
@@ -17,16 +21,29 @@ export default function CryptoPricesDashboard() {
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [autoRefresh, setAutoRefresh] = useState<boolean>(false);
+  const [source, setSource] = useState<string>('top'); // 'top' or a watchlist ID
+  const [watchlists, setWatchlists] = useState<Watchlist[]>(getWatchlists);
+
+  useEffect(() => subscribeToWatchlists(setWatchlists), []);
+
+  // Watchlists that contain at least one cryptocurrency
+  const cryptoWatchlists = watchlists.filter((list) => list.items.some((item) => item.kind === 'crypto'));
+  const activeWatchlist = cryptoWatchlists.find((list) => list.id === source) || null;
+  const watchlistIds = activeWatchlist
+    ? activeWatchlist.items.filter((item) => item.kind === 'crypto').map((item) => item.id).join(',')
+    : '';
 
   /**
    * Fetch cryptocurrency data
    */
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const data = await fetchTopCryptocurrencies(10);
+      const data = watchlistIds
+        ? await fetchCryptocurrencies(watchlistIds.split(','))
+        : await fetchTopCryptocurrencies(10);
       setCryptos(data);
       setLastUpdated(new Date());
     } catch (err: any) {
@@ -34,14 +51,25 @@ export default function CryptoPricesDashboard() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [watchlistIds]);
 
   /**
-   * Initial data fetch
+   * Fetch on mount and whenever the selected list changes
    */
   useEffect(() => {
     fetchData();
-  }, []);
+  }, [fetchData]);
+
+  /**
+   * Reload when a stale CoinGecko response was served and has since been refreshed
+   */
+  useEffect(
+    () =>
+      subscribeToRevalidation((key) => {
+        if (key.includes('coingecko.com')) fetchData();
+      }),
+    [fetchData]
+  );
 
   /**
    * Auto-refresh every 60 seconds if enabled
@@ -54,7 +82,7 @@ export default function CryptoPricesDashboard() {
 
       return () => clearInterval(interval);
     }
-  }, [autoRefresh]);
+  }, [autoRefresh, fetchData]);
 
   /**
    * Format currency for display
@@ -82,14 +110,16 @@ export default function CryptoPricesDashboard() {
   return (
     <div className="bg-white rounded-xl shadow-lg p-6">
       {/* Header */}
-      <div className="flex items-center justify-between mb-6">
+      <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-3">
           <div className="bg-orange-100 p-3 rounded-lg">
             <Coins className="w-6 h-6 text-orange-600" />
           </div>
           <div>
             <h2 className="text-2xl font-bold text-slate-900">Crypto Prices Dashboard</h2>
-            <p className="text-sm text-slate-600">Top 10 cryptocurrencies by market cap</p>
+            <p className="text-sm text-slate-600">
+              {activeWatchlist ? `Watchlist: ${activeWatchlist.name}` : 'Top 10 cryptocurrencies by market cap'}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-3">
@@ -109,8 +139,25 @@ export default function CryptoPricesDashboard() {
         </div>
       </div>
 
-      {/* Auto-refresh Toggle */}
-      <div className="mb-4 flex items-center gap-2">
+      {/* API Budget */}
+      <div className="mb-4">
+        <ApiBudgetIndicator providers={['coinGecko']} />
+      </div>
+
+      {/* List Selector & Auto-refresh Toggle */}
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <select
+          value={activeWatchlist ? source : 'top'}
+          onChange={(e) => setSource(e.target.value)}
+          className="px-3 py-1.5 mr-4 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-orange-500"
+        >
+          <option value="top">Top 10 by market cap</option>
+          {cryptoWatchlists.map((list) => (
+            <option key={list.id} value={list.id}>
+              Watchlist: {list.name}
+            </option>
+          ))}
+        </select>
         <input
           type="checkbox"
           id="autoRefresh"
@@ -154,6 +201,7 @@ export default function CryptoPricesDashboard() {
                 <th className="text-right py-3 px-4 text-sm font-semibold text-slate-700">24h Change</th>
                 <th className="text-right py-3 px-4 text-sm font-semibold text-slate-700">Market Cap</th>
                 <th className="text-right py-3 px-4 text-sm font-semibold text-slate-700">Volume (24h)</th>
+                <th className="py-3 px-4" />
               </tr>
             </thead>
             <tbody>
@@ -210,6 +258,9 @@ export default function CryptoPricesDashboard() {
                       {formatCurrency(crypto.total_volume)}
                     </p>
                   </td>
+                  <td className="py-4 px-4 text-right">
+                    <AddToWatchlistButton kind="crypto" itemId={crypto.id} />
+                  </td>
                 </tr>
               ))}
             </tbody>
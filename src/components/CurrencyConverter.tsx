@@ -10,6 +10,7 @@
 import { useState, useEffect } from 'react';
 import { RefreshCw, ArrowLeftRight, Loader, AlertCircle } from 'lucide-react';
 import { fetchExchangeRate, getSupportedCurrencies, ExchangeRate } from '../services/currencyApi';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
 
 export default function CurrencyConverter() {
   const [fromCurrency, setFromCurrency] = useState<string>('USD');
@@ -101,7 +102,7 @@ export default function CurrencyConverter() {
   return (
     <div className="bg-white rounded-xl shadow-lg p-6">
       {/* Header */}
-      <div className="flex items-center gap-3 mb-6">
+      <div className="flex items-center gap-3 mb-4">
         <div className="bg-purple-100 p-3 rounded-lg">
           <RefreshCw className="w-6 h-6 text-purple-600" />
         </div>
@@ -111,6 +112,11 @@ export default function CurrencyConverter() {
         </div>
       </div>
 
+      {/* API Budget */}
+      <div className="mb-6">
+        <ApiBudgetIndicator providers={['exchangeRate']} />
+      </div>
+
       {/* Conversion Form */}
       <div className="space-y-6">
         {/* From Currency */}
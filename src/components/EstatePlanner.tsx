@@ -0,0 +1,364 @@
+/**
+ * Estate Planner Component
+ * Projects the estate at death and compares planning strategies
+ * Features:
+ * - Asset list with ownership, beneficiary and growth; the portfolio follows the wealth projection,
+ *   split by value today when it is held in several rows
+ * - Federal exclusion with portability to a surviving spouse
+ * - Annual exclusion gifting, credit shelter trust and irrevocable life insurance trust
+ * - Estimated estate tax and net to heirs for each strategy, with the best one recommended
+ */
+import { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Landmark, Plus, Trash2, Award } from 'lucide-react';
+import {
+  DEFAULT_GROWTH_RATES,
+  ESTATE_ASSET_KIND_LABELS,
+  ESTATE_BENEFICIARY_LABELS,
+  ESTATE_OWNERSHIP_LABELS,
+  analyzeEstate,
+  createEstateAsset,
+  portfolioShares,
+  EstateAnalysis,
+  EstateAsset,
+  EstateAssetKind,
+  EstateBeneficiary,
+  EstateOwnership,
+  EstatePlan,
+} from '../services/estate';
+import { getErrorMessage } from '../services/api';
+
+interface EstatePlannerProps {
+  plan: EstatePlan;
+  onChange: (plan: EstatePlan) => void;
+  taxYear: number;
+  age: number;
+  deathAge: number; // Life expectancy of the plan holder
+  projectedPortfolio: number; // At death, today's dollars
+  portfolioReturn: number; // Real, decimal
+}
+
+const inputClassName =
+  'w-full px-2 py-1.5 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900 text-sm';
+
+const SPOUSE_OWNERSHIPS: EstateOwnership[] = ['joint', 'spouse'];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+export default function EstatePlanner({ plan, onChange, taxYear, age, deathAge, projectedPortfolio, portfolioReturn }: EstatePlannerProps) {
+  const { analysis, error } = useMemo((): { analysis: EstateAnalysis | null; error: string | null } => {
+    try {
+      return {
+        analysis: analyzeEstate({ plan, taxYear, yearsUntilDeath: deathAge - age, projectedPortfolio, portfolioReturn }),
+        error: null,
+      };
+    } catch (err) {
+      return { analysis: null, error: getErrorMessage(err) };
+    }
+  }, [plan, taxYear, age, deathAge, projectedPortfolio, portfolioReturn]);
+
+  const update = (changes: Partial<EstatePlan>) => onChange({ ...plan, ...changes });
+
+  const updateAsset = (id: string, changes: Partial<EstateAsset>) =>
+    update({ assets: plan.assets.map((asset) => (asset.id === id ? { ...asset, ...changes } : asset)) });
+
+  const shares = portfolioShares(plan.assets);
+  const splitPortfolio = Object.keys(shares).length > 1;
+
+  const ownershipOptions = (Object.keys(ESTATE_OWNERSHIP_LABELS) as EstateOwnership[]).filter(
+    (ownership) => plan.married || !SPOUSE_OWNERSHIPS.includes(ownership)
+  );
+  const beneficiaryOptions = (Object.keys(ESTATE_BENEFICIARY_LABELS) as EstateBeneficiary[]).filter(
+    (beneficiary) => plan.married || beneficiary !== 'spouse'
+  );
+  const baseline = analysis?.outcomes.find((outcome) => outcome.strategy.id === 'none');
+  const best = analysis?.best;
+  const chartData = analysis?.outcomes.map((outcome) => ({
+    name: outcome.strategy.label,
+    heirs: outcome.netToHeirs,
+    tax: outcome.totalTax,
+    charity: outcome.toCharity,
+  })) ?? [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-bold text-slate-900 mb-1 flex items-center gap-2">
+        <Landmark className="w-5 h-5 text-teal-600" />
+        Estate Planning
+      </h2>
+      <p className="text-sm text-slate-600 mb-4">
+        Federal estate tax at age {deathAge} in today's dollars
+        {analysis && `, with the ${taxYear} exclusion of ${formatCurrency(analysis.exclusion)} per person`}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <label className="flex items-center gap-2 text-sm text-slate-700 self-end pb-2">
+          <input
+            type="checkbox"
+            checked={plan.married}
+            onChange={(e) => update({ married: e.target.checked })}
+            className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500"
+          />
+          Married
+        </label>
+        {plan.married && (
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Spouse outlives by (years)</label>
+            <input
+              type="number"
+              min="0"
+              value={plan.survivorYears}
+              onChange={(e) => update({ survivorYears: parseFloat(e.target.value) || 0 })}
+              className={inputClassName}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Gift recipients</label>
+          <input
+            type="number"
+            min="0"
+            value={plan.donees}
+            onChange={(e) => update({ donees: parseFloat(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Gift per recipient ($/yr)</label>
+          <input
+            type="number"
+            min="0"
+            step="1000"
+            value={plan.annualGiftPerDonee}
+            onChange={(e) => update({ annualGiftPerDonee: parseFloat(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+          {analysis && (
+            <p className="text-xs text-slate-500 mt-1">
+              {formatCurrency(analysis.annualGiftExclusion)} tax-free{plan.married ? ' from each spouse' : ''}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 text-slate-600 text-xs">
+              <th className="py-2 pr-2 text-left font-semibold">Asset</th>
+              <th className="py-2 px-2 text-left font-semibold">Owner</th>
+              <th className="py-2 px-2 text-left font-semibold">Passes To</th>
+              <th className="py-2 px-2 text-left font-semibold">Value Today ($)</th>
+              <th className="py-2 px-2 text-left font-semibold">Real Growth (%)</th>
+              <th className="py-2 pl-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.assets.map((asset) => (
+              <tr key={asset.id} className="border-b border-slate-100">
+                <td className="py-1.5 pr-2 min-w-[10rem]">
+                  <input
+                    type="text"
+                    value={asset.name}
+                    onChange={(e) => updateAsset(asset.id, { name: e.target.value })}
+                    className={inputClassName}
+                  />
+                  {asset.kind === 'portfolio' ? (
+                    <p className="text-xs text-slate-500 mt-1">{ESTATE_ASSET_KIND_LABELS.portfolio}</p>
+                  ) : (
+                    <select
+                      value={asset.kind}
+                      onChange={(e) => {
+                        const kind = e.target.value as EstateAssetKind;
+                        updateAsset(asset.id, { kind, growthRate: DEFAULT_GROWTH_RATES[kind] });
+                      }}
+                      className={`${inputClassName} mt-1`}
+                    >
+                      {(Object.keys(ESTATE_ASSET_KIND_LABELS) as EstateAssetKind[]).map((kind) => (
+                        <option key={kind} value={kind}>{ESTATE_ASSET_KIND_LABELS[kind]}</option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+                <td className="py-1.5 px-2">
+                  <select
+                    value={ownershipOptions.includes(asset.ownership) ? asset.ownership : 'individual'}
+                    onChange={(e) => updateAsset(asset.id, { ownership: e.target.value as EstateOwnership })}
+                    className={inputClassName}
+                  >
+                    {ownershipOptions.map((ownership) => (
+                      <option key={ownership} value={ownership}>{ESTATE_OWNERSHIP_LABELS[ownership]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-1.5 px-2">
+                  {asset.ownership === 'joint' && plan.married ? (
+                    <p className="text-xs text-slate-500">Spouse, by survivorship</p>
+                  ) : (
+                    <select
+                      value={beneficiaryOptions.includes(asset.beneficiary) ? asset.beneficiary : 'heirs'}
+                      onChange={(e) => updateAsset(asset.id, { beneficiary: e.target.value as EstateBeneficiary })}
+                      className={inputClassName}
+                    >
+                      {beneficiaryOptions.map((beneficiary) => (
+                        <option key={beneficiary} value={beneficiary}>{ESTATE_BENEFICIARY_LABELS[beneficiary]}</option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+                <td className="py-1.5 px-2">
+                  {asset.kind === 'portfolio' && !splitPortfolio ? (
+                    <p className="text-xs text-slate-600">{formatCurrency(projectedPortfolio)} at {deathAge}, projected</p>
+                  ) : (
+                    <>
+                      <input
+                        type="number"
+                        min="0"
+                        step="10000"
+                        value={asset.value}
+                        onChange={(e) => updateAsset(asset.id, { value: parseFloat(e.target.value) || 0 })}
+                        className={inputClassName}
+                      />
+                      {asset.kind === 'portfolio' && (
+                        <p className="text-xs text-slate-600 mt-1">
+                          {formatCurrency(projectedPortfolio * shares[asset.id])} at {deathAge}, projected
+                        </p>
+                      )}
+                    </>
+                  )}
+                </td>
+                <td className="py-1.5 px-2">
+                  {asset.kind !== 'portfolio' && (
+                    <input
+                      type="number"
+                      step="0.5"
+                      value={asset.growthRate}
+                      onChange={(e) => updateAsset(asset.id, { growthRate: parseFloat(e.target.value) || 0 })}
+                      className={inputClassName}
+                    />
+                  )}
+                </td>
+                <td className="py-1.5 pl-2 text-right">
+                  {(asset.kind !== 'portfolio' || splitPortfolio) && (
+                    <button
+                      onClick={() => update({ assets: plan.assets.filter((item) => item.id !== asset.id) })}
+                      className="p-1.5 text-slate-500 hover:text-red-600"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() => update({ assets: [...plan.assets, createEstateAsset()] })}
+          className="mt-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-semibold flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add Asset
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {analysis && best && baseline && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Estate at {deathAge}</p>
+              <p className="text-lg font-bold text-slate-900">{formatCurrency(baseline.grossEstate)}</p>
+              <p className="text-xs text-slate-500">In your estate, before deductions</p>
+            </div>
+            {plan.married && (
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Spouse's Estate</p>
+                <p className="text-lg font-bold text-slate-900">{formatCurrency(baseline.survivorEstate)}</p>
+                <p className="text-xs text-slate-500">{plan.survivorYears} years later, no planning</p>
+              </div>
+            )}
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Tax Without Planning</p>
+              <p className="text-lg font-bold text-slate-900">{formatCurrency(baseline.totalTax)}</p>
+            </div>
+            <div className="p-3 bg-emerald-50 rounded-lg">
+              <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Best Net to Heirs</p>
+              <p className="text-lg font-bold text-emerald-700">{formatCurrency(best.netToHeirs)}</p>
+              <p className="text-xs text-slate-500">{best.strategy.label}</p>
+            </div>
+          </div>
+
+          <div className="p-4 bg-teal-50 border-l-4 border-teal-600 rounded-lg mb-6">
+            <p className="font-semibold text-slate-900 flex items-center gap-2 mb-1">
+              <Award className="w-4 h-4 text-teal-600" />
+              {best.totalTax === 0 && baseline.totalTax === 0
+                ? 'No federal estate tax is expected'
+                : `Recommended: ${best.strategy.label}`}
+            </p>
+            <p className="text-sm text-slate-700">
+              {best.totalTax === 0 && baseline.totalTax === 0
+                ? `The projected estate stays under the exclusion${plan.married ? ' at both deaths' : ''}. Keep beneficiary designations current and check state estate tax.`
+                : `${best.strategy.description}. Heirs receive ${formatCurrency(best.netToHeirs - baseline.netToHeirs)} more than with no planning, with ${formatCurrency(best.totalTax)} of estate tax.`}
+            </p>
+          </div>
+
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-slate-600">
+                  <th className="py-2 pr-3 text-left font-semibold">Strategy</th>
+                  <th className="py-2 px-3 text-right font-semibold">Estate Tax</th>
+                  <th className="py-2 px-3 text-right font-semibold">Gifts & Trusts</th>
+                  <th className="py-2 pl-3 text-right font-semibold">Net to Heirs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.outcomes.map((outcome) => (
+                  <tr
+                    key={outcome.strategy.id}
+                    className={`border-b border-slate-100 ${outcome === best ? 'bg-teal-50' : ''}`}
+                  >
+                    <td className="py-2 pr-3">
+                      <p className={`text-slate-900 ${outcome === best ? 'font-semibold' : ''}`}>{outcome.strategy.label}</p>
+                      <p className="text-xs text-slate-500">{outcome.strategy.description}</p>
+                    </td>
+                    <td className="py-2 px-3 text-right text-slate-900">
+                      {formatCurrency(outcome.totalTax)}
+                      {plan.married && outcome.totalTax > 0 && (
+                        <span className="block text-xs text-slate-500">
+                          {formatCurrency(outcome.firstDeathTax)} + {formatCurrency(outcome.secondDeathTax)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-right text-slate-900">{formatCurrency(outcome.gifts + outcome.inTrust)}</td>
+                    <td className="py-2 pl-3 text-right font-semibold text-slate-900">{formatCurrency(outcome.netToHeirs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+              <YAxis tickFormatter={(value) => `$${(value / 1000000).toFixed(1)}M`} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Legend />
+              <Bar dataKey="heirs" stackId="estate" fill="#10b981" name="Net to heirs" />
+              <Bar dataKey="charity" stackId="estate" fill="#8b5cf6" name="Charity" />
+              <Bar dataKey="tax" stackId="estate" fill="#ef4444" name="Estate tax" />
+            </BarChart>
+          </ResponsiveContainer>
+          <p className="text-xs text-slate-500 mt-3">
+            Amounts reaching the heirs are grown to the last death so strategies compare at the same date. State estate
+            and inheritance taxes and income tax on inherited retirement accounts are not included.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -4,11 +4,17 @@
  * Features: Sticky navigation, responsive design, brand color palette
  */
 import { useState } from 'react';
-import { MessageSquare, BarChart3, Home, TrendingUp, Building2, Target, Calculator, FileText, PieChart, Shield, Sparkles, Coins, RefreshCw, Menu, X, Info } from 'lucide-react';
+import { MessageSquare, BarChart3, Home, TrendingUp, Building2, Target, Calculator, FileText, PieChart, Shield, Sparkles, Coins, RefreshCw, Menu, X, Info, GitCompare, ListChecks, Bell, Briefcase, History } from 'lucide-react';
 import FinancialChat from './FinancialChat';
 import FinancialAssessment from './FinancialAssessment';
 import InvestmentScenarioSimulator from './InvestmentScenarioSimulator';
+import Backtester from './Backtester';
 import StockPriceChart from './StockPriceChart';
+import ComparisonChart from './ComparisonChart';
+import WatchlistView from './WatchlistView';
+import PriceAlerts from './PriceAlerts';
+import PortfolioTracker from './PortfolioTracker';
+import AlertNotifier from './AlertNotifier';
 import CompanyFinancialPanel from './CompanyFinancialPanel';
 import CurrencyConverter from './CurrencyConverter';
 import CryptoPricesDashboard from './CryptoPricesDashboard';
@@ -17,8 +23,9 @@ import SmartBudgetPlanner from './SmartBudgetPlanner';
 import AutomatedFinancialReports from './AutomatedFinancialReports';
 import WealthManagementTools from './WealthManagementTools';
 import AboutValunetics from './AboutValunetics';
+import { readSharedScenario } from '../services/scenarios';
 
-type View = 'home' | 'chat' | 'assessment' | 'simulator' | 'stocks' | 'company' | 'currency' | 'crypto' | 'goals' | 'budget' | 'reports' | 'wealth' | 'about';
+type View = 'home' | 'chat' | 'assessment' | 'simulator' | 'backtest' | 'stocks' | 'compare' | 'watchlists' | 'alerts' | 'portfolio' | 'company' | 'currency' | 'crypto' | 'goals' | 'budget' | 'reports' | 'wealth' | 'about';
 
 interface Feature {
   id: string;
@@ -29,7 +36,8 @@ interface Feature {
 }
 
 export default function FinancialHub() {
-  const [view, setView] = useState<View>('home');
+  // A shared scenario link opens its calculator directly
+  const [view, setView] = useState<View>(() => readSharedScenario()?.tool ?? 'home');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const features: Feature[] = [
@@ -54,6 +62,13 @@ export default function FinancialHub() {
       description: 'Retirement planning, tax optimization, and estate planning',
       category: 'planning'
     },
+    {
+      id: 'portfolio',
+      icon: <Briefcase className="w-5 h-5" />,
+      title: 'Portfolio Tracker',
+      description: 'Track holdings, cost basis, P&L and allocation',
+      category: 'planning'
+    },
     {
       id: 'assessment',
       icon: <BarChart3 className="w-5 h-5" />,
@@ -75,6 +90,13 @@ export default function FinancialHub() {
       description: 'Project investment outcomes with multiple risk scenarios',
       category: 'analysis'
     },
+    {
+      id: 'backtest',
+      icon: <History className="w-5 h-5" />,
+      title: 'Historical Backtest',
+      description: 'Test allocation and rebalancing strategies on real price history',
+      category: 'analysis'
+    },
     {
       id: 'stocks',
       icon: <TrendingUp className="w-5 h-5" />,
@@ -82,6 +104,27 @@ export default function FinancialHub() {
       description: 'Real-time stock data with historical price trends',
       category: 'data'
     },
+    {
+      id: 'compare',
+      icon: <GitCompare className="w-5 h-5" />,
+      title: 'Performance Comparison',
+      description: 'Compare stocks and crypto side by side, rebased to 100',
+      category: 'data'
+    },
+    {
+      id: 'watchlists',
+      icon: <ListChecks className="w-5 h-5" />,
+      title: 'Watchlists',
+      description: 'Saved lists of stocks and crypto with live quotes',
+      category: 'data'
+    },
+    {
+      id: 'alerts',
+      icon: <Bell className="w-5 h-5" />,
+      title: 'Price Alerts',
+      description: 'Get notified when prices cross your thresholds',
+      category: 'tools'
+    },
     {
       id: 'company',
       icon: <Building2 className="w-5 h-5" />,
@@ -124,7 +167,12 @@ export default function FinancialHub() {
       'chat': 'chat',
       'assessment': 'assessment',
       'simulator': 'simulator',
+      'backtest': 'backtest',
       'stocks': 'stocks',
+      'compare': 'compare',
+      'watchlists': 'watchlists',
+      'alerts': 'alerts',
+      'portfolio': 'portfolio',
       'company': 'company',
       'currency': 'currency',
       'crypto': 'crypto',
@@ -165,8 +213,18 @@ export default function FinancialHub() {
         return <FinancialAssessment />;
       case 'simulator':
         return <InvestmentScenarioSimulator />;
+      case 'backtest':
+        return <Backtester />;
       case 'stocks':
         return <StockPriceChart />;
+      case 'compare':
+        return <ComparisonChart />;
+      case 'watchlists':
+        return <WatchlistView />;
+      case 'alerts':
+        return <PriceAlerts />;
+      case 'portfolio':
+        return <PortfolioTracker />;
       case 'company':
         return <CompanyFinancialPanel />;
       case 'currency':
@@ -399,6 +457,9 @@ export default function FinancialHub() {
       <div className="flex-1">
         {renderView()}
       </div>
+
+      {/* Price Alert Toasts */}
+      <AlertNotifier />
     </div>
   );
 }
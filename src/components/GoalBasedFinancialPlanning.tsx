@@ -6,11 +6,14 @@
  * - AI-powered financial plan generation
  * - Progress visualization with Recharts
  * - PDF export functionality
+ * - Saved, compared and shareable input scenarios
  */
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { AreaChart, Area, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Target, ChevronRight, ChevronLeft, Download, Loader, CheckCircle, TrendingUp } from 'lucide-react';
 import { generateFinancialPlan, FinancialPlanRequest, FinancialPlan, MonthlyPlan } from '../services/aiService';
+import { clearSharedScenario, restoreInputs, saveDraft, ScenarioOutput } from '../services/scenarios';
+import ScenarioManager from './ScenarioManager';
 import jsPDF from 'jspdf';
 
 type GoalType = 'retirement' | 'home' | 'education' | 'wealth';
@@ -26,21 +29,29 @@ interface FormData {
   riskTolerance: RiskTolerance;
 }
 
+const DEFAULT_FORM_DATA: FormData = {
+  age: 30,
+  income: 75000,
+  currentSavings: 10000,
+  targetGoal: 'retirement',
+  targetAmount: 1000000,
+  timeHorizon: 30,
+  riskTolerance: 'moderate',
+};
+
 export default function GoalBasedFinancialPlanning() {
   const [step, setStep] = useState(1);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [plan, setPlan] = useState<FinancialPlan | null>(null);
+  const [plannedWith, setPlannedWith] = useState<FormData | null>(null); // Inputs behind the plan
   
-  const [formData, setFormData] = useState<FormData>({
-    age: 30,
-    income: 75000,
-    currentSavings: 10000,
-    targetGoal: 'retirement',
-    targetAmount: 1000000,
-    timeHorizon: 30,
-    riskTolerance: 'moderate',
-  });
+  // Shared link, then the inputs left last time, then defaults
+  const [formData, setFormData] = useState<FormData>(() => restoreInputs('goals', DEFAULT_FORM_DATA));
+
+  useEffect(() => clearSharedScenario(), []);
+
+  useEffect(() => saveDraft('goals', formData), [formData]);
 
   const totalSteps = 4;
 
@@ -110,6 +121,7 @@ export default function GoalBasedFinancialPlanning() {
 
       const generatedPlan = await generateFinancialPlan(request);
       setPlan(generatedPlan);
+      setPlannedWith(formData);
     } catch (err: any) {
       setError(err.message || 'Failed to generate financial plan');
     } finally {
@@ -177,6 +189,28 @@ export default function GoalBasedFinancialPlanning() {
     }).format(value);
   };
 
+  /**
+   * Load a saved scenario into the form
+   */
+  const handleLoadScenario = (loaded: FormData) => {
+    setFormData(loaded);
+    setPlan(null);
+    setStep(1);
+    setError(null);
+  };
+
+  // Headline results for saved scenarios, only while they match the inputs
+  const scenarioOutputs: ScenarioOutput[] = [];
+  if (plan && plannedWith === formData && plan.monthlyPlans.length > 0) {
+    const projected = plan.monthlyPlans[plan.monthlyPlans.length - 1].total;
+    const averageSavings = plan.monthlyPlans.reduce((sum, month) => sum + month.savings, 0) / plan.monthlyPlans.length;
+    scenarioOutputs.push(
+      { label: 'Projected total', value: projected, format: 'currency' },
+      { label: 'Share of target reached', value: formData.targetAmount > 0 ? (projected / formData.targetAmount) * 100 : 0, format: 'percent' },
+      { label: 'Average monthly savings', value: averageSavings, format: 'currency' }
+    );
+  }
+
   // Prepare chart data
   const chartData = plan?.monthlyPlans.map((p, index) => ({
     month: index + 1,
@@ -202,6 +236,16 @@ export default function GoalBasedFinancialPlanning() {
           </div>
         </div>
 
+        <div className="mb-6">
+          <ScenarioManager
+            tool="goals"
+            inputs={formData}
+            defaults={DEFAULT_FORM_DATA}
+            outputs={scenarioOutputs}
+            onLoad={handleLoadScenario}
+          />
+        </div>
+
         {!plan ? (
           /* Multi-Step Form */
           <div className="bg-gradient-to-br from-brand-violetDark/50 to-brand-violetLight/30 backdrop-blur-sm border border-white/10 rounded-xl shadow-lg p-6 md:p-8">
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { 
   AreaChart, 
   Area, 
@@ -9,197 +9,315 @@ import {
   Legend, 
   ResponsiveContainer,
   BarChart,
-  Bar
+  Bar,
+  ComposedChart,
+  Line,
+  ReferenceLine
 } from 'recharts';
-import { TrendingUp, AlertTriangle, DollarSign, Calendar, Shield, Info } from 'lucide-react';
+import { TrendingUp, AlertTriangle, DollarSign, Calendar, Shield, Info, Target, Loader, Dices, Download, SlidersHorizontal } from 'lucide-react';
+import Papa from 'papaparse';
+import { irr } from '../services/returns';
+import { MonteCarloResult, PercentileBand, ReturnModel, monthlyReturnsFromPrices } from '../services/monteCarlo';
+import { startMonteCarlo, SimulationRun } from '../services/simulationRunner';
+import { getStockSeries } from '../services/marketData';
+import { getErrorMessage } from '../services/api';
+import { createSeed, parseSeed } from '../services/random';
+import {
+  getAssumptions,
+  subscribeToAssumptions,
+  blendPreset,
+  BlendedAssumption,
+  CapitalMarketAssumptions,
+} from '../services/assumptions';
+import {
+  DEFAULT_PROJECTION_COSTS,
+  ACCOUNT_TYPE_LABELS,
+  afterTaxValue,
+  annualCostDrag,
+  inDollars,
+  inflationFactor,
+  toRealRate,
+  DollarMode,
+  ProjectionCosts,
+} from '../services/projectionCosts';
+import { clearSharedScenario, restoreInputs, saveDraft, ScenarioOutput } from '../services/scenarios';
+import AssumptionsEditor from './AssumptionsEditor';
+import ProjectionCostsFields from './ProjectionCostsFields';
+import ScenarioManager from './ScenarioManager';
 
 interface SimulationInputs {
   initialAmount: number;
   duration: number; // in years
-  riskTolerance: 'conservative' | 'moderate' | 'aggressive';
+  presetIds: string[]; // Portfolio presets to compare (see assumptions.ts)
   monthlyContribution?: number;
+  targetAmount?: number; // In today's dollars, after tax on withdrawal
+  costs: ProjectionCosts; // Inflation, fees and account taxes
+  paths: number;
+  model: ReturnModel;
+  bootstrapSymbol: string; // Ticker whose monthly history shapes bootstrapped returns
+  seed: number; // Same inputs and seed reproduce the same simulation
 }
 
-interface ProjectionData {
-  year: number;
-  conservative: number;
-  moderate: number;
-  aggressive: number;
-}
+// Median value per year, keyed by preset ID
+type ProjectionData = { year: number } & { [presetId: string]: number };
 
 interface ScenarioResult {
-  finalValue: number;
-  totalReturn: number;
+  finalValue: number; // Median across simulated paths
+  afterTaxValue: number; // Median final value once withdrawn (tax-deferred accounts pay tax)
+  totalReturn: number; // Gain over the amount invested (initial plus contributions)
   annualizedReturn: number;
-  maxDrawdown: number;
-  volatility: number;
+  maxDrawdown: number; // Median measured drawdown
+  worstDrawdown: number; // Drawdown exceeded by the worst 5% of paths
+  volatility: number; // Median measured volatility
 }
 
-interface SimulationResults {
-  conservative: ScenarioResult;
-  moderate: ScenarioResult;
-  aggressive: ScenarioResult;
-  projections: ProjectionData[];
+interface ScenarioRun {
+  assumption: BlendedAssumption; // Return and volatility the preset was simulated with
+  summary: Record<DollarMode, ScenarioResult>;
+  monteCarlo: MonteCarloResult; // Nominal values
 }
 
-// Mock financial assumptions based on historical averages
-const FINANCIAL_ASSUMPTIONS = {
-  conservative: {
-    annualReturn: 0.05, // 5% average annual return
-    volatility: 0.08, // 8% volatility
-    maxDrawdown: 0.15, // 15% max drawdown
-    description: 'Bonds, CDs, Money Market Funds'
-  },
-  moderate: {
-    annualReturn: 0.08, // 8% average annual return
-    volatility: 0.12, // 12% volatility
-    maxDrawdown: 0.25, // 25% max drawdown
-    description: 'Balanced Portfolio (60% Stocks, 40% Bonds)'
-  },
-  aggressive: {
-    annualReturn: 0.11, // 11% average annual return
-    volatility: 0.18, // 18% volatility
-    maxDrawdown: 0.40, // 40% max drawdown
-    description: 'Growth Stocks, Equity Funds, Real Estate'
-  }
-};
-
-// Calculate investment projection with compound interest and volatility simulation
-function calculateProjection(
-  initialAmount: number,
-  duration: number,
-  scenario: 'conservative' | 'moderate' | 'aggressive',
-  monthlyContribution: number = 0
-): ProjectionData[] {
-  const assumptions = FINANCIAL_ASSUMPTIONS[scenario];
-  const monthlyReturn = assumptions.annualReturn / 12;
-  const monthlyVolatility = assumptions.volatility / Math.sqrt(12);
-  
-  const projections: ProjectionData[] = [];
-  let conservativeValue = initialAmount;
-  let moderateValue = initialAmount;
-  let aggressiveValue = initialAmount;
-  
-  // Simulate with slight variations for realism
-  for (let year = 0; year <= duration; year++) {
-    if (year === 0) {
-      projections.push({
-        year,
-        conservative: conservativeValue,
-        moderate: moderateValue,
-        aggressive: aggressiveValue
-      });
-      continue;
-    }
-    
-    // Calculate for each scenario
-    for (let month = 0; month < 12; month++) {
-      // Add monthly contribution
-      conservativeValue += monthlyContribution;
-      moderateValue += monthlyContribution;
-      aggressiveValue += monthlyContribution;
-      
-      // Apply returns with some variation
-      const conservativeReturn = monthlyReturn + (Math.random() - 0.5) * monthlyVolatility * 0.5;
-      const moderateReturn = monthlyReturn + (Math.random() - 0.5) * monthlyVolatility * 0.5;
-      const aggressiveReturn = monthlyReturn + (Math.random() - 0.5) * monthlyVolatility * 0.5;
-      
-      conservativeValue *= (1 + conservativeReturn);
-      moderateValue *= (1 + moderateReturn);
-      aggressiveValue *= (1 + aggressiveReturn);
-    }
-    
-    projections.push({
-      year,
-      conservative: Math.round(conservativeValue),
-      moderate: Math.round(moderateValue),
-      aggressive: Math.round(aggressiveValue)
-    });
-  }
-  
-  return projections;
+interface SimulationResults {
+  scenarios: ScenarioRun[];
+  projections: Record<DollarMode, ProjectionData[]>;
+  inputs: SimulationInputs; // Inputs the results were simulated with
 }
 
-// Calculate scenario results
+const PATH_OPTIONS = [1000, 5000, 10000];
+
+// Presets compared side by side, one color each
+const SCENARIO_COLORS = ['#10b981', '#3b82f6', '#8b5cf6', '#f59e0b'];
+const MAX_COMPARED_PRESETS = SCENARIO_COLORS.length;
+
+const createDefaultInputs = (): SimulationInputs => ({
+  initialAmount: 10000,
+  duration: 10,
+  presetIds: ['conservative', 'moderate', 'aggressive'],
+  monthlyContribution: 0,
+  paths: 5000,
+  model: 'lognormal',
+  bootstrapSymbol: 'SPY',
+  costs: DEFAULT_PROJECTION_COSTS,
+  seed: createSeed()
+});
+
+// Summarize a scenario's simulated paths in nominal or today's dollars
 function calculateScenarioResults(
   initialAmount: number,
-  projections: ProjectionData[],
-  scenario: 'conservative' | 'moderate' | 'aggressive'
+  monthlyContribution: number,
+  simulation: MonteCarloResult,
+  costs: ProjectionCosts,
+  mode: DollarMode
 ): ScenarioResult {
-  const finalValue = projections[projections.length - 1][scenario];
-  const totalReturn = finalValue - initialAmount;
-  const annualizedReturn = (Math.pow(finalValue / initialAmount, 1 / projections.length) - 1) * 100;
-  const assumptions = FINANCIAL_ASSUMPTIONS[scenario];
-  
+  const years = simulation.bands.length - 1;
+  const months = years * 12;
+  const toDollars = (value: number, month: number) => inDollars(value, month / 12, mode, costs);
+  const finalValue = toDollars(simulation.finalValue.p50, months);
+
+  // Money-weighted return of the median outcome: contributions arrive at the start of each month
+  const cashFlows = Array.from({ length: months + 1 }, (_, month) =>
+    month === months ? finalValue : -toDollars(monthlyContribution + (month === 0 ? initialAmount : 0), month)
+  );
+  const contributed = -cashFlows.slice(0, months).reduce((sum, amount) => sum + amount, 0);
+  const totalReturn = finalValue - contributed;
+  const monthlyRate = months > 0 ? irr(cashFlows) : null;
+  const annualizedReturn = monthlyRate !== null ? (Math.pow(1 + monthlyRate, 12) - 1) * 100 : 0;
+
   return {
     finalValue,
+    afterTaxValue: afterTaxValue(finalValue, costs),
     totalReturn,
     annualizedReturn,
-    maxDrawdown: assumptions.maxDrawdown * 100,
-    volatility: assumptions.volatility * 100
+    maxDrawdown: simulation.maxDrawdown.p50 * 100,
+    worstDrawdown: simulation.maxDrawdown.p95 * 100,
+    volatility: simulation.volatility * 100
   };
 }
 
+/**
+ * Monthly returns of a ticker's full monthly history, for bootstrapping
+ */
+async function loadHistoricalReturns(symbol: string): Promise<number[]> {
+  const { data } = await getStockSeries(symbol, 'monthly', 'full');
+  const closes = [...data]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((bar) => bar.adjustedClose ?? bar.close);
+  return monthlyReturnsFromPrices(closes);
+}
+
 export default function InvestmentScenarioSimulator() {
-  const [inputs, setInputs] = useState<SimulationInputs>({
-    initialAmount: 10000,
-    duration: 10,
-    riskTolerance: 'moderate',
-    monthlyContribution: 0
-  });
+  // Shared link, then the inputs left last time, then defaults
+  const [inputs, setInputs] = useState<SimulationInputs>(() => restoreInputs('simulator', createDefaultInputs()));
+  const [seedText, setSeedText] = useState(() => String(inputs.seed));
+  const [assumptions, setAssumptions] = useState<CapitalMarketAssumptions>(getAssumptions);
+  const [showEditor, setShowEditor] = useState(false);
+  const [fanPresetId, setFanPresetId] = useState('moderate');
+  const [dollarMode, setDollarMode] = useState<DollarMode>('nominal');
   
-  const [hasRunSimulation, setHasRunSimulation] = useState(false);
-
-  const results = useMemo<SimulationResults | null>(() => {
-    if (!hasRunSimulation) return null;
-    
-    const projections = calculateProjection(
-      inputs.initialAmount,
-      inputs.duration,
-      inputs.riskTolerance,
-      inputs.monthlyContribution || 0
-    );
-    
-    // Calculate all three scenarios for comparison
-    const conservativeProjections = calculateProjection(
-      inputs.initialAmount,
-      inputs.duration,
-      'conservative',
-      inputs.monthlyContribution || 0
-    );
-    
-    const moderateProjections = calculateProjection(
-      inputs.initialAmount,
-      inputs.duration,
-      'moderate',
-      inputs.monthlyContribution || 0
-    );
-    
-    const aggressiveProjections = calculateProjection(
-      inputs.initialAmount,
-      inputs.duration,
-      'aggressive',
-      inputs.monthlyContribution || 0
+  const [results, setResults] = useState<SimulationResults | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const runRef = useRef<SimulationRun | null>(null);
+
+  // Stop a simulation still running when the view closes
+  useEffect(() => () => runRef.current?.cancel(), []);
+
+  useEffect(() => subscribeToAssumptions(setAssumptions), []);
+
+  useEffect(() => clearSharedScenario(), []);
+
+  useEffect(() => saveDraft('simulator', inputs), [inputs]);
+
+  // Presets that still exist, in the order they were picked
+  const selectedPresets = inputs.presetIds
+    .map((id) => assumptions.presets.find((preset) => preset.id === id))
+    .filter((preset) => preset !== undefined);
+  // Picked in a loaded or shared scenario but not among this browser's presets
+  const missingPresetCount = inputs.presetIds.length - selectedPresets.length;
+
+  const togglePreset = (id: string) => {
+    const presetIds = inputs.presetIds.includes(id)
+      ? inputs.presetIds.filter((item) => item !== id)
+      : [...inputs.presetIds, id];
+    setInputs({ ...inputs, presetIds });
+  };
+
+  const handleRunSimulation = async () => {
+    runRef.current?.cancel();
+    setRunning(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      if (selectedPresets.length === 0) throw new Error('Pick at least one portfolio to simulate');
+      const blends = selectedPresets.map((preset) => blendPreset(assumptions, preset));
+      const historicalReturns =
+        inputs.model === 'bootstrap' ? await loadHistoricalReturns(inputs.bootstrapSymbol.trim().toUpperCase()) : undefined;
+      const monthlyContribution = inputs.monthlyContribution || 0;
+
+      const run = startMonteCarlo(
+        blends.map((blend) => ({
+          initialAmount: inputs.initialAmount,
+          monthlyContribution,
+          years: inputs.duration,
+          annualReturn: blend.annualReturn,
+          annualVolatility: blend.volatility,
+          annualCost: annualCostDrag(blend.annualReturn, inputs.costs),
+          paths: inputs.paths,
+          model: inputs.model,
+          historicalReturns,
+          // The target is in today's dollars after tax: the engine compares nominal, pre-tax values
+          target: inputs.targetAmount
+            ? (inputs.targetAmount * inflationFactor(inputs.duration, inputs.costs)) / afterTaxValue(1, inputs.costs)
+            : undefined,
+          // Shared by all profiles so their differences come from the assumptions, not the draws
+          seed: inputs.seed,
+        })),
+        (completed, total) => setProgress(completed / total)
+      );
+      runRef.current = run;
+
+      const simulations = await run.promise;
+      const scenarios = simulations.map((monteCarlo, index) => ({
+        assumption: blends[index],
+        summary: {
+          nominal: calculateScenarioResults(inputs.initialAmount, monthlyContribution, monteCarlo, inputs.costs, 'nominal'),
+          real: calculateScenarioResults(inputs.initialAmount, monthlyContribution, monteCarlo, inputs.costs, 'real')
+        },
+        monteCarlo
+      }));
+      const projectionsIn = (mode: DollarMode) =>
+        simulations[0].bands.map((band) => {
+          const row: ProjectionData = { year: band.year };
+          scenarios.forEach((scenario) => {
+            row[scenario.assumption.presetId] = Math.round(
+              inDollars(scenario.monteCarlo.bands[band.year].p50, band.year, mode, inputs.costs)
+            );
+          });
+          return row;
+        });
+
+      setResults({
+        scenarios,
+        projections: { nominal: projectionsIn('nominal'), real: projectionsIn('real') },
+        inputs: { ...inputs, presetIds: blends.map((blend) => blend.presetId) }
+      });
+      if (!blends.some((blend) => blend.presetId === fanPresetId)) setFanPresetId(blends[0].presetId);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSeedChange = (value: string) => {
+    setSeedText(value);
+    const seed = parseSeed(value);
+    if (seed !== null) setInputs({ ...inputs, seed });
+  };
+
+  const handleLoadScenario = (loaded: SimulationInputs) => {
+    setInputs(loaded);
+    setSeedText(String(loaded.seed));
+  };
+
+  // Headline results for saved scenarios, only while they match the inputs
+  const scenarioOutputs: ScenarioOutput[] =
+    results && JSON.stringify(results.inputs) === JSON.stringify(inputs)
+      ? results.scenarios.flatMap(({ assumption, summary, monteCarlo }) => [
+          { label: `${assumption.name} › Median final value`, value: summary.nominal.finalValue, format: 'currency' as const },
+          { label: `${assumption.name} › After tax`, value: summary.nominal.afterTaxValue, format: 'currency' as const },
+          { label: `${assumption.name} › Annualized return`, value: summary.nominal.annualizedReturn, format: 'percent' as const },
+          { label: `${assumption.name} › Max drawdown`, value: summary.nominal.maxDrawdown, format: 'percent' as const },
+          ...(monteCarlo.probabilityOfTarget !== null
+            ? [{ label: `${assumption.name} › Probability of target`, value: monteCarlo.probabilityOfTarget * 100, format: 'percent' as const }]
+            : []),
+        ])
+      : [];
+
+  const handleNewSeed = () => {
+    const seed = createSeed();
+    setSeedText(String(seed));
+    setInputs({ ...inputs, seed });
+  };
+
+  /**
+   * Download the yearly percentile bands of every profile, with the inputs
+   * and seed needed to reproduce them
+   */
+  const handleExport = () => {
+    if (!results) return;
+    const { inputs: simulated } = results;
+    const header = [
+      `# Investment scenario simulation`,
+      `# initialAmount=${simulated.initialAmount} monthlyContribution=${simulated.monthlyContribution || 0} years=${simulated.duration}`,
+      `# paths=${simulated.paths} model=${simulated.model}${simulated.model === 'bootstrap' ? ` history=${simulated.bootstrapSymbol.toUpperCase()}` : ''} seed=${simulated.seed}`,
+      `# inflation=${simulated.costs.inflationRate}% expenseRatio=${simulated.costs.expenseRatio}% advisoryFee=${simulated.costs.advisoryFee}% account=${simulated.costs.accountType} taxRate=${simulated.costs.taxRate}%${simulated.costs.accountType === 'taxable' ? ` realizedGainShare=${simulated.costs.realizedGainShare}%` : ''}`,
+      `# Values are nominal, net of fees and tax drag, before tax on withdrawal`,
+      ...results.scenarios.map(({ assumption }) =>
+        `# ${assumption.name}: expectedReturn=${assumption.annualReturn.toFixed(4)} volatility=${assumption.volatility.toFixed(4)}`
+      ),
+    ];
+    const rows = results.scenarios.flatMap(({ assumption, monteCarlo }) =>
+      monteCarlo.bands.map((band) => ({
+        profile: assumption.name,
+        year: band.year,
+        p5: band.p5.toFixed(2),
+        p25: band.p25.toFixed(2),
+        p50: band.p50.toFixed(2),
+        p75: band.p75.toFixed(2),
+        p95: band.p95.toFixed(2),
+      }))
     );
-    
-    // Combine projections
-    const combinedProjections = conservativeProjections.map((_, index) => ({
-      year: index,
-      conservative: conservativeProjections[index].conservative,
-      moderate: moderateProjections[index].moderate,
-      aggressive: aggressiveProjections[index].aggressive
-    }));
-    
-    return {
-      conservative: calculateScenarioResults(inputs.initialAmount, conservativeProjections, 'conservative'),
-      moderate: calculateScenarioResults(inputs.initialAmount, moderateProjections, 'moderate'),
-      aggressive: calculateScenarioResults(inputs.initialAmount, aggressiveProjections, 'aggressive'),
-      projections: combinedProjections
-    };
-  }, [inputs, hasRunSimulation]);
-
-  const handleRunSimulation = () => {
-    setHasRunSimulation(true);
+
+    const blob = new Blob([`${header.join('\n')}\n${Papa.unparse(rows)}`], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `simulation-seed-${simulated.seed}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   const formatCurrency = (value: number) => {
@@ -215,6 +333,14 @@ export default function InvestmentScenarioSimulator() {
     return `${value.toFixed(2)}%`;
   };
 
+  // A simulated value `year` years out, in the dollars being shown
+  const toDisplay = (value: number, year: number) =>
+    results ? inDollars(value, year, dollarMode, results.inputs.costs) : value;
+
+  // A simulated annual rate in the dollars being shown, percent
+  const toDisplayRate = (rate: number) =>
+    (results && dollarMode === 'real' ? toRealRate(rate, results.inputs.costs) : rate) * 100;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-4 md:p-8">
       <div className="max-w-7xl mx-auto">
@@ -283,31 +409,163 @@ export default function InvestmentScenarioSimulator() {
                   />
                 </div>
 
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-slate-700">
+                      <Shield className="w-4 h-4 inline mr-1" />
+                      Portfolios to Compare
+                    </label>
+                    <button
+                      onClick={() => setShowEditor(!showEditor)}
+                      className="text-xs font-semibold text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                    >
+                      <SlidersHorizontal className="w-3.5 h-3.5" />
+                      Assumptions
+                    </button>
+                  </div>
+                  <div className="space-y-1.5">
+                    {assumptions.presets.map((preset) => {
+                      const checked = inputs.presetIds.includes(preset.id);
+                      let blend: BlendedAssumption | null = null;
+                      try {
+                        blend = blendPreset(assumptions, preset);
+                      } catch {
+                        // Shown as unusable below
+                      }
+                      return (
+                        <label key={preset.id} className="flex items-start gap-2 text-sm text-slate-700" title={preset.description}>
+                          <input
+                            type="checkbox"
+                            checked={checked}
+                            disabled={!blend || (!checked && selectedPresets.length >= MAX_COMPARED_PRESETS)}
+                            onChange={() => togglePreset(preset.id)}
+                            className="mt-0.5"
+                          />
+                          <span className="flex-1">
+                            {preset.name}
+                            <span className="block text-xs text-slate-500">
+                              {blend
+                                ? `${formatPercent(blend.annualReturn * 100)} return, ${formatPercent(blend.volatility * 100)} volatility`
+                                : 'Weights need fixing in the assumptions editor'}
+                            </span>
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">Up to {MAX_COMPARED_PRESETS} portfolios</p>
+                  {missingPresetCount > 0 && (
+                    <p className="text-xs text-amber-700 mt-1 flex items-start gap-1">
+                      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                      {missingPresetCount === 1 ? '1 portfolio' : `${missingPresetCount} portfolios`} in this scenario
+                      {missingPresetCount === 1 ? ' is' : ' are'} a custom preset you don't have and will be left out
+                    </p>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-slate-700 mb-2">
-                    <Shield className="w-4 h-4 inline mr-1" />
-                    Risk Tolerance
+                    <Target className="w-4 h-4 inline mr-1" />
+                    Target Amount (today's dollars, optional)
                   </label>
-                  <select
-                    value={inputs.riskTolerance}
-                    onChange={(e) => setInputs({ ...inputs, riskTolerance: e.target.value as any })}
+                  <input
+                    type="number"
+                    min="0"
+                    step="10000"
+                    value={inputs.targetAmount || ''}
+                    onChange={(e) => setInputs({ ...inputs, targetAmount: parseFloat(e.target.value) || undefined })}
                     className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900"
-                  >
-                    <option value="conservative">Conservative</option>
-                    <option value="moderate">Moderate</option>
-                    <option value="aggressive">Aggressive</option>
-                  </select>
-                  <p className="text-xs text-slate-500 mt-1">
-                    {FINANCIAL_ASSUMPTIONS[inputs.riskTolerance].description}
-                  </p>
+                    placeholder="e.g. 250000"
+                  />
+                </div>
+
+                <ProjectionCostsFields costs={inputs.costs} onChange={(costs) => setInputs({ ...inputs, costs })} />
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Simulations</label>
+                    <select
+                      value={inputs.paths}
+                      onChange={(e) => setInputs({ ...inputs, paths: parseInt(e.target.value, 10) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900"
+                    >
+                      {PATH_OPTIONS.map((paths) => (
+                        <option key={paths} value={paths}>{paths.toLocaleString()}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Return Model</label>
+                    <select
+                      value={inputs.model}
+                      onChange={(e) => setInputs({ ...inputs, model: e.target.value as ReturnModel })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900"
+                    >
+                      <option value="lognormal">Lognormal</option>
+                      <option value="bootstrap">Bootstrap</option>
+                    </select>
+                  </div>
+                </div>
+
+                {inputs.model === 'bootstrap' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">History From Ticker</label>
+                    <input
+                      type="text"
+                      value={inputs.bootstrapSymbol}
+                      onChange={(e) => setInputs({ ...inputs, bootstrapSymbol: e.target.value })}
+                      className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                      Monthly returns are resampled from this ticker's history and rescaled to each profile's return and volatility
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    <Dices className="w-4 h-4 inline mr-1" />
+                    Random Seed
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={seedText}
+                      onChange={(e) => handleSeedChange(e.target.value)}
+                      className={`flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900 ${
+                        parseSeed(seedText) === null ? 'border-red-400' : 'border-slate-300'
+                      }`}
+                    />
+                    <button
+                      onClick={handleNewSeed}
+                      className="px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+                      title="Pick a new random seed"
+                    >
+                      New
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">The same inputs and seed always give the same results</p>
                 </div>
 
                 <button
                   onClick={handleRunSimulation}
-                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors shadow-md"
+                  disabled={running || selectedPresets.length === 0 || !inputs.bootstrapSymbol.trim() || parseSeed(seedText) === null}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-3 px-4 rounded-lg transition-colors shadow-md flex items-center justify-center gap-2"
                 >
-                  Run Simulation
+                  {running ? (
+                    <>
+                      <Loader className="w-4 h-4 animate-spin" />
+                      Simulating... {Math.round(progress * 100)}%
+                    </>
+                  ) : (
+                    'Run Simulation'
+                  )}
                 </button>
+
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+                )}
               </div>
 
               {/* Risk Warning */}
@@ -328,7 +586,22 @@ export default function InvestmentScenarioSimulator() {
 
           {/* Results Panel */}
           <div className="lg:col-span-2">
-            {!hasRunSimulation ? (
+            <div className="mb-6">
+              <ScenarioManager
+                tool="simulator"
+                inputs={inputs}
+                defaults={createDefaultInputs()}
+                outputs={scenarioOutputs}
+                onLoad={handleLoadScenario}
+                sharesAssumptions
+              />
+            </div>
+            {showEditor && (
+              <div className="mb-6">
+                <AssumptionsEditor onClose={() => setShowEditor(false)} />
+              </div>
+            )}
+            {!results ? (
               <div className="bg-white rounded-xl shadow-lg p-12 text-center">
                 <TrendingUp className="w-16 h-16 text-slate-400 mx-auto mb-4" />
                 <h3 className="text-xl font-semibold text-slate-900 mb-2">Ready to Simulate</h3>
@@ -340,22 +613,49 @@ export default function InvestmentScenarioSimulator() {
               <div className="space-y-6">
                 {/* Projection Chart */}
                 <div className="bg-white rounded-xl shadow-lg p-6">
-                  <h2 className="text-xl font-bold text-slate-900 mb-4">Projection Comparison</h2>
+                  <div className="flex items-start justify-between gap-4 mb-4">
+                    <div>
+                      <h2 className="text-xl font-bold text-slate-900 mb-1">Projection Comparison</h2>
+                      <p className="text-sm text-slate-500">
+                        Median of {results.inputs.paths.toLocaleString()} simulated paths per portfolio · seed {results.inputs.seed}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {dollarMode === 'real' ? `Today's dollars (${results.inputs.costs.inflationRate}% inflation)` : 'Nominal dollars'}, net of fees and tax drag ·{' '}
+                        {ACCOUNT_TYPE_LABELS[results.inputs.costs.accountType]}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="flex gap-1 bg-slate-100 rounded-lg p-1">
+                        {(['nominal', 'real'] as DollarMode[]).map((mode) => (
+                          <button
+                            key={mode}
+                            onClick={() => setDollarMode(mode)}
+                            className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                              dollarMode === mode ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-white'
+                            }`}
+                          >
+                            {mode === 'nominal' ? 'Nominal' : 'Real'}
+                          </button>
+                        ))}
+                      </div>
+                      <button
+                        onClick={handleExport}
+                        className="px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                      >
+                        <Download className="w-4 h-4" />
+                        Export CSV
+                      </button>
+                    </div>
+                  </div>
                   <ResponsiveContainer width="100%" height={400}>
-                    <AreaChart data={results.projections}>
+                    <AreaChart data={results.projections[dollarMode]}>
                       <defs>
-                        <linearGradient id="colorConservative" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#10b981" stopOpacity={0.8}/>
-                          <stop offset="95%" stopColor="#10b981" stopOpacity={0.1}/>
-                        </linearGradient>
-                        <linearGradient id="colorModerate" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
-                          <stop offset="95%" stopColor="#3b82f6" stopOpacity={0.1}/>
-                        </linearGradient>
-                        <linearGradient id="colorAggressive" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#8b5cf6" stopOpacity={0.8}/>
-                          <stop offset="95%" stopColor="#8b5cf6" stopOpacity={0.1}/>
-                        </linearGradient>
+                        {results.scenarios.map((scenario, index) => (
+                          <linearGradient key={scenario.assumption.presetId} id={`colorScenario${index}`} x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor={SCENARIO_COLORS[index]} stopOpacity={0.8}/>
+                            <stop offset="95%" stopColor={SCENARIO_COLORS[index]} stopOpacity={0.1}/>
+                          </linearGradient>
+                        ))}
                       </defs>
                       <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                       <XAxis 
@@ -373,163 +673,193 @@ export default function InvestmentScenarioSimulator() {
                         contentStyle={{ backgroundColor: '#fff', border: '1px solid #e2e8f0', borderRadius: '8px' }}
                       />
                       <Legend />
-                      <Area 
-                        type="monotone" 
-                        dataKey="conservative" 
-                        stroke="#10b981" 
-                        fillOpacity={1} 
-                        fill="url(#colorConservative)"
-                        name="Conservative"
-                      />
-                      <Area 
-                        type="monotone" 
-                        dataKey="moderate" 
-                        stroke="#3b82f6" 
-                        fillOpacity={1} 
-                        fill="url(#colorModerate)"
-                        name="Moderate"
-                      />
-                      <Area 
-                        type="monotone" 
-                        dataKey="aggressive" 
-                        stroke="#8b5cf6" 
-                        fillOpacity={1} 
-                        fill="url(#colorAggressive)"
-                        name="Aggressive"
-                      />
+                      {results.scenarios.map((scenario, index) => (
+                        <Area 
+                          key={scenario.assumption.presetId}
+                          type="monotone" 
+                          dataKey={scenario.assumption.presetId} 
+                          stroke={SCENARIO_COLORS[index]} 
+                          fillOpacity={1} 
+                          fill={`url(#colorScenario${index})`}
+                          name={scenario.assumption.name}
+                        />
+                      ))}
                     </AreaChart>
                   </ResponsiveContainer>
                 </div>
 
-                {/* Scenario Comparison Cards */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  {/* Conservative */}
-                  <div className="bg-white rounded-xl shadow-lg p-6 border-2 border-emerald-200">
-                    <div className="flex items-center gap-2 mb-4">
-                      <div className="w-3 h-3 bg-emerald-500 rounded-full"></div>
-                      <h3 className="font-bold text-slate-900">Conservative</h3>
-                    </div>
-                    <div className="space-y-3">
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Final Value</p>
-                        <p className="text-2xl font-bold text-emerald-600">
-                          {formatCurrency(results.conservative.finalValue)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Total Return</p>
-                        <p className="text-lg font-semibold text-slate-900">
-                          {formatCurrency(results.conservative.totalReturn)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Annualized Return</p>
-                        <p className="text-lg font-semibold text-slate-900">
-                          {formatPercent(results.conservative.annualizedReturn)}
-                        </p>
-                      </div>
-                      <div className="pt-3 border-t border-slate-200">
-                        <p className="text-xs text-slate-500 mb-1">Max Drawdown Risk</p>
-                        <p className="text-sm font-semibold text-amber-600">
-                          {formatPercent(results.conservative.maxDrawdown)}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Moderate */}
-                  <div className="bg-white rounded-xl shadow-lg p-6 border-2 border-blue-200">
-                    <div className="flex items-center gap-2 mb-4">
-                      <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-                      <h3 className="font-bold text-slate-900">Moderate</h3>
-                    </div>
-                    <div className="space-y-3">
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Final Value</p>
-                        <p className="text-2xl font-bold text-blue-600">
-                          {formatCurrency(results.moderate.finalValue)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Total Return</p>
-                        <p className="text-lg font-semibold text-slate-900">
-                          {formatCurrency(results.moderate.totalReturn)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Annualized Return</p>
-                        <p className="text-lg font-semibold text-slate-900">
-                          {formatPercent(results.moderate.annualizedReturn)}
-                        </p>
+                {/* Monte Carlo Fan Chart */}
+                {(() => {
+                  const focused =
+                    results.scenarios.find((scenario) => scenario.assumption.presetId === fanPresetId) || results.scenarios[0];
+                  const simulation = focused.monteCarlo;
+                  const years = simulation.bands.length - 1;
+                  const bands = simulation.bands.map((band) => ({
+                    year: band.year,
+                    p5: toDisplay(band.p5, band.year),
+                    p25: toDisplay(band.p25, band.year),
+                    p50: toDisplay(band.p50, band.year),
+                    p75: toDisplay(band.p75, band.year),
+                    p95: toDisplay(band.p95, band.year),
+                  }));
+                  // The target is in today's dollars; in nominal terms it grows with inflation
+                  const target = results.inputs.targetAmount
+                    ? dollarMode === 'real'
+                      ? results.inputs.targetAmount
+                      : results.inputs.targetAmount * inflationFactor(years, results.inputs.costs)
+                    : undefined;
+                  return (
+                    <div className="bg-white rounded-xl shadow-lg p-6">
+                      <div className="flex flex-wrap items-start justify-between gap-3 mb-1">
+                        <h2 className="text-xl font-bold text-slate-900">
+                          Outcome Range: {focused.assumption.name}
+                        </h2>
+                        {results.scenarios.length > 1 && (
+                          <select
+                            value={focused.assumption.presetId}
+                            onChange={(e) => setFanPresetId(e.target.value)}
+                            className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900"
+                          >
+                            {results.scenarios.map((scenario) => (
+                              <option key={scenario.assumption.presetId} value={scenario.assumption.presetId}>
+                                {scenario.assumption.name}
+                              </option>
+                            ))}
+                          </select>
+                        )}
                       </div>
-                      <div className="pt-3 border-t border-slate-200">
-                        <p className="text-xs text-slate-500 mb-1">Max Drawdown Risk</p>
-                        <p className="text-sm font-semibold text-amber-600">
-                          {formatPercent(results.moderate.maxDrawdown)}
-                        </p>
+                      <p className="text-sm text-slate-500 mb-4">
+                        Shaded bands cover the middle 50% and 90% of simulated outcomes
+                      </p>
+                      <ResponsiveContainer width="100%" height={360}>
+                        <ComposedChart data={bands}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                          <XAxis dataKey="year" stroke="#64748b" />
+                          <YAxis stroke="#64748b" tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                          <Tooltip
+                            formatter={(value) =>
+                              Array.isArray(value)
+                                ? value.map((item) => formatCurrency(Number(item))).join(' – ')
+                                : formatCurrency(Number(value))
+                            }
+                            labelFormatter={(year) => `Year ${year}`}
+                            contentStyle={{ backgroundColor: '#fff', border: '1px solid #e2e8f0', borderRadius: '8px' }}
+                          />
+                          <Legend />
+                          <Area
+                            type="monotone"
+                            dataKey={(band: PercentileBand) => [band.p5, band.p95]}
+                            stroke="none"
+                            fill="#93c5fd"
+                            fillOpacity={0.35}
+                            name="P5 – P95"
+                          />
+                          <Area
+                            type="monotone"
+                            dataKey={(band: PercentileBand) => [band.p25, band.p75]}
+                            stroke="none"
+                            fill="#3b82f6"
+                            fillOpacity={0.35}
+                            name="P25 – P75"
+                          />
+                          <Line type="monotone" dataKey="p50" stroke="#1d4ed8" strokeWidth={2} dot={false} name="Median" />
+                          {target && (
+                            <ReferenceLine y={target} stroke="#10b981" strokeDasharray="6 4" label="Target" />
+                          )}
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                        <div>
+                          <p className="text-xs text-slate-500 mb-1">Bad Case (P5)</p>
+                          <p className="text-lg font-semibold text-red-600">{formatCurrency(toDisplay(simulation.finalValue.p5, years))}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-slate-500 mb-1">Median (P50)</p>
+                          <p className="text-lg font-semibold text-slate-900">{formatCurrency(toDisplay(simulation.finalValue.p50, years))}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-slate-500 mb-1">Good Case (P95)</p>
+                          <p className="text-lg font-semibold text-emerald-600">{formatCurrency(toDisplay(simulation.finalValue.p95, years))}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-slate-500 mb-1">Chance of Reaching Target</p>
+                          <p className="text-lg font-semibold text-slate-900">
+                            {simulation.probabilityOfTarget !== null
+                              ? formatPercent(simulation.probabilityOfTarget * 100)
+                              : 'No target set'}
+                          </p>
+                        </div>
                       </div>
+                      <p className="text-xs text-slate-500 mt-3">
+                        Measured across paths: {dollarMode === 'real' ? 'real ' : ''}annualized return {formatPercent(toDisplayRate(simulation.annualizedReturn.p5))} (P5) to{' '}
+                        {formatPercent(toDisplayRate(simulation.annualizedReturn.p95))} (P95), median volatility{' '}
+                        {formatPercent(simulation.volatility * 100)}, median max drawdown {formatPercent(simulation.maxDrawdown.p50 * 100)}
+                      </p>
                     </div>
-                  </div>
+                  );
+                })()}
 
-                  {/* Aggressive */}
-                  <div className="bg-white rounded-xl shadow-lg p-6 border-2 border-purple-200">
-                    <div className="flex items-center gap-2 mb-4">
-                      <div className="w-3 h-3 bg-purple-500 rounded-full"></div>
-                      <h3 className="font-bold text-slate-900">Aggressive</h3>
-                    </div>
-                    <div className="space-y-3">
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Final Value</p>
-                        <p className="text-2xl font-bold text-purple-600">
-                          {formatCurrency(results.aggressive.finalValue)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Total Return</p>
-                        <p className="text-lg font-semibold text-slate-900">
-                          {formatCurrency(results.aggressive.totalReturn)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-slate-500 mb-1">Annualized Return</p>
-                        <p className="text-lg font-semibold text-slate-900">
-                          {formatPercent(results.aggressive.annualizedReturn)}
-                        </p>
-                      </div>
-                      <div className="pt-3 border-t border-slate-200">
-                        <p className="text-xs text-slate-500 mb-1">Max Drawdown Risk</p>
-                        <p className="text-sm font-semibold text-red-600">
-                          {formatPercent(results.aggressive.maxDrawdown)}
+                {/* Scenario Comparison Cards */}
+                <div className={`grid grid-cols-1 gap-4 ${results.scenarios.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'} ${results.scenarios.length > 3 ? 'xl:grid-cols-4' : ''}`}>
+                  {results.scenarios.map(({ assumption, summary: summaries }, index) => {
+                    const summary = summaries[dollarMode];
+                    return (
+                      <div
+                        key={assumption.presetId}
+                        className="bg-white rounded-xl shadow-lg p-6 border-2"
+                        style={{ borderColor: `${SCENARIO_COLORS[index]}55` }}
+                      >
+                        <div className="flex items-center gap-2 mb-1">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: SCENARIO_COLORS[index] }}></div>
+                          <h3 className="font-bold text-slate-900">{assumption.name}</h3>
+                        </div>
+                        <p className="text-xs text-slate-500 mb-4">
+                          Assumed {formatPercent(assumption.annualReturn * 100)} return, {formatPercent(assumption.volatility * 100)} volatility
                         </p>
+                        <div className="space-y-3">
+                          <div>
+                            <p className="text-xs text-slate-500 mb-1">Final Value</p>
+                            <p className="text-2xl font-bold" style={{ color: SCENARIO_COLORS[index] }}>
+                              {formatCurrency(summary.finalValue)}
+                            </p>
+                            {summary.afterTaxValue !== summary.finalValue && (
+                              <p className="text-xs text-slate-500">{formatCurrency(summary.afterTaxValue)} after tax on withdrawal</p>
+                            )}
+                          </div>
+                          <div>
+                            <p className="text-xs text-slate-500 mb-1">Total Return</p>
+                            <p className="text-lg font-semibold text-slate-900">
+                              {formatCurrency(summary.totalReturn)}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-slate-500 mb-1">Annualized Return</p>
+                            <p className="text-lg font-semibold text-slate-900">
+                              {formatPercent(summary.annualizedReturn)}
+                            </p>
+                          </div>
+                          <div className="pt-3 border-t border-slate-200">
+                            <p className="text-xs text-slate-500 mb-1">Median Max Drawdown</p>
+                            <p className="text-sm font-semibold text-amber-600">
+                              {formatPercent(summary.maxDrawdown)}
+                            </p>
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
+                    );
+                  })}
                 </div>
 
                 {/* Risk Comparison Chart */}
                 <div className="bg-white rounded-xl shadow-lg p-6">
                   <h2 className="text-xl font-bold text-slate-900 mb-4">Risk & Return Comparison</h2>
                   <ResponsiveContainer width="100%" height={300}>
-                    <BarChart data={[
-                      {
-                        name: 'Conservative',
-                        return: results.conservative.annualizedReturn,
-                        risk: results.conservative.volatility,
-                        maxDrawdown: results.conservative.maxDrawdown
-                      },
-                      {
-                        name: 'Moderate',
-                        return: results.moderate.annualizedReturn,
-                        risk: results.moderate.volatility,
-                        maxDrawdown: results.moderate.maxDrawdown
-                      },
-                      {
-                        name: 'Aggressive',
-                        return: results.aggressive.annualizedReturn,
-                        risk: results.aggressive.volatility,
-                        maxDrawdown: results.aggressive.maxDrawdown
-                      }
-                    ]}>
+                    <BarChart data={results.scenarios.map(({ assumption, summary }) => ({
+                      name: assumption.name,
+                      return: summary[dollarMode].annualizedReturn,
+                      risk: summary[dollarMode].volatility,
+                      maxDrawdown: summary[dollarMode].maxDrawdown
+                    }))}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                       <XAxis dataKey="name" stroke="#64748b" />
                       <YAxis label={{ value: 'Percentage (%)', angle: -90, position: 'insideLeft' }} stroke="#64748b" />
@@ -537,7 +867,7 @@ export default function InvestmentScenarioSimulator() {
                       <Legend />
                       <Bar dataKey="return" fill="#3b82f6" name="Annualized Return" />
                       <Bar dataKey="risk" fill="#f59e0b" name="Volatility" />
-                      <Bar dataKey="maxDrawdown" fill="#ef4444" name="Max Drawdown Risk" />
+                      <Bar dataKey="maxDrawdown" fill="#ef4444" name="Median Max Drawdown" />
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
@@ -549,27 +879,18 @@ export default function InvestmentScenarioSimulator() {
                     Risk Warnings
                   </h2>
                   <div className="space-y-4">
-                    <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
-                      <p className="font-semibold text-red-900 mb-2">Aggressive Strategy Risks</p>
-                      <p className="text-sm text-red-800">
-                        Aggressive investments can experience significant volatility and potential losses up to {formatPercent(results.aggressive.maxDrawdown)}. 
-                        Only suitable for investors with high risk tolerance and long investment horizons.
-                      </p>
-                    </div>
-                    <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
-                      <p className="font-semibold text-amber-900 mb-2">Moderate Strategy Risks</p>
-                      <p className="text-sm text-amber-800">
-                        Moderate portfolios balance risk and return but can still experience drawdowns up to {formatPercent(results.moderate.maxDrawdown)}. 
-                        Suitable for investors with medium risk tolerance.
-                      </p>
-                    </div>
-                    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                      <p className="font-semibold text-blue-900 mb-2">Conservative Strategy Risks</p>
-                      <p className="text-sm text-blue-800">
-                        Conservative investments offer lower returns but also lower risk, with maximum drawdowns around {formatPercent(results.conservative.maxDrawdown)}. 
-                        May not keep pace with inflation over long periods.
-                      </p>
-                    </div>
+                    {[...results.scenarios]
+                      .sort((a, b) => b.assumption.volatility - a.assumption.volatility)
+                      .map(({ assumption, summary }) => (
+                        <div key={assumption.presetId} className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                          <p className="font-semibold text-amber-900 mb-2">{assumption.name} Risks</p>
+                          <p className="text-sm text-amber-800">
+                            With {formatPercent(assumption.volatility * 100)} assumed volatility, this portfolio had a median maximum drawdown of{' '}
+                            {formatPercent(summary.nominal.maxDrawdown)} and peak-to-trough losses beyond {formatPercent(summary.nominal.worstDrawdown)} in the worst 5% of simulations.
+                            {assumption.annualReturn < 0.05 && ' Lower-return portfolios may not keep pace with inflation over long periods.'}
+                          </p>
+                        </div>
+                      ))}
                   </div>
                 </div>
 
@@ -579,8 +900,8 @@ export default function InvestmentScenarioSimulator() {
                     <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
                     <div>
                       <p className="text-sm text-blue-900">
-                        <strong>Note:</strong> These projections are based on historical market averages and simplified assumptions. 
-                        Actual investment returns will vary based on market conditions, fees, taxes, and other factors. 
+                        <strong>Note:</strong> These projections are based on capital-market assumptions and simplified models of inflation, fees and taxes. 
+                        Actual investment returns will vary based on market conditions, tax law changes, and other factors. 
                         This tool is for educational purposes only and does not constitute financial advice. 
                         Always consult with a qualified financial advisor before making investment decisions.
                       </p>
@@ -0,0 +1,544 @@
+/**
+ * Portfolio Tracker Component
+ * Tracks holdings built from buy/sell transactions
+ * Features:
+ * - Record buys and sells (symbol, quantity, price, date, fees)
+ * - Live valuation of stocks, ETFs and crypto
+ * - Cost basis, realized and unrealized P&L (FIFO lots)
+ * - Time-weighted, money-weighted (XIRR) and modified Dietz returns
+ * - Allocation by asset class and by sector
+ * - Import trades from broker statements (CSV, OFX/QFX, QIF)
+ */
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Briefcase, Plus, Trash2, RefreshCw, AlertCircle, TrendingUp, TrendingDown, FileText, History, Loader } from 'lucide-react';
+import {
+  getTransactions,
+  subscribeToPortfolio,
+  addTransaction,
+  deleteTransaction,
+  computePositions,
+  fetchPortfolioQuotes,
+  valuePositions,
+  summarizePortfolio,
+  computeAllocation,
+  computePortfolioReturns,
+  fetchPortfolioHistories,
+  ASSET_CLASS_LABELS,
+  AssetClass,
+  PortfolioTransaction,
+  PriceQuote,
+  TransactionType,
+} from '../services/portfolio';
+import { getErrorMessage } from '../services/api';
+import { PricePoint } from '../services/comparison';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
+import TransactionImporter from './TransactionImporter';
+
+const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1', '#14b8a6', '#64748b'];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+type ReturnPeriodId = 'inception' | 'ytd' | '1y' | '3m';
+
+const RETURN_PERIODS: Array<{ id: ReturnPeriodId; label: string }> = [
+  { id: 'inception', label: 'Since inception' },
+  { id: 'ytd', label: 'Year to date' },
+  { id: '1y', label: '1 year' },
+  { id: '3m', label: '3 months' },
+];
+
+/**
+ * Valuation date that opens the period ending `asOf` (undefined = inception)
+ */
+const periodStartDate = (period: ReturnPeriodId, asOf: string): string | undefined => {
+  const date = new Date(`${asOf}T00:00:00Z`);
+  if (period === 'ytd') return `${date.getUTCFullYear() - 1}-12-31`;
+  if (period === '1y') date.setUTCFullYear(date.getUTCFullYear() - 1);
+  else if (period === '3m') date.setUTCMonth(date.getUTCMonth() - 3);
+  else return undefined;
+  return date.toISOString().split('T')[0];
+};
+
+const EMPTY_FORM = {
+  type: 'buy' as TransactionType,
+  assetClass: 'stock' as AssetClass,
+  symbol: '',
+  quantity: '',
+  price: '',
+  fees: '',
+  date: today(),
+};
+
+export default function PortfolioTracker() {
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>(getTransactions);
+  const [quotes, setQuotes] = useState<Record<string, PriceQuote>>({});
+  const [quoteErrors, setQuoteErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [showImporter, setShowImporter] = useState(false);
+  const [histories, setHistories] = useState<Record<string, PricePoint[]>>({});
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [returnPeriod, setReturnPeriod] = useState<ReturnPeriodId>('inception');
+
+  useEffect(() => subscribeToPortfolio(setTransactions), []);
+
+  const { positions, realized } = useMemo(() => computePositions(transactions), [transactions]);
+  const valued = useMemo(() => valuePositions(positions, quotes), [positions, quotes]);
+  const summary = useMemo(() => summarizePortfolio(valued, realized), [valued, realized]);
+  const byAssetClass = useMemo(() => computeAllocation(valued, 'assetClass'), [valued]);
+  const bySector = useMemo(() => computeAllocation(valued, 'sector'), [valued]);
+  const returns = useMemo(() => {
+    const asOf = today();
+    return computePortfolioReturns(transactions, histories, summary.marketValue, asOf, periodStartDate(returnPeriod, asOf));
+  }, [transactions, histories, summary.marketValue, returnPeriod]);
+
+  // Only refetch quotes when the set of open positions changes
+  const openSignature = positions
+    .filter((position) => position.quantity > 0)
+    .map((position) => `${position.assetClass}:${position.symbol}`)
+    .sort()
+    .join(',');
+
+  const refreshQuotes = useCallback(async () => {
+    const { positions: current } = computePositions(getTransactions());
+    if (!current.some((position) => position.quantity > 0)) {
+      setQuotes({});
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await fetchPortfolioQuotes(current, true);
+      setQuotes(result.quotes);
+      setQuoteErrors(result.errors);
+      setLastUpdated(new Date());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshQuotes();
+  }, [refreshQuotes, openSignature]);
+
+  /**
+   * Load daily closes so past valuations use market prices instead of trade prices
+   */
+  const loadHistory = async () => {
+    setLoadingHistory(true);
+    try {
+      const result = await fetchPortfolioHistories(getTransactions());
+      setHistories(result.histories);
+      setHistoryLoaded(true);
+      setError(result.errors.length > 0 ? `Price history unavailable for ${result.errors.join('; ')}` : null);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  const handleAdd = () => {
+    try {
+      addTransaction({
+        type: form.type,
+        assetClass: form.assetClass,
+        symbol: form.symbol,
+        quantity: parseFloat(form.quantity),
+        price: parseFloat(form.price),
+        fees: parseFloat(form.fees) || 0,
+        date: form.date,
+      });
+      setForm({ ...EMPTY_FORM, type: form.type, assetClass: form.assetClass, date: form.date });
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    try {
+      deleteTransaction(id);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(value);
+
+  const formatReturn = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(2)}%`);
+
+  const formatPnl = (value: number) => (
+    <span className={value >= 0 ? 'text-emerald-600' : 'text-red-600'}>
+      {value >= 0 ? '+' : ''}{formatCurrency(value)}
+    </span>
+  );
+
+  const renderAllocation = (title: string, data: typeof byAssetClass) => (
+    <div className="bg-slate-50 rounded-lg p-4">
+      <h3 className="text-lg font-semibold text-slate-900 mb-2">{title}</h3>
+      <ResponsiveContainer width="100%" height={260}>
+        <PieChart>
+          <Pie data={data.map(({ name, value }) => ({ name, value }))} dataKey="value" nameKey="name" cx="50%" cy="50%" innerRadius={50} outerRadius={90}>
+            {data.map((slice, index) => (
+              <Cell key={slice.name} fill={COLORS[index % COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+          <Legend />
+        </PieChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-teal-100 p-3 rounded-lg">
+            <Briefcase className="w-6 h-6 text-teal-600" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">Portfolio Tracker</h2>
+            <p className="text-sm text-slate-600">Holdings, cost basis and P&amp;L from your transactions</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {lastUpdated && <p className="text-xs text-slate-500">Updated: {lastUpdated.toLocaleTimeString()}</p>}
+          <button
+            onClick={() => setShowImporter(!showImporter)}
+            className="px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+          >
+            <FileText className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={refreshQuotes}
+            disabled={loading}
+            className="p-2 bg-teal-100 hover:bg-teal-200 text-teal-600 rounded-lg transition-colors disabled:opacity-50"
+            title="Refresh prices"
+          >
+            <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {/* API Budget */}
+      <div className="mb-4">
+        <ApiBudgetIndicator providers={['alphaVantage', 'fmp', 'coinGecko']} />
+      </div>
+
+      {showImporter && (
+        <div className="mb-6">
+          <TransactionImporter onClose={() => setShowImporter(false)} />
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-teal-50 rounded-lg p-4">
+          <p className="text-xs text-teal-600 font-semibold uppercase mb-1">Market Value</p>
+          <p className="text-2xl font-bold text-slate-900">{formatCurrency(summary.marketValue)}</p>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-4">
+          <p className="text-xs text-blue-600 font-semibold uppercase mb-1">Cost Basis</p>
+          <p className="text-2xl font-bold text-slate-900">{formatCurrency(summary.costBasis)}</p>
+        </div>
+        <div className="bg-emerald-50 rounded-lg p-4">
+          <p className="text-xs text-emerald-600 font-semibold uppercase mb-1">Unrealized P&amp;L</p>
+          <p className="text-2xl font-bold">{formatPnl(summary.unrealizedPnl)}</p>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-4">
+          <p className="text-xs text-purple-600 font-semibold uppercase mb-1">Realized P&amp;L</p>
+          <p className="text-2xl font-bold">{formatPnl(summary.realizedPnl)}</p>
+        </div>
+      </div>
+
+      {/* New Transaction */}
+      <div className="mb-6 p-4 bg-slate-50 rounded-lg flex flex-wrap items-end gap-3">
+        <div className="flex gap-1 bg-white rounded-lg p-1 border border-slate-200">
+          {(['buy', 'sell'] as TransactionType[]).map((type) => (
+            <button
+              key={type}
+              onClick={() => setForm({ ...form, type })}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold capitalize transition-colors ${
+                form.type === type
+                  ? type === 'buy' ? 'bg-emerald-600 text-white' : 'bg-red-600 text-white'
+                  : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {type}
+            </button>
+          ))}
+        </div>
+        <select
+          value={form.assetClass}
+          onChange={(e) => setForm({ ...form, assetClass: e.target.value as AssetClass })}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+        >
+          {(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map((assetClass) => (
+            <option key={assetClass} value={assetClass}>{ASSET_CLASS_LABELS[assetClass]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={form.symbol}
+          onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+          placeholder={form.assetClass === 'crypto' ? 'CoinGecko ID' : form.assetClass === 'cash' ? 'USD' : 'Ticker'}
+          className="w-32 px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+        <input
+          type="number"
+          value={form.quantity}
+          onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+          placeholder="Quantity"
+          min="0"
+          step="any"
+          className="w-28 px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+        <input
+          type="number"
+          value={form.price}
+          onChange={(e) => setForm({ ...form, price: e.target.value })}
+          placeholder="Price"
+          min="0"
+          step="any"
+          className="w-28 px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+        <input
+          type="number"
+          value={form.fees}
+          onChange={(e) => setForm({ ...form, fees: e.target.value })}
+          placeholder="Fees"
+          min="0"
+          step="any"
+          className="w-24 px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+        <input
+          type="date"
+          value={form.date}
+          onChange={(e) => setForm({ ...form, date: e.target.value })}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!form.symbol.trim() || !form.quantity || !form.price}
+          className="px-4 py-2 bg-teal-600 hover:bg-teal-700 disabled:bg-slate-300 text-white font-semibold rounded-lg flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-semibold text-red-900">Error</p>
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+      {quoteErrors.length > 0 && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          Some prices could not be loaded and are shown at cost: {quoteErrors.join('; ')}
+        </div>
+      )}
+
+      {transactions.length === 0 ? (
+        <p className="text-center text-slate-500 py-12">Record your first buy to start tracking your portfolio.</p>
+      ) : (
+        <div className="space-y-6">
+          {/* Holdings */}
+          <div className="overflow-x-auto">
+            <h3 className="text-lg font-semibold text-slate-900 mb-3">Holdings</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-slate-200">
+                  <th className="text-left py-2 px-3 font-semibold text-slate-700">Symbol</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Quantity</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Avg Cost</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Price</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Day</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Market Value</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Unrealized P&amp;L</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Weight</th>
+                </tr>
+              </thead>
+              <tbody>
+                {valued.map((position) => (
+                  <tr key={`${position.assetClass}:${position.symbol}`} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
+                    <td className="py-2 px-3">
+                      <p className="font-semibold text-slate-900">{position.symbol}</p>
+                      <p className="text-xs text-slate-500">{ASSET_CLASS_LABELS[position.assetClass]} · {position.sector}</p>
+                    </td>
+                    <td className="py-2 px-3 text-right text-slate-700">{position.quantity.toLocaleString('en-US', { maximumFractionDigits: 8 })}</td>
+                    <td className="py-2 px-3 text-right text-slate-700">{formatCurrency(position.averageCost)}</td>
+                    <td className="py-2 px-3 text-right text-slate-900">{position.price !== null ? formatCurrency(position.price) : '-'}</td>
+                    <td className="py-2 px-3 text-right">
+                      {position.dayChangePercent !== null ? (
+                        <span className={`inline-flex items-center gap-1 ${position.dayChangePercent >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                          {position.dayChangePercent >= 0 ? <TrendingUp className="w-3.5 h-3.5" /> : <TrendingDown className="w-3.5 h-3.5" />}
+                          {position.dayChangePercent.toFixed(2)}%
+                        </span>
+                      ) : '-'}
+                    </td>
+                    <td className="py-2 px-3 text-right font-semibold text-slate-900">{formatCurrency(position.marketValue)}</td>
+                    <td className="py-2 px-3 text-right">
+                      {formatPnl(position.unrealizedPnl)}
+                      <span className="block text-xs text-slate-500">{position.unrealizedPnlPercent.toFixed(2)}%</span>
+                    </td>
+                    <td className="py-2 px-3 text-right text-slate-700">{(position.weight * 100).toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Performance */}
+          {returns && (
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <h3 className="text-lg font-semibold text-slate-900">Performance</h3>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={returnPeriod}
+                    onChange={(e) => setReturnPeriod(e.target.value as ReturnPeriodId)}
+                    className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  >
+                    {RETURN_PERIODS.map((period) => (
+                      <option key={period.id} value={period.id}>{period.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={loadHistory}
+                    disabled={loadingHistory}
+                    className="px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-100 text-slate-700 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+                    title="Value past dates at daily closing prices"
+                  >
+                    {loadingHistory ? <Loader className="w-4 h-4 animate-spin" /> : <History className="w-4 h-4" />}
+                    {historyLoaded ? 'Reload history' : 'Load price history'}
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">
+                    Time-weighted{returns.days >= 365 ? ' (annualized)' : ''}
+                  </p>
+                  <p className="text-xl font-bold text-slate-900">
+                    {formatReturn(returns.days >= 365 ? returns.timeWeightedAnnualized : returns.timeWeighted)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">Money-weighted (XIRR)</p>
+                  <p className="text-xl font-bold text-slate-900">{formatReturn(returns.moneyWeighted)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">Modified Dietz</p>
+                  <p className="text-xl font-bold text-slate-900">{formatReturn(returns.modifiedDietz)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">Investment gain</p>
+                  <p className="text-xl font-bold">{formatPnl(returns.gain)}</p>
+                </div>
+              </div>
+              <p className="text-xs text-slate-500 mt-3">
+                {returns.startDate} to {returns.endDate} · net contributions {formatCurrency(returns.netFlows)}
+                {!historyLoaded && ' · past valuations use trade prices until price history is loaded'}
+              </p>
+            </div>
+          )}
+
+          {/* Allocation */}
+          {valued.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderAllocation('Allocation by Asset Class', byAssetClass)}
+              {renderAllocation('Allocation by Sector', bySector)}
+            </div>
+          )}
+
+          {/* Realized Gains */}
+          {realized.length > 0 && (
+            <div className="overflow-x-auto">
+              <h3 className="text-lg font-semibold text-slate-900 mb-3">Realized Gains</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-slate-200">
+                    <th className="text-left py-2 px-3 font-semibold text-slate-700">Symbol</th>
+                    <th className="text-right py-2 px-3 font-semibold text-slate-700">Quantity</th>
+                    <th className="text-right py-2 px-3 font-semibold text-slate-700">Opened</th>
+                    <th className="text-right py-2 px-3 font-semibold text-slate-700">Closed</th>
+                    <th className="text-right py-2 px-3 font-semibold text-slate-700">Proceeds</th>
+                    <th className="text-right py-2 px-3 font-semibold text-slate-700">Cost Basis</th>
+                    <th className="text-right py-2 px-3 font-semibold text-slate-700">Gain</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {realized.map((gain, index) => (
+                    <tr key={`${gain.symbol}-${gain.closeDate}-${index}`} className="border-b border-slate-100">
+                      <td className="py-2 px-3 font-semibold text-slate-900">{gain.symbol}</td>
+                      <td className="py-2 px-3 text-right text-slate-700">{gain.quantity.toLocaleString('en-US', { maximumFractionDigits: 8 })}</td>
+                      <td className="py-2 px-3 text-right text-slate-500">{gain.openDate}</td>
+                      <td className="py-2 px-3 text-right text-slate-500">{gain.closeDate}</td>
+                      <td className="py-2 px-3 text-right text-slate-700">{formatCurrency(gain.proceeds)}</td>
+                      <td className="py-2 px-3 text-right text-slate-700">{formatCurrency(gain.costBasis)}</td>
+                      <td className="py-2 px-3 text-right">{formatPnl(gain.gain)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Transactions */}
+          <div className="overflow-x-auto">
+            <h3 className="text-lg font-semibold text-slate-900 mb-3">Transactions</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-slate-200">
+                  <th className="text-left py-2 px-3 font-semibold text-slate-700">Date</th>
+                  <th className="text-left py-2 px-3 font-semibold text-slate-700">Type</th>
+                  <th className="text-left py-2 px-3 font-semibold text-slate-700">Symbol</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Quantity</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Price</th>
+                  <th className="text-right py-2 px-3 font-semibold text-slate-700">Fees</th>
+                  <th className="py-2 px-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {[...transactions].reverse().map((transaction) => (
+                  <tr key={transaction.id} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
+                    <td className="py-2 px-3 text-slate-500">{transaction.date}</td>
+                    <td className={`py-2 px-3 font-semibold capitalize ${transaction.type === 'buy' ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {transaction.type}
+                    </td>
+                    <td className="py-2 px-3 text-slate-900">{transaction.symbol}</td>
+                    <td className="py-2 px-3 text-right text-slate-700">{transaction.quantity.toLocaleString('en-US', { maximumFractionDigits: 8 })}</td>
+                    <td className="py-2 px-3 text-right text-slate-700">{formatCurrency(transaction.price)}</td>
+                    <td className="py-2 px-3 text-right text-slate-700">{formatCurrency(transaction.fees)}</td>
+                    <td className="py-2 px-3 text-right">
+                      <button
+                        onClick={() => handleDelete(transaction.id)}
+                        className="text-slate-400 hover:text-red-600"
+                        aria-label="Delete transaction"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+/**
+ * Price Alerts Component
+ * Create and manage price alerts on stocks, crypto and currency pairs
+ * Features:
+ * - Rules: price above / below a threshold, or a daily move larger than X%
+ * - One-shot or repeating alerts, enable/disable per rule
+ * - Trigger history
+ * - Browser notification opt-in (checks run in the background every 5 minutes)
+ */
+import { useState, useEffect } from 'react';
+import { Bell, BellOff, Plus, Trash2, RefreshCw, AlertCircle } from 'lucide-react';
+import {
+  getAlertRules,
+  getAlertHistory,
+  subscribeToAlerts,
+  createAlertRule,
+  setAlertRuleEnabled,
+  deleteAlertRule,
+  clearAlertHistory,
+  checkAlerts,
+  describeAlertRule,
+  DEFAULT_POLL_INTERVAL_MS,
+  AlertAssetKind,
+  AlertCondition,
+  AlertRule,
+  AlertTrigger,
+} from '../services/alerts';
+import { getErrorMessage } from '../services/api';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
+
+const KIND_OPTIONS: Array<{ id: AlertAssetKind; label: string; placeholder: string }> = [
+  { id: 'stock', label: 'Stock', placeholder: 'Ticker (e.g., AAPL)' },
+  { id: 'crypto', label: 'Crypto', placeholder: 'CoinGecko ID (e.g., bitcoin)' },
+  { id: 'fx', label: 'Currency', placeholder: 'Pair (e.g., EUR/USD)' },
+];
+
+const CONDITION_OPTIONS: Array<{ id: AlertCondition; label: string }> = [
+  { id: 'priceAbove', label: 'Price above' },
+  { id: 'priceBelow', label: 'Price below' },
+  { id: 'percentMove', label: 'Daily move more than (%)' },
+];
+
+export default function PriceAlerts() {
+  const [rules, setRules] = useState<AlertRule[]>(getAlertRules);
+  const [history, setHistory] = useState<AlertTrigger[]>(getAlertHistory);
+  const [kind, setKind] = useState<AlertAssetKind>('stock');
+  const [symbol, setSymbol] = useState<string>('');
+  const [condition, setCondition] = useState<AlertCondition>('priceAbove');
+  const [threshold, setThreshold] = useState<string>('');
+  const [repeat, setRepeat] = useState<boolean>(true);
+  const [checking, setChecking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastCheck, setLastCheck] = useState<string | null>(null);
+  const [permission, setPermission] = useState<string>(
+    typeof Notification !== 'undefined' ? Notification.permission : 'unsupported'
+  );
+
+  useEffect(
+    () =>
+      subscribeToAlerts(() => {
+        setRules(getAlertRules());
+        setHistory(getAlertHistory());
+      }),
+    []
+  );
+
+  const handleCreate = () => {
+    try {
+      createAlertRule({ kind, symbol, condition, threshold: parseFloat(threshold), repeat });
+      setSymbol('');
+      setThreshold('');
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  /**
+   * Evaluate every rule immediately
+   */
+  const handleCheckNow = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      const result = await checkAlerts();
+      const skipped = result.skipped.length > 0 ? `; skipped ${result.skipped.join(', ')}` : '';
+      setLastCheck(`Checked ${result.checked} rule${result.checked === 1 ? '' : 's'}, ${result.triggers.length} fired${skipped}`);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleEnableNotifications = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-rose-100 p-3 rounded-lg">
+            <Bell className="w-6 h-6 text-rose-600" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">Price Alerts</h2>
+            <p className="text-sm text-slate-600">
+              Checked in the background every {DEFAULT_POLL_INTERVAL_MS / 60000} minutes while the app is open
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {permission === 'default' && (
+            <button
+              onClick={handleEnableNotifications}
+              className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+            >
+              <Bell className="w-4 h-4" />
+              Enable browser notifications
+            </button>
+          )}
+          {permission === 'denied' && (
+            <span className="inline-flex items-center gap-1 text-xs text-slate-500">
+              <BellOff className="w-4 h-4" />
+              Browser notifications blocked
+            </span>
+          )}
+          <button
+            onClick={handleCheckNow}
+            disabled={checking || rules.length === 0}
+            className="p-2 bg-rose-100 hover:bg-rose-200 text-rose-600 rounded-lg transition-colors disabled:opacity-50"
+            title="Check now"
+          >
+            <RefreshCw className={`w-5 h-5 ${checking ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {/* API Budget */}
+      <div className="mb-4">
+        <ApiBudgetIndicator providers={['alphaVantage', 'fmp', 'coinGecko', 'exchangeRate']} />
+      </div>
+
+      {/* New Rule */}
+      <div className="mb-6 p-4 bg-slate-50 rounded-lg flex flex-wrap items-center gap-3">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as AlertAssetKind)}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-500"
+        >
+          {KIND_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value)}
+          placeholder={KIND_OPTIONS.find((option) => option.id === kind)?.placeholder}
+          className="flex-1 min-w-[160px] px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-500"
+        />
+        <select
+          value={condition}
+          onChange={(e) => setCondition(e.target.value as AlertCondition)}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-500"
+        >
+          {CONDITION_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder={condition === 'percentMove' ? '5' : '50000'}
+          min="0"
+          step="any"
+          className="w-32 px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-500"
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={repeat}
+            onChange={(e) => setRepeat(e.target.checked)}
+            className="w-4 h-4 text-rose-600 border-slate-300 rounded focus:ring-rose-500"
+          />
+          Repeat
+        </label>
+        <button
+          onClick={handleCreate}
+          disabled={!symbol.trim() || !threshold}
+          className="px-4 py-2 bg-rose-600 hover:bg-rose-700 disabled:bg-slate-300 text-white font-semibold rounded-lg flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add Alert
+        </button>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-semibold text-red-900">Error</p>
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+      {lastCheck && <p className="mb-4 text-xs text-slate-500">{lastCheck}</p>}
+
+      {/* Rules */}
+      <h3 className="text-lg font-semibold text-slate-900 mb-3">Rules</h3>
+      {rules.length === 0 ? (
+        <p className="text-center text-slate-500 py-8">No alerts yet. Try "bitcoin below 50000" or "AAPL moves more than 5%".</p>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-slate-200">
+                <th className="text-left py-2 px-3 font-semibold text-slate-700">Alert</th>
+                <th className="text-right py-2 px-3 font-semibold text-slate-700">Last Value</th>
+                <th className="text-right py-2 px-3 font-semibold text-slate-700">Last Checked</th>
+                <th className="text-right py-2 px-3 font-semibold text-slate-700">Last Fired</th>
+                <th className="text-center py-2 px-3 font-semibold text-slate-700">Status</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr key={rule.id} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
+                  <td className="py-2 px-3">
+                    <p className="font-semibold text-slate-900">{describeAlertRule(rule)}</p>
+                    <p className="text-xs text-slate-500">{rule.repeat ? 'Repeats' : 'Fires once'}</p>
+                  </td>
+                  <td className="py-2 px-3 text-right text-slate-700">
+                    {rule.lastValue !== undefined ? rule.lastValue.toLocaleString('en-US', { maximumFractionDigits: 6 }) : '-'}
+                  </td>
+                  <td className="py-2 px-3 text-right text-slate-500">
+                    {rule.lastCheckedAt ? new Date(rule.lastCheckedAt).toLocaleTimeString() : '-'}
+                  </td>
+                  <td className="py-2 px-3 text-right text-slate-500">
+                    {rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString() : '-'}
+                  </td>
+                  <td className="py-2 px-3 text-center">
+                    <button
+                      onClick={() => setAlertRuleEnabled(rule.id, !rule.enabled)}
+                      className={`px-2.5 py-1 rounded-full text-xs font-semibold ${
+                        !rule.enabled
+                          ? 'bg-slate-100 text-slate-500'
+                          : rule.armed
+                            ? 'bg-emerald-100 text-emerald-700'
+                            : 'bg-amber-100 text-amber-700'
+                      }`}
+                      title={rule.enabled ? 'Click to disable' : 'Click to enable'}
+                    >
+                      {!rule.enabled ? 'Off' : rule.armed ? 'Armed' : 'Fired'}
+                    </button>
+                  </td>
+                  <td className="py-2 px-3 text-right">
+                    <button
+                      onClick={() => deleteAlertRule(rule.id)}
+                      className="text-slate-400 hover:text-red-600"
+                      aria-label="Delete alert"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Trigger History */}
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-slate-900">History</h3>
+        {history.length > 0 && (
+          <button onClick={clearAlertHistory} className="text-sm text-slate-500 hover:text-red-600">
+            Clear history
+          </button>
+        )}
+      </div>
+      {history.length === 0 ? (
+        <p className="text-center text-slate-500 py-8">No alerts have fired yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {history.map((trigger) => (
+            <li key={trigger.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg text-sm">
+              <span className="text-slate-900">{trigger.message}</span>
+              <span className="text-xs text-slate-500 ml-4 whitespace-nowrap">
+                {new Date(trigger.triggeredAt).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
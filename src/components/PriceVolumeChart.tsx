@@ -0,0 +1,349 @@
+/**
+ * Price & Volume Chart Component
+ * Price pane with a synchronized volume pane for StockPriceChart
+ * Features:
+ * - Line, candlestick and OHLC bar modes
+ * - Volume bars colored by up/down sessions
+ * - Crosshair tooltip with open/high/low/close/volume, synchronized across panes
+ * - Indicator overlays on the price pane and indicator sub-panes (RSI, MACD, ...)
+ * - Zoom and pan with a brush navigator over the full series
+ */
+import { useState, useEffect, useMemo } from 'react';
+import {
+  ComposedChart,
+  AreaChart,
+  Area,
+  Line,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  Brush,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { StockTimeSeriesData } from '../services/stockApi';
+import { IndicatorLine, IndicatorResult } from '../services/indicators';
+
+export type ChartMode = 'line' | 'candlestick' | 'ohlc';
+
+interface PriceVolumeChartProps {
+  data: StockTimeSeriesData[];
+  mode: ChartMode;
+  indicators: IndicatorResult[];
+  formatTick: (date: string) => string;
+  formatLabel: (date: string) => string;
+}
+
+// A bar plus the values of every active indicator line, keyed by line key
+type ChartRow = StockTimeSeriesData & { [key: string]: string | number | null | undefined };
+
+interface BarShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: StockTimeSeriesData;
+}
+
+interface OhlcvTooltipProps {
+  active?: boolean;
+  payload?: ReadonlyArray<{ payload?: ChartRow }>;
+  overlays: IndicatorLine[];
+  formatLabel: (date: string) => string;
+}
+
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#ef4444';
+const SYNC_ID = 'stock-price-volume';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+
+const formatVolume = (value: number) => {
+  if (value >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return value.toFixed(0);
+};
+
+/**
+ * Map a price to a pixel inside a [low, high] range bar
+ */
+const priceToPixel = (price: number, bar: StockTimeSeriesData, y: number, height: number) =>
+  bar.high === bar.low ? y + height / 2 : y + ((bar.high - price) / (bar.high - bar.low)) * height;
+
+/**
+ * Candlestick: high/low wick with an open/close body
+ */
+const CandleShape = ({ x = 0, y = 0, width = 0, height = 0, payload }: BarShapeProps) => {
+  if (!payload) return null;
+
+  const color = payload.close >= payload.open ? UP_COLOR : DOWN_COLOR;
+  const openY = priceToPixel(payload.open, payload, y, height);
+  const closeY = priceToPixel(payload.close, payload, y, height);
+  const center = x + width / 2;
+  const bodyWidth = Math.max(width * 0.7, 1);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect
+        x={center - bodyWidth / 2}
+        y={Math.min(openY, closeY)}
+        width={bodyWidth}
+        height={Math.max(Math.abs(closeY - openY), 1)}
+        fill={color}
+        stroke={color}
+      />
+    </g>
+  );
+};
+
+/**
+ * OHLC bar: high/low line with an open tick on the left and a close tick on the right
+ */
+const OhlcShape = ({ x = 0, y = 0, width = 0, height = 0, payload }: BarShapeProps) => {
+  if (!payload) return null;
+
+  const color = payload.close >= payload.open ? UP_COLOR : DOWN_COLOR;
+  const openY = priceToPixel(payload.open, payload, y, height);
+  const closeY = priceToPixel(payload.close, payload, y, height);
+  const center = x + width / 2;
+  const tick = Math.max(width * 0.4, 2);
+
+  return (
+    <g stroke={color} strokeWidth={1.5}>
+      <line x1={center} x2={center} y1={y} y2={y + height} />
+      <line x1={center - tick} x2={center} y1={openY} y2={openY} />
+      <line x1={center} x2={center + tick} y1={closeY} y2={closeY} />
+    </g>
+  );
+};
+
+const formatIndicatorValue = (value: unknown) =>
+  typeof value === 'number' ? value.toLocaleString('en-US', { maximumFractionDigits: 2 }) : '-';
+
+/**
+ * Tooltip listing every OHLCV field of the hovered bar, plus overlay values
+ */
+const OhlcvTooltip = ({ active, payload, overlays, formatLabel }: OhlcvTooltipProps) => {
+  const bar = payload?.[0]?.payload;
+  if (!active || !bar) return null;
+
+  const change = bar.close - bar.open;
+  const rows: Array<[string, string]> = [
+    ['Open', formatCurrency(bar.open)],
+    ['High', formatCurrency(bar.high)],
+    ['Low', formatCurrency(bar.low)],
+    ['Close', formatCurrency(bar.close)],
+    ['Volume', formatVolume(bar.volume)],
+    ...overlays.map((line): [string, string] => [line.label, formatIndicatorValue(bar[line.key])]),
+  ];
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-md p-3 text-xs">
+      <p className="font-semibold text-slate-900 mb-2">{formatLabel(bar.date)}</p>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-6">
+          <span className="text-slate-500">{label}</span>
+          <span className="font-medium text-slate-900">{value}</span>
+        </div>
+      ))}
+      <p className={`mt-2 font-semibold ${change >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+        {change >= 0 ? '+' : ''}{formatCurrency(change)} ({bar.open > 0 ? ((change / bar.open) * 100).toFixed(2) : '0.00'}%)
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Render one indicator line as a recharts series
+ */
+const renderIndicatorLine = (line: IndicatorLine) =>
+  line.style === 'histogram' ? (
+    <Bar key={line.key} dataKey={line.key} name={line.label} fill={line.color} isAnimationActive={false} />
+  ) : (
+    <Line
+      key={line.key}
+      type="monotone"
+      dataKey={line.key}
+      name={line.label}
+      stroke={line.color}
+      strokeWidth={1.5}
+      strokeDasharray={line.style === 'dashed' ? '4 4' : undefined}
+      dot={false}
+      connectNulls={false}
+      isAnimationActive={false}
+    />
+  );
+
+export default function PriceVolumeChart({ data, mode, indicators, formatTick, formatLabel }: PriceVolumeChartProps) {
+  const [zoom, setZoom] = useState({ startIndex: 0, endIndex: Math.max(data.length - 1, 0) });
+
+  /**
+   * Reset the zoom window whenever a new series is loaded
+   */
+  useEffect(() => {
+    setZoom({ startIndex: 0, endIndex: Math.max(data.length - 1, 0) });
+  }, [data]);
+
+  // Indicators are computed over the full series, so zooming never changes their warm-up
+  const rows = useMemo<ChartRow[]>(
+    () =>
+      data.map((bar, index) => {
+        const row: ChartRow = { ...bar };
+        indicators.forEach((indicator) => {
+          indicator.lines.forEach((line) => {
+            row[line.key] = line.values[index];
+          });
+        });
+        return row;
+      }),
+    [data, indicators]
+  );
+
+  const overlays = indicators.filter((indicator) => indicator.placement === 'overlay');
+  const panes = indicators.filter((indicator) => indicator.placement === 'pane');
+  const overlayLines = overlays.flatMap((indicator) => indicator.lines);
+  const visibleData = rows.slice(zoom.startIndex, zoom.endIndex + 1);
+  const crosshair = { stroke: '#94a3b8', strokeDasharray: '3 3' };
+
+  return (
+    <div className="space-y-2">
+      {/* Price Pane */}
+      <ResponsiveContainer width="100%" height={360}>
+        <ComposedChart data={visibleData} syncId={SYNC_ID}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis
+            dataKey="date"
+            tickFormatter={formatTick}
+            stroke="#64748b"
+            style={{ fontSize: '12px' }}
+          />
+          <YAxis
+            domain={['auto', 'auto']}
+            tickFormatter={(value) => `$${Number(value).toFixed(0)}`}
+            stroke="#64748b"
+            style={{ fontSize: '12px' }}
+          />
+          <Tooltip
+            cursor={crosshair}
+            content={(props) => <OhlcvTooltip {...props} overlays={overlayLines} formatLabel={formatLabel} />}
+          />
+          {(mode === 'line' || overlayLines.length > 0) && <Legend />}
+          {mode === 'line' ? (
+            <>
+              <Line
+                type="monotone"
+                dataKey="close"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={false}
+                name="Closing Price"
+              />
+              <Line
+                type="monotone"
+                dataKey="open"
+                stroke="#10b981"
+                strokeWidth={1}
+                strokeDasharray="5 5"
+                dot={false}
+                name="Opening Price"
+              />
+            </>
+          ) : (
+            <Bar
+              dataKey={(bar: StockTimeSeriesData) => [bar.low, bar.high]}
+              name="Price"
+              isAnimationActive={false}
+              shape={(props: unknown) =>
+                mode === 'candlestick'
+                  ? <CandleShape {...(props as BarShapeProps)} />
+                  : <OhlcShape {...(props as BarShapeProps)} />
+              }
+            />
+          )}
+          {overlayLines.map(renderIndicatorLine)}
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {/* Volume Pane */}
+      <ResponsiveContainer width="100%" height={120}>
+        <ComposedChart data={visibleData} syncId={SYNC_ID}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+          <XAxis dataKey="date" hide />
+          <YAxis
+            tickFormatter={(value) => formatVolume(Number(value))}
+            stroke="#64748b"
+            style={{ fontSize: '12px' }}
+          />
+          <Tooltip cursor={crosshair} content={() => null} />
+          <Bar dataKey="volume" name="Volume" isAnimationActive={false}>
+            {visibleData.map((bar) => (
+              <Cell key={bar.date} fill={bar.close >= bar.open ? UP_COLOR : DOWN_COLOR} fillOpacity={0.6} />
+            ))}
+          </Bar>
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {/* Indicator Sub-panes */}
+      {panes.map((indicator) => (
+        <div key={indicator.config.id}>
+          <p className="text-xs font-semibold text-slate-600 px-2">{indicator.label}</p>
+          <ResponsiveContainer width="100%" height={130}>
+            <ComposedChart data={visibleData} syncId={SYNC_ID}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+              <XAxis dataKey="date" hide />
+              <YAxis
+                domain={indicator.config.type === 'rsi' ? [0, 100] : ['auto', 'auto']}
+                tickFormatter={(value) => (indicator.config.type === 'obv' ? formatVolume(Number(value)) : Number(value).toFixed(1))}
+                stroke="#64748b"
+                style={{ fontSize: '12px' }}
+              />
+              <Tooltip
+                cursor={crosshair}
+                formatter={(value) => formatIndicatorValue(value)}
+                labelFormatter={(label) => formatLabel(String(label))}
+                contentStyle={{ fontSize: '12px', borderRadius: '8px', border: '1px solid #e2e8f0' }}
+              />
+              {indicator.config.type === 'rsi' && (
+                <>
+                  <ReferenceLine y={70} stroke="#ef4444" strokeDasharray="3 3" />
+                  <ReferenceLine y={30} stroke="#10b981" strokeDasharray="3 3" />
+                </>
+              )}
+              {indicator.config.type === 'macd' && <ReferenceLine y={0} stroke="#94a3b8" />}
+              {indicator.lines.map(renderIndicatorLine)}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+
+      {/* Brush Navigator: drag the handles to zoom, drag the window to pan */}
+      <ResponsiveContainer width="100%" height={70}>
+        <AreaChart data={data}>
+          <XAxis dataKey="date" hide />
+          <YAxis hide domain={['auto', 'auto']} />
+          <Area type="monotone" dataKey="close" stroke="#94a3b8" fill="#e2e8f0" isAnimationActive={false} />
+          <Brush
+            dataKey="date"
+            height={30}
+            stroke="#3b82f6"
+            tickFormatter={formatTick}
+            startIndex={zoom.startIndex}
+            endIndex={zoom.endIndex}
+            onChange={({ startIndex, endIndex }) => setZoom({ startIndex, endIndex })}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
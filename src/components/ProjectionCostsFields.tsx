@@ -0,0 +1,83 @@
+/**
+ * Projection Costs Fields Component
+ * Inputs for inflation, fees and account tax treatment used by projection tools
+ * Features:
+ * - Inflation rate, expense ratio and advisory fee
+ * - Taxable, tax-deferred or tax-free account with its tax rate
+ * - Realized gain share for taxable accounts
+ * - Shows the resulting yearly cost drag for an expected return
+ */
+import { Percent } from 'lucide-react';
+import {
+  ACCOUNT_TYPE_LABELS,
+  annualCostDrag,
+  AccountType,
+  ProjectionCosts,
+} from '../services/projectionCosts';
+
+interface ProjectionCostsFieldsProps {
+  costs: ProjectionCosts;
+  onChange: (costs: ProjectionCosts) => void;
+  expectedReturn?: number; // Decimal; when set, the yearly drag at this return is shown
+  inputClassName?: string;
+}
+
+const DEFAULT_INPUT_CLASS =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900';
+
+export default function ProjectionCostsFields({
+  costs,
+  onChange,
+  expectedReturn,
+  inputClassName = DEFAULT_INPUT_CLASS,
+}: ProjectionCostsFieldsProps) {
+  const update = (changes: Partial<ProjectionCosts>) => onChange({ ...costs, ...changes });
+
+  const numberField = (label: string, field: keyof Omit<ProjectionCosts, 'accountType'>, step: string) => (
+    <div>
+      <label className="block text-xs font-medium text-slate-600 mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={costs[field]}
+        onChange={(e) => update({ [field]: parseFloat(e.target.value) || 0 })}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-slate-700 flex items-center gap-1">
+        <Percent className="w-4 h-4" />
+        Inflation, Fees & Taxes
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        {numberField('Inflation (%/yr)', 'inflationRate', '0.1')}
+        {numberField('Expense ratio (%/yr)', 'expenseRatio', '0.01')}
+        {numberField('Advisory fee (%/yr)', 'advisoryFee', '0.05')}
+        {numberField(costs.accountType === 'taxable' ? 'Tax rate on gains (%)' : 'Tax rate (%)', 'taxRate', '1')}
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-600 mb-1">Account</label>
+        <select
+          value={costs.accountType}
+          onChange={(e) => update({ accountType: e.target.value as AccountType })}
+          className={inputClassName}
+        >
+          {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map((accountType) => (
+            <option key={accountType} value={accountType}>{ACCOUNT_TYPE_LABELS[accountType]}</option>
+          ))}
+        </select>
+      </div>
+      {costs.accountType === 'taxable' && numberField('Gain realized and taxed each year (%)', 'realizedGainShare', '5')}
+      <p className="text-xs text-slate-500">
+        {costs.accountType === 'taxable' && 'Part of each year\'s gain is taxed as it is realized.'}
+        {costs.accountType === 'taxDeferred' && 'Grows untaxed; the full balance is taxed when withdrawn.'}
+        {costs.accountType === 'taxFree' && 'Growth and withdrawals are tax-free.'}
+        {expectedReturn !== undefined && ` Fees and tax drag cost ${(annualCostDrag(expectedReturn, costs) * 100).toFixed(2)}% a year.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * Roth Conversion Planner Component
+ * Compares multi-year Roth conversion ladders and asset location strategies
+ * Features:
+ * - Taxable, traditional and Roth balances with taxable cost basis
+ * - Conversion ladders that fill the 12%, 22%, 24% or 32% bracket over a chosen window
+ * - Asset location: same mix everywhere, bonds in traditional, or bonds in Roth
+ * - Lifetime federal tax and ending after-tax wealth for every combination
+ * - Recommended ladder and account balances over time
+ */
+import { useMemo, useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Repeat, Award } from 'lucide-react';
+import {
+  ASSET_LOCATION_LABELS,
+  CONVERSION_LADDERS,
+  planRothConversions,
+  rmdStartAge,
+  AssetLocation,
+  ConversionInputs,
+  ConversionPlan,
+  ConversionRun,
+} from '../services/rothConversion';
+import { getErrorMessage } from '../services/api';
+
+// Household facts that come from the wealth profile
+export type ConversionProfile = Omit<
+  ConversionInputs,
+  'balances' | 'taxableBasis' | 'spending' | 'conversionStartAge' | 'conversionEndAge' | 'heirTaxRate' | 'dividendYield'
+>;
+
+interface RothConversionPlannerProps {
+  profile: ConversionProfile;
+  investableAssets: number;
+}
+
+interface PlannerSettings {
+  traditionalShare: number; // Percent of investable assets
+  rothShare: number; // Percent; the rest is taxable
+  basisShare: number; // Percent of the taxable account that is cost basis
+  spending: number; // Today's dollars per year in retirement
+  startAge: number | null; // Null: retirement age
+  endAge: number | null; // Null: the year before RMDs start
+  heirTaxRate: number; // Percent
+}
+
+const DIVIDEND_YIELD = 0.015;
+
+const ACCOUNT_COLORS = { taxable: '#f59e0b', traditional: '#3b82f6', roth: '#10b981' };
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+export default function RothConversionPlanner({ profile, investableAssets }: RothConversionPlannerProps) {
+  const [settings, setSettings] = useState<PlannerSettings>({
+    traditionalShare: 60,
+    rothShare: 10,
+    basisShare: 70,
+    spending: 60000,
+    startAge: null,
+    endAge: null,
+    heirTaxRate: 24,
+  });
+  const [location, setLocation] = useState<AssetLocation>('taxEfficient');
+
+  const rmdAge = rmdStartAge(profile.taxYear - profile.age);
+  const startAge = settings.startAge ?? Math.max(profile.retirementAge, profile.age);
+  const endAge = settings.endAge ?? rmdAge - 1;
+  const shareError = settings.traditionalShare + settings.rothShare > 100 ? 'Traditional and Roth shares add up to more than 100%' : null;
+
+  const { plan, error } = useMemo((): { plan: ConversionPlan | null; error: string | null } => {
+    if (shareError) return { plan: null, error: shareError };
+    const assets = Math.max(investableAssets, 0);
+    const traditional = assets * settings.traditionalShare / 100;
+    const roth = assets * settings.rothShare / 100;
+    const taxable = assets - traditional - roth;
+    try {
+      return {
+        plan: planRothConversions({
+          ...profile,
+          balances: { taxable, traditional, roth },
+          taxableBasis: taxable * settings.basisShare / 100,
+          spending: settings.spending,
+          conversionStartAge: startAge,
+          conversionEndAge: endAge,
+          heirTaxRate: settings.heirTaxRate / 100,
+          dividendYield: DIVIDEND_YIELD,
+        }),
+        error: null,
+      };
+    } catch (err) {
+      return { plan: null, error: getErrorMessage(err) };
+    }
+  }, [profile, investableAssets, settings, startAge, endAge, shareError]);
+
+  const update = (changes: Partial<PlannerSettings>) => setSettings((prev) => ({ ...prev, ...changes }));
+
+  const numberField = (label: string, value: number, onValue: (value: number) => void, step: string) => (
+    <div>
+      <label className="block text-xs font-medium text-slate-600 mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={value}
+        onChange={(e) => onValue(parseFloat(e.target.value) || 0)}
+        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+      />
+    </div>
+  );
+
+  const runFor = (ladderId: string, runLocation: AssetLocation): ConversionRun | undefined =>
+    plan?.runs.find((run) => run.ladder.id === ladderId && run.location === runLocation);
+
+  const best = plan?.best;
+  const baseline = best ? runFor('none', best.location) : undefined;
+  const chartData = best?.years.map((year) => ({ age: year.age, ...year.balances })) ?? [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-bold text-slate-900 mb-1 flex items-center gap-2">
+        <Repeat className="w-5 h-5 text-teal-600" />
+        Roth Conversions & Asset Location
+      </h2>
+      <p className="text-sm text-slate-600 mb-4">
+        Today's dollars with real returns, {profile.taxYear} federal brackets held constant; RMDs start at {rmdAge}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        {numberField('Traditional (% of assets)', settings.traditionalShare, (traditionalShare) => update({ traditionalShare }), '5')}
+        {numberField('Roth (% of assets)', settings.rothShare, (rothShare) => update({ rothShare }), '5')}
+        {numberField('Taxable cost basis (%)', settings.basisShare, (basisShare) => update({ basisShare }), '5')}
+        {numberField('Retirement spending ($/yr)', settings.spending, (spending) => update({ spending }), '1000')}
+        {numberField('Convert from age', startAge, (value) => update({ startAge: value }), '1')}
+        {numberField('Convert through age', endAge, (value) => update({ endAge: value }), '1')}
+        {numberField('Heirs\' tax rate (%)', settings.heirTaxRate, (heirTaxRate) => update({ heirTaxRate }), '1')}
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Asset location</label>
+          <select
+            value={location}
+            onChange={(e) => setLocation(e.target.value as AssetLocation)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+          >
+            {(Object.keys(ASSET_LOCATION_LABELS) as AssetLocation[]).map((item) => (
+              <option key={item} value={item}>{ASSET_LOCATION_LABELS[item]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {plan && best && (
+        <>
+          <div className="p-4 bg-teal-50 border-l-4 border-teal-600 rounded-lg mb-6">
+            <p className="font-semibold text-slate-900 flex items-center gap-2 mb-1">
+              <Award className="w-4 h-4 text-teal-600" />
+              Recommended: {best.ladder.label}, {ASSET_LOCATION_LABELS[best.location].toLowerCase()}
+            </p>
+            <p className="text-sm text-slate-700">
+              {best.totalConverted > 0
+                ? `Converts ${formatCurrency(best.totalConverted)} between ages ${startAge} and ${endAge}. `
+                : 'Converting does not pay off with these inputs. '}
+              Ends with {formatCurrency(best.endingAfterTaxWealth)} after tax at {profile.planningAge}
+              {baseline && baseline !== best && (
+                <>
+                  , {formatCurrency(best.endingAfterTaxWealth - baseline.endingAfterTaxWealth)} more than not converting,
+                  paying {formatCurrency(Math.abs(baseline.lifetimeTax - best.lifetimeTax))}{' '}
+                  {best.lifetimeTax <= baseline.lifetimeTax ? 'less' : 'more'} lifetime tax
+                </>
+              )}
+              .
+              {best.depletedAge !== null && ` Spending cannot be met from age ${best.depletedAge}.`}
+            </p>
+          </div>
+
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-slate-600">
+                  <th className="py-2 pr-3 text-left font-semibold">Ladder ({ASSET_LOCATION_LABELS[location].toLowerCase()})</th>
+                  <th className="py-2 px-3 text-right font-semibold">Converted</th>
+                  <th className="py-2 px-3 text-right font-semibold">Lifetime Tax</th>
+                  <th className="py-2 px-3 text-right font-semibold">After-Tax Wealth at {profile.planningAge}</th>
+                  <th className="py-2 pl-3 text-right font-semibold">Money Lasts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {CONVERSION_LADDERS.map((ladder) => {
+                  const run = runFor(ladder.id, location);
+                  if (!run) return null;
+                  return (
+                    <tr key={ladder.id} className={`border-b border-slate-100 ${run === best ? 'bg-teal-50 font-semibold' : ''}`}>
+                      <td className="py-2 pr-3 text-slate-900">{ladder.label}</td>
+                      <td className="py-2 px-3 text-right text-slate-900">{formatCurrency(run.totalConverted)}</td>
+                      <td className="py-2 px-3 text-right text-slate-900">{formatCurrency(run.lifetimeTax)}</td>
+                      <td className="py-2 px-3 text-right text-slate-900">{formatCurrency(run.endingAfterTaxWealth)}</td>
+                      <td className="py-2 pl-3 text-right text-slate-900">
+                        {run.depletedAge === null ? `${profile.planningAge}+` : `To ${run.depletedAge}`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="text-sm font-semibold text-slate-700 mb-2">Asset Location with {best.ladder.label.toLowerCase()}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+            {(Object.keys(ASSET_LOCATION_LABELS) as AssetLocation[]).map((item) => {
+              const run = runFor(best.ladder.id, item);
+              if (!run) return null;
+              return (
+                <div key={item} className={`p-3 rounded-lg ${run === best ? 'bg-teal-50 border border-teal-200' : 'bg-slate-50'}`}>
+                  <p className="text-xs text-slate-600 font-semibold mb-1">{ASSET_LOCATION_LABELS[item]}</p>
+                  <p className="text-lg font-bold text-slate-900">{formatCurrency(run.endingAfterTaxWealth)}</p>
+                  <p className="text-xs text-slate-500">{formatCurrency(run.lifetimeTax)} lifetime tax</p>
+                </div>
+              );
+            })}
+          </div>
+
+          <h3 className="text-sm font-semibold text-slate-700 mb-2">Account Balances, Recommended Plan</h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <AreaChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="age" />
+              <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} labelFormatter={(age) => `Age ${age}`} />
+              <Legend />
+              <Area type="monotone" dataKey="taxable" stackId="accounts" stroke={ACCOUNT_COLORS.taxable} fill={ACCOUNT_COLORS.taxable} fillOpacity={0.5} name="Taxable" />
+              <Area type="monotone" dataKey="traditional" stackId="accounts" stroke={ACCOUNT_COLORS.traditional} fill={ACCOUNT_COLORS.traditional} fillOpacity={0.5} name="Traditional" />
+              <Area type="monotone" dataKey="roth" stackId="accounts" stroke={ACCOUNT_COLORS.roth} fill={ACCOUNT_COLORS.roth} fillOpacity={0.5} name="Roth" />
+            </AreaChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </div>
+  );
+}
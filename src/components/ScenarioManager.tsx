@@ -0,0 +1,335 @@
+/**
+ * Scenario Manager Component
+ * Save, compare and share named input snapshots of a calculator
+ * Features:
+ * - Save the current inputs (and results, when calculated) under a name
+ * - Load or delete saved scenarios
+ * - Side-by-side comparison of two or more scenarios with differing inputs and results highlighted
+ * - Shareable link that opens the calculator with the same inputs and, for
+ *   tools that use them, the sender's capital-market assumptions
+ * - Offers to adopt shared assumptions that differ from the recipient's own
+ */
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Bookmark, Check, ChevronDown, ChevronUp, FolderOpen, GitCompare, Link, Save, Trash2 } from 'lucide-react';
+import {
+  compareInputs,
+  compareOutputs,
+  createShareUrl,
+  deleteScenario,
+  getScenarios,
+  mergeInputs,
+  readSharedScenario,
+  saveScenario,
+  subscribeToScenarios,
+  SavedScenario,
+  ScenarioDiffRow,
+  ScenarioOutput,
+  ScenarioOutputFormat,
+  ScenarioTool,
+  ScenarioValue,
+} from '../services/scenarios';
+import { getAssumptionsSnapshot, importAssumptions, matchesAssumptions, AssumptionsSnapshot } from '../services/assumptions';
+import { getErrorMessage } from '../services/api';
+
+interface ScenarioManagerProps<T extends object> {
+  tool: ScenarioTool;
+  inputs: T;
+  defaults: T; // Fills fields missing from older saved scenarios
+  outputs?: ScenarioOutput[]; // Results of the current inputs, if calculated
+  onLoad: (inputs: T) => void;
+  sharesAssumptions?: boolean; // The tool runs on the capital-market assumptions, so links carry them
+}
+
+const formatOutput = (value: number, format: ScenarioOutputFormat): string => {
+  switch (format) {
+    case 'currency':
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    case 'number':
+      return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+};
+
+const formatValue = (value: ScenarioValue, format?: ScenarioOutputFormat): string => {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return format ? formatOutput(value, format) : value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+  return value;
+};
+
+export default function ScenarioManager<T extends object>({
+  tool,
+  inputs,
+  defaults,
+  outputs = [],
+  onLoad,
+  sharesAssumptions = false,
+}: ScenarioManagerProps<T>) {
+  const [scenarios, setScenarios] = useState<SavedScenario[]>(() => getScenarios(tool));
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Read before the tool clears the link from the address bar
+  const [sharedAssumptions, setSharedAssumptions] = useState<AssumptionsSnapshot | null>(() => {
+    const shared = readSharedScenario();
+    return shared?.tool === tool && shared.assumptions && !matchesAssumptions(shared.assumptions) ? shared.assumptions : null;
+  });
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToScenarios(() => setScenarios(getScenarios(tool))), [tool]);
+
+  const compared = compareIds
+    .map((id) => scenarios.find((scenario) => scenario.id === id))
+    .filter((scenario) => scenario !== undefined);
+
+  const handleSave = () => {
+    try {
+      const saved = saveScenario(tool, name, inputs, outputs);
+      setName(saved.name);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleLoad = (scenario: SavedScenario) => {
+    onLoad(mergeInputs(defaults, scenario.inputs));
+    setName(scenario.name);
+  };
+
+  const handleDelete = (id: string) => {
+    deleteScenario(id);
+    setCompareIds((ids) => ids.filter((item) => item !== id));
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((ids) => (ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id]));
+  };
+
+  const handleShare = async (scenarioName: string, scenarioInputs: object) => {
+    const url = createShareUrl({
+      tool,
+      name: scenarioName || 'Shared scenario',
+      inputs: scenarioInputs,
+      assumptions: sharesAssumptions ? getAssumptionsSnapshot() : undefined,
+    });
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked: the link stays visible to copy by hand
+      setCopied(false);
+    }
+  };
+
+  const handleImportAssumptions = () => {
+    if (!sharedAssumptions) return;
+    try {
+      importAssumptions(sharedAssumptions);
+      setSharedAssumptions(null);
+    } catch (err) {
+      setImportError(getErrorMessage(err));
+    }
+  };
+
+  const renderRows = (rows: ScenarioDiffRow[], showDelta: boolean) =>
+    rows
+      .filter((row) => !onlyDifferences || row.differs)
+      .map((row) => (
+        <tr key={row.label} className={row.differs ? 'bg-amber-50' : ''}>
+          <td className="py-1.5 pr-3 text-slate-600">{row.label}</td>
+          {row.values.map((value, index) => {
+            const base = row.values[0];
+            const delta = showDelta && index > 0 && typeof value === 'number' && typeof base === 'number' ? value - base : 0;
+            return (
+              <td key={index} className="py-1.5 px-3 text-right text-slate-900 whitespace-nowrap">
+                {formatValue(value, row.format)}
+                {delta !== 0 && row.format && (
+                  <span className={`block text-xs ${delta > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {delta > 0 ? '+' : '−'}{formatOutput(Math.abs(delta), row.format)}
+                  </span>
+                )}
+              </td>
+            );
+          })}
+        </tr>
+      ));
+
+  const inputRows = compared.length >= 2 ? compareInputs(compared) : [];
+  const outputRows = compared.length >= 2 ? compareOutputs(compared) : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between">
+        <span className="text-lg font-bold text-slate-900 flex items-center gap-2">
+          <Bookmark className="w-5 h-5 text-blue-600" />
+          Scenarios
+          {scenarios.length > 0 && <span className="text-sm font-medium text-slate-500">({scenarios.length} saved)</span>}
+        </span>
+        {open ? <ChevronUp className="w-5 h-5 text-slate-500" /> : <ChevronDown className="w-5 h-5 text-slate-500" />}
+      </button>
+
+      {sharedAssumptions && (
+        <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <p className="flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            This link was made with different capital-market assumptions
+            {sharedAssumptions.presets.length > 0 && ` and custom presets (${sharedAssumptions.presets.map((preset) => preset.name).join(', ')})`}.
+            Results will differ from the sender's unless you use them.
+          </p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <button
+              onClick={handleImportAssumptions}
+              className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-xs font-semibold"
+              title="Replaces your asset classes and correlations and adds the shared presets"
+            >
+              Use shared assumptions
+            </button>
+            <button
+              onClick={() => setSharedAssumptions(null)}
+              className="px-3 py-1.5 bg-white hover:bg-amber-100 border border-amber-200 rounded-lg text-xs font-semibold"
+            >
+              Keep mine
+            </button>
+          </div>
+          {importError && <p className="mt-2 text-red-600">{importError}</p>}
+        </div>
+      )}
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Scenario name"
+              className="flex-1 min-w-[10rem] px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!name.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white rounded-lg text-sm font-semibold flex items-center gap-1"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+            <button
+              onClick={() => handleShare(name.trim(), inputs)}
+              className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-semibold flex items-center gap-1"
+              title="Copy a link that opens these inputs"
+            >
+              {copied ? <Check className="w-4 h-4 text-emerald-600" /> : <Link className="w-4 h-4" />}
+              {copied ? 'Copied' : 'Share link'}
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            {outputs.length > 0
+              ? 'Saves the current inputs and results. Saving under an existing name replaces it.'
+              : 'Saves the current inputs; calculate first to include results in comparisons.'}
+          </p>
+          {shareUrl && (
+            <input
+              type="text"
+              readOnly
+              value={shareUrl}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg bg-slate-50 text-xs text-slate-600"
+            />
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {scenarios.length > 0 && (
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {scenarios.map((scenario) => (
+                <div key={scenario.id} className="flex items-center gap-3 px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(scenario.id)}
+                    onChange={() => toggleCompare(scenario.id)}
+                    title="Compare"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-900 truncate">{scenario.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {new Date(scenario.updatedAt).toLocaleString()}
+                      {scenario.outputs.length === 0 && ' · inputs only'}
+                    </p>
+                  </div>
+                  <button onClick={() => handleLoad(scenario)} className="p-1.5 text-slate-500 hover:text-blue-600" title="Load">
+                    <FolderOpen className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleShare(scenario.name, scenario.inputs)}
+                    className="p-1.5 text-slate-500 hover:text-blue-600"
+                    title="Copy share link"
+                  >
+                    <Link className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(scenario.id)} className="p-1.5 text-slate-500 hover:text-red-600" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {scenarios.length > 1 && compared.length < 2 && (
+            <p className="text-xs text-slate-500">Tick two or more scenarios to compare them.</p>
+          )}
+
+          {compared.length >= 2 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-1">
+                  <GitCompare className="w-4 h-4" />
+                  Comparison
+                </h3>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+                  Only differences
+                </label>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200">
+                      <th className="py-2 pr-3 text-left font-semibold text-slate-700"></th>
+                      {compared.map((scenario) => (
+                        <th key={scenario.id} className="py-2 px-3 text-right font-semibold text-slate-900">{scenario.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <td colSpan={compared.length + 1} className="pt-3 pb-1 text-xs font-semibold uppercase text-slate-500">Inputs</td>
+                    </tr>
+                    {renderRows(inputRows, false)}
+                    {outputRows.length > 0 && (
+                      <tr>
+                        <td colSpan={compared.length + 1} className="pt-3 pb-1 text-xs font-semibold uppercase text-slate-500">
+                          Results (change vs. {compared[0].name})
+                        </td>
+                      </tr>
+                    )}
+                    {renderRows(outputRows, true)}
+                  </tbody>
+                </table>
+              </div>
+              {onlyDifferences && inputRows.every((row) => !row.differs) && outputRows.every((row) => !row.differs) && (
+                <p className="text-xs text-slate-500 mt-2">These scenarios are identical.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
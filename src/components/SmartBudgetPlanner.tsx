@@ -3,36 +3,24 @@
  * AI-powered budget analysis and optimization
  * Features:
  * - CSV upload or manual expense entry
+ * - Monthly totals from imported bank statements (CSV, OFX/QFX, QIF)
  * - AI-generated budget recommendations
  * - Interactive charts and sliders
  * - Category-wise budget adjustments
  */
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Upload, DollarSign, TrendingDown, TrendingUp, Sliders, Loader, AlertCircle } from 'lucide-react';
+import { Upload, DollarSign, TrendingDown, TrendingUp, Sliders, Loader, AlertCircle, FileText } from 'lucide-react';
 import Papa from 'papaparse';
 import { generateBudgetAnalysis, BudgetAnalysis } from '../services/aiService';
+import { getLedgerEntries, subscribeToLedger, getLedgerMonths, summarizeLedgerMonth, BUDGET_CATEGORIES, LedgerEntry } from '../services/ledger';
+import TransactionImporter from './TransactionImporter';
 
 interface Expense {
   category: string;
   amount: number;
 }
 
-const EXPENSE_CATEGORIES = [
-  'Food',
-  'Rent',
-  'Utilities',
-  'Transportation',
-  'Entertainment',
-  'Healthcare',
-  'Shopping',
-  'Travel',
-  'Education',
-  'Insurance',
-  'Savings',
-  'Other',
-];
-
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1', '#14b8a6', '#64748b'];
 
 export default function SmartBudgetPlanner() {
@@ -42,8 +30,20 @@ export default function SmartBudgetPlanner() {
   const [error, setError] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<BudgetAnalysis | null>(null);
   const [budgetAdjustments, setBudgetAdjustments] = useState<{ [key: string]: number }>({});
+  const [ledger, setLedger] = useState<LedgerEntry[]>(getLedgerEntries);
+  const [ledgerMonth, setLedgerMonth] = useState<string>('');
+  const [showImporter, setShowImporter] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => subscribeToLedger(setLedger), []);
+
+  const ledgerMonths = useMemo(() => getLedgerMonths(ledger), [ledger]);
+  const selectedMonth = ledgerMonths.includes(ledgerMonth) ? ledgerMonth : ledgerMonths[0] || '';
+  const monthSummary = useMemo(
+    () => (selectedMonth ? summarizeLedgerMonth(ledger, selectedMonth) : null),
+    [ledger, selectedMonth]
+  );
+
   /**
    * Handle CSV file upload
    */
@@ -74,6 +74,20 @@ export default function SmartBudgetPlanner() {
     });
   };
 
+  /**
+   * Replace expenses and income with an imported month's totals
+   */
+  const handleUseLedgerMonth = () => {
+    if (!monthSummary) return;
+    setExpenses(monthSummary.expenses.map((expense) => ({ ...expense })));
+    if (monthSummary.income > 0) {
+      setIncome(Math.round(monthSummary.income * 100) / 100);
+    }
+    setAnalysis(null);
+    setBudgetAdjustments({});
+    setError(null);
+  };
+
   /**
    * Add manual expense
    */
@@ -189,6 +203,12 @@ export default function SmartBudgetPlanner() {
           </div>
         </div>
 
+        {showImporter && (
+          <div className="mb-6">
+            <TransactionImporter onClose={() => setShowImporter(false)} />
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Input Panel */}
           <div className="lg:col-span-1 space-y-6">
@@ -206,6 +226,55 @@ export default function SmartBudgetPlanner() {
               />
             </div>
 
+            {/* Imported Transactions */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-slate-900">Transactions</h2>
+                <button
+                  onClick={() => setShowImporter(!showImporter)}
+                  className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                >
+                  <FileText className="w-4 h-4" />
+                  Import
+                </button>
+              </div>
+              {ledgerMonths.length === 0 ? (
+                <p className="text-sm text-slate-500">Import a bank or card statement to budget from real spending</p>
+              ) : (
+                <div className="space-y-3">
+                  <select
+                    value={selectedMonth}
+                    onChange={(e) => setLedgerMonth(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 text-sm bg-white text-slate-900"
+                  >
+                    {ledgerMonths.map((month) => (
+                      <option key={month} value={month}>{month}</option>
+                    ))}
+                  </select>
+                  {monthSummary && (
+                    <div className="text-sm text-slate-600 space-y-1">
+                      <div className="flex justify-between">
+                        <span>Income</span>
+                        <span className="font-semibold text-emerald-600">{formatCurrency(monthSummary.income)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Spending</span>
+                        <span className="font-semibold text-slate-900">
+                          {formatCurrency(monthSummary.expenses.reduce((sum, expense) => sum + expense.amount, 0))}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  <button
+                    onClick={handleUseLedgerMonth}
+                    className="w-full px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    Use this month
+                  </button>
+                </div>
+              )}
+            </div>
+
             {/* Expense Input */}
             <div className="bg-white rounded-xl shadow-lg p-6">
               <div className="flex items-center justify-between mb-4">
@@ -243,7 +312,7 @@ export default function SmartBudgetPlanner() {
                       onChange={(e) => handleUpdateExpense(index, 'category', e.target.value)}
                       className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 text-sm bg-white text-slate-900"
                     >
-                      {EXPENSE_CATEGORIES.map((cat) => (
+                      {BUDGET_CATEGORIES.map((cat) => (
                         <option key={cat} value={cat}>{cat}</option>
                       ))}
                     </select>
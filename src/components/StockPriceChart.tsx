@@ -1,37 +1,150 @@
 /**
  * Stock Price Chart Component
- * Displays historical stock price data using Alpha Vantage API
+ * Displays historical stock price data through the market data provider chain
  * Features:
- * - Dynamic stock symbol input
- * - Line chart visualization using Recharts
+ * - Dynamic stock symbol input, with quick picks from saved watchlists
+ * - Range buttons (1D to Max) with an interval selector (1min to monthly)
+ * - Split/dividend-adjusted or raw daily, weekly and monthly prices
+ * - Line, candlestick and OHLC chart modes with a volume pane and brush zoom
+ * - Technical indicator overlays (SMA, EMA, Bollinger, VWAP) and sub-panes (RSI, MACD, ATR, OBV)
  * - Loading and error states
  */
-import { useState } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { TrendingUp, Search, Loader, AlertCircle } from 'lucide-react';
-import { fetchStockTimeSeries, StockTimeSeriesData } from '../services/stockApi';
+import { useState, useMemo, useEffect } from 'react';
+import { TrendingUp, Search, Loader, AlertCircle, Plus, X } from 'lucide-react';
+import {
+  StockTimeSeriesData,
+  StockInterval,
+  isIntradayInterval,
+  toAdjustedSeries,
+} from '../services/stockApi';
+import { getStockSeries } from '../services/marketData';
+import {
+  computeIndicator,
+  IndicatorConfig,
+  IndicatorType,
+  INDICATOR_DEFINITIONS,
+} from '../services/indicators';
+import { getWatchlists, subscribeToWatchlists, Watchlist } from '../services/watchlists';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
+import AddToWatchlistButton from './AddToWatchlistButton';
+import PriceVolumeChart, { ChartMode } from './PriceVolumeChart';
+
+type RangeId = '1D' | '5D' | '1M' | '6M' | 'YTD' | '1Y' | '5Y' | 'Max';
+
+interface RangePreset {
+  id: RangeId;
+  intervals: StockInterval[];
+  defaultInterval: StockInterval;
+}
+
+const RANGE_PRESETS: RangePreset[] = [
+  { id: '1D', intervals: ['1min', '5min', '15min', '30min', '60min'], defaultInterval: '5min' },
+  { id: '5D', intervals: ['5min', '15min', '30min', '60min'], defaultInterval: '30min' },
+  { id: '1M', intervals: ['60min', 'daily'], defaultInterval: 'daily' },
+  { id: '6M', intervals: ['daily', 'weekly'], defaultInterval: 'daily' },
+  { id: 'YTD', intervals: ['daily', 'weekly'], defaultInterval: 'daily' },
+  { id: '1Y', intervals: ['daily', 'weekly'], defaultInterval: 'daily' },
+  { id: '5Y', intervals: ['daily', 'weekly', 'monthly'], defaultInterval: 'weekly' },
+  { id: 'Max', intervals: ['weekly', 'monthly'], defaultInterval: 'monthly' },
+];
+
+const INTERVAL_LABELS: Record<StockInterval, string> = {
+  '1min': '1 min',
+  '5min': '5 min',
+  '15min': '15 min',
+  '30min': '30 min',
+  '60min': '1 hour',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const CHART_MODES: Array<{ id: ChartMode; label: string }> = [
+  { id: 'line', label: 'Line' },
+  { id: 'candlestick', label: 'Candles' },
+  { id: 'ohlc', label: 'OHLC' },
+];
+
+// Calendar days covered by each fixed-length range
+const RANGE_DAYS: Partial<Record<RangeId, number>> = {
+  '1M': 31,
+  '6M': 183,
+  '1Y': 366,
+  '5Y': 1827,
+};
+
+/**
+ * Parse a series date as local time ('YYYY-MM-DD' or 'YYYY-MM-DD HH:mm:ss')
+ */
+const parseSeriesDate = (value: string) =>
+  new Date(value.includes(' ') ? value.replace(' ', 'T') : `${value}T00:00:00`);
+
+/**
+ * Only the compact (last 100 bars) payload is needed for short daily ranges
+ */
+const getOutputSize = (range: RangeId, interval: StockInterval): 'compact' | 'full' =>
+  interval === 'daily' && range === '1M' ? 'compact' : 'full';
+
+/**
+ * Keep the bars that fall inside a range, measured back from the latest bar
+ * so delayed or offline data still fills the chart
+ */
+const filterSeriesByRange = (series: StockTimeSeriesData[], range: RangeId): StockTimeSeriesData[] => {
+  if (series.length === 0 || range === 'Max') {
+    return series;
+  }
+
+  const lastDate = series[series.length - 1].date;
+
+  if (range === '1D' || range === '5D') {
+    const sessions = Array.from(new Set(series.map((bar) => bar.date.slice(0, 10))));
+    const keep = new Set(sessions.slice(range === '1D' ? -1 : -5));
+    return series.filter((bar) => keep.has(bar.date.slice(0, 10)));
+  }
+
+  if (range === 'YTD') {
+    return series.filter((bar) => bar.date.slice(0, 4) === lastDate.slice(0, 4));
+  }
+
+  const start = parseSeriesDate(lastDate);
+  start.setDate(start.getDate() - (RANGE_DAYS[range] || 0));
+  return series.filter((bar) => parseSeriesDate(bar.date) >= start);
+};
+
+/**
+ * Unique stock tickers across all watchlists, in watchlist order
+ */
+const getWatchedStocks = (watchlists: Watchlist[]) =>
+  Array.from(new Set(watchlists.flatMap((list) => list.items.filter((item) => item.kind === 'stock').map((item) => item.id))));
 
 export default function StockPriceChart() {
-  const [symbol, setSymbol] = useState<string>('AAPL');
+  const [watchlists, setWatchlists] = useState<Watchlist[]>(getWatchlists);
+  // Start from the first watched stock rather than always AAPL
+  const [symbol, setSymbol] = useState<string>(() => getWatchedStocks(getWatchlists())[0] || 'AAPL');
   const [stockData, setStockData] = useState<StockTimeSeriesData[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [dataSource, setDataSource] = useState<string | null>(null);
+  const [loadedSymbol, setLoadedSymbol] = useState<string | null>(null);
+  const [range, setRange] = useState<RangeId>('6M');
+  const [barInterval, setBarInterval] = useState<StockInterval>('daily');
+  const [adjusted, setAdjusted] = useState<boolean>(true);
+  const [chartMode, setChartMode] = useState<ChartMode>('line');
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>([]);
+  const [newIndicatorType, setNewIndicatorType] = useState<IndicatorType>('sma');
+  const [newIndicatorPeriod, setNewIndicatorPeriod] = useState<number>(20);
 
   /**
-   * Fetch stock data when symbol changes or on search
+   * Fetch a series for the given symbol, range and interval
    */
-  const handleSearch = async () => {
-    if (!symbol.trim()) {
-      setError('Please enter a stock symbol');
-      return;
-    }
-
+  const loadSeries = async (ticker: string, nextRange: RangeId, nextInterval: StockInterval) => {
     setLoading(true);
     setError(null);
     setStockData([]);
+    setDataSource(null);
 
     try {
-      const data = await fetchStockTimeSeries(symbol.trim(), 'compact');
+      const { data, sourceName } = await getStockSeries(ticker, nextInterval, getOutputSize(nextRange, nextInterval));
       
       if (data.length === 0) {
         setError('No data found for this symbol');
@@ -39,6 +152,8 @@ export default function StockPriceChart() {
       }
 
       setStockData(data);
+      setDataSource(sourceName);
+      setLoadedSymbol(ticker);
     } catch (err: any) {
       setError(err.message || 'Failed to fetch stock data');
     } finally {
@@ -46,6 +161,98 @@ export default function StockPriceChart() {
     }
   };
 
+  /**
+   * Fetch stock data when symbol changes or on search
+   */
+  const handleSearch = async () => {
+    if (!symbol.trim()) {
+      setError('Please enter a stock symbol');
+      return;
+    }
+
+    await loadSeries(symbol.trim(), range, barInterval);
+  };
+
+  useEffect(() => subscribeToWatchlists(setWatchlists), []);
+
+  const watchedStocks = getWatchedStocks(watchlists);
+
+  /**
+   * Load a ticker picked from the watchlist shortcuts
+   */
+  const handleWatchedSelect = (ticker: string) => {
+    setSymbol(ticker);
+    loadSeries(ticker, range, barInterval);
+  };
+
+  /**
+   * Switch range, falling back to the range's default interval when the
+   * current one does not fit
+   */
+  const handleRangeChange = (nextRange: RangeId) => {
+    const preset = RANGE_PRESETS.find((item) => item.id === nextRange)!;
+    const nextInterval = preset.intervals.includes(barInterval) ? barInterval : preset.defaultInterval;
+    setRange(nextRange);
+    setBarInterval(nextInterval);
+    if (loadedSymbol) {
+      loadSeries(loadedSymbol, nextRange, nextInterval);
+    }
+  };
+
+  const handleIntervalChange = (nextInterval: StockInterval) => {
+    setBarInterval(nextInterval);
+    if (loadedSymbol) {
+      loadSeries(loadedSymbol, range, nextInterval);
+    }
+  };
+
+  const activePreset = RANGE_PRESETS.find((item) => item.id === range)!;
+
+  const seriesData = useMemo(
+    () => (adjusted ? toAdjustedSeries(stockData) : stockData),
+    [stockData, adjusted]
+  );
+
+  // Bars shown on the chart: adjusted if requested, trimmed to the range
+  const chartData = useMemo(() => filterSeriesByRange(seriesData, range), [seriesData, range]);
+
+  // Indicators use the whole loaded series for warm-up, then are trimmed to the range
+  const indicatorResults = useMemo(() => {
+    const offset = seriesData.length - chartData.length;
+    return indicators.map((config, index) => {
+      const result = computeIndicator(config, seriesData, index);
+      return {
+        ...result,
+        lines: result.lines.map((line) => ({ ...line, values: line.values.slice(offset) })),
+      };
+    });
+  }, [indicators, seriesData, chartData.length]);
+
+  const newIndicatorHasPeriod = INDICATOR_DEFINITIONS[newIndicatorType].defaults.period !== undefined;
+
+  /**
+   * Select an indicator type, resetting the period to its default
+   */
+  const handleIndicatorTypeChange = (type: IndicatorType) => {
+    setNewIndicatorType(type);
+    setNewIndicatorPeriod(INDICATOR_DEFINITIONS[type].defaults.period ?? 0);
+  };
+
+  /**
+   * Add the selected indicator with the chosen period
+   */
+  const handleAddIndicator = () => {
+    const params = newIndicatorHasPeriod && newIndicatorPeriod > 0 ? { period: Math.round(newIndicatorPeriod) } : {};
+    setIndicators((current) => [
+      ...current,
+      { id: `${newIndicatorType}-${Date.now()}`, type: newIndicatorType, params },
+    ]);
+  };
+
+  const handleRemoveIndicator = (id: string) => {
+    setIndicators((current) => current.filter((indicator) => indicator.id !== id));
+  };
+
   /**
    * Format currency for display
    */
@@ -58,34 +265,56 @@ export default function StockPriceChart() {
   };
 
   /**
-   * Format date for display
+   * Format date for display (time of day for intraday bars within one session)
    */
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = parseSeriesDate(dateString);
+    if (isIntradayInterval(barInterval) && range === '1D') {
+      return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    }
+    if (range === '5Y' || range === 'Max') {
+      return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+    }
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
+  /**
+   * Format date for tooltips and the data table (always includes time for intraday bars)
+   */
+  const formatFullDate = (dateString: string) => {
+    const date = parseSeriesDate(dateString);
+    const day = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return dateString.includes(' ')
+      ? `${day} ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+      : day;
+  };
+
   // Calculate price change
-  const priceChange = stockData.length > 0
-    ? stockData[stockData.length - 1].close - stockData[0].close
+  const priceChange = chartData.length > 0
+    ? chartData[chartData.length - 1].close - chartData[0].close
     : 0;
-  const priceChangePercent = stockData.length > 0 && stockData[0].close > 0
-    ? ((priceChange / stockData[0].close) * 100).toFixed(2)
+  const priceChangePercent = chartData.length > 0 && chartData[0].close > 0
+    ? ((priceChange / chartData[0].close) * 100).toFixed(2)
     : '0.00';
 
   return (
     <div className="bg-white rounded-xl shadow-lg p-6">
       {/* Header */}
-      <div className="flex items-center gap-3 mb-6">
+      <div className="flex items-center gap-3 mb-4">
         <div className="bg-blue-100 p-3 rounded-lg">
           <TrendingUp className="w-6 h-6 text-blue-600" />
         </div>
         <div>
           <h2 className="text-2xl font-bold text-slate-900">Stock Price Chart</h2>
-          <p className="text-sm text-slate-600">Historical price data powered by Alpha Vantage API</p>
+          <p className="text-sm text-slate-600">Historical price data powered by Alpha Vantage and Financial Modeling Prep</p>
         </div>
       </div>
 
+      {/* API Budget */}
+      <div className="mb-6">
+        <ApiBudgetIndicator providers={['alphaVantage', 'fmp']} />
+      </div>
+
       {/* Search Bar */}
       <div className="mb-6">
         <div className="flex gap-3">
@@ -121,6 +350,139 @@ export default function StockPriceChart() {
         </div>
       </div>
 
+      {/* Watchlist Shortcuts */}
+      {watchedStocks.length > 0 && (
+        <div className="mb-6 -mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-500">Watchlist:</span>
+          {watchedStocks.map((ticker) => (
+            <button
+              key={ticker}
+              onClick={() => handleWatchedSelect(ticker)}
+              disabled={loading}
+              className={`px-2.5 py-1 rounded-full border font-medium transition-colors ${
+                loadedSymbol === ticker
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {ticker}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Range & Interval Controls */}
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <div className="flex flex-wrap gap-1 bg-slate-100 rounded-lg p-1">
+          {RANGE_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => handleRangeChange(preset.id)}
+              disabled={loading}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                range === preset.id
+                  ? 'bg-blue-600 text-white'
+                  : 'text-slate-600 hover:bg-white'
+              }`}
+            >
+              {preset.id}
+            </button>
+          ))}
+        </div>
+        <select
+          value={barInterval}
+          onChange={(e) => handleIntervalChange(e.target.value as StockInterval)}
+          disabled={loading}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {activePreset.intervals.map((option) => (
+            <option key={option} value={option}>
+              {INTERVAL_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <label
+          className={`flex items-center gap-2 text-sm ${isIntradayInterval(barInterval) ? 'text-slate-400' : 'text-slate-700'}`}
+          title={isIntradayInterval(barInterval) ? 'Intraday bars are shown as the provider returns them; only daily and longer bars carry an adjusted close' : undefined}
+        >
+          <input
+            type="checkbox"
+            checked={adjusted || isIntradayInterval(barInterval)}
+            onChange={(e) => setAdjusted(e.target.checked)}
+            disabled={isIntradayInterval(barInterval)}
+            className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+          />
+          Split/dividend adjusted
+        </label>
+        <div className="flex gap-1 bg-slate-100 rounded-lg p-1 ml-auto">
+          {CHART_MODES.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setChartMode(option.id)}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                chartMode === option.id
+                  ? 'bg-blue-600 text-white'
+                  : 'text-slate-600 hover:bg-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Indicator Controls */}
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <select
+          value={newIndicatorType}
+          onChange={(e) => handleIndicatorTypeChange(e.target.value as IndicatorType)}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(INDICATOR_DEFINITIONS) as IndicatorType[]).map((type) => (
+            <option key={type} value={type}>
+              {INDICATOR_DEFINITIONS[type].name}
+            </option>
+          ))}
+        </select>
+        {newIndicatorHasPeriod && (
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            Period
+            <input
+              type="number"
+              min={2}
+              max={200}
+              value={newIndicatorPeriod}
+              onChange={(e) => setNewIndicatorPeriod(Number(e.target.value))}
+              className="w-20 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        )}
+        <button
+          onClick={handleAddIndicator}
+          className="flex items-center gap-1 px-3 py-2 bg-slate-800 text-white rounded-lg text-sm font-semibold hover:bg-slate-900 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Indicator
+        </button>
+        {indicatorResults.map((indicator) => (
+          <span
+            key={indicator.config.id}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full bg-slate-100 text-sm text-slate-700"
+          >
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: indicator.lines[indicator.lines.length > 1 ? 1 : 0].color }} />
+            {indicator.label}
+            <span className="text-xs text-slate-400">{indicator.placement === 'overlay' ? 'overlay' : 'pane'}</span>
+            <button
+              onClick={() => handleRemoveIndicator(indicator.config.id)}
+              className="text-slate-400 hover:text-red-600"
+              aria-label={`Remove ${indicator.label}`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </span>
+        ))}
+      </div>
+
       {/* Error Message */}
       {error && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
@@ -133,14 +495,14 @@ export default function StockPriceChart() {
       )}
 
       {/* Chart Display */}
-      {stockData.length > 0 && !loading && (
+      {chartData.length > 0 && !loading && (
         <div className="space-y-4">
           {/* Summary Stats */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="bg-blue-50 rounded-lg p-4">
               <p className="text-xs text-blue-600 font-semibold uppercase mb-1">Current Price</p>
               <p className="text-2xl font-bold text-slate-900">
-                {formatCurrency(stockData[stockData.length - 1].close)}
+                {formatCurrency(chartData[chartData.length - 1].close)}
               </p>
             </div>
             <div className="bg-emerald-50 rounded-lg p-4">
@@ -157,53 +519,24 @@ export default function StockPriceChart() {
             </div>
           </div>
 
-          {/* Line Chart */}
+          {/* Price & Volume Chart */}
           <div className="bg-slate-50 rounded-lg p-4">
-            <h3 className="text-lg font-semibold text-slate-900 mb-4">Price Trend</h3>
-            <ResponsiveContainer width="100%" height={400}>
-              <LineChart data={stockData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-                <XAxis
-                  dataKey="date"
-                  tickFormatter={formatDate}
-                  stroke="#64748b"
-                  style={{ fontSize: '12px' }}
-                />
-                <YAxis
-                  tickFormatter={(value) => `$${value.toFixed(0)}`}
-                  stroke="#64748b"
-                  style={{ fontSize: '12px' }}
-                />
-                <Tooltip
-                  formatter={(value: number) => formatCurrency(value)}
-                  labelFormatter={(label) => `Date: ${formatDate(label)}`}
-                  contentStyle={{
-                    backgroundColor: '#fff',
-                    border: '1px solid #e2e8f0',
-                    borderRadius: '8px',
-                    padding: '8px',
-                  }}
-                />
-                <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="close"
-                  stroke="#3b82f6"
-                  strokeWidth={2}
-                  dot={false}
-                  name="Closing Price"
-                />
-                <Line
-                  type="monotone"
-                  dataKey="open"
-                  stroke="#10b981"
-                  strokeWidth={1}
-                  strokeDasharray="5 5"
-                  dot={false}
-                  name="Opening Price"
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-slate-900">Price Trend</h3>
+              <div className="flex items-center gap-2">
+                {dataSource && (
+                  <span className="text-xs text-slate-500">Source: {dataSource}</span>
+                )}
+                {loadedSymbol && <AddToWatchlistButton kind="stock" itemId={loadedSymbol} />}
+              </div>
+            </div>
+            <PriceVolumeChart
+              data={chartData}
+              mode={chartMode}
+              indicators={indicatorResults}
+              formatTick={formatDate}
+              formatLabel={(date) => `Date: ${formatFullDate(date)}`}
+            />
           </div>
 
           {/* Data Table */}
@@ -222,9 +555,9 @@ export default function StockPriceChart() {
                   </tr>
                 </thead>
                 <tbody>
-                  {stockData.slice(-10).reverse().map((item, index) => (
+                  {chartData.slice(-10).reverse().map((item, index) => (
                     <tr key={index} className="border-b border-slate-100 hover:bg-slate-50">
-                      <td className="py-2 px-3 text-slate-700">{formatDate(item.date)}</td>
+                      <td className="py-2 px-3 text-slate-700">{formatFullDate(item.date)}</td>
                       <td className="py-2 px-3 text-slate-900 text-right">{formatCurrency(item.open)}</td>
                       <td className="py-2 px-3 text-slate-900 text-right">{formatCurrency(item.high)}</td>
                       <td className="py-2 px-3 text-slate-900 text-right">{formatCurrency(item.low)}</td>
@@ -242,7 +575,7 @@ export default function StockPriceChart() {
       )}
 
       {/* Empty State */}
-      {stockData.length === 0 && !loading && !error && (
+      {chartData.length === 0 && !loading && !error && (
         <div className="text-center py-12">
           <TrendingUp className="w-16 h-16 text-slate-300 mx-auto mb-4" />
           <p className="text-slate-600">Enter a stock symbol to view price data</p>
@@ -0,0 +1,246 @@
+/**
+ * Tax-Loss Harvester Component
+ * Finds losing lots in the portfolio and values harvesting them
+ * Features:
+ * - Prices open Portfolio Tracker lots with live quotes
+ * - Harvestable losses by lot, short- or long-term, above a minimum loss
+ * - Tax saved this year, ordinary income offset and loss carried forward
+ * - Wash-sale conflicts within 30 days, with the date the security can be bought back
+ * - Replacement securities to keep market exposure meanwhile
+ * - Harvest list export (CSV)
+ */
+import { useEffect, useMemo, useState } from 'react';
+import Papa from 'papaparse';
+import { Scissors, RefreshCw, Loader, Download, AlertTriangle } from 'lucide-react';
+import {
+  computePositions,
+  fetchPortfolioQuotes,
+  getTransactions,
+  subscribeToPortfolio,
+  PortfolioTransaction,
+  PriceQuote,
+} from '../services/portfolio';
+import { harvestListRows, planTaxLossHarvest, HarvestPlan, HarvestTaxSettings } from '../services/taxLossHarvesting';
+import { getErrorMessage } from '../services/api';
+
+interface TaxLossHarvesterProps {
+  tax: HarvestTaxSettings;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+export default function TaxLossHarvester({ tax }: TaxLossHarvesterProps) {
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>(getTransactions);
+  const [quotes, setQuotes] = useState<Record<string, PriceQuote> | null>(null);
+  const [quoteErrors, setQuoteErrors] = useState<string[]>([]);
+  const [minLoss, setMinLoss] = useState(100);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToPortfolio(setTransactions), []);
+
+  const hasHoldings = useMemo(() => {
+    try {
+      return computePositions(transactions).positions.some((position) => position.quantity > 0 && position.assetClass !== 'cash');
+    } catch {
+      return false;
+    }
+  }, [transactions]);
+
+  const { plan, planError } = useMemo((): { plan: HarvestPlan | null; planError: string | null } => {
+    if (!quotes) return { plan: null, planError: null };
+    try {
+      return {
+        plan: planTaxLossHarvest({
+          transactions,
+          quotes,
+          asOf: new Date().toISOString().split('T')[0],
+          minLoss,
+          tax,
+        }),
+        planError: null,
+      };
+    } catch (err) {
+      return { plan: null, planError: getErrorMessage(err) };
+    }
+  }, [transactions, quotes, minLoss, tax]);
+
+  const handleScan = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchPortfolioQuotes(computePositions(getTransactions()).positions, true);
+      setQuotes(result.quotes);
+      setQuoteErrors(result.errors);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!plan) return;
+    const blob = new Blob([Papa.unparse(harvestListRows(plan))], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `harvest-list-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const conflicted = plan?.candidates.filter((candidate) => candidate.conflicts.length > 0) ?? [];
+  const conflictedSymbols = [...new Set(conflicted.map((candidate) => candidate.symbol))];
+  const harvestedTotal = plan ? plan.harvested.shortTerm + plan.harvested.longTerm : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 mb-1 flex items-center gap-2">
+            <Scissors className="w-5 h-5 text-purple-600" />
+            Tax-Loss Harvesting
+          </h2>
+          <p className="text-sm text-slate-600">
+            Losing lots in the Portfolio Tracker, priced now. Gains it realized this year are counted; realized gains entered above are added
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Minimum loss ($)</label>
+            <input
+              type="number"
+              min="0"
+              step="50"
+              value={minLoss}
+              onChange={(e) => setMinLoss(parseFloat(e.target.value) || 0)}
+              className="w-28 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+            />
+          </div>
+          <button
+            onClick={handleScan}
+            disabled={loading || !hasHoldings}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-300 text-white rounded-lg text-sm font-semibold flex items-center gap-1"
+          >
+            {loading ? <Loader className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            {quotes ? 'Rescan' : 'Scan Portfolio'}
+          </button>
+          {plan && plan.candidates.length > 0 && (
+            <button
+              onClick={handleExport}
+              className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-semibold flex items-center gap-1"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!hasHoldings && (
+        <p className="text-sm text-slate-500">Add holdings in the Portfolio Tracker to find harvestable losses.</p>
+      )}
+      {(error || planError) && <p className="text-sm text-red-600 mb-4">{error || planError}</p>}
+      {quoteErrors.length > 0 && (
+        <p className="text-xs text-amber-700 mb-4">Not priced, so not checked: {quoteErrors.join('; ')}</p>
+      )}
+
+      {plan && plan.candidates.length === 0 && (
+        <p className="text-sm text-slate-500">No lot is down by {formatCurrency(minLoss)} or more.</p>
+      )}
+
+      {plan && plan.candidates.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Harvestable Losses</p>
+              <p className="text-lg font-bold text-slate-900">{formatCurrency(harvestedTotal)}</p>
+              <p className="text-xs text-slate-500">
+                {formatCurrency(plan.harvested.shortTerm)} short, {formatCurrency(plan.harvested.longTerm)} long
+              </p>
+            </div>
+            <div className="p-3 bg-emerald-50 rounded-lg">
+              <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Tax Saved This Year</p>
+              <p className="text-lg font-bold text-emerald-700">{formatCurrency(plan.taxSavings)}</p>
+              <p className="text-xs text-slate-500">{formatCurrency(plan.taxBefore)} → {formatCurrency(plan.taxAfter)}</p>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Against Ordinary Income</p>
+              <p className="text-lg font-bold text-slate-900">{formatCurrency(plan.ordinaryOffset)}</p>
+              <p className="text-xs text-slate-500">After offsetting gains</p>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Carried Forward</p>
+              <p className="text-lg font-bold text-slate-900">{formatCurrency(plan.carryForward)}</p>
+              <p className="text-xs text-slate-500">For gains in later years</p>
+            </div>
+          </div>
+
+          {conflictedSymbols.length > 0 && (
+            <div className="p-4 bg-amber-50 border-l-4 border-amber-500 rounded-lg mb-6">
+              <p className="font-semibold text-slate-900 flex items-center gap-2 mb-1">
+                <AlertTriangle className="w-4 h-4 text-amber-600" />
+                Wash-sale conflicts
+              </p>
+              <p className="text-sm text-slate-700">
+                {conflictedSymbols.join(', ')} {conflictedSymbols.length === 1 ? 'was' : 'were'} bought within 30 days
+                and the shares are still held, so {formatCurrency(plan.disallowedLoss)} of loss would be disallowed and
+                added to their basis. Harvest those lots too, or wait until the purchases are more than 30 days old.
+              </p>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-slate-600">
+                  <th className="py-2 pr-3 text-left font-semibold">Lot</th>
+                  <th className="py-2 px-3 text-right font-semibold">Value</th>
+                  <th className="py-2 px-3 text-right font-semibold">Loss</th>
+                  <th className="py-2 px-3 text-right font-semibold">Saves</th>
+                  <th className="py-2 px-3 text-left font-semibold">Wash Sale</th>
+                  <th className="py-2 pl-3 text-left font-semibold">Replace With</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.candidates.map((candidate) => (
+                  <tr key={candidate.transactionId} className="border-b border-slate-100">
+                    <td className="py-2 pr-3">
+                      <p className="font-semibold text-slate-900">{candidate.symbol}</p>
+                      <p className="text-xs text-slate-500">
+                        {candidate.quantity.toLocaleString('en-US', { maximumFractionDigits: 6 })} bought {candidate.openDate} ·{' '}
+                        {candidate.term === 'long' ? 'long-term' : 'short-term'}
+                      </p>
+                    </td>
+                    <td className="py-2 px-3 text-right text-slate-900">{formatCurrency(candidate.marketValue)}</td>
+                    <td className="py-2 px-3 text-right text-red-600">
+                      −{formatCurrency(candidate.loss)}
+                      {candidate.disallowedLoss > 0 && (
+                        <span className="block text-xs text-amber-700">{formatCurrency(candidate.disallowedLoss)} disallowed</span>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-right text-emerald-700">{formatCurrency(candidate.estimatedSavings)}</td>
+                    <td className="py-2 px-3 text-xs text-slate-600">
+                      {!candidate.washSaleApplies
+                        ? 'Not applicable to crypto'
+                        : candidate.conflicts.length > 0
+                          ? candidate.conflicts.map((conflict) => `${conflict.quantity} bought ${conflict.date}`).join('; ')
+                          : `Don't buy back before ${candidate.repurchaseAfter}`}
+                    </td>
+                    <td className="py-2 pl-3 text-xs text-slate-600">{candidate.replacements.join(', ') || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 mt-3">
+            Sell by specific lot identification; the portfolio otherwise relieves lots first-in first-out. Purchases in
+            IRAs and by a spouse also trigger wash sales, and funds tracking the same index may be substantially identical.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
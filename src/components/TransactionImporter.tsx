@@ -0,0 +1,308 @@
+/**
+ * Transaction Importer Component
+ * Imports brokerage and bank statements into the portfolio and budget ledger
+ * Features:
+ * - CSV (with column mapping), OFX / QFX and QIF files
+ * - Preview with per-row status before anything is saved
+ * - Skips rows that were already imported
+ */
+import { useState, useMemo, useRef } from 'react';
+import { Upload, FileText, AlertCircle, CheckCircle, X } from 'lucide-react';
+import {
+  detectLedgerFormat,
+  readCsvHeaders,
+  guessCsvMapping,
+  parseCsvLedger,
+  parseOfxLedger,
+  parseQifLedger,
+  findDuplicateImports,
+  applyImport,
+  CSV_MAPPING_FIELDS,
+  CsvColumnMapping,
+  DateOrder,
+  LedgerFormat,
+  ParseResult,
+} from '../services/ledgerImport';
+import { ASSET_CLASS_LABELS, AssetClass } from '../services/portfolio';
+import { getErrorMessage } from '../services/api';
+
+interface TransactionImporterProps {
+  onClose?: () => void;
+}
+
+interface LoadedFile {
+  name: string;
+  text: string;
+  format: LedgerFormat;
+  headers: string[];
+}
+
+const FORMAT_LABELS: Record<LedgerFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX / QFX',
+  qif: 'QIF',
+};
+
+const DATE_ORDERS: Array<{ value: DateOrder; label: string }> = [
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+  { value: 'dmy', label: 'DD/MM/YYYY' },
+  { value: 'ymd', label: 'YYYY/MM/DD' },
+];
+
+// Rows shown in the preview table
+const PREVIEW_ROWS = 50;
+
+export default function TransactionImporter({ onClose }: TransactionImporterProps) {
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ date: '' });
+  const [dateOrder, setDateOrder] = useState<DateOrder>('mdy');
+  const [assetClass, setAssetClass] = useState<AssetClass>('stock');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    try {
+      const text = await selected.text();
+      const format = detectLedgerFormat(selected.name, text);
+      const headers = format === 'csv' ? readCsvHeaders(text) : [];
+      setFile({ name: selected.name, text, format, headers });
+      setMapping(format === 'csv' ? guessCsvMapping(headers) : { date: '' });
+      setError(null);
+      setNotice(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const result = useMemo<ParseResult | null>(() => {
+    if (!file) return null;
+    if (file.format === 'ofx') return parseOfxLedger(file.text);
+    if (file.format === 'qif') return parseQifLedger(file.text, dateOrder);
+    return parseCsvLedger(file.text, mapping, { dateOrder, assetClass });
+  }, [file, mapping, dateOrder, assetClass]);
+
+  // Not memoized: it has to see rows added by the previous import
+  const duplicates = result ? findDuplicateImports(result.transactions) : new Set<string>();
+
+  const tradeCount = result?.transactions.filter((transaction) => transaction.kind === 'trade').length || 0;
+  const cashCount = (result?.transactions.length || 0) - tradeCount;
+  const newCount = (result?.transactions.length || 0) - duplicates.size;
+
+  const handleImport = () => {
+    if (!result) return;
+
+    try {
+      const summary = applyImport(result.transactions);
+      setNotice(
+        `Imported ${summary.trades} trade${summary.trades === 1 ? '' : 's'} and ${summary.cash} cash transaction${summary.cash === 1 ? '' : 's'}` +
+          (summary.duplicates > 0 ? `; skipped ${summary.duplicates} already imported` : '')
+      );
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const formatAmount = (value: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(value);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-slate-600" />
+          <h3 className="text-lg font-semibold text-slate-900">Import Transactions</h3>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close importer">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {/* File */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+        >
+          <Upload className="w-4 h-4" />
+          Choose file
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.ofx,.qfx,.qif,text/csv"
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+        {file ? (
+          <p className="text-sm text-slate-700">
+            <span className="font-semibold">{file.name}</span> · {FORMAT_LABELS[file.format]}
+          </p>
+        ) : (
+          <p className="text-sm text-slate-500">CSV, OFX, QFX or QIF exports from your bank or broker</p>
+        )}
+      </div>
+
+      {/* Options */}
+      {file && (
+        <div className="mb-4 p-4 bg-slate-50 rounded-lg space-y-3">
+          {file.format === 'csv' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {CSV_MAPPING_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">
+                    {field.label}
+                    {field.required && ' *'}
+                  </label>
+                  <select
+                    value={mapping[field.key] || ''}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value || undefined })}
+                    className="w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    <option value="">—</option>
+                    {file.headers.map((header) => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+          {file.format !== 'ofx' && (
+            <div className="flex flex-wrap gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Date format</label>
+                <select
+                  value={dateOrder}
+                  onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                  className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                  {DATE_ORDERS.map((order) => (
+                    <option key={order.value} value={order.value}>{order.label}</option>
+                  ))}
+                </select>
+              </div>
+              {file.format === 'csv' && (
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Trades are</label>
+                  <select
+                    value={assetClass}
+                    onChange={(e) => setAssetClass(e.target.value as AssetClass)}
+                    className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    {(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map((value) => (
+                      <option key={value} value={value}>{ASSET_CLASS_LABELS[value]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2 text-sm text-red-800">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 p-3 bg-emerald-50 border border-emerald-200 rounded-lg flex items-start gap-2 text-sm text-emerald-800">
+          <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          {notice}
+        </div>
+      )}
+
+      {/* Preview */}
+      {result && (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <p className="text-sm text-slate-600">
+              {tradeCount} trade{tradeCount === 1 ? '' : 's'}, {cashCount} cash transaction{cashCount === 1 ? '' : 's'}
+              {duplicates.size > 0 && `, ${duplicates.size} already imported`}
+              {result.skipped > 0 && `, ${result.skipped} skipped`}
+            </p>
+            <button
+              onClick={handleImport}
+              disabled={newCount === 0}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:bg-slate-300 text-white rounded-lg text-sm font-semibold transition-colors"
+            >
+              Import {newCount} new
+            </button>
+          </div>
+
+          {result.errors.length > 0 && (
+            <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 max-h-32 overflow-y-auto">
+              {result.errors.slice(0, 20).map((message, index) => (
+                <p key={index}>{message}</p>
+              ))}
+              {result.errors.length > 20 && <p>…and {result.errors.length - 20} more</p>}
+            </div>
+          )}
+
+          {result.transactions.length > 0 && (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-slate-200">
+                    <th className="text-left py-2 px-3 font-semibold text-slate-700">Date</th>
+                    <th className="text-left py-2 px-3 font-semibold text-slate-700">Details</th>
+                    <th className="text-right py-2 px-3 font-semibold text-slate-700">Amount</th>
+                    <th className="text-right py-2 px-3 font-semibold text-slate-700">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.transactions.slice(0, PREVIEW_ROWS).map((transaction) => (
+                    <tr key={transaction.importId} className="border-b border-slate-100">
+                      <td className="py-2 px-3 text-slate-500 whitespace-nowrap">{transaction.date}</td>
+                      <td className="py-2 px-3 text-slate-900">
+                        {transaction.kind === 'trade'
+                          ? `${transaction.type === 'buy' ? 'Buy' : 'Sell'} ${transaction.quantity} ${transaction.symbol} @ ${formatAmount(transaction.price)}`
+                          : transaction.description || '—'}
+                      </td>
+                      <td className="py-2 px-3 text-right whitespace-nowrap">
+                        {transaction.kind === 'trade' ? (
+                          <span className="text-slate-700">
+                            {formatAmount(transaction.quantity * transaction.price)}
+                          </span>
+                        ) : (
+                          <span className={transaction.amount >= 0 ? 'text-emerald-600' : 'text-slate-900'}>
+                            {formatAmount(transaction.amount)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        {duplicates.has(transaction.importId) ? (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-500">Duplicate</span>
+                        ) : (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700">
+                            {transaction.kind === 'trade' ? 'Portfolio' : 'Budget'}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.transactions.length > PREVIEW_ROWS && (
+                <p className="text-xs text-slate-500 mt-2">
+                  Showing {PREVIEW_ROWS} of {result.transactions.length} rows
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,501 @@
+/**
+ * Watchlist View Component
+ * Named watchlists mixing stock tickers and cryptocurrencies
+ * Features:
+ * - Create, rename and delete watchlists (stored locally, optional Supabase sync)
+ * - Live quote, day change and 30-day / 7-day sparkline per item
+ * - Import and export watchlists as JSON
+ */
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+import {
+  ListChecks,
+  Plus,
+  Trash2,
+  Pencil,
+  Download,
+  Upload,
+  RefreshCw,
+  Loader,
+  AlertCircle,
+  X,
+  Cloud,
+} from 'lucide-react';
+import {
+  getWatchlists,
+  subscribeToWatchlists,
+  createWatchlist,
+  renameWatchlist,
+  deleteWatchlist,
+  addWatchlistItem,
+  removeWatchlistItem,
+  exportWatchlists,
+  importWatchlists,
+  isWatchlistSyncEnabled,
+  syncWatchlists,
+  Watchlist,
+  WatchlistItem,
+  WatchlistItemKind,
+} from '../services/watchlists';
+import { getStockQuote, getStockSeries } from '../services/marketData';
+import { fetchCryptocurrencies } from '../services/cryptoApi';
+import { getErrorMessage, subscribeToRevalidation } from '../services/api';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
+
+interface WatchlistQuote {
+  name: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  sparkline: number[];
+  error?: string;
+}
+
+// Daily closes shown in a stock sparkline
+const STOCK_SPARKLINE_POINTS = 30;
+
+const itemKey = (item: Pick<WatchlistItem, 'kind' | 'id'>) => `${item.kind}:${item.id}`;
+
+/**
+ * Load quotes and sparklines for every item in a watchlist
+ */
+const loadQuotes = async (items: WatchlistItem[]): Promise<Record<string, WatchlistQuote>> => {
+  const quotes: Record<string, WatchlistQuote> = {};
+  const failed = (message: string): WatchlistQuote => ({
+    name: '',
+    price: 0,
+    change: 0,
+    changePercent: 0,
+    sparkline: [],
+    error: message,
+  });
+
+  const stockRequests = items
+    .filter((item) => item.kind === 'stock')
+    .map(async (item) => {
+      const [quote, series] = await Promise.allSettled([
+        getStockQuote(item.id),
+        getStockSeries(item.id, 'daily', 'compact'),
+      ]);
+
+      if (quote.status === 'rejected') {
+        quotes[itemKey(item)] = failed(getErrorMessage(quote.reason));
+        return;
+      }
+
+      quotes[itemKey(item)] = {
+        name: item.id,
+        price: quote.value.data.price,
+        change: quote.value.data.change,
+        changePercent: quote.value.data.changePercent,
+        sparkline: series.status === 'fulfilled'
+          ? series.value.data.slice(-STOCK_SPARKLINE_POINTS).map((bar) => bar.close)
+          : [],
+      };
+    });
+
+  const cryptoItems = items.filter((item) => item.kind === 'crypto');
+  const cryptoRequest = (async () => {
+    if (cryptoItems.length === 0) return;
+    try {
+      const coins = await fetchCryptocurrencies(cryptoItems.map((item) => item.id));
+      cryptoItems.forEach((item) => {
+        const coin = coins.find((candidate) => candidate.id === item.id);
+        quotes[itemKey(item)] = coin
+          ? {
+              name: coin.name,
+              price: coin.current_price,
+              change: coin.price_change_24h,
+              changePercent: coin.price_change_percentage_24h,
+              sparkline: coin.sparkline_in_7d?.price || [],
+            }
+          : failed('Unknown CoinGecko ID');
+      });
+    } catch (error) {
+      cryptoItems.forEach((item) => {
+        quotes[itemKey(item)] = failed(getErrorMessage(error));
+      });
+    }
+  })();
+
+  await Promise.all([...stockRequests, cryptoRequest]);
+  return quotes;
+};
+
+/**
+ * Compact price sparkline, green when the period ended up, red when down
+ */
+const Sparkline = ({ values }: { values: number[] }) => {
+  if (values.length < 2) {
+    return <span className="text-xs text-slate-400">-</span>;
+  }
+
+  const color = values[values.length - 1] >= values[0] ? '#10b981' : '#ef4444';
+  return (
+    <div className="w-28 h-8 ml-auto">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={values.map((value, index) => ({ index, value }))}>
+          <YAxis hide domain={['dataMin', 'dataMax']} />
+          <Line type="monotone" dataKey="value" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default function WatchlistView() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>(getWatchlists);
+  const [activeId, setActiveId] = useState<string | null>(() => getWatchlists()[0]?.id || null);
+  const [quotes, setQuotes] = useState<Record<string, WatchlistQuote>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState<string>('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [itemInput, setItemInput] = useState<string>('');
+  const [itemKind, setItemKind] = useState<WatchlistItemKind>('stock');
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeList = watchlists.find((list) => list.id === activeId) || null;
+  const itemSignature = activeList ? activeList.items.map(itemKey).join(',') : '';
+
+  useEffect(() => subscribeToWatchlists(setWatchlists), []);
+
+  /**
+   * Pull remote watchlists once when Supabase sync is enabled
+   */
+  useEffect(() => {
+    if (!isWatchlistSyncEnabled()) return;
+    syncWatchlists().catch((err) => setError(`Watchlist sync failed: ${getErrorMessage(err)}`));
+  }, []);
+
+  /**
+   * Keep a valid watchlist selected when lists are added or deleted
+   */
+  useEffect(() => {
+    if (!watchlists.some((list) => list.id === activeId)) {
+      setActiveId(watchlists[0]?.id || null);
+    }
+  }, [watchlists, activeId]);
+
+  const refreshQuotes = useCallback(async () => {
+    const list = getWatchlists().find((item) => item.id === activeId);
+    if (!list || list.items.length === 0) {
+      setQuotes({});
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      setQuotes(await loadQuotes(list.items));
+      setLastUpdated(new Date());
+    } catch (err) {
+      setError(getErrorMessage(err) || 'Failed to load quotes');
+    } finally {
+      setLoading(false);
+    }
+  }, [activeId]);
+
+  /**
+   * Reload quotes when the selected list or its items change
+   */
+  useEffect(() => {
+    refreshQuotes();
+  }, [refreshQuotes, itemSignature]);
+
+  /**
+   * Reload quotes when a stale response they were built from has been refreshed
+   */
+  useEffect(() => subscribeToRevalidation(() => refreshQuotes()), [refreshQuotes]);
+
+  const handleCreateList = () => {
+    if (!newListName.trim()) return;
+    const list = createWatchlist(newListName);
+    setActiveId(list.id);
+    setNewListName('');
+  };
+
+  const handleDeleteList = (list: Watchlist) => {
+    if (window.confirm(`Delete watchlist "${list.name}"?`)) {
+      deleteWatchlist(list.id);
+    }
+  };
+
+  const handleAddItem = () => {
+    if (!activeList || !itemInput.trim()) return;
+    addWatchlistItem(activeList.id, itemKind, itemInput);
+    setItemInput('');
+  };
+
+  /**
+   * Download watchlists as a JSON file
+   */
+  const handleExport = () => {
+    const blob = new Blob([exportWatchlists()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `watchlists-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * Import watchlists from a JSON file
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = importWatchlists(await file.text());
+      setNotice(`Imported ${count} watchlist${count === 1 ? '' : 's'}`);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const formatPrice = (value: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: value < 1 ? 6 : 2,
+    }).format(value);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-amber-100 p-3 rounded-lg">
+            <ListChecks className="w-6 h-6 text-amber-600" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">Watchlists</h2>
+            <p className="text-sm text-slate-600">Track stocks and cryptocurrencies you follow</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {isWatchlistSyncEnabled() && (
+            <span className="inline-flex items-center gap-1 text-xs text-slate-500" title="Synced to Supabase">
+              <Cloud className="w-4 h-4" />
+              Synced
+            </span>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={watchlists.length === 0}
+            className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {/* API Budget */}
+      <div className="mb-4">
+        <ApiBudgetIndicator providers={['alphaVantage', 'fmp', 'coinGecko']} />
+      </div>
+
+      {/* Watchlist Tabs */}
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        {watchlists.map((list) => (
+          <div
+            key={list.id}
+            className={`inline-flex items-center gap-1 rounded-lg border ${
+              list.id === activeId ? 'bg-amber-500 border-amber-500 text-white' : 'bg-white border-slate-200 text-slate-700'
+            }`}
+          >
+            {renaming === list.id ? (
+              <input
+                autoFocus
+                defaultValue={list.name}
+                onBlur={(e) => {
+                  renameWatchlist(list.id, e.target.value);
+                  setRenaming(null);
+                }}
+                onKeyPress={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                className="px-2 py-1 m-1 rounded text-sm text-slate-900 w-32"
+              />
+            ) : (
+              <button onClick={() => setActiveId(list.id)} className="px-3 py-1.5 text-sm font-semibold">
+                {list.name}
+                <span className="ml-1 opacity-70">({list.items.length})</span>
+              </button>
+            )}
+            {list.id === activeId && renaming !== list.id && (
+              <>
+                <button onClick={() => setRenaming(list.id)} className="p-1 hover:opacity-75" aria-label="Rename watchlist">
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDeleteList(list)} className="p-1 pr-2 hover:opacity-75" aria-label="Delete watchlist">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && handleCreateList()}
+            placeholder="New watchlist"
+            className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <button
+            onClick={handleCreateList}
+            disabled={!newListName.trim()}
+            className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 disabled:bg-slate-300 text-white rounded-lg text-sm font-semibold flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Create
+          </button>
+        </div>
+      </div>
+
+      {/* Messages */}
+      {notice && (
+        <div className="mb-4 p-3 bg-emerald-50 border border-emerald-200 rounded-lg flex items-center justify-between text-sm text-emerald-800">
+          {notice}
+          <button onClick={() => setNotice(null)} aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-semibold text-red-900">Error</p>
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {!activeList && (
+        <p className="text-center text-slate-500 py-12">Create a watchlist to start tracking stocks and crypto.</p>
+      )}
+
+      {activeList && (
+        <>
+          {/* Add Item */}
+          <div className="mb-4 flex flex-wrap items-center gap-3">
+            <div className="flex gap-1 bg-slate-100 rounded-lg p-1">
+              {(['stock', 'crypto'] as WatchlistItemKind[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setItemKind(option)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                    itemKind === option ? 'bg-amber-500 text-white' : 'text-slate-600 hover:bg-white'
+                  }`}
+                >
+                  {option === 'stock' ? 'Stock' : 'Crypto'}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={itemInput}
+              onChange={(e) => setItemInput(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleAddItem()}
+              placeholder={itemKind === 'stock' ? 'Ticker (e.g., AAPL)' : 'CoinGecko ID (e.g., bitcoin)'}
+              className="flex-1 min-w-[200px] px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 bg-white text-slate-900"
+            />
+            <button
+              onClick={handleAddItem}
+              disabled={!itemInput.trim()}
+              className="px-4 py-2 bg-amber-500 hover:bg-amber-600 disabled:bg-slate-300 text-white font-semibold rounded-lg flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+            <button
+              onClick={refreshQuotes}
+              disabled={loading || activeList.items.length === 0}
+              className="p-2 bg-amber-100 hover:bg-amber-200 text-amber-600 rounded-lg transition-colors disabled:opacity-50"
+              title="Refresh quotes"
+            >
+              <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+            {lastUpdated && (
+              <p className="text-xs text-slate-500">Updated: {lastUpdated.toLocaleTimeString()}</p>
+            )}
+          </div>
+
+          {activeList.items.length === 0 ? (
+            <p className="text-center text-slate-500 py-12">This watchlist is empty. Add a ticker or crypto ID above.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-slate-200">
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-slate-700">Symbol</th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-slate-700">Price</th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-slate-700">Day Change</th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-slate-700">Trend</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {activeList.items.map((item) => {
+                    const quote = quotes[itemKey(item)];
+                    return (
+                      <tr key={itemKey(item)} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
+                        <td className="py-3 px-4">
+                          <p className="font-semibold text-slate-900">{item.kind === 'stock' ? item.id : quote?.name || item.id}</p>
+                          <p className="text-xs text-slate-500">{item.kind === 'stock' ? 'Stock' : `Crypto · ${item.id}`}</p>
+                        </td>
+                        {!quote ? (
+                          <td colSpan={3} className="py-3 px-4 text-right">
+                            {loading && <Loader className="w-4 h-4 animate-spin text-slate-400 ml-auto" />}
+                          </td>
+                        ) : quote.error ? (
+                          <td colSpan={3} className="py-3 px-4 text-right text-sm text-red-600">{quote.error}</td>
+                        ) : (
+                          <>
+                            <td className="py-3 px-4 text-right font-semibold text-slate-900">{formatPrice(quote.price)}</td>
+                            <td className={`py-3 px-4 text-right text-sm font-medium ${quote.change >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                              {quote.change >= 0 ? '+' : ''}{formatPrice(quote.change)} ({quote.changePercent >= 0 ? '+' : ''}{quote.changePercent.toFixed(2)}%)
+                            </td>
+                            <td className="py-3 px-4">
+                              <Sparkline values={quote.sparkline} />
+                            </td>
+                          </>
+                        )}
+                        <td className="py-3 px-4 text-right">
+                          <button
+                            onClick={() => removeWatchlistItem(activeList.id, item.kind, item.id)}
+                            className="text-slate-400 hover:text-red-600"
+                            aria-label={`Remove ${item.id}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
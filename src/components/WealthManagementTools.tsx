@@ -2,15 +2,72 @@
  * Wealth Management Tools Component
  * Comprehensive wealth management with retirement, tax, and estate planning
  * Features:
- * - Retirement savings projections
+ * - Retirement savings projections net of fees and taxes, in nominal or today's dollars
+ * - Retirement drawdown to life expectancy with withdrawal strategies, Social Security
+ *   and pension income, and the probability of running out of money
  * - Investment simulations
- * - Tax optimization suggestions
- * - Estate planning recommendations
+ * - Federal tax estimate and optimization suggestions valued in dollars, by tax year and filing status
+ * - Tax-loss harvesting over portfolio lots with wash-sale checks and replacements
+ * - Roth conversion ladders and asset location compared by lifetime tax and after-tax wealth
+ * - Estate tax projection with exclusion portability, gifting and trust strategies
+ * - Target allocation by preset, glide path, mean-variance or risk parity, with drift of actual holdings
  * - Interactive charts and scenarios
+ * - Saved, compared and shareable input scenarios
  */
-import { useState } from 'react';
-import { LineChart, Line, AreaChart, Area, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, AreaChart, Area, BarChart, Bar, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { PieChart as PieChartIcon, TrendingUp, Shield, Loader, AlertCircle } from 'lucide-react';
+import {
+  DEFAULT_PROJECTION_COSTS,
+  afterTaxValue,
+  annualCostDrag,
+  inDollars,
+  annualFees,
+  netAnnualReturn,
+  toRealRate,
+  toRealValue,
+  DollarMode,
+  ProjectionCosts,
+} from '../services/projectionCosts';
+import {
+  DEFAULT_WITHDRAWAL_PLAN,
+  WITHDRAWAL_STRATEGY_LABELS,
+  runDecumulation,
+  DecumulationResult,
+  ReturnAssumption,
+  WithdrawalPlan,
+} from '../services/decumulation';
+import { DEFAULT_ASSET_CLASSES, getAssumptions, AssetClassAssumption } from '../services/assumptions';
+import { createSeed } from '../services/random';
+import { getErrorMessage } from '../services/api';
+import { clearSharedScenario, restoreInputs, saveDraft, ScenarioOutput } from '../services/scenarios';
+import {
+  FILING_STATUS_LABELS,
+  LATEST_TAX_YEAR,
+  TAX_YEARS,
+  estimateTax,
+  getTaxRules,
+  rothIraAllowance,
+  taxSuggestions,
+  FilingStatus,
+  TaxEstimate,
+  TaxSuggestion,
+  TaxSuggestionId,
+} from '../services/taxRules';
+import ProjectionCostsFields from './ProjectionCostsFields';
+import WithdrawalPlanFields from './WithdrawalPlanFields';
+import ScenarioManager from './ScenarioManager';
+import RothConversionPlanner, { ConversionProfile } from './RothConversionPlanner';
+import TaxLossHarvester from './TaxLossHarvester';
+import EstatePlanner from './EstatePlanner';
+import { createDefaultEstatePlan, EstatePlan } from '../services/estate';
+import AssetAllocationPlanner from './AssetAllocationPlanner';
+import {
+  DEFAULT_ALLOCATION_SETTINGS,
+  DEFENSIVE_ASSET_CLASS_IDS,
+  computeTargetAllocation,
+  AllocationSettings,
+} from '../services/allocation';
 
 interface WealthData {
   age: number;
@@ -19,44 +76,146 @@ interface WealthData {
   currentAssets: number;
   currentLiabilities: number;
   monthlySavings: number;
-  investmentReturn: number;
-  taxBracket: number;
-  estateValue: number;
+  investmentReturn: number; // Percent; used when returns do not follow the allocation
+  returnFromAllocation: boolean; // Expected return of the target allocation instead of investmentReturn
+  tax: TaxSettings;
+  estate: EstatePlan; // Assets, family and gifting for the estate model
   riskTolerance: 'conservative' | 'moderate' | 'aggressive';
+  allocation: AllocationSettings; // Target allocation method and rebalancing band
+  costs: ProjectionCosts; // Inflation, fees and account taxes
+  withdrawal: WithdrawalPlan; // Drawdown after retirement
+  seed: number; // Market draws of the drawdown simulation
+}
+
+interface TaxSettings {
+  year: number;
+  filingStatus: FilingStatus;
+  preTaxContributions: number; // 401(k) deferrals this year
+  longTermGains: number; // Realized this year
 }
 
 interface RetirementProjection {
+  year: number;
   age: number;
   savings: number;
   investments: number;
   total: number;
 }
 
-interface AssetAllocation {
-  category: string;
-  percentage: number;
-  value: number;
+interface Drawdown {
+  plan: WithdrawalPlan; // Plan the result was simulated with
+  result: DecumulationResult;
 }
 
-const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+const SUGGESTION_STYLES: Record<TaxSuggestionId, string> = {
+  k401: 'bg-blue-50 border-blue-600',
+  rothIra: 'bg-emerald-50 border-emerald-600',
+  hsa: 'bg-teal-50 border-teal-600',
+  lossHarvesting: 'bg-purple-50 border-purple-600',
+  gainHarvesting: 'bg-amber-50 border-amber-600',
+};
+
+const createDefaultWealthData = (): WealthData => ({
+  age: 35,
+  retirementAge: 65,
+  currentIncome: 100000,
+  currentAssets: 250000,
+  currentLiabilities: 50000,
+  monthlySavings: 2000,
+  investmentReturn: 7,
+  returnFromAllocation: true,
+  tax: { year: LATEST_TAX_YEAR, filingStatus: 'single', preTaxContributions: 6000, longTermGains: 0 },
+  estate: createDefaultEstatePlan(),
+  riskTolerance: 'moderate',
+  allocation: DEFAULT_ALLOCATION_SETTINGS,
+  costs: { ...DEFAULT_PROJECTION_COSTS, taxRate: 22 },
+  withdrawal: DEFAULT_WITHDRAWAL_PLAN,
+  seed: createSeed(),
+});
+
+// Simulated retirements per drawdown run
+const DRAWDOWN_PATHS = 2000;
+
+/**
+ * Return assumption of an asset class, falling back to the default if it was removed
+ */
+const assetClassReturn = (assetClasses: AssetClassAssumption[], id: string): ReturnAssumption => {
+  const assetClass = [...assetClasses, ...DEFAULT_ASSET_CLASSES].find((item) => item.id === id);
+  return { annualReturn: assetClass?.expectedReturn ?? 0, volatility: assetClass?.volatility ?? 0 };
+};
+
+/**
+ * Expected gross return at an age: the target allocation's, recomputed for each
+ * age on a glide path, or the entered return when returns do not follow it
+ * @throws Error if the target allocation cannot be computed
+ */
+const expectedReturnAt = (data: WealthData, age: number): number => {
+  if (!data.returnFromAllocation) return data.investmentReturn / 100;
+  const profile = { riskTolerance: data.riskTolerance, age: data.age, retirementAge: data.retirementAge };
+  return computeTargetAllocation(getAssumptions(), data.allocation, profile, age).expectedReturn;
+};
+
+/**
+ * Household facts for the Roth conversion planner, in today's dollars.
+ * Savings go to the 401(k) first, then a Roth IRA up to the allowance, then a taxable account.
+ * @throws Error if the tax year or risk tolerance preset does not exist
+ */
+const conversionProfile = (data: WealthData): ConversionProfile => {
+  const { year, filingStatus, preTaxContributions } = data.tax;
+  const assumptions = getAssumptions();
+  const preset = assumptions.presets.find((item) => item.id === data.riskTolerance);
+  if (!preset) throw new Error(`No ${data.riskTolerance} assumption preset`);
+
+  // Stock share from the preset; stocks earn whatever keeps the blend at the expected return
+  const totalWeight = Object.values(preset.weights).reduce((sum, weight) => sum + weight, 0) || 100;
+  const bondWeight = DEFENSIVE_ASSET_CLASS_IDS.reduce((sum, id) => sum + (preset.weights[id] ?? 0), 0);
+  const stockShare = 1 - bondWeight / totalWeight;
+  const bondReturn = bondWeight > 0
+    ? DEFENSIVE_ASSET_CLASS_IDS.reduce((sum, id) => sum + (preset.weights[id] ?? 0) * assetClassReturn(assumptions.assetClasses, id).annualReturn, 0) / bondWeight
+    : assetClassReturn(assumptions.assetClasses, 'bonds').annualReturn;
+  const portfolioReturn = expectedReturnAt(data, data.age);
+  const stockReturn = stockShare > 0 ? (portfolioReturn - (1 - stockShare) * bondReturn) / stockShare : portfolioReturn;
+  const fees = annualFees(data.costs);
+
+  const savings = data.monthlySavings * 12;
+  const traditional = Math.min(preTaxContributions, savings);
+  const roth = Math.min(
+    savings - traditional,
+    rothIraAllowance(getTaxRules(year), filingStatus, data.age, data.currentIncome - preTaxContributions)
+  );
+
+  return {
+    taxYear: year,
+    filingStatus,
+    age: data.age,
+    retirementAge: data.retirementAge,
+    planningAge: data.withdrawal.planningAge,
+    wages: data.currentIncome,
+    incomeStreams: data.withdrawal.incomeStreams,
+    inflationRate: data.costs.inflationRate / 100,
+    contributions: { taxable: savings - traditional - roth, traditional, roth },
+    stockShare,
+    stockReturn: toRealRate(stockReturn - fees, data.costs),
+    bondReturn: toRealRate(bondReturn - fees, data.costs),
+  };
+};
 
 export default function WealthManagementTools() {
-  const [wealthData, setWealthData] = useState<WealthData>({
-    age: 35,
-    retirementAge: 65,
-    currentIncome: 100000,
-    currentAssets: 250000,
-    currentLiabilities: 50000,
-    monthlySavings: 2000,
-    investmentReturn: 7,
-    taxBracket: 22,
-    estateValue: 500000,
-    riskTolerance: 'moderate',
-  });
+  // Shared link, then the inputs left last time, then defaults
+  const [wealthData, setWealthData] = useState<WealthData>(() => restoreInputs('wealth', createDefaultWealthData()));
 
   const [loading, setLoading] = useState(false);
-  const [projections, setProjections] = useState<RetirementProjection[]>([]);
-  const [assetAllocation, setAssetAllocation] = useState<AssetAllocation[]>([]);
+  const [projections, setProjections] = useState<RetirementProjection[]>([]); // Nominal
+  const [projectionCosts, setProjectionCosts] = useState<ProjectionCosts>(wealthData.costs); // Costs the projections used
+  const [dollarMode, setDollarMode] = useState<DollarMode>('nominal');
+  const [drawdown, setDrawdown] = useState<Drawdown | null>(null);
+  const [drawdownError, setDrawdownError] = useState<string | null>(null);
+  const [projectionError, setProjectionError] = useState<string | null>(null);
+  const [calculatedWith, setCalculatedWith] = useState<WealthData | null>(null); // Inputs behind the results
+
+  useEffect(() => clearSharedScenario(), []);
+
+  useEffect(() => saveDraft('wealth', wealthData), [wealthData]);
 
   /**
    * Handle input changes
@@ -77,14 +236,24 @@ export default function WealthManagementTools() {
     // Simulate calculation delay
     setTimeout(() => {
       const yearsToRetirement = wealthData.retirementAge - wealthData.age;
-      const monthlyReturn = wealthData.investmentReturn / 100 / 12;
       const projections: RetirementProjection[] = [];
       
       let currentSavings = wealthData.currentAssets - wealthData.currentLiabilities;
       
       for (let year = 0; year <= yearsToRetirement; year++) {
         const age = wealthData.age + year;
-        const months = year * 12;
+        let grossReturn: number;
+        try {
+          grossReturn = expectedReturnAt(wealthData, age);
+        } catch (err) {
+          setProjections([]);
+          setDrawdown(null);
+          setProjectionError(getErrorMessage(err));
+          setLoading(false);
+          return;
+        }
+        // Fees and tax drag come out of the expected return
+        const monthlyReturn = netAnnualReturn(grossReturn, wealthData.costs) / 12;
         
         // Calculate compound growth with monthly contributions
         let savings = currentSavings;
@@ -99,6 +268,7 @@ export default function WealthManagementTools() {
         currentSavings = savings;
         
         projections.push({
+          year,
           age,
           savings: savings * 0.6, // Conservative estimate
           investments: savings * 0.4,
@@ -107,31 +277,49 @@ export default function WealthManagementTools() {
       }
       
       setProjections(projections);
+      setProjectionCosts(wealthData.costs);
+      setProjectionError(null);
+
+      // Draw the projected balance down from retirement to life expectancy
+      try {
+        const assumptions = getAssumptions();
+        // Return and volatility of the target allocation once retired
+        const target = computeTargetAllocation(
+          assumptions,
+          wealthData.allocation,
+          { riskTolerance: wealthData.riskTolerance, age: wealthData.age, retirementAge: wealthData.retirementAge },
+          wealthData.retirementAge
+        );
+        const grossReturn = wealthData.returnFromAllocation ? target.expectedReturn : wealthData.investmentReturn / 100;
+
+        const result = runDecumulation({
+          ...wealthData.withdrawal,
+          startingBalance: Math.max(currentSavings, 0),
+          retirementAge: wealthData.retirementAge,
+          yearsUntilRetirement: yearsToRetirement,
+          portfolio: { annualReturn: grossReturn, volatility: target.volatility },
+          bonds: assetClassReturn(assumptions.assetClasses, 'bonds'),
+          cashReturn: assetClassReturn(assumptions.assetClasses, 'cash').annualReturn,
+          inflationRate: wealthData.costs.inflationRate / 100,
+          annualCost: annualCostDrag(grossReturn, wealthData.costs),
+          paths: DRAWDOWN_PATHS,
+          seed: wealthData.seed,
+        });
+        setDrawdown({ plan: wealthData.withdrawal, result });
+        setDrawdownError(null);
+      } catch (err) {
+        setDrawdown(null);
+        setDrawdownError(getErrorMessage(err));
+      }
       
-      // Calculate asset allocation based on risk tolerance
-      const allocation: AssetAllocation[] = [
-        {
-          category: 'Stocks',
-          percentage: wealthData.riskTolerance === 'aggressive' ? 80 : wealthData.riskTolerance === 'moderate' ? 60 : 40,
-          value: (wealthData.currentAssets - wealthData.currentLiabilities) * (wealthData.riskTolerance === 'aggressive' ? 0.8 : wealthData.riskTolerance === 'moderate' ? 0.6 : 0.4),
-        },
-        {
-          category: 'Bonds',
-          percentage: wealthData.riskTolerance === 'aggressive' ? 10 : wealthData.riskTolerance === 'moderate' ? 30 : 50,
-          value: (wealthData.currentAssets - wealthData.currentLiabilities) * (wealthData.riskTolerance === 'aggressive' ? 0.1 : wealthData.riskTolerance === 'moderate' ? 0.3 : 0.5),
-        },
-        {
-          category: 'Real Estate',
-          percentage: 10,
-          value: (wealthData.currentAssets - wealthData.currentLiabilities) * 0.1,
-        },
-      ];
-      
-      setAssetAllocation(allocation);
+      setCalculatedWith(wealthData);
       setLoading(false);
     }, 1000);
   };
 
+  const updateTax = (changes: Partial<TaxSettings>) =>
+    setWealthData((prev) => ({ ...prev, tax: { ...prev.tax, ...changes } }));
+
   /**
    * Format currency
    */
@@ -144,8 +332,100 @@ export default function WealthManagementTools() {
   };
 
   const netWorth = wealthData.currentAssets - wealthData.currentLiabilities;
-  const retirementSavings = projections.length > 0 ? projections[projections.length - 1].total : 0;
-  const annualRetirementIncome = retirementSavings * 0.04; // 4% withdrawal rule
+
+  const harvestTax = useMemo(() => ({
+    year: wealthData.tax.year,
+    filingStatus: wealthData.tax.filingStatus,
+    ordinaryIncome: wealthData.currentIncome,
+    preTaxContributions: wealthData.tax.preTaxContributions,
+    otherLongTermGains: wealthData.tax.longTermGains,
+  }), [wealthData.tax, wealthData.currentIncome]);
+
+  const { profile: rothProfile, error: rothProfileError } = useMemo(() => {
+    try {
+      return { profile: conversionProfile(wealthData), error: null };
+    } catch (err) {
+      return { profile: null, error: getErrorMessage(err) };
+    }
+  }, [wealthData]);
+
+  // Expected returns now and once retired, for the estimates that take a single return
+  let currentReturn = wealthData.investmentReturn / 100;
+  let retirementReturn = currentReturn;
+  let returnError: string | null = null;
+  try {
+    currentReturn = expectedReturnAt(wealthData, wealthData.age);
+    retirementReturn = expectedReturnAt(wealthData, wealthData.retirementAge);
+  } catch (err) {
+    returnError = getErrorMessage(err);
+  }
+
+  // Federal tax for the entered profile
+  let taxEstimate: TaxEstimate | null = null;
+  let suggestions: TaxSuggestion[] = [];
+  let taxError: string | null = null;
+  try {
+    const { year, filingStatus, preTaxContributions, longTermGains } = wealthData.tax;
+    taxEstimate = estimateTax({ year, filingStatus, ordinaryIncome: wealthData.currentIncome, preTaxContributions, longTermGains });
+    suggestions = taxSuggestions({
+      year,
+      filingStatus,
+      age: wealthData.age,
+      wages: wealthData.currentIncome,
+      preTaxContributions,
+      longTermGains,
+      yearsToRetirement: wealthData.retirementAge - wealthData.age,
+      expectedReturn: currentReturn,
+    });
+  } catch (err) {
+    taxError = getErrorMessage(err);
+  }
+  // Projections in the dollars being shown
+  const displayProjections = projections.map((point) => ({
+    ...point,
+    savings: inDollars(point.savings, point.year, dollarMode, projectionCosts),
+    investments: inDollars(point.investments, point.year, dollarMode, projectionCosts),
+    total: inDollars(point.total, point.year, dollarMode, projectionCosts),
+  }));
+  const retirementSavings = displayProjections.length > 0 ? displayProjections[displayProjections.length - 1].total : 0;
+  const afterTaxSavings = afterTaxValue(retirementSavings, projectionCosts);
+  // Drawdown in the dollars being shown; withdrawals after tax
+  const displayDrawdown = (drawdown?.result.years ?? []).map((year) => ({
+    age: year.age,
+    p10: inDollars(year.balance.p10, year.yearsFromNow, dollarMode, projectionCosts),
+    p50: inDollars(year.balance.p50, year.yearsFromNow, dollarMode, projectionCosts),
+    p90: inDollars(year.balance.p90, year.yearsFromNow, dollarMode, projectionCosts),
+    withdrawal: inDollars(afterTaxValue(year.withdrawal, projectionCosts), year.yearsFromNow, dollarMode, projectionCosts),
+    otherIncome: inDollars(year.otherIncome, year.yearsFromNow, dollarMode, projectionCosts),
+  }));
+  const finalDrawdown = displayDrawdown[displayDrawdown.length - 1];
+  // Median portfolio at life expectancy in today's dollars, for the estate model
+  const lastDrawdownYear = drawdown?.result.years[drawdown.result.years.length - 1];
+  const estatePortfolio = lastDrawdownYear
+    ? toRealValue(lastDrawdownYear.balance.p50, lastDrawdownYear.yearsFromNow, projectionCosts)
+    : 0;
+  const annualRetirementIncome = displayDrawdown.length > 0
+    ? displayDrawdown[0].withdrawal + displayDrawdown[0].otherIncome
+    : afterTaxSavings * 0.04; // 4% withdrawal rule
+
+  // Headline results for saved scenarios (nominal), only while they match the inputs
+  const scenarioOutputs: ScenarioOutput[] = [];
+  if (calculatedWith === wealthData && projections.length > 0) {
+    const savings = projections[projections.length - 1].total;
+    scenarioOutputs.push(
+      { label: 'Retirement savings', value: savings, format: 'currency' },
+      { label: 'Retirement savings after tax', value: afterTaxValue(savings, projectionCosts), format: 'currency' }
+    );
+    if (drawdown) {
+      const first = drawdown.result.years[0];
+      scenarioOutputs.push(
+        { label: 'First-year income after tax', value: afterTaxValue(first.withdrawal, projectionCosts) + first.otherIncome, format: 'currency' },
+        { label: 'Probability of ruin', value: drawdown.result.probabilityOfRuin * 100, format: 'percent' },
+        { label: 'Money lasts to age (90% of simulations)', value: drawdown.result.moneyLastsTo.p10, format: 'number' },
+        { label: 'Median balance at life expectancy', value: drawdown.result.years[drawdown.result.years.length - 1].balance.p50, format: 'currency' }
+      );
+    }
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-4 md:p-8">
@@ -262,14 +542,43 @@ export default function WealthManagementTools() {
                       <label className="block text-sm font-medium text-slate-700 mb-2">Expected Annual Return (%)</label>
                       <input
                         type="number"
-                        value={wealthData.investmentReturn}
+                        value={wealthData.returnFromAllocation ? Number((currentReturn * 100).toFixed(2)) : wealthData.investmentReturn}
                         onChange={(e) => handleInputChange('investmentReturn', parseFloat(e.target.value) || 0)}
-                        className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+                        disabled={wealthData.returnFromAllocation}
+                        className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900 disabled:bg-slate-100 disabled:text-slate-500"
                         min="0"
                         max="20"
                         step="0.5"
                       />
+                      <label className="flex items-center gap-2 text-sm text-slate-700 mt-2">
+                        <input
+                          type="checkbox"
+                          checked={wealthData.returnFromAllocation}
+                          onChange={(e) => setWealthData((prev) => ({ ...prev, returnFromAllocation: e.target.checked }))}
+                          className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500"
+                        />
+                        Use the target allocation's return
+                      </label>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {wealthData.returnFromAllocation
+                          ? wealthData.allocation.method === 'glidePath'
+                            ? 'From the target allocation at your age; projections recompute it for each year of the glide path'
+                            : 'From the target allocation; the drawdown uses its return and volatility at retirement'
+                          : 'Entered by hand; the drawdown still takes its volatility from the target allocation'}
+                      </p>
+                      {returnError && <p className="text-xs text-red-600 mt-1">{returnError}</p>}
                     </div>
+                    <ProjectionCostsFields
+                      costs={wealthData.costs}
+                      onChange={(costs) => setWealthData((prev) => ({ ...prev, costs }))}
+                      expectedReturn={currentReturn}
+                      inputClassName="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+                    />
+                    <WithdrawalPlanFields
+                      plan={wealthData.withdrawal}
+                      onChange={(withdrawal) => setWealthData((prev) => ({ ...prev, withdrawal }))}
+                      inputClassName="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+                    />
                     <div>
                       <label className="block text-sm font-medium text-slate-700 mb-2">Risk Tolerance</label>
                       <select
@@ -285,33 +594,65 @@ export default function WealthManagementTools() {
                   </div>
                 </div>
 
-                {/* Tax & Estate */}
+                {/* Tax */}
                 <div>
-                  <h3 className="text-lg font-semibold text-slate-900 mb-4">Tax & Estate</h3>
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4">Tax</h3>
                   <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">Tax Year</label>
+                        <select
+                          value={wealthData.tax.year}
+                          onChange={(e) => updateTax({ year: parseInt(e.target.value, 10) })}
+                          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+                        >
+                          {TAX_YEARS.map((year) => (
+                            <option key={year} value={year}>{year}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-2">Filing Status</label>
+                        <select
+                          value={wealthData.tax.filingStatus}
+                          onChange={(e) => updateTax({ filingStatus: e.target.value as FilingStatus })}
+                          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
+                        >
+                          {(Object.keys(FILING_STATUS_LABELS) as FilingStatus[]).map((status) => (
+                            <option key={status} value={status}>{FILING_STATUS_LABELS[status]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
                     <div>
-                      <label className="block text-sm font-medium text-slate-700 mb-2">Tax Bracket (%)</label>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">401(k) Contributions This Year ($)</label>
                       <input
                         type="number"
-                        value={wealthData.taxBracket}
-                        onChange={(e) => handleInputChange('taxBracket', parseFloat(e.target.value) || 0)}
+                        value={wealthData.tax.preTaxContributions}
+                        onChange={(e) => updateTax({ preTaxContributions: parseFloat(e.target.value) || 0 })}
                         className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
                         min="0"
-                        max="50"
-                        step="1"
+                        step="500"
                       />
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-slate-700 mb-2">Estate Value ($)</label>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">Realized Long-Term Gains ($)</label>
                       <input
                         type="number"
-                        value={wealthData.estateValue}
-                        onChange={(e) => handleInputChange('estateValue', parseFloat(e.target.value) || 0)}
+                        value={wealthData.tax.longTermGains}
+                        onChange={(e) => updateTax({ longTermGains: parseFloat(e.target.value) || 0 })}
                         className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 bg-white text-slate-900"
                         min="0"
-                        step="10000"
+                        step="1000"
                       />
                     </div>
+                    {taxEstimate && (
+                      <p className="text-xs text-slate-500">
+                        Federal tax {formatCurrency(taxEstimate.totalTax)}: {(taxEstimate.marginalRate * 100).toFixed(1)}% marginal,{' '}
+                        {(taxEstimate.effectiveRate * 100).toFixed(1)}% effective
+                      </p>
+                    )}
+                    {taxError && <p className="text-xs text-red-600">{taxError}</p>}
                   </div>
                 </div>
 
@@ -332,22 +673,63 @@ export default function WealthManagementTools() {
                     </>
                   )}
                 </button>
+                {projectionError && <p className="text-sm text-red-600">{projectionError}</p>}
               </div>
             </div>
           </div>
 
           {/* Results Panel */}
           <div className="lg:col-span-2 space-y-6">
+            <ScenarioManager
+              tool="wealth"
+              inputs={wealthData}
+              defaults={createDefaultWealthData()}
+              outputs={scenarioOutputs}
+              onLoad={setWealthData}
+              sharesAssumptions
+            />
+
+            {/* Dollar Toggle */}
+            {projections.length > 0 && (
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-slate-600">
+                  {dollarMode === 'real' ? `Today's dollars (${projectionCosts.inflationRate}% inflation)` : 'Nominal dollars'}, after{' '}
+                  {(annualCostDrag(currentReturn, projectionCosts) * 100).toFixed(2)}% a year in fees and tax drag
+                </p>
+                <div className="flex gap-1 bg-white shadow rounded-lg p-1">
+                  {(['nominal', 'real'] as DollarMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setDollarMode(mode)}
+                      className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${
+                        dollarMode === mode ? 'bg-teal-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+                      }`}
+                    >
+                      {mode === 'nominal' ? 'Nominal' : 'Real'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Summary Cards */}
             {projections.length > 0 && (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="bg-white rounded-xl shadow-lg p-6">
                   <p className="text-xs text-teal-600 font-semibold uppercase mb-2">Retirement Savings</p>
                   <p className="text-2xl font-bold text-slate-900">{formatCurrency(retirementSavings)}</p>
+                  {afterTaxSavings !== retirementSavings && (
+                    <p className="text-xs text-slate-500 mt-1">{formatCurrency(afterTaxSavings)} after tax on withdrawal</p>
+                  )}
                 </div>
                 <div className="bg-white rounded-xl shadow-lg p-6">
                   <p className="text-xs text-blue-600 font-semibold uppercase mb-2">Annual Retirement Income</p>
                   <p className="text-2xl font-bold text-slate-900">{formatCurrency(annualRetirementIncome)}</p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {drawdown
+                      ? `First year: ${WITHDRAWAL_STRATEGY_LABELS[drawdown.plan.strategy]} after tax, plus other income`
+                      : '4% of after-tax savings'}
+                  </p>
                 </div>
                 <div className="bg-white rounded-xl shadow-lg p-6">
                   <p className="text-xs text-emerald-600 font-semibold uppercase mb-2">Years to Retirement</p>
@@ -361,7 +743,7 @@ export default function WealthManagementTools() {
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <h2 className="text-xl font-bold text-slate-900 mb-4">Retirement Savings Projection</h2>
                 <ResponsiveContainer width="100%" height={400}>
-                  <AreaChart data={projections}>
+                  <AreaChart data={displayProjections}>
                     <defs>
                       <linearGradient id="colorTotal" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor="#14b8a6" stopOpacity={0.8}/>
@@ -381,94 +763,181 @@ export default function WealthManagementTools() {
               </div>
             )}
 
-            {/* Asset Allocation */}
-            {assetAllocation.length > 0 && (
-              <div className="bg-white rounded-xl shadow-lg p-6">
-                <h2 className="text-xl font-bold text-slate-900 mb-4">Recommended Asset Allocation</h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <ResponsiveContainer width="100%" height={300}>
-                    <PieChart>
-                      <Pie
-                        data={assetAllocation}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={false}
-                        label={({ name, percent }: { name: string; percent?: number }) => `${name}: ${percent ? (percent * 100).toFixed(0) : 0}%`}
-                        outerRadius={100}
-                        fill="#8884d8"
-                        dataKey="percentage"
-                      >
-                        {assetAllocation.map((_, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                      </Pie>
-                      <Tooltip formatter={(value: number | undefined) => value !== undefined ? `${value}%` : ''} />
-                    </PieChart>
-                  </ResponsiveContainer>
-                  <div className="space-y-3">
-                    {assetAllocation.map((asset, index) => (
-                      <div key={index} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
-                        <div className="flex items-center gap-3">
-                          <div className="w-4 h-4 rounded" style={{ backgroundColor: COLORS[index % COLORS.length] }}></div>
-                          <span className="font-semibold text-slate-900">{asset.category}</span>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-bold text-slate-900">{asset.percentage}%</p>
-                          <p className="text-sm text-slate-600">{formatCurrency(asset.value)}</p>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
+            {/* Retirement Drawdown */}
+            {projections.length > 0 && drawdownError && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-700">Retirement drawdown: {drawdownError}</p>
               </div>
             )}
-
-            {/* Tax Optimization */}
-            {projections.length > 0 && (
+            {drawdown && finalDrawdown && (
               <div className="bg-white rounded-xl shadow-lg p-6">
-                <h2 className="text-xl font-bold text-slate-900 mb-4">Tax Optimization Suggestions</h2>
-                <div className="space-y-4">
-                  <div className="p-4 bg-blue-50 rounded-lg border-l-4 border-blue-600">
-                    <p className="font-semibold text-slate-900 mb-2">Maximize 401(k) Contributions</p>
-                    <p className="text-sm text-slate-700">
-                      Contribute up to $22,500 annually (2023 limit) to reduce taxable income by {wealthData.taxBracket}%.
-                    </p>
+                <h2 className="text-xl font-bold text-slate-900 mb-1">Retirement Drawdown</h2>
+                <p className="text-sm text-slate-600 mb-4">
+                  {WITHDRAWAL_STRATEGY_LABELS[drawdown.plan.strategy]} from age {wealthData.retirementAge} to {drawdown.plan.planningAge},{' '}
+                  {DRAWDOWN_PATHS.toLocaleString()} simulated markets (seed {drawdown.result.seed})
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                  <div className="p-3 bg-slate-50 rounded-lg">
+                    <p className="text-xs text-red-600 font-semibold uppercase mb-1">Probability of Ruin</p>
+                    <p className="text-xl font-bold text-slate-900">{(drawdown.result.probabilityOfRuin * 100).toFixed(1)}%</p>
+                    <p className="text-xs text-slate-500">Runs out before {drawdown.plan.planningAge}</p>
                   </div>
-                  <div className="p-4 bg-emerald-50 rounded-lg border-l-4 border-emerald-600">
-                    <p className="font-semibold text-slate-900 mb-2">Consider Roth IRA</p>
-                    <p className="text-sm text-slate-700">
-                      Contribute to Roth IRA for tax-free withdrawals in retirement. Current limit: $6,500 annually.
+                  <div className="p-3 bg-slate-50 rounded-lg">
+                    <p className="text-xs text-teal-600 font-semibold uppercase mb-1">Money Lasts To</p>
+                    <p className="text-xl font-bold text-slate-900">
+                      {drawdown.result.moneyLastsTo.p10 >= drawdown.plan.planningAge ? `${drawdown.plan.planningAge}+` : `Age ${drawdown.result.moneyLastsTo.p10}`}
                     </p>
+                    <p className="text-xs text-slate-500">In 90% of simulations</p>
                   </div>
-                  <div className="p-4 bg-purple-50 rounded-lg border-l-4 border-purple-600">
-                    <p className="font-semibold text-slate-900 mb-2">Tax-Loss Harvesting</p>
-                    <p className="text-sm text-slate-700">
-                      Offset capital gains with losses to reduce tax liability. Review portfolio quarterly.
-                    </p>
+                  <div className="p-3 bg-slate-50 rounded-lg">
+                    <p className="text-xs text-blue-600 font-semibold uppercase mb-1">First-Year Withdrawal</p>
+                    <p className="text-xl font-bold text-slate-900">{formatCurrency(displayDrawdown[0].withdrawal)}</p>
+                    <p className="text-xs text-slate-500">Median, after tax</p>
+                  </div>
+                  <div className="p-3 bg-slate-50 rounded-lg">
+                    <p className="text-xs text-emerald-600 font-semibold uppercase mb-1">Balance at {finalDrawdown.age}</p>
+                    <p className="text-xl font-bold text-slate-900">{formatCurrency(finalDrawdown.p50)}</p>
+                    <p className="text-xs text-slate-500">Median, start of year</p>
                   </div>
                 </div>
+
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Portfolio Balance</h3>
+                <ResponsiveContainer width="100%" height={300}>
+                  <ComposedChart data={displayDrawdown}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="age" />
+                    <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                    <Tooltip
+                      formatter={(value) =>
+                        Array.isArray(value)
+                          ? value.map((item) => formatCurrency(Number(item))).join(' – ')
+                          : formatCurrency(Number(value))
+                      }
+                      labelFormatter={(age) => `Age ${age}`}
+                    />
+                    <Legend />
+                    <Area
+                      type="monotone"
+                      dataKey={(year: { p10: number; p90: number }) => [year.p10, year.p90]}
+                      stroke="none"
+                      fill="#5eead4"
+                      fillOpacity={0.4}
+                      name="P10 – P90"
+                    />
+                    <Line type="monotone" dataKey="p50" stroke="#0f766e" strokeWidth={2} dot={false} name="Median" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+
+                <h3 className="text-sm font-semibold text-slate-700 mt-6 mb-2">Median Yearly Income</h3>
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={displayDrawdown}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="age" />
+                    <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} />
+                    <Tooltip formatter={(value) => formatCurrency(Number(value))} labelFormatter={(age) => `Age ${age}`} />
+                    <Legend />
+                    <Bar dataKey="withdrawal" stackId="income" fill="#14b8a6" name="Portfolio withdrawals (after tax)" />
+                    <Bar dataKey="otherIncome" stackId="income" fill="#3b82f6" name="Social Security & pensions" />
+                  </BarChart>
+                </ResponsiveContainer>
               </div>
             )}
 
-            {/* Estate Planning */}
+            {/* Asset Allocation */}
+            {projections.length > 0 && (
+              <AssetAllocationPlanner
+                settings={wealthData.allocation}
+                onChange={(allocation) => setWealthData((prev) => ({ ...prev, allocation }))}
+                riskTolerance={wealthData.riskTolerance}
+                age={wealthData.age}
+                retirementAge={wealthData.retirementAge}
+                planningAge={wealthData.withdrawal.planningAge}
+                investableAssets={netWorth}
+              />
+            )}
+
+            {/* Tax Optimization */}
             {projections.length > 0 && (
               <div className="bg-white rounded-xl shadow-lg p-6">
-                <h2 className="text-xl font-bold text-slate-900 mb-4">Estate Planning Recommendations</h2>
-                <div className="space-y-4">
-                  <div className="p-4 bg-slate-50 rounded-lg">
-                    <p className="font-semibold text-slate-900 mb-2">Estate Value</p>
-                    <p className="text-2xl font-bold text-slate-900 mb-4">{formatCurrency(wealthData.estateValue)}</p>
-                    <div className="space-y-2 text-sm text-slate-700">
-                      <p>• Consider establishing a trust to minimize estate taxes</p>
-                      <p>• Review beneficiary designations on all accounts annually</p>
-                      <p>• Consult with an estate attorney for comprehensive planning</p>
-                      <p>• Consider gifting strategies to reduce taxable estate</p>
+                <h2 className="text-xl font-bold text-slate-900 mb-1">Tax Optimization Suggestions</h2>
+                <p className="text-sm text-slate-600 mb-4">
+                  Federal income tax, {wealthData.tax.year}, {FILING_STATUS_LABELS[wealthData.tax.filingStatus].toLowerCase()}
+                  {taxEstimate && ` · ${getTaxRules(wealthData.tax.year).source}`}
+                </p>
+                {taxEstimate && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                    <div className="p-3 bg-slate-50 rounded-lg">
+                      <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Taxable Income</p>
+                      <p className="text-lg font-bold text-slate-900">{formatCurrency(taxEstimate.taxableIncome)}</p>
+                      <p className="text-xs text-slate-500">After {formatCurrency(taxEstimate.deduction)} deduction</p>
+                    </div>
+                    <div className="p-3 bg-slate-50 rounded-lg">
+                      <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Federal Tax</p>
+                      <p className="text-lg font-bold text-slate-900">{formatCurrency(taxEstimate.totalTax)}</p>
+                      {taxEstimate.capitalGainsTax + taxEstimate.netInvestmentIncomeTax > 0 && (
+                        <p className="text-xs text-slate-500">
+                          {formatCurrency(taxEstimate.capitalGainsTax + taxEstimate.netInvestmentIncomeTax)} on gains
+                        </p>
+                      )}
+                    </div>
+                    <div className="p-3 bg-slate-50 rounded-lg">
+                      <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Marginal Rate</p>
+                      <p className="text-lg font-bold text-slate-900">{(taxEstimate.marginalRate * 100).toFixed(1)}%</p>
+                      <p className="text-xs text-slate-500">{(taxEstimate.capitalGainsRate * 100).toFixed(1)}% on long-term gains</p>
+                    </div>
+                    <div className="p-3 bg-slate-50 rounded-lg">
+                      <p className="text-xs text-slate-500 font-semibold uppercase mb-1">Effective Rate</p>
+                      <p className="text-lg font-bold text-slate-900">{(taxEstimate.effectiveRate * 100).toFixed(1)}%</p>
                     </div>
                   </div>
+                )}
+                {taxError && <p className="text-sm text-red-600 mb-4">{taxError}</p>}
+                <div className="space-y-4">
+                  {suggestions.map((suggestion) => (
+                    <div key={suggestion.id} className={`p-4 rounded-lg border-l-4 ${SUGGESTION_STYLES[suggestion.id]}`}>
+                      <div className="flex items-start justify-between gap-4 mb-2">
+                        <p className="font-semibold text-slate-900">{suggestion.title}</p>
+                        {suggestion.savings > 0 && (
+                          <p className="text-right">
+                            <span className="block font-bold text-emerald-700">Saves {formatCurrency(suggestion.savings)}</span>
+                            <span className="block text-xs text-slate-500">{suggestion.savingsBasis}</span>
+                          </p>
+                        )}
+                      </div>
+                      <p className="text-sm text-slate-700">{suggestion.description}</p>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
 
+            {/* Tax-Loss Harvesting */}
+            {projections.length > 0 && <TaxLossHarvester tax={harvestTax} />}
+
+            {/* Roth Conversions */}
+            {projections.length > 0 && rothProfile && (
+              <RothConversionPlanner profile={rothProfile} investableAssets={netWorth} />
+            )}
+            {projections.length > 0 && rothProfileError && (
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <p className="text-sm text-red-600">{rothProfileError}</p>
+              </div>
+            )}
+
+            {/* Estate Planning */}
+            {projections.length > 0 && (
+              <EstatePlanner
+                plan={wealthData.estate}
+                onChange={(estate) => setWealthData((prev) => ({ ...prev, estate }))}
+                taxYear={wealthData.tax.year}
+                age={lastDrawdownYear ? lastDrawdownYear.age - lastDrawdownYear.yearsFromNow : wealthData.age}
+                deathAge={lastDrawdownYear?.age ?? wealthData.withdrawal.planningAge}
+                projectedPortfolio={estatePortfolio}
+                portfolioReturn={toRealRate(netAnnualReturn(retirementReturn, wealthData.costs), wealthData.costs)}
+              />
+            )}
+
             {/* Empty State */}
             {projections.length === 0 && !loading && (
               <div className="bg-white rounded-xl shadow-lg p-12 text-center">
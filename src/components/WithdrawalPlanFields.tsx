@@ -0,0 +1,142 @@
+/**
+ * Withdrawal Plan Fields Component
+ * Inputs for the retirement drawdown phase used by the retirement projection
+ * Features:
+ * - Life expectancy the plan has to last through
+ * - Withdrawal strategy with its own settings (rate, amount, guardrail band, bucket sizes)
+ * - Social Security and pension income streams with start age and cost-of-living adjustment
+ */
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import {
+  WITHDRAWAL_STRATEGY_LABELS,
+  createIncomeStream,
+  IncomeStream,
+  WithdrawalPlan,
+  WithdrawalStrategy,
+} from '../services/decumulation';
+
+interface WithdrawalPlanFieldsProps {
+  plan: WithdrawalPlan;
+  onChange: (plan: WithdrawalPlan) => void;
+  inputClassName?: string;
+}
+
+const DEFAULT_INPUT_CLASS =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-slate-900';
+
+const STRATEGY_DESCRIPTIONS: Record<WithdrawalStrategy, string> = {
+  fourPercent: 'Spend a share of the starting balance, raised with inflation every year; the portfolio covers what other income does not.',
+  fixedDollar: 'Spend a set amount in today\'s dollars, raised with inflation every year; the portfolio covers what other income does not.',
+  guardrails: 'Start at the withdrawal rate; cut or raise spending when the current rate leaves the band, and skip the inflation raise after a losing year; other income comes on top.',
+  rmd: 'Withdraw the balance divided by the IRS life expectancy divisor for your age, on top of other income.',
+  bucket: 'Spend at the withdrawal rate, net of other income, from a cash bucket refilled from bonds, both topped up from stocks after good years.',
+};
+
+export default function WithdrawalPlanFields({
+  plan,
+  onChange,
+  inputClassName = DEFAULT_INPUT_CLASS,
+}: WithdrawalPlanFieldsProps) {
+  const update = (changes: Partial<WithdrawalPlan>) => onChange({ ...plan, ...changes });
+
+  const updateStream = (id: string, changes: Partial<IncomeStream>) =>
+    update({ incomeStreams: plan.incomeStreams.map((stream) => (stream.id === id ? { ...stream, ...changes } : stream)) });
+
+  const numberField = (label: string, value: number, onValue: (value: number) => void, step: string) => (
+    <div>
+      <label className="block text-xs font-medium text-slate-600 mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={value}
+        onChange={(e) => onValue(parseFloat(e.target.value) || 0)}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-slate-700 flex items-center gap-1">
+        <Wallet className="w-4 h-4" />
+        Retirement Withdrawals
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        {numberField('Life expectancy (age)', plan.planningAge, (planningAge) => update({ planningAge }), '1')}
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Strategy</label>
+          <select
+            value={plan.strategy}
+            onChange={(e) => update({ strategy: e.target.value as WithdrawalStrategy })}
+            className={inputClassName}
+          >
+            {(Object.keys(WITHDRAWAL_STRATEGY_LABELS) as WithdrawalStrategy[]).map((strategy) => (
+              <option key={strategy} value={strategy}>{WITHDRAWAL_STRATEGY_LABELS[strategy]}</option>
+            ))}
+          </select>
+        </div>
+        {(plan.strategy === 'fourPercent' || plan.strategy === 'guardrails' || plan.strategy === 'bucket') &&
+          numberField('Withdrawal rate (%)', plan.withdrawalRate, (withdrawalRate) => update({ withdrawalRate }), '0.1')}
+        {plan.strategy === 'fixedDollar' &&
+          numberField('Spending (today\'s $/yr)', plan.annualWithdrawal, (annualWithdrawal) => update({ annualWithdrawal }), '1000')}
+        {plan.strategy === 'guardrails' &&
+          numberField('Guardrail band (%)', plan.guardrailBand, (guardrailBand) => update({ guardrailBand }), '5')}
+        {plan.strategy === 'bucket' && (
+          <>
+            {numberField('Cash bucket (years)', plan.bucketYears.cash, (cash) => update({ bucketYears: { ...plan.bucketYears, cash } }), '1')}
+            {numberField('Bond bucket (years)', plan.bucketYears.bonds, (bonds) => update({ bucketYears: { ...plan.bucketYears, bonds } }), '1')}
+          </>
+        )}
+      </div>
+      <p className="text-xs text-slate-500">{STRATEGY_DESCRIPTIONS[plan.strategy]}</p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-medium text-slate-600">Social Security & pensions (today's $/yr)</p>
+          <button
+            type="button"
+            onClick={() => update({ incomeStreams: [...plan.incomeStreams, createIncomeStream()] })}
+            className="text-xs font-semibold text-teal-600 hover:text-teal-700 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" />
+            Add
+          </button>
+        </div>
+        {plan.incomeStreams.map((stream) => (
+          <div key={stream.id} className="p-2 bg-slate-50 rounded-lg space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={stream.name}
+                onChange={(e) => updateStream(stream.id, { name: e.target.value })}
+                className={inputClassName}
+                aria-label="Income name"
+              />
+              <button
+                type="button"
+                onClick={() => update({ incomeStreams: plan.incomeStreams.filter((item) => item.id !== stream.id) })}
+                className="p-2 text-slate-400 hover:text-red-600"
+                title="Remove income"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {numberField('Amount', stream.annualAmount, (annualAmount) => updateStream(stream.id, { annualAmount }), '1000')}
+              {numberField('Starts at age', stream.startAge, (startAge) => updateStream(stream.id, { startAge }), '1')}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={stream.inflationAdjusted}
+                onChange={(e) => updateStream(stream.id, { inflationAdjusted: e.target.checked })}
+              />
+              Cost-of-living adjusted
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@
  * Alternative: Use Supabase Edge Functions with AI integration
  */
 import apiClient from './api';
+import { isFixtureMode } from './fixtures';
 
 const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY || '';
 const OPENAI_BASE_URL = 'https://api.openai.com/v1/chat/completions';
@@ -76,6 +77,11 @@ export const generateFinancialPlan = async (
   request: FinancialPlanRequest
 ): Promise<FinancialPlan> => {
   try {
+    // Offline fixture mode: deterministic mock output, no network
+    if (isFixtureMode()) {
+      return generateMockFinancialPlan(request);
+    }
+
     // If using Supabase Edge Function
     if (SUPABASE_AI_FUNCTION_URL) {
       const response = await apiClient.post(SUPABASE_AI_FUNCTION_URL, {
@@ -150,6 +156,11 @@ export const generateBudgetAnalysis = async (
   income: number
 ): Promise<BudgetAnalysis> => {
   try {
+    // Offline fixture mode: deterministic mock output, no network
+    if (isFixtureMode()) {
+      return generateMockBudgetAnalysis(expenses, income);
+    }
+
     if (SUPABASE_AI_FUNCTION_URL) {
       const response = await apiClient.post(SUPABASE_AI_FUNCTION_URL, {
         type: 'budget_analysis',
@@ -211,6 +222,11 @@ export const generateFinancialReport = async (
   data: any
 ): Promise<FinancialReport> => {
   try {
+    // Offline fixture mode: deterministic mock output, no network
+    if (isFixtureMode()) {
+      return generateMockFinancialReport(data);
+    }
+
     if (SUPABASE_AI_FUNCTION_URL) {
       const response = await apiClient.post(SUPABASE_AI_FUNCTION_URL, {
         type: 'financial_report',
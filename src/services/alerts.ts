@@ -0,0 +1,454 @@
+/**
+ * Price Alerts
+ * Rule engine for price alerts on stocks, cryptocurrencies and currency pairs,
+ * with a background poller that stays within provider rate limits.
+ *
+ * Rules:
+ * - priceAbove / priceBelow: the latest price crosses a threshold
+ * - percentMove: the day's move exceeds a threshold in either direction
+ *   (stocks: vs previous close, crypto: 24h change, FX: vs the first rate seen today)
+ *
+ * A rule fires once when its condition becomes true, then re-arms when the
+ * condition is false again (or is disabled if it is a one-shot rule).
+ * Rules and trigger history are stored in localStorage.
+ */
+import { getProviderPriority, getStockQuote } from './marketData';
+import { fetchCryptocurrencies } from './cryptoApi';
+import { fetchExchangeRate } from './currencyApi';
+import { getErrorMessage } from './api';
+import { getRateLimitBudget, ProviderId } from './rateLimiter';
+
+export type AlertAssetKind = 'stock' | 'crypto' | 'fx';
+
+export type AlertCondition = 'priceAbove' | 'priceBelow' | 'percentMove';
+
+export interface AlertRule {
+  id: string;
+  kind: AlertAssetKind;
+  symbol: string; // Ticker, CoinGecko ID, or currency pair 'EUR/USD'
+  condition: AlertCondition;
+  threshold: number; // Price, or percent for percentMove
+  repeat: boolean; // Re-arm after firing instead of disabling
+  enabled: boolean;
+  armed: boolean;
+  createdAt: string;
+  lastCheckedAt?: string;
+  lastValue?: number;
+  lastTriggeredAt?: string;
+}
+
+export interface AlertObservation {
+  price: number;
+  changePercent: number | null;
+  observedAt: string;
+}
+
+export interface AlertTrigger {
+  id: string;
+  ruleId: string;
+  message: string;
+  price: number;
+  changePercent: number | null;
+  triggeredAt: string;
+}
+
+export interface AlertPollResult {
+  checked: number;
+  skipped: string[]; // Assets skipped to protect the rate-limit budget, or that failed
+  triggers: AlertTrigger[];
+}
+
+type AlertListener = () => void;
+type TriggerListener = (trigger: AlertTrigger) => void;
+
+const MINUTE = 60 * 1000;
+
+const RULES_KEY = 'valunetics-alert-rules';
+const HISTORY_KEY = 'valunetics-alert-history';
+const BASELINES_KEY = 'valunetics-alert-baselines';
+const MAX_HISTORY = 200;
+
+export const DEFAULT_POLL_INTERVAL_MS = 5 * MINUTE;
+
+// Share of each quota window the poller leaves for interactive use
+const RESERVED_BUDGET_SHARE = 0.2;
+
+// Where the next check starts in each kind's symbol list, so symbols left out for budget go first next time
+const pollCursor: Record<AlertAssetKind, number> = { stock: 0, crypto: 0, fx: 0 };
+
+const listeners = new Set<AlertListener>();
+const triggerListeners = new Set<TriggerListener>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // Storage full or unavailable: keep the in-memory copy only
+  }
+};
+
+let rules: AlertRule[] = readJson<AlertRule[]>(RULES_KEY, []);
+let history: AlertTrigger[] = readJson<AlertTrigger[]>(HISTORY_KEY, []);
+
+const generateId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const saveRules = (next: AlertRule[]) => {
+  rules = next;
+  writeJson(RULES_KEY, rules);
+  listeners.forEach((listener) => listener());
+};
+
+const normalizeSymbol = (kind: AlertAssetKind, symbol: string) => {
+  const trimmed = symbol.trim();
+  if (kind === 'crypto') return trimmed.toLowerCase();
+  if (kind === 'fx') return trimmed.toUpperCase().replace(/[^A-Z]/g, '').replace(/^(.{3})(.{3})$/, '$1/$2');
+  return trimmed.toUpperCase();
+};
+
+/**
+ * Human-readable description of a rule, e.g. "BITCOIN below 50,000"
+ */
+export const describeAlertRule = (rule: Pick<AlertRule, 'kind' | 'symbol' | 'condition' | 'threshold'>): string => {
+  const name = rule.kind === 'crypto' ? rule.symbol : rule.symbol.toUpperCase();
+  const value = rule.threshold.toLocaleString('en-US', { maximumFractionDigits: 6 });
+
+  switch (rule.condition) {
+    case 'priceAbove':
+      return `${name} above ${value}`;
+    case 'priceBelow':
+      return `${name} below ${value}`;
+    case 'percentMove':
+      return `${name} moves more than ${value}% in a day`;
+  }
+};
+
+/**
+ * Whether a rule's condition holds for an observation
+ */
+export const isConditionMet = (rule: Pick<AlertRule, 'condition' | 'threshold'>, observation: AlertObservation): boolean => {
+  switch (rule.condition) {
+    case 'priceAbove':
+      return observation.price > rule.threshold;
+    case 'priceBelow':
+      return observation.price < rule.threshold;
+    case 'percentMove':
+      return observation.changePercent !== null && Math.abs(observation.changePercent) >= rule.threshold;
+  }
+};
+
+/**
+ * Apply an observation to a rule: fire if the condition became true while
+ * armed, re-arm once it is false again
+ * @returns Updated rule, and the trigger if the rule fired
+ */
+export const evaluateAlertRule = (
+  rule: AlertRule,
+  observation: AlertObservation
+): { rule: AlertRule; trigger: AlertTrigger | null } => {
+  const met = isConditionMet(rule, observation);
+  const checked = { ...rule, lastCheckedAt: observation.observedAt, lastValue: observation.price };
+
+  if (!met) {
+    return { rule: { ...checked, armed: true }, trigger: null };
+  }
+
+  if (!rule.armed || !rule.enabled) {
+    return { rule: checked, trigger: null };
+  }
+
+  const change = observation.changePercent !== null
+    ? ` (${observation.changePercent >= 0 ? '+' : ''}${observation.changePercent.toFixed(2)}%)`
+    : '';
+  const trigger: AlertTrigger = {
+    id: generateId('trg'),
+    ruleId: rule.id,
+    message: `${describeAlertRule(rule)}: now ${observation.price.toLocaleString('en-US', { maximumFractionDigits: 6 })}${change}`,
+    price: observation.price,
+    changePercent: observation.changePercent,
+    triggeredAt: observation.observedAt,
+  };
+
+  return {
+    rule: { ...checked, armed: false, enabled: rule.repeat, lastTriggeredAt: observation.observedAt },
+    trigger,
+  };
+};
+
+export const getAlertRules = (): AlertRule[] => rules.map((rule) => ({ ...rule }));
+
+export const getAlertHistory = (): AlertTrigger[] => [...history];
+
+/**
+ * Create an alert rule
+ */
+export const createAlertRule = (
+  input: Pick<AlertRule, 'kind' | 'symbol' | 'condition' | 'threshold'> & { repeat?: boolean }
+): AlertRule => {
+  const symbol = normalizeSymbol(input.kind, input.symbol);
+  if (!symbol) {
+    throw new Error('Symbol is required');
+  }
+  if (input.kind === 'fx' && !/^[A-Z]{3}\/[A-Z]{3}$/.test(symbol)) {
+    throw new Error('Currency pairs must look like EUR/USD');
+  }
+  if (!Number.isFinite(input.threshold) || input.threshold <= 0) {
+    throw new Error('Threshold must be a positive number');
+  }
+
+  const rule: AlertRule = {
+    id: generateId('alert'),
+    kind: input.kind,
+    symbol,
+    condition: input.condition,
+    threshold: input.threshold,
+    repeat: input.repeat ?? true,
+    enabled: true,
+    armed: true,
+    createdAt: new Date().toISOString(),
+  };
+  saveRules([...rules, rule]);
+  return rule;
+};
+
+/**
+ * Enable or disable a rule; enabling re-arms it
+ */
+export const setAlertRuleEnabled = (id: string, enabled: boolean) => {
+  saveRules(rules.map((rule) => (rule.id === id ? { ...rule, enabled, armed: enabled ? true : rule.armed } : rule)));
+};
+
+export const deleteAlertRule = (id: string) => {
+  saveRules(rules.filter((rule) => rule.id !== id));
+};
+
+export const clearAlertHistory = () => {
+  history = [];
+  writeJson(HISTORY_KEY, history);
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Subscribe to rule and history changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToAlerts = (listener: AlertListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Subscribe to fired alerts (for toasts and notifications)
+ * @returns Unsubscribe function
+ */
+export const subscribeToAlertTriggers = (listener: TriggerListener): (() => void) => {
+  triggerListeners.add(listener);
+  return () => {
+    triggerListeners.delete(listener);
+  };
+};
+
+/**
+ * Provider that takes the first request for an asset kind; null when it is not rate limited (mock data)
+ */
+const primaryProvider = (kind: AlertAssetKind): ProviderId | null => {
+  if (kind === 'crypto') return 'coinGecko';
+  if (kind === 'fx') return 'exchangeRate';
+  const source = getProviderPriority()[0];
+  return source === undefined || source === 'mock' ? null : source;
+};
+
+/**
+ * Calls a provider can spare right now beyond the share reserved for interactive use
+ * and the requests already queued
+ */
+const spareCalls = (provider: ProviderId | null): number => {
+  if (provider === null) return Infinity;
+  const budget = getRateLimitBudget(provider);
+  if (budget.blockedUntil !== null) return 0;
+  const remaining = Math.min(
+    ...budget.windows.map((window) => window.remaining - Math.ceil(window.limit * RESERVED_BUDGET_SHARE))
+  );
+  return Math.max(remaining - budget.queued, 0);
+};
+
+/**
+ * Percent change vs the first value recorded today (used for FX, which has no day change)
+ */
+const changeSinceFirstToday = (key: string, value: number): number => {
+  const today = new Date().toISOString().split('T')[0];
+  const baselines = readJson<Record<string, { date: string; value: number }>>(BASELINES_KEY, {});
+  const baseline = baselines[key];
+
+  if (!baseline || baseline.date !== today) {
+    baselines[key] = { date: today, value };
+    writeJson(BASELINES_KEY, baselines);
+    return 0;
+  }
+  return ((value - baseline.value) / baseline.value) * 100;
+};
+
+/**
+ * Fetch current observations for every asset referenced by the given rules
+ */
+const observeAssets = async (
+  activeRules: AlertRule[]
+): Promise<{ observations: Map<string, AlertObservation>; skipped: string[] }> => {
+  const observations = new Map<string, AlertObservation>();
+  const skipped: string[] = [];
+  const observedAt = new Date().toISOString();
+  const symbolsOf = (kind: AlertAssetKind) =>
+    Array.from(new Set(activeRules.filter((rule) => rule.kind === kind).map((rule) => rule.symbol)));
+
+  /**
+   * Symbols to request this check: one call each (or one call for a batch) while the
+   * provider has calls to spare, rotating so the rest go first next time
+   */
+  const withBudget = (kind: AlertAssetKind, symbols: string[], batched: boolean = false): string[] => {
+    if (symbols.length === 0) return [];
+    const spare = spareCalls(primaryProvider(kind));
+    const count = batched ? (spare >= 1 ? symbols.length : 0) : Math.min(symbols.length, spare);
+    const start = pollCursor[kind] % symbols.length;
+    const ordered = [...symbols.slice(start), ...symbols.slice(0, start)];
+    pollCursor[kind] = (start + count) % symbols.length;
+    skipped.push(...ordered.slice(count).map((symbol) => `${symbol} (rate limit budget reserved, checked next time)`));
+    return ordered.slice(0, count);
+  };
+
+  const stocks = symbolsOf('stock');
+  const cryptos = symbolsOf('crypto');
+  const pairs = symbolsOf('fx');
+
+  const requests: Promise<void>[] = [];
+
+  withBudget('stock', stocks).forEach((symbol) => {
+    requests.push(
+      getStockQuote(symbol)
+        .then(({ data }) => {
+          observations.set(`stock:${symbol}`, { price: data.price, changePercent: data.changePercent, observedAt });
+        })
+        .catch((error) => {
+          skipped.push(`${symbol} (${getErrorMessage(error)})`);
+        })
+    );
+  });
+
+  // One batched request for every coin
+  const coins = withBudget('crypto', cryptos, true);
+  if (coins.length > 0) {
+    requests.push(
+      fetchCryptocurrencies(coins)
+        .then((results) => {
+          results.forEach((coin) => {
+            observations.set(`crypto:${coin.id}`, {
+              price: coin.current_price,
+              changePercent: coin.price_change_percentage_24h,
+              observedAt,
+            });
+          });
+        })
+        .catch((error) => {
+          skipped.push(...coins.map((id) => `${id} (${getErrorMessage(error)})`));
+        })
+    );
+  }
+
+  withBudget('fx', pairs).forEach((pair) => {
+    const [from, to] = pair.split('/');
+    requests.push(
+      fetchExchangeRate(from, to)
+        .then(({ rate }) => {
+          observations.set(`fx:${pair}`, { price: rate, changePercent: changeSinceFirstToday(`fx:${pair}`, rate), observedAt });
+        })
+        .catch((error) => {
+          skipped.push(`${pair} (${getErrorMessage(error)})`);
+        })
+    );
+  });
+
+  await Promise.all(requests);
+  return { observations, skipped };
+};
+
+/**
+ * Evaluate every enabled rule once against fresh prices
+ */
+export const checkAlerts = async (): Promise<AlertPollResult> => {
+  const activeRules = rules.filter((rule) => rule.enabled);
+  if (activeRules.length === 0) {
+    return { checked: 0, skipped: [], triggers: [] };
+  }
+
+  const { observations, skipped } = await observeAssets(activeRules);
+  const triggers: AlertTrigger[] = [];
+  let checked = 0;
+
+  // Rules may have been edited while prices were loading: apply results to the current list
+  const next = rules.map((rule) => {
+    const observation = rule.enabled ? observations.get(`${rule.kind}:${rule.symbol}`) : undefined;
+    if (!observation) return rule;
+
+    checked += 1;
+    const result = evaluateAlertRule(rule, observation);
+    if (result.trigger) triggers.push(result.trigger);
+    return result.rule;
+  });
+
+  if (triggers.length > 0) {
+    history = [...triggers, ...history].slice(0, MAX_HISTORY);
+    writeJson(HISTORY_KEY, history);
+  }
+  saveRules(next);
+  triggers.forEach((trigger) => triggerListeners.forEach((listener) => listener(trigger)));
+
+  return { checked, skipped, triggers };
+};
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+
+/**
+ * Start the background poller (no-op if already running)
+ * @param intervalMs - Time between checks
+ * @returns Stop function
+ */
+export const startAlertPoller = (intervalMs: number = DEFAULT_POLL_INTERVAL_MS): (() => void) => {
+  if (pollTimer === null) {
+    const poll = async () => {
+      // Never overlap checks: queued rate-limited requests can take a while
+      if (polling) return;
+      polling = true;
+      try {
+        await checkAlerts();
+      } catch (error) {
+        console.error('Alert check failed:', error);
+      } finally {
+        polling = false;
+      }
+    };
+
+    poll();
+    pollTimer = setInterval(poll, intervalMs);
+  }
+
+  return stopAlertPoller;
+};
+
+export const stopAlertPoller = () => {
+  if (pollTimer !== null) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
@@ -0,0 +1,388 @@
+/**
+ * Asset Allocation
+ * Target weights per asset class from the capital-market assumptions, and
+ * drift of actual holdings from the target.
+ *
+ * Methods:
+ * - Preset: the weights of the risk tolerance preset
+ * - Glide path: the growth (stock and real estate) share falls with age from
+ *   an early level to one at retirement and a final one some years later;
+ *   each sleeve is split like the risk tolerance preset
+ * - Mean-variance: highest expected return whose volatility stays within a
+ *   target, long-only with a cap per asset class
+ * - Risk parity: every asset class contributes the same share of portfolio variance
+ *
+ * Weights are percentages keyed by asset class ID and add up to 100. Asset
+ * classes in `excluded` get no weight except under the preset method.
+ */
+import { getCorrelation, AssumptionPreset, CapitalMarketAssumptions } from './assumptions';
+import { AssetClass, ValuedPosition } from './portfolio';
+
+export type AllocationMethod = 'preset' | 'glidePath' | 'meanVariance' | 'riskParity';
+
+export interface GlidePath {
+  earlyEquity: number; // Percent growth assets while young
+  retirementEquity: number; // Percent at retirement
+  finalEquity: number; // Percent once the path lands
+  declineYears: number; // Years before retirement the decline starts
+  landingYears: number; // Years after retirement the path lands
+}
+
+export interface AllocationSettings {
+  method: AllocationMethod;
+  glidePath: GlidePath;
+  targetVolatility: number; // Percent, mean-variance
+  maxWeight: number; // Percent per asset class, mean-variance
+  excluded: string[]; // Asset class IDs left out of the glide path and optimizers
+  driftBand: number; // Percentage points of drift that call for rebalancing
+  holdingClasses: Record<string, string>; // Portfolio `${assetClass}:${symbol}` to asset class ID, overriding the default mapping
+}
+
+export interface AllocationProfile {
+  riskTolerance: string; // Preset ID
+  age: number;
+  retirementAge: number;
+}
+
+export interface AllocationTarget {
+  weights: Record<string, number>;
+  expectedReturn: number; // Decimal
+  volatility: number; // Decimal
+  riskContributions: Record<string, number>; // Percent of portfolio variance
+  note: string | null; // Why the target differs from what was asked, if it does
+}
+
+export interface GlidePathPoint {
+  age: number;
+  weights: Record<string, number>;
+}
+
+export interface DriftRow {
+  assetClassId: string;
+  name: string;
+  currentValue: number;
+  currentWeight: number; // Percent of modeled holdings
+  targetWeight: number;
+  drift: number; // Percentage points, current minus target
+  trade: number; // Dollars to buy (positive) or sell to reach the target
+  outsideBand: boolean;
+}
+
+export interface DriftAnalysis {
+  rows: DriftRow[];
+  totalValue: number; // Holdings mapped to an asset class
+  unmodeled: Array<{ key: string; symbol: string; value: number }>; // Holdings without an asset class
+  needsRebalance: boolean;
+  turnover: number; // Dollars sold to rebalance
+}
+
+export const ALLOCATION_METHOD_LABELS: Record<AllocationMethod, string> = {
+  preset: 'Risk tolerance preset',
+  glidePath: 'Glide path by age',
+  meanVariance: 'Mean-variance optimized',
+  riskParity: 'Risk parity',
+};
+
+// Asset classes counted as defensive; all others are growth assets
+export const DEFENSIVE_ASSET_CLASS_IDS = ['bonds', 'cash'];
+
+export const DEFAULT_ALLOCATION_SETTINGS: AllocationSettings = {
+  method: 'preset',
+  glidePath: { earlyEquity: 90, retirementEquity: 50, finalEquity: 30, declineYears: 25, landingYears: 7 },
+  targetVolatility: 10,
+  maxWeight: 60,
+  excluded: ['cash'],
+  driftBand: 5,
+  holdingClasses: {},
+};
+
+// Well-known funds outside US stocks
+const FUND_CLASSES: Record<string, string> = {
+  VXUS: 'intl-equity', IXUS: 'intl-equity', VEA: 'intl-equity', IEFA: 'intl-equity', EFA: 'intl-equity',
+  VWO: 'intl-equity', IEMG: 'intl-equity', EEM: 'intl-equity', SCHF: 'intl-equity', SPDW: 'intl-equity',
+  VEU: 'intl-equity', ACWX: 'intl-equity', SCHE: 'intl-equity', SPEM: 'intl-equity',
+  BND: 'bonds', AGG: 'bonds', SCHZ: 'bonds', SPAB: 'bonds', IUSB: 'bonds', BNDX: 'bonds', TLT: 'bonds',
+  VGLT: 'bonds', SPTL: 'bonds', SCHQ: 'bonds', IEF: 'bonds', SHY: 'bonds', TIP: 'bonds', VTIP: 'bonds', MUB: 'bonds',
+  VNQ: 'real-estate', XLRE: 'real-estate', SCHH: 'real-estate', IYR: 'real-estate',
+  SGOV: 'cash', BIL: 'cash', SHV: 'cash',
+};
+
+const DEFAULT_HOLDING_CLASSES: Partial<Record<AssetClass, string>> = {
+  stock: 'us-equity',
+  etf: 'us-equity',
+  bond: 'bonds',
+  cash: 'cash',
+};
+
+const SOLVER_ITERATIONS = 500;
+const BISECTION_STEPS = 40;
+
+const isDefensive = (id: string) => DEFENSIVE_ASSET_CLASS_IDS.includes(id);
+
+const clamp = (value: number, low: number, high: number) => Math.min(Math.max(value, low), high);
+
+const covarianceMatrix = (assumptions: CapitalMarketAssumptions, ids: string[]): number[][] => {
+  const byId = new Map(assumptions.assetClasses.map((assetClass) => [assetClass.id, assetClass]));
+  return ids.map((a) =>
+    ids.map((b) => (byId.get(a)?.volatility ?? 0) * (byId.get(b)?.volatility ?? 0) * getCorrelation(assumptions, a, b))
+  );
+};
+
+const multiply = (matrix: number[][], vector: number[]) =>
+  matrix.map((row) => row.reduce((sum, value, index) => sum + value * vector[index], 0));
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+/**
+ * Return, volatility and risk contributions of weights (percent by asset class ID)
+ */
+export const describeWeights = (
+  assumptions: CapitalMarketAssumptions,
+  weights: Record<string, number>,
+  note: string | null = null
+): AllocationTarget => {
+  const ids = Object.keys(weights).filter((id) => weights[id] > 0);
+  const w = ids.map((id) => weights[id] / 100);
+  const covariance = covarianceMatrix(assumptions, ids);
+  const marginal = multiply(covariance, w);
+  const variance = dot(w, marginal);
+  const returns = ids.map((id) => assumptions.assetClasses.find((assetClass) => assetClass.id === id)?.expectedReturn ?? 0);
+
+  const riskContributions: Record<string, number> = {};
+  ids.forEach((id, index) => {
+    riskContributions[id] = variance > 0 ? (w[index] * marginal[index] / variance) * 100 : 0;
+  });
+  return { weights, expectedReturn: dot(w, returns), volatility: Math.sqrt(Math.max(variance, 0)), riskContributions, note };
+};
+
+/**
+ * Growth share (percent) of the glide path at an age
+ */
+export const glidePathEquity = (path: GlidePath, age: number, retirementAge: number): number => {
+  const declineStart = retirementAge - Math.max(path.declineYears, 0);
+  const landing = retirementAge + Math.max(path.landingYears, 0);
+  if (age <= declineStart) return path.earlyEquity;
+  if (age <= retirementAge) {
+    const progress = path.declineYears > 0 ? (age - declineStart) / path.declineYears : 1;
+    return path.earlyEquity + (path.retirementEquity - path.earlyEquity) * progress;
+  }
+  if (age >= landing) return path.finalEquity;
+  return path.retirementEquity + (path.finalEquity - path.retirementEquity) * (age - retirementAge) / path.landingYears;
+};
+
+/**
+ * Split a growth share across growth and defensive asset classes in the proportions of a preset
+ */
+const sleeveWeights = (ids: string[], preset: AssumptionPreset | undefined, growthShare: number): Record<string, number> => {
+  const weights: Record<string, number> = {};
+  const fill = (sleeve: string[], share: number) => {
+    if (sleeve.length === 0) return;
+    const total = sleeve.reduce((sum, id) => sum + (preset?.weights[id] ?? 0), 0);
+    sleeve.forEach((id) => {
+      const weight = share * (total > 0 ? (preset?.weights[id] ?? 0) / total : 1 / sleeve.length);
+      if (weight > 0) weights[id] = weight;
+    });
+  };
+  const growth = ids.filter((id) => !isDefensive(id));
+  const defensive = ids.filter(isDefensive);
+  // A missing sleeve hands its share to the other
+  const share = growth.length === 0 ? 0 : defensive.length === 0 ? 100 : clamp(growthShare, 0, 100);
+  fill(growth, share);
+  fill(defensive, 100 - share);
+  return weights;
+};
+
+/**
+ * Project onto { 0 <= w <= cap, sum w = 1 }
+ */
+const projectToCappedSimplex = (values: number[], cap: number): number[] => {
+  let low = Math.min(...values) - 1;
+  let high = Math.max(...values);
+  for (let step = 0; step < 100; step++) {
+    const shift = (low + high) / 2;
+    const sum = values.reduce((total, value) => total + clamp(value - shift, 0, cap), 0);
+    if (sum > 1) low = shift;
+    else high = shift;
+  }
+  return values.map((value) => clamp(value - (low + high) / 2, 0, cap));
+};
+
+/**
+ * Long-only weights maximizing return minus `aversion / 2` times variance (projected gradient ascent)
+ */
+const meanVarianceWeights = (returns: number[], covariance: number[][], aversion: number, cap: number): number[] => {
+  const lipschitz = Math.max(...covariance.map((row) => row.reduce((sum, value) => sum + Math.abs(value), 0)), 1e-8);
+  const step = 1 / (aversion * lipschitz);
+  let weights = projectToCappedSimplex(returns.map(() => 1 / returns.length), cap);
+  for (let iteration = 0; iteration < SOLVER_ITERATIONS; iteration++) {
+    const marginal = multiply(covariance, weights);
+    weights = projectToCappedSimplex(weights.map((weight, index) => weight + step * (returns[index] - aversion * marginal[index])), cap);
+  }
+  return weights;
+};
+
+/**
+ * Equal risk contributions by cyclical coordinate descent (Griveau-Billion, Richard and Roncalli, 2013)
+ */
+const riskParityWeights = (covariance: number[][]): number[] => {
+  const count = covariance.length;
+  const budget = 1 / count;
+  const x = covariance.map((row, index) => 1 / Math.sqrt(Math.max(row[index], 1e-12)));
+  for (let iteration = 0; iteration < SOLVER_ITERATIONS; iteration++) {
+    for (let i = 0; i < count; i++) {
+      const variance = Math.max(covariance[i][i], 1e-12);
+      const others = covariance[i].reduce((sum, value, j) => (j === i ? sum : sum + value * x[j]), 0);
+      x[i] = (-others + Math.sqrt(others * others + 4 * variance * budget)) / (2 * variance);
+    }
+  }
+  const total = x.reduce((sum, value) => sum + value, 0);
+  return x.map((value) => value / total);
+};
+
+const toPercentWeights = (ids: string[], weights: number[]): Record<string, number> => {
+  const result: Record<string, number> = {};
+  ids.forEach((id, index) => {
+    if (weights[index] > 1e-6) result[id] = weights[index] * 100;
+  });
+  return result;
+};
+
+/**
+ * Target allocation for a profile
+ * @throws Error if the risk tolerance preset is missing or no asset class is left to allocate
+ */
+export const computeTargetAllocation = (
+  assumptions: CapitalMarketAssumptions,
+  settings: AllocationSettings,
+  profile: AllocationProfile,
+  age: number = profile.age
+): AllocationTarget => {
+  const preset = assumptions.presets.find((item) => item.id === profile.riskTolerance);
+  if (settings.method === 'preset') {
+    if (!preset) throw new Error(`No ${profile.riskTolerance} assumption preset`);
+    return describeWeights(assumptions, { ...preset.weights });
+  }
+
+  const ids = assumptions.assetClasses.map((assetClass) => assetClass.id).filter((id) => !settings.excluded.includes(id));
+  if (ids.length === 0) throw new Error('Every asset class is excluded');
+
+  if (settings.method === 'glidePath') {
+    const equity = glidePathEquity(settings.glidePath, age, profile.retirementAge);
+    return describeWeights(assumptions, sleeveWeights(ids, preset, equity));
+  }
+
+  const covariance = covarianceMatrix(assumptions, ids);
+  if (settings.method === 'riskParity') {
+    return describeWeights(assumptions, toPercentWeights(ids, riskParityWeights(covariance)));
+  }
+
+  // Mean-variance: find the risk aversion whose portfolio has the target volatility
+  const returns = ids.map((id) => assumptions.assetClasses.find((assetClass) => assetClass.id === id)?.expectedReturn ?? 0);
+  const cap = Math.max(settings.maxWeight / 100, 1 / ids.length);
+  const target = Math.max(settings.targetVolatility, 0) / 100;
+  const volatilityOf = (weights: number[]) => Math.sqrt(Math.max(dot(weights, multiply(covariance, weights)), 0));
+  const solve = (aversion: number) => meanVarianceWeights(returns, covariance, aversion, cap);
+
+  const safest = solve(1e4);
+  if (volatilityOf(safest) > target) {
+    return describeWeights(assumptions, toPercentWeights(ids, safest), 'Target volatility is below the least volatile mix; showing that mix');
+  }
+  const riskiest = solve(1e-3);
+  if (volatilityOf(riskiest) <= target) {
+    return describeWeights(assumptions, toPercentWeights(ids, riskiest), 'Target volatility is above the highest-return mix; showing that mix');
+  }
+  let low = Math.log(1e-3);
+  let high = Math.log(1e4);
+  let weights = safest;
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const middle = (low + high) / 2;
+    const candidate = solve(Math.exp(middle));
+    if (volatilityOf(candidate) > target) {
+      low = middle;
+    } else {
+      high = middle;
+      weights = candidate;
+    }
+  }
+  return describeWeights(assumptions, toPercentWeights(ids, weights));
+};
+
+/**
+ * Target weights from now to `untilAge`, one point per year
+ * @throws Error as computeTargetAllocation
+ */
+export const glidePathSchedule = (
+  assumptions: CapitalMarketAssumptions,
+  settings: AllocationSettings,
+  profile: AllocationProfile,
+  untilAge: number
+): GlidePathPoint[] => {
+  const points: GlidePathPoint[] = [];
+  for (let age = profile.age; age <= Math.max(untilAge, profile.age); age++) {
+    points.push({ age, weights: computeTargetAllocation(assumptions, settings, profile, age).weights });
+  }
+  return points;
+};
+
+/**
+ * Asset class a holding counts toward, or null if it is outside the model
+ */
+export const holdingAssetClass = (
+  assumptions: CapitalMarketAssumptions,
+  settings: AllocationSettings,
+  position: Pick<ValuedPosition, 'assetClass' | 'symbol'>
+): string | null => {
+  const key = `${position.assetClass}:${position.symbol}`;
+  const candidate = key in settings.holdingClasses
+    ? settings.holdingClasses[key]
+    : (position.assetClass === 'etf' ? FUND_CLASSES[position.symbol] : undefined) ?? DEFAULT_HOLDING_CLASSES[position.assetClass];
+  return candidate && assumptions.assetClasses.some((assetClass) => assetClass.id === candidate) ? candidate : null;
+};
+
+/**
+ * Drift of holdings from the target and the trades that restore it
+ */
+export const analyzeDrift = (
+  assumptions: CapitalMarketAssumptions,
+  settings: AllocationSettings,
+  target: Record<string, number>,
+  positions: ValuedPosition[]
+): DriftAnalysis => {
+  const values = new Map<string, number>();
+  const unmodeled: DriftAnalysis['unmodeled'] = [];
+  positions
+    .filter((position) => position.quantity > 0)
+    .forEach((position) => {
+      const id = holdingAssetClass(assumptions, settings, position);
+      if (id) values.set(id, (values.get(id) ?? 0) + position.marketValue);
+      else unmodeled.push({ key: `${position.assetClass}:${position.symbol}`, symbol: position.symbol, value: position.marketValue });
+    });
+
+  const totalValue = [...values.values()].reduce((sum, value) => sum + value, 0);
+  const rows: DriftRow[] = assumptions.assetClasses
+    .filter((assetClass) => (target[assetClass.id] ?? 0) > 0 || values.has(assetClass.id))
+    .map((assetClass) => {
+      const currentValue = values.get(assetClass.id) ?? 0;
+      const currentWeight = totalValue > 0 ? (currentValue / totalValue) * 100 : 0;
+      const targetWeight = target[assetClass.id] ?? 0;
+      const drift = currentWeight - targetWeight;
+      return {
+        assetClassId: assetClass.id,
+        name: assetClass.name,
+        currentValue,
+        currentWeight,
+        targetWeight,
+        drift,
+        trade: (totalValue * targetWeight) / 100 - currentValue,
+        outsideBand: Math.abs(drift) > settings.driftBand,
+      };
+    });
+
+  return {
+    rows,
+    totalValue,
+    unmodeled,
+    needsRebalance: rows.some((row) => row.outsideBand),
+    turnover: rows.reduce((sum, row) => sum + Math.max(-row.trade, 0), 0),
+  };
+};
@@ -1,8 +1,12 @@
 /**
  * API Service Configuration
- * Centralized API client setup with axios
+ * Centralized API client setup with axios, plus a response cache with
+ * per-endpoint TTLs and stale-while-revalidate semantics
  */
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
+import { readCacheEntry, writeCacheEntry } from './responseCache';
+import { acquireToken, reportRateLimited, resolveProvider } from './rateLimiter';
+import { isFixtureMode, loadFixtureResponse } from './fixtures';
 
 // Create axios instance with default config
 const apiClient = axios.create({
@@ -26,10 +30,28 @@ apiClient.interceptors.request.use(
   }
 );
 
+// Request interceptor for rate limiting: queues the call until the provider has budget
+apiClient.interceptors.request.use(async (config) => {
+  const provider = resolveProvider(config.url);
+  if (provider) {
+    await acquireToken(provider);
+  }
+  return config;
+});
+
 // Response interceptor for error handling
 apiClient.interceptors.response.use(
   (response) => response,
   (error) => {
+    // Provider-reported rate limit
+    const provider = resolveProvider(error.config?.url);
+    if (provider && error.response?.status === 429) {
+      const retryAfter = parseInt(error.response.headers?.['retry-after'], 10);
+      return Promise.reject(
+        reportRateLimited(provider, Number.isNaN(retryAfter) ? undefined : retryAfter * 1000)
+      );
+    }
+
     // Handle common errors
     if (error.response) {
       // Server responded with error status
@@ -47,3 +69,187 @@ apiClient.interceptors.response.use(
 
 export default apiClient;
 
+/**
+ * Extract a readable message from an unknown thrown value
+ */
+export const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export interface CachePolicy {
+  ttl: number; // Milliseconds a response is served without revalidating
+  staleTtl: number; // Milliseconds a response may be served stale while revalidating
+}
+
+export interface CachedGetOptions<T> {
+  policy?: CachePolicy;
+  isCacheable?: (data: T) => boolean;
+}
+
+type RevalidationListener = (key: string) => void;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const DEFAULT_CACHE_POLICY: CachePolicy = { ttl: 5 * MINUTE, staleTtl: HOUR };
+
+// Ordered rules: the first match wins
+const CACHE_POLICIES: Array<{
+  match: (url: string, params: Record<string, unknown>) => boolean;
+  policy: CachePolicy;
+}> = [
+  {
+    match: (url, params) => url.includes('alphavantage.co') && params.function === 'GLOBAL_QUOTE',
+    policy: { ttl: MINUTE, staleTtl: 15 * MINUTE },
+  },
+  {
+    // Company profiles (sector, industry) rarely change
+    match: (url, params) =>
+      (url.includes('alphavantage.co') && params.function === 'OVERVIEW') ||
+      (url.includes('financialmodelingprep.com') && url.includes('/profile/')),
+    policy: { ttl: 7 * DAY, staleTtl: 30 * DAY },
+  },
+  {
+    match: (url) => url.includes('alphavantage.co'),
+    policy: { ttl: HOUR, staleTtl: DAY },
+  },
+  {
+    match: (url) => url.includes('financialmodelingprep.com'),
+    policy: { ttl: DAY, staleTtl: 7 * DAY },
+  },
+  {
+    match: (url) => url.includes('coingecko.com') && url.includes('/market_chart'),
+    policy: { ttl: HOUR, staleTtl: DAY },
+  },
+  {
+    match: (url) => url.includes('coingecko.com'),
+    policy: { ttl: MINUTE, staleTtl: 30 * MINUTE },
+  },
+  {
+    match: (url) => url.includes('exchangerate.host'),
+    policy: { ttl: 10 * MINUTE, staleTtl: 6 * HOUR },
+  },
+];
+
+// Params that must never end up in a cache key
+const EXCLUDED_KEY_PARAMS = ['apikey'];
+
+const inflightRequests = new Map<string, Promise<unknown>>();
+const revalidationListeners = new Set<RevalidationListener>();
+
+/**
+ * Resolve the cache policy for a request
+ */
+export const resolveCachePolicy = (url: string, params: Record<string, unknown> = {}): CachePolicy => {
+  const rule = CACHE_POLICIES.find(({ match }) => match(url, params));
+  return rule ? rule.policy : DEFAULT_CACHE_POLICY;
+};
+
+/**
+ * Build a stable cache key from the URL and sorted query params
+ */
+export const buildCacheKey = (url: string, params: Record<string, unknown> = {}): string => {
+  const query = Object.keys(params)
+    .filter((key) => !EXCLUDED_KEY_PARAMS.includes(key) && params[key] !== undefined)
+    .sort()
+    .map((key) => `${key}=${String(params[key])}`)
+    .join('&');
+  return query ? `${url}?${query}` : url;
+};
+
+/**
+ * Subscribe to background refreshes of stale responses; the listener receives
+ * the cache key and can reload, which now reads the fresh entry
+ * @returns Unsubscribe function
+ */
+export const subscribeToRevalidation = (listener: RevalidationListener): (() => void) => {
+  revalidationListeners.add(listener);
+  return () => {
+    revalidationListeners.delete(listener);
+  };
+};
+
+/**
+ * Fetch from the network, sharing one request between concurrent callers
+ * and storing cacheable responses
+ */
+const fetchAndStore = <T>(
+  key: string,
+  url: string,
+  config: AxiosRequestConfig,
+  isCacheable: (data: T) => boolean
+): Promise<T> => {
+  const pending = inflightRequests.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const request = apiClient
+    .get<T>(url, config)
+    .then(async (response) => {
+      if (isCacheable(response.data)) {
+        await writeCacheEntry(key, response.data);
+      }
+      return response.data;
+    })
+    .finally(() => {
+      inflightRequests.delete(key);
+    });
+
+  inflightRequests.set(key, request);
+  return request;
+};
+
+/**
+ * GET with caching
+ * - In fixture mode (VITE_DATA_MODE=fixtures) the recorded fixture is returned
+ *   and neither the cache nor the network is touched
+ * - Fresh entries (younger than `ttl`) are returned without a network call
+ * - Stale entries (younger than `staleTtl`) are returned immediately while a
+ *   background request refreshes the cache, then revalidation subscribers are notified
+ * - Missing or expired entries are fetched from the network
+ * @param url - Request URL
+ * @param config - Axios request config (params are part of the cache key)
+ * @param options - Cache policy override and cacheability check
+ */
+export const cachedGet = async <T>(
+  url: string,
+  config: AxiosRequestConfig = {},
+  options: CachedGetOptions<T> = {}
+): Promise<T> => {
+  const params = (config.params || {}) as Record<string, unknown>;
+
+  if (isFixtureMode()) {
+    return loadFixtureResponse<T>(url, params);
+  }
+
+  const key = buildCacheKey(url, params);
+  const policy = options.policy || resolveCachePolicy(url, params);
+  const isCacheable = options.isCacheable || (() => true);
+
+  const entry = await readCacheEntry<T>(key);
+  if (entry) {
+    const age = Date.now() - entry.storedAt;
+
+    if (age < policy.ttl) {
+      return entry.data;
+    }
+
+    if (age < policy.staleTtl) {
+      fetchAndStore(key, url, config, isCacheable)
+        .then((data) => {
+          // Only stored responses: a reload would otherwise revalidate again
+          if (isCacheable(data)) {
+            revalidationListeners.forEach((listener) => listener(key));
+          }
+        })
+        .catch(() => {
+          // Keep serving the stale entry; the next call will retry
+        });
+      return entry.data;
+    }
+  }
+
+  return fetchAndStore(key, url, config, isCacheable);
+};
+
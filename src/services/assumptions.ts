@@ -0,0 +1,448 @@
+/**
+ * Capital-Market Assumptions
+ * Expected return and volatility per asset class, the correlations between
+ * them, and named portfolio presets that blend asset classes by weight.
+ * The simulator runs against the blended return and volatility of a preset.
+ *
+ * Built-in presets ship with the app and cannot be changed; asset classes,
+ * correlations and custom presets are stored in localStorage. Share links
+ * carry a snapshot of them so the recipient can run the same numbers.
+ *
+ * Conventions:
+ * - Returns and volatilities are annual decimals (0.07 = 7%)
+ * - Expected returns are arithmetic means, as the Monte Carlo engine expects
+ * - Preset weights are percentages keyed by asset class ID and add up to 100
+ */
+
+export interface AssetClassAssumption {
+  id: string;
+  name: string;
+  expectedReturn: number;
+  volatility: number;
+}
+
+export interface AssumptionPreset {
+  id: string;
+  name: string;
+  description: string;
+  weights: Record<string, number>; // Percent per asset class ID
+  builtIn?: boolean;
+}
+
+export interface CapitalMarketAssumptions {
+  assetClasses: AssetClassAssumption[];
+  correlations: Record<string, Record<string, number>>; // Each pair stored both ways
+  presets: AssumptionPreset[]; // Built-in presets first
+}
+
+// Return and volatility of a preset under a set of assumptions
+export interface BlendedAssumption {
+  presetId: string;
+  name: string;
+  description: string;
+  annualReturn: number;
+  volatility: number;
+}
+
+type AssumptionsListener = (assumptions: CapitalMarketAssumptions) => void;
+
+// Same shape as CapitalMarketAssumptions, but `presets` holds custom presets only
+type StoredAssumptions = CapitalMarketAssumptions;
+
+// Stored assumptions as carried by a share link
+export type AssumptionsSnapshot = StoredAssumptions;
+
+const STORAGE_KEY = 'valunetics-assumptions';
+
+// Rounding slack when checking that weights add up to 100
+const WEIGHT_TOLERANCE = 0.01;
+
+export const DEFAULT_ASSET_CLASSES: AssetClassAssumption[] = [
+  { id: 'us-equity', name: 'US Stocks', expectedReturn: 0.1, volatility: 0.17 },
+  { id: 'intl-equity', name: 'International Stocks', expectedReturn: 0.09, volatility: 0.19 },
+  { id: 'bonds', name: 'Bonds', expectedReturn: 0.045, volatility: 0.06 },
+  { id: 'cash', name: 'Cash', expectedReturn: 0.03, volatility: 0.01 },
+  { id: 'real-estate', name: 'Real Estate', expectedReturn: 0.08, volatility: 0.2 },
+];
+
+const DEFAULT_CORRELATION_PAIRS: Array<[string, string, number]> = [
+  ['us-equity', 'intl-equity', 0.8],
+  ['us-equity', 'bonds', 0.1],
+  ['us-equity', 'cash', 0],
+  ['us-equity', 'real-estate', 0.6],
+  ['intl-equity', 'bonds', 0.1],
+  ['intl-equity', 'cash', 0],
+  ['intl-equity', 'real-estate', 0.55],
+  ['bonds', 'cash', 0.2],
+  ['bonds', 'real-estate', 0.2],
+  ['cash', 'real-estate', 0],
+];
+
+export const BUILT_IN_PRESETS: AssumptionPreset[] = [
+  {
+    id: 'conservative',
+    name: 'Conservative',
+    description: 'Mostly bonds and cash, with some stocks',
+    weights: { 'us-equity': 20, 'intl-equity': 5, bonds: 60, cash: 15 },
+    builtIn: true,
+  },
+  {
+    id: 'moderate',
+    name: 'Moderate',
+    description: 'Balanced portfolio (60% stocks, 40% bonds)',
+    weights: { 'us-equity': 45, 'intl-equity': 15, bonds: 40 },
+    builtIn: true,
+  },
+  {
+    id: 'aggressive',
+    name: 'Aggressive',
+    description: 'Growth stocks, international equity and real estate',
+    weights: { 'us-equity': 60, 'intl-equity': 25, bonds: 5, 'real-estate': 10 },
+    builtIn: true,
+  },
+];
+
+const defaultCorrelations = (): Record<string, Record<string, number>> => {
+  const correlations: Record<string, Record<string, number>> = {};
+  DEFAULT_CORRELATION_PAIRS.forEach(([a, b, value]) => {
+    correlations[a] = { ...correlations[a], [b]: value };
+    correlations[b] = { ...correlations[b], [a]: value };
+  });
+  return correlations;
+};
+
+const defaultAssumptions = (): StoredAssumptions => ({
+  assetClasses: DEFAULT_ASSET_CLASSES.map((assetClass) => ({ ...assetClass })),
+  correlations: defaultCorrelations(),
+  presets: [],
+});
+
+const listeners = new Set<AssumptionsListener>();
+
+const readStorage = (): StoredAssumptions => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return defaultAssumptions();
+    const parsed = JSON.parse(raw) as Partial<StoredAssumptions>;
+    if (!Array.isArray(parsed.assetClasses) || parsed.assetClasses.length === 0) return defaultAssumptions();
+    return {
+      assetClasses: parsed.assetClasses,
+      correlations: parsed.correlations || {},
+      presets: Array.isArray(parsed.presets) ? parsed.presets : [],
+    };
+  } catch {
+    return defaultAssumptions();
+  }
+};
+
+let stored: StoredAssumptions = readStorage();
+
+const save = (next: StoredAssumptions) => {
+  stored = next;
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    }
+  } catch {
+    // Storage full or unavailable: keep the in-memory copy only
+  }
+  const assumptions = getAssumptions();
+  listeners.forEach((listener) => listener(assumptions));
+};
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Current assumptions, built-in presets first
+ */
+export const getAssumptions = (): CapitalMarketAssumptions => ({
+  assetClasses: stored.assetClasses,
+  correlations: stored.correlations,
+  presets: [...BUILT_IN_PRESETS, ...stored.presets],
+});
+
+/**
+ * Subscribe to assumption changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToAssumptions = (listener: AssumptionsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Correlation between two asset classes (1 with itself, 0 when unset)
+ */
+export const getCorrelation = (assumptions: Pick<CapitalMarketAssumptions, 'correlations'>, a: string, b: string): number => {
+  if (a === b) return 1;
+  return assumptions.correlations[a]?.[b] ?? assumptions.correlations[b]?.[a] ?? 0;
+};
+
+/**
+ * A new asset class with a fresh ID, uncorrelated with the others until edited
+ */
+export const createAssetClass = (name: string, expectedReturn = 0.05, volatility = 0.1): AssetClassAssumption => ({
+  id: createId('asset'),
+  name,
+  expectedReturn,
+  volatility,
+});
+
+/**
+ * Check asset classes and correlations
+ * @returns The correlations limited to the asset classes, without self-correlations
+ * @throws Error if a value is out of range or the correlations are inconsistent
+ */
+const validateMarketAssumptions = (
+  assetClasses: AssetClassAssumption[],
+  correlations: Record<string, Record<string, number>>
+): Record<string, Record<string, number>> => {
+  if (assetClasses.length === 0) throw new Error('Keep at least one asset class');
+
+  for (const assetClass of assetClasses) {
+    if (!assetClass.name.trim()) throw new Error('Every asset class needs a name');
+    if (!Number.isFinite(assetClass.expectedReturn)) throw new Error(`${assetClass.name}: expected return must be a number`);
+    if (!(assetClass.volatility >= 0)) throw new Error(`${assetClass.name}: volatility cannot be negative`);
+  }
+
+  const ids = new Set(assetClasses.map((assetClass) => assetClass.id));
+  const pruned: Record<string, Record<string, number>> = {};
+  for (const [a, row] of Object.entries(correlations)) {
+    if (!ids.has(a)) continue;
+    for (const [b, value] of Object.entries(row)) {
+      if (!ids.has(b) || a === b) continue;
+      if (!(value >= -1 && value <= 1)) throw new Error('Correlations must be between -1 and 1');
+      pruned[a] = { ...pruned[a], [b]: value };
+    }
+  }
+
+  if (!isValidCorrelationMatrix({ assetClasses, correlations: pruned })) {
+    throw new Error('These correlations are inconsistent with each other (the matrix is not positive semi-definite)');
+  }
+  return pruned;
+};
+
+/**
+ * Replace the asset classes and correlations
+ * @throws Error if a value is out of range, the correlations are inconsistent,
+ * or a removed asset class is still held by a preset
+ */
+export const saveMarketAssumptions = (
+  assetClasses: AssetClassAssumption[],
+  correlations: Record<string, Record<string, number>>
+) => {
+  const pruned = validateMarketAssumptions(assetClasses, correlations);
+  const ids = new Set(assetClasses.map((assetClass) => assetClass.id));
+  const orphaned = getAssumptions().presets.filter((preset) =>
+    Object.entries(preset.weights).some(([id, weight]) => weight > 0 && !ids.has(id))
+  );
+  if (orphaned.length > 0) {
+    throw new Error(
+      `A removed asset class is still held by ${orphaned.map((preset) => preset.name).join(', ')}; change those presets first`
+    );
+  }
+
+  save({
+    assetClasses: assetClasses.map((assetClass) => ({ ...assetClass, name: assetClass.name.trim() })),
+    correlations: pruned,
+    presets: stored.presets,
+  });
+};
+
+/**
+ * Check a preset's weights: known asset classes, none negative, adding up to 100
+ * @returns An error message, or null when the weights are usable
+ */
+export const validatePresetWeights = (
+  weights: Record<string, number>,
+  assetClasses: AssetClassAssumption[]
+): string | null => {
+  const known = new Set(assetClasses.map((assetClass) => assetClass.id));
+  const entries = Object.entries(weights).filter(([, weight]) => weight !== 0);
+  if (entries.length === 0) return 'Give at least one asset class a weight';
+  if (entries.some(([id]) => !known.has(id))) return 'Weights refer to an asset class that no longer exists';
+  if (entries.some(([, weight]) => !(weight > 0))) return 'Weights cannot be negative';
+
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (Math.abs(total - 100) > WEIGHT_TOLERANCE) return `Weights add up to ${total.toFixed(2)}%, not 100%`;
+  return null;
+};
+
+/**
+ * Create or update a custom preset
+ * @returns The saved preset
+ * @throws Error if the preset is built in, unnamed, or its weights are invalid
+ */
+export const savePreset = (preset: Omit<AssumptionPreset, 'id' | 'builtIn'> & { id?: string }): AssumptionPreset => {
+  if (preset.id && BUILT_IN_PRESETS.some((builtIn) => builtIn.id === preset.id)) {
+    throw new Error('Built-in presets cannot be changed; save a copy instead');
+  }
+  const name = preset.name.trim();
+  if (!name) throw new Error('Preset name is required');
+
+  const weightError = validatePresetWeights(preset.weights, stored.assetClasses);
+  if (weightError) throw new Error(weightError);
+
+  const weights = Object.fromEntries(Object.entries(preset.weights).filter(([, weight]) => weight > 0));
+  const existing = preset.id ? stored.presets.find((item) => item.id === preset.id) : undefined;
+  const saved: AssumptionPreset = {
+    id: existing?.id || createId('preset'),
+    name,
+    description: preset.description.trim(),
+    weights,
+  };
+
+  save({
+    ...stored,
+    presets: existing
+      ? stored.presets.map((item) => (item.id === saved.id ? saved : item))
+      : [...stored.presets, saved],
+  });
+  return saved;
+};
+
+/**
+ * Delete a custom preset
+ * @throws Error if the preset is built in
+ */
+export const deletePreset = (id: string) => {
+  if (BUILT_IN_PRESETS.some((preset) => preset.id === id)) throw new Error('Built-in presets cannot be deleted');
+  save({ ...stored, presets: stored.presets.filter((preset) => preset.id !== id) });
+};
+
+/**
+ * Restore the default asset classes and correlations. Custom presets are
+ * kept, minus weights on asset classes that no longer exist.
+ */
+export const resetAssumptions = () => {
+  const defaults = defaultAssumptions();
+  const known = new Set(defaults.assetClasses.map((assetClass) => assetClass.id));
+  save({
+    ...defaults,
+    presets: stored.presets.map((preset) => ({
+      ...preset,
+      weights: Object.fromEntries(Object.entries(preset.weights).filter(([id]) => known.has(id))),
+    })),
+  });
+};
+
+/**
+ * Asset classes, correlations and custom presets, detached for a share link
+ */
+export const getAssumptionsSnapshot = (): AssumptionsSnapshot => JSON.parse(JSON.stringify(stored)) as AssumptionsSnapshot;
+
+/**
+ * Whether a snapshot gives the same numbers as the current assumptions: the
+ * same asset class returns, volatilities and correlations, and each of its
+ * custom presets stored with the same weights. Names are not compared.
+ */
+export const matchesAssumptions = (snapshot: AssumptionsSnapshot): boolean => {
+  if (snapshot.assetClasses.length !== stored.assetClasses.length) return false;
+  const sameClasses = snapshot.assetClasses.every((assetClass) => {
+    const own = stored.assetClasses.find((item) => item.id === assetClass.id);
+    return own?.expectedReturn === assetClass.expectedReturn && own.volatility === assetClass.volatility;
+  });
+  if (!sameClasses) return false;
+
+  const ids = snapshot.assetClasses.map((assetClass) => assetClass.id);
+  const sameCorrelations = ids.every((a) => ids.every((b) => getCorrelation(snapshot, a, b) === getCorrelation(stored, a, b)));
+  const samePresets = snapshot.presets.every((preset) => {
+    const own = stored.presets.find((item) => item.id === preset.id);
+    const weights = Object.entries(preset.weights).filter(([, weight]) => weight !== 0);
+    return (
+      !!own &&
+      weights.length === Object.values(own.weights).filter((weight) => weight !== 0).length &&
+      weights.every(([id, weight]) => own.weights[id] === weight)
+    );
+  });
+  return sameCorrelations && samePresets;
+};
+
+/**
+ * Adopt the assumptions of a share link: its asset classes and correlations
+ * replace the current ones and its custom presets replace those with the same
+ * ID. Other custom presets are kept, minus weights on asset classes that no
+ * longer exist.
+ * @throws Error if the shared asset classes or correlations are invalid
+ */
+export const importAssumptions = (snapshot: AssumptionsSnapshot) => {
+  const correlations = validateMarketAssumptions(snapshot.assetClasses, snapshot.correlations);
+  const known = new Set(snapshot.assetClasses.map((assetClass) => assetClass.id));
+  const sharedIds = new Set(snapshot.presets.map((preset) => preset.id));
+  const presets = [
+    ...stored.presets.filter((preset) => !sharedIds.has(preset.id)),
+    ...snapshot.presets.filter((preset) => !BUILT_IN_PRESETS.some((builtIn) => builtIn.id === preset.id)),
+  ];
+  save({
+    assetClasses: snapshot.assetClasses.map((assetClass) => ({ ...assetClass, name: assetClass.name.trim() })),
+    correlations,
+    presets: presets.map((preset) => ({
+      id: preset.id,
+      name: preset.name,
+      description: preset.description,
+      weights: Object.fromEntries(Object.entries(preset.weights).filter(([id]) => known.has(id))),
+    })),
+  });
+};
+
+/**
+ * Whether the correlation matrix is positive semi-definite, i.e. describes
+ * asset classes that could actually exist together (Cholesky decomposition)
+ */
+export const isValidCorrelationMatrix = (assumptions: Omit<CapitalMarketAssumptions, 'presets'>): boolean => {
+  const ids = assumptions.assetClasses.map((assetClass) => assetClass.id);
+  const n = ids.length;
+  const lower: number[][] = ids.map(() => new Array(n).fill(0));
+  const EPSILON = 1e-10;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = getCorrelation(assumptions, ids[i], ids[j]);
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+
+      if (i === j) {
+        if (sum < -EPSILON) return false;
+        lower[i][i] = Math.sqrt(Math.max(sum, 0));
+      } else {
+        lower[i][j] = lower[j][j] > EPSILON ? sum / lower[j][j] : 0;
+        if (lower[j][j] <= EPSILON && Math.abs(sum) > 1e-6) return false;
+      }
+    }
+  }
+  return true;
+};
+
+/**
+ * Expected return (weighted mean) and volatility (from the covariance
+ * matrix) of a preset
+ * @throws Error if the preset's weights are invalid
+ */
+export const blendPreset = (assumptions: CapitalMarketAssumptions, preset: AssumptionPreset): BlendedAssumption => {
+  const weightError = validatePresetWeights(preset.weights, assumptions.assetClasses);
+  if (weightError) throw new Error(`${preset.name}: ${weightError}`);
+
+  const holdings = assumptions.assetClasses
+    .map((assetClass) => ({ assetClass, weight: (preset.weights[assetClass.id] || 0) / 100 }))
+    .filter((holding) => holding.weight > 0);
+
+  const annualReturn = holdings.reduce((sum, { assetClass, weight }) => sum + weight * assetClass.expectedReturn, 0);
+  let variance = 0;
+  holdings.forEach((a) => {
+    holdings.forEach((b) => {
+      variance +=
+        a.weight * b.weight * a.assetClass.volatility * b.assetClass.volatility *
+        getCorrelation(assumptions, a.assetClass.id, b.assetClass.id);
+    });
+  });
+
+  return {
+    presetId: preset.id,
+    name: preset.name,
+    description: preset.description,
+    annualReturn,
+    volatility: Math.sqrt(Math.max(variance, 0)),
+  };
+};
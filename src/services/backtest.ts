@@ -0,0 +1,362 @@
+/**
+ * Historical Backtesting
+ * Replays a weighted portfolio over historical adjusted closes, with
+ * periodic or threshold rebalancing, monthly contributions and fees, and
+ * measures what actually happened: CAGR, volatility, Sharpe and Sortino
+ * ratios, drawdowns, calendar-year and rolling returns.
+ *
+ * Conventions:
+ * - Weights are percentages and must add up to 100
+ * - Returns and rates in results are decimals (0.05 = 5%)
+ * - Valuations are end of day, after that day's contribution, rebalancing and costs
+ * - Contributions are invested at the target weights on the first trading day of each month
+ * - Returns are time-weighted, so contributions do not inflate them
+ */
+import { alignSeries, ComparisonSeries, PricePoint } from './comparison';
+import { annualizeReturn, daysBetween, moneyWeightedReturn } from './returns';
+
+export type RebalanceFrequency = 'monthly' | 'quarterly' | 'annually';
+
+export type RebalanceRule =
+  | { type: 'none' }
+  | { type: 'periodic'; frequency: RebalanceFrequency }
+  | { type: 'threshold'; band: number }; // Percentage points of drift from any target weight
+
+export interface BacktestAllocation {
+  symbol: string;
+  weight: number; // Percent
+}
+
+export interface BacktestConfig {
+  allocations: BacktestAllocation[];
+  initialAmount: number;
+  monthlyContribution: number;
+  rebalance: RebalanceRule;
+  expenseRatio: number; // Annual percent, charged daily
+  tradingCost: number; // Percent of the value bought or sold
+  riskFreeRate: number; // Annual percent, used by Sharpe and Sortino
+  startDate?: string; // 'YYYY-MM-DD', defaults to the first common date
+  endDate?: string; // 'YYYY-MM-DD', defaults to the last common date
+}
+
+export interface BacktestPoint {
+  date: string;
+  value: number;
+  contributed: number; // Cumulative, initial amount included
+  index: number; // Growth of 1 invested, time-weighted
+  drawdown: number; // Decline of the index from its running peak, 0 or negative
+}
+
+export interface YearlyReturn {
+  year: number;
+  return: number;
+  partial: boolean; // The backtest covers only part of the year
+}
+
+export interface RollingReturnPoint {
+  date: string;
+  return: number; // Annualized when the window is longer than a year
+}
+
+export interface BacktestMetrics {
+  startDate: string;
+  endDate: string;
+  years: number;
+  tradingDays: number;
+  finalValue: number;
+  totalContributed: number;
+  totalReturn: number; // Time-weighted
+  cagr: number;
+  moneyWeightedReturn: number | null; // Annualized (XIRR)
+  volatility: number; // Annualized
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  maxDrawdown: number; // Negative
+  maxDrawdownPeak: string;
+  maxDrawdownTrough: string;
+  rebalances: number;
+  tradingCosts: number;
+  expenses: number;
+}
+
+export interface BacktestResult {
+  points: BacktestPoint[];
+  yearlyReturns: YearlyReturn[];
+  metrics: BacktestMetrics;
+}
+
+export const REBALANCE_FREQUENCY_LABELS: Record<RebalanceFrequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annually: 'Annually',
+};
+
+const DAYS_PER_YEAR = 365.25;
+
+// Rounding slack when checking that weights add up to 100
+const WEIGHT_TOLERANCE = 0.01;
+
+/**
+ * Check an allocation: known symbols, positive weights adding up to 100
+ * @returns An error message, or null when the allocation is usable
+ */
+export const validateAllocations = (allocations: BacktestAllocation[]): string | null => {
+  if (allocations.length === 0) return 'Add at least one asset';
+
+  const symbols = new Set<string>();
+  for (const allocation of allocations) {
+    if (!allocation.symbol.trim()) return 'Every asset needs a ticker';
+    if (!(allocation.weight > 0)) return `${allocation.symbol} needs a positive weight`;
+    if (symbols.has(allocation.symbol)) return `${allocation.symbol} is listed twice`;
+    symbols.add(allocation.symbol);
+  }
+
+  const total = allocations.reduce((sum, allocation) => sum + allocation.weight, 0);
+  if (Math.abs(total - 100) > WEIGHT_TOLERANCE) return `Weights add up to ${total.toFixed(2)}%, not 100%`;
+  return null;
+};
+
+/**
+ * Whether `date` opens a new rebalancing period relative to `previous`
+ */
+const startsPeriod = (previous: string, date: string, frequency: RebalanceFrequency) => {
+  if (frequency === 'annually') return date.slice(0, 4) !== previous.slice(0, 4);
+  if (frequency === 'monthly') return date.slice(0, 7) !== previous.slice(0, 7);
+  const quarter = (value: string) => `${value.slice(0, 4)}-${Math.floor((Number(value.slice(5, 7)) - 1) / 3)}`;
+  return quarter(date) !== quarter(previous);
+};
+
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * Run a backtest
+ * @param config - Portfolio, cash flows, rebalancing and costs
+ * @param prices - Adjusted closes per symbol (any order)
+ * @throws Error if the allocation is invalid or the series share fewer than two dates
+ */
+export const runBacktest = (config: BacktestConfig, prices: Record<string, PricePoint[]>): BacktestResult => {
+  const allocationError = validateAllocations(config.allocations);
+  if (allocationError) throw new Error(allocationError);
+  if (!(config.initialAmount > 0)) throw new Error('Initial amount must be positive');
+
+  const missing = config.allocations.filter((allocation) => !prices[allocation.symbol]?.length);
+  if (missing.length > 0) {
+    throw new Error(`No price history for ${missing.map((allocation) => allocation.symbol).join(', ')}`);
+  }
+
+  const series: ComparisonSeries[] = config.allocations.map((allocation) => ({
+    id: allocation.symbol,
+    label: allocation.symbol,
+    kind: 'stock',
+    points: prices[allocation.symbol],
+  }));
+  const aligned = alignSeries(series, config.startDate || '');
+  const endDate = config.endDate || '9999-12-31';
+  const dates = aligned.dates.filter((date) => date <= endDate);
+  if (dates.length < 2) {
+    throw new Error('The selected assets share fewer than two trading dates in this range');
+  }
+
+  const targets = config.allocations.map((allocation) => allocation.weight / 100);
+  const closes = config.allocations.map((allocation) => aligned.closes[allocation.symbol]);
+  const costRate = Math.max(config.tradingCost, 0) / 100;
+  const expenseRate = Math.max(config.expenseRatio, 0) / 100;
+
+  let units = targets.map(() => 0);
+  let tradingCosts = 0;
+  let expenses = 0;
+  let rebalances = 0;
+
+  const valueOn = (day: number) => units.reduce((sum, unit, i) => sum + unit * closes[i][day], 0);
+
+  /**
+   * Bring holdings to the target weights with `cash` added, paying costs on
+   * everything bought or sold
+   */
+  const trade = (day: number, cash: number) => {
+    const current = units.map((unit, i) => unit * closes[i][day]);
+    const gross = current.reduce((sum, value) => sum + value, 0) + cash;
+    const turnover = targets.reduce((sum, target, i) => sum + Math.abs(gross * target - current[i]), 0);
+    const cost = turnover * costRate;
+    tradingCosts += cost;
+    units = targets.map((target, i) => ((gross - cost) * target) / closes[i][day]);
+  };
+
+  /**
+   * Add `cash` at the target weights without selling anything
+   */
+  const invest = (day: number, cash: number) => {
+    const net = cash * (1 - costRate);
+    tradingCosts += cash - net;
+    units = units.map((unit, i) => unit + (net * targets[i]) / closes[i][day]);
+  };
+
+  trade(0, config.initialAmount);
+
+  const flows: Array<{ date: string; amount: number }> = [];
+  const dailyReturns: number[] = [];
+  let contributed = config.initialAmount;
+  let previousValue = valueOn(0);
+  let index = previousValue / config.initialAmount;
+  let peak = 1;
+  const points: BacktestPoint[] = [
+    { date: dates[0], value: previousValue, contributed, index, drawdown: Math.min(index - 1, 0) },
+  ];
+
+  for (let day = 1; day < dates.length; day++) {
+    const date = dates[day];
+    const previousDate = dates[day - 1];
+
+    // Expense ratio accrues by calendar day and is taken out of every holding
+    const expenseFactor = Math.pow(1 - expenseRate, daysBetween(previousDate, date) / 365);
+    const beforeExpenses = valueOn(day);
+    units = units.map((unit) => unit * expenseFactor);
+    expenses += beforeExpenses * (1 - expenseFactor);
+
+    const newMonth = date.slice(0, 7) !== previousDate.slice(0, 7);
+    const cash = newMonth && config.monthlyContribution > 0 ? config.monthlyContribution : 0;
+
+    let rebalance = false;
+    if (config.rebalance.type === 'periodic') {
+      rebalance = startsPeriod(previousDate, date, config.rebalance.frequency);
+    } else if (config.rebalance.type === 'threshold') {
+      const total = valueOn(day);
+      const band = config.rebalance.band / 100;
+      rebalance = total > 0 && units.some((unit, i) => Math.abs((unit * closes[i][day]) / total - targets[i]) > band);
+    }
+
+    if (rebalance) {
+      trade(day, cash);
+      rebalances++;
+    } else if (cash > 0) {
+      invest(day, cash);
+    }
+
+    if (cash > 0) {
+      contributed += cash;
+      flows.push({ date, amount: cash });
+    }
+
+    const value = valueOn(day);
+    const dailyReturn = previousValue > 0 ? (value - cash) / previousValue - 1 : 0;
+    dailyReturns.push(dailyReturn);
+    index *= 1 + dailyReturn;
+    peak = Math.max(peak, index);
+    points.push({ date, value, contributed, index, drawdown: index / peak - 1 });
+    previousValue = value;
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const days = daysBetween(first.date, last.date);
+  const years = days / DAYS_PER_YEAR;
+  const periodsPerYear = years > 0 ? dailyReturns.length / years : 252;
+
+  // Excess returns over the risk-free rate, per period
+  const riskFreePerPeriod = Math.pow(1 + config.riskFreeRate / 100, 1 / periodsPerYear) - 1;
+  const excess = dailyReturns.map((value) => value - riskFreePerPeriod);
+  const meanExcess = excess.reduce((sum, value) => sum + value, 0) / (excess.length || 1);
+  const volatility = standardDeviation(dailyReturns) * Math.sqrt(periodsPerYear);
+  const downside = Math.sqrt(
+    excess.reduce((sum, value) => sum + Math.min(value, 0) ** 2, 0) / (excess.length || 1)
+  ) * Math.sqrt(periodsPerYear);
+
+  let trough = first;
+  points.forEach((point) => {
+    if (point.drawdown < trough.drawdown) trough = point;
+  });
+  const peakPoint = [...points]
+    .filter((point) => point.date <= trough.date)
+    .reduce((best, point) => (point.index >= best.index ? point : best), first);
+
+  const totalReturn = last.index - 1;
+
+  return {
+    points,
+    yearlyReturns: calendarYearReturns(points),
+    metrics: {
+      startDate: first.date,
+      endDate: last.date,
+      years,
+      tradingDays: points.length,
+      finalValue: last.value,
+      totalContributed: contributed,
+      totalReturn,
+      cagr: annualizeReturn(totalReturn, days),
+      moneyWeightedReturn: moneyWeightedReturn({
+        startDate: first.date,
+        endDate: last.date,
+        startValue: config.initialAmount,
+        endValue: last.value,
+        flows,
+      }),
+      volatility,
+      sharpeRatio: volatility > 0 ? (meanExcess * periodsPerYear) / volatility : null,
+      sortinoRatio: downside > 0 ? (meanExcess * periodsPerYear) / downside : null,
+      maxDrawdown: trough.drawdown,
+      maxDrawdownPeak: peakPoint.date,
+      maxDrawdownTrough: trough.date,
+      rebalances,
+      tradingCosts,
+      expenses,
+    },
+  };
+};
+
+/**
+ * Time-weighted return of each calendar year in the backtest
+ */
+export const calendarYearReturns = (points: BacktestPoint[]): YearlyReturn[] => {
+  if (points.length < 2) return [];
+
+  const results: YearlyReturn[] = [];
+  let startIndex = points[0].index;
+  let startsOnFirstDay = points[0].date.slice(5) <= '01-05';
+
+  for (let i = 1; i < points.length; i++) {
+    const year = Number(points[i].date.slice(0, 4));
+    const isYearEnd = i === points.length - 1 || points[i + 1].date.slice(0, 4) !== points[i].date.slice(0, 4);
+    if (!isYearEnd) continue;
+
+    results.push({
+      year,
+      return: points[i].index / startIndex - 1,
+      partial: !startsOnFirstDay || (i === points.length - 1 && points[i].date.slice(5) < '12-24'),
+    });
+    startIndex = points[i].index;
+    startsOnFirstDay = true;
+  }
+  return results;
+};
+
+/**
+ * Rolling returns over a trailing window, one point per day once the window
+ * is filled
+ * @param months - Window length in months; returns are annualized above 12
+ */
+export const rollingReturns = (points: BacktestPoint[], months: number): RollingReturnPoint[] => {
+  const results: RollingReturnPoint[] = [];
+  let start = 0;
+
+  points.forEach((point) => {
+    const windowStart = new Date(`${point.date}T00:00:00Z`);
+    windowStart.setUTCMonth(windowStart.getUTCMonth() - months);
+    const from = windowStart.toISOString().split('T')[0];
+    if (from < points[0].date) return;
+
+    // Last point on or before the window start
+    while (start + 1 < points.length && points[start + 1].date <= from) start++;
+
+    const total = point.index / points[start].index - 1;
+    results.push({
+      date: point.date,
+      return: months > 12 ? annualizeReturn(total, daysBetween(points[start].date, point.date)) : total,
+    });
+  });
+
+  return results;
+};
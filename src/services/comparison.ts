@@ -0,0 +1,180 @@
+/**
+ * Multi-symbol Comparison
+ * Aligns price histories from different sources (stocks, crypto) on common
+ * dates, rebases them to 100 at a start date and computes comparison
+ * statistics: daily-return correlation and relative performance.
+ */
+
+export type ComparisonAssetKind = 'stock' | 'crypto';
+
+export interface PricePoint {
+  date: string; // 'YYYY-MM-DD'
+  close: number;
+}
+
+export interface ComparisonSeries {
+  id: string;
+  label: string;
+  kind: ComparisonAssetKind;
+  points: PricePoint[];
+}
+
+// One row per common date: `date` plus the rebased value of every series, keyed by series ID
+export type ComparisonRow = { date: string } & { [seriesId: string]: number | string };
+
+export interface AlignedComparison {
+  dates: string[];
+  closes: Record<string, number[]>; // Raw closes per series on the common dates
+  rows: ComparisonRow[];
+}
+
+export interface PerformanceStats {
+  id: string;
+  label: string;
+  startPrice: number;
+  endPrice: number;
+  totalReturn: number; // Percent
+  annualizedReturn: number; // Percent
+  annualizedVolatility: number; // Percent
+  maxDrawdown: number; // Percent, negative
+  relativeToBenchmark: number; // Percentage points vs the first series
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Align series on the dates they all share, from `startDate` onwards,
+ * and rebase every series to 100 on the first common date.
+ * Stocks only trade on weekdays, so mixing in crypto keeps weekdays only.
+ * @param series - Series to compare
+ * @param startDate - First date to include ('YYYY-MM-DD')
+ */
+export const alignSeries = (series: ComparisonSeries[], startDate: string): AlignedComparison => {
+  if (series.length === 0) {
+    return { dates: [], closes: {}, rows: [] };
+  }
+
+  const lookups = series.map((item) => new Map(item.points.map((point) => [point.date, point.close])));
+  const dates = Array.from(lookups[0].keys())
+    .filter((date) => date >= startDate && lookups.every((lookup) => (lookup.get(date) ?? 0) > 0))
+    .sort((a, b) => a.localeCompare(b));
+
+  const closes: Record<string, number[]> = {};
+  series.forEach((item, index) => {
+    closes[item.id] = dates.map((date) => lookups[index].get(date) as number);
+  });
+
+  const rows = dates.map((date, dateIndex) => {
+    const row: ComparisonRow = { date };
+    series.forEach((item) => {
+      const values = closes[item.id];
+      row[item.id] = (values[dateIndex] / values[0]) * 100;
+    });
+    return row;
+  });
+
+  return { dates, closes, rows };
+};
+
+/**
+ * Simple period-over-period returns
+ */
+export const periodReturns = (values: number[]): number[] =>
+  values.slice(1).map((value, index) => value / values[index] - 1);
+
+/**
+ * Pearson correlation of two equally long samples (NaN if either is constant)
+ */
+export const correlation = (a: number[], b: number[]): number => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return NaN;
+
+  const meanA = a.slice(0, n).reduce((sum, value) => sum + value, 0) / n;
+  const meanB = b.slice(0, n).reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+/**
+ * Correlation matrix of period returns, indexed [row][column] by series ID
+ */
+export const correlationMatrix = (aligned: AlignedComparison): Record<string, Record<string, number>> => {
+  const ids = Object.keys(aligned.closes);
+  const returns: Record<string, number[]> = {};
+  ids.forEach((id) => {
+    returns[id] = periodReturns(aligned.closes[id]);
+  });
+
+  const matrix: Record<string, Record<string, number>> = {};
+  ids.forEach((rowId) => {
+    matrix[rowId] = {};
+    ids.forEach((columnId) => {
+      matrix[rowId][columnId] = rowId === columnId ? 1 : correlation(returns[rowId], returns[columnId]);
+    });
+  });
+  return matrix;
+};
+
+/**
+ * Largest peak-to-trough decline, in percent (negative or zero)
+ */
+export const maxDrawdown = (values: number[]): number => {
+  let peak = -Infinity;
+  let worst = 0;
+  values.forEach((value) => {
+    peak = Math.max(peak, value);
+    worst = Math.min(worst, value / peak - 1);
+  });
+  return worst * 100;
+};
+
+/**
+ * Relative performance of every series over the aligned dates.
+ * Annualization uses the observed number of periods per calendar year,
+ * so it works for weekday-only and 7-day series alike.
+ * @param series - Series in display order; the first one is the benchmark
+ * @param aligned - Output of alignSeries
+ */
+export const performanceStats = (series: ComparisonSeries[], aligned: AlignedComparison): PerformanceStats[] => {
+  const { dates, closes } = aligned;
+  if (dates.length < 2) return [];
+
+  const years = (new Date(dates[dates.length - 1]).getTime() - new Date(dates[0]).getTime()) / (365.25 * DAY_MS);
+  const periodsPerYear = years > 0 ? (dates.length - 1) / years : 252;
+
+  const stats = series.map((item) => {
+    const values = closes[item.id];
+    const startPrice = values[0];
+    const endPrice = values[values.length - 1];
+    const growth = endPrice / startPrice;
+    const returns = periodReturns(values);
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(returns.length - 1, 1);
+
+    return {
+      id: item.id,
+      label: item.label,
+      startPrice,
+      endPrice,
+      totalReturn: (growth - 1) * 100,
+      annualizedReturn: years > 0 ? (growth ** (1 / years) - 1) * 100 : 0,
+      annualizedVolatility: Math.sqrt(variance * periodsPerYear) * 100,
+      maxDrawdown: maxDrawdown(values),
+      relativeToBenchmark: 0,
+    };
+  });
+
+  const benchmark = stats[0].totalReturn;
+  return stats.map((item) => ({ ...item, relativeToBenchmark: item.totalReturn - benchmark }));
+};
@@ -6,7 +6,8 @@
  * Free tier: No API key required for public endpoints
  * Rate limit: 10-50 calls/minute (varies by endpoint)
  */
-import apiClient from './api';
+import { cachedGet, getErrorMessage } from './api';
+import { RateLimitedError } from './rateLimiter';
 
 const COINGECKO_BASE_URL = 'https://api.coingecko.com/api/v3';
 
@@ -36,6 +37,18 @@ export interface Cryptocurrency {
   atl_change_percentage: number;
   atl_date: string;
   last_updated: string;
+  sparkline_in_7d?: { price: number[] }; // Hourly prices, only when requested with `sparkline: true`
+}
+
+export interface CryptoPricePoint {
+  date: string; // 'YYYY-MM-DD' (UTC)
+  price: number;
+  volume: number;
+}
+
+interface CoinGeckoMarketChartResponse {
+  prices?: Array<[number, number]>;
+  total_volumes?: Array<[number, number]>;
 }
 
 /**
@@ -44,23 +57,30 @@ export interface Cryptocurrency {
  */
 export const fetchTopCryptocurrencies = async (limit: number = 10): Promise<Cryptocurrency[]> => {
   try {
-    const response = await apiClient.get(`${COINGECKO_BASE_URL}/coins/markets`, {
-      params: {
-        vs_currency: 'usd',
-        order: 'market_cap_desc',
-        per_page: limit,
-        page: 1,
-        sparkline: false,
-        price_change_percentage: '24h',
+    const data = await cachedGet<Cryptocurrency[]>(
+      `${COINGECKO_BASE_URL}/coins/markets`,
+      {
+        params: {
+          vs_currency: 'usd',
+          order: 'market_cap_desc',
+          per_page: limit,
+          page: 1,
+          sparkline: false,
+          price_change_percentage: '24h',
+        },
       },
-    });
+      { isCacheable: Array.isArray }
+    );
 
-    if (!Array.isArray(response.data)) {
+    if (!Array.isArray(data)) {
       throw new Error('Invalid response format from API');
     }
 
-    return response.data;
+    return data;
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch cryptocurrency data: ${error.message}`);
   }
 };
@@ -71,22 +91,104 @@ export const fetchTopCryptocurrencies = async (limit: number = 10): Promise<Cryp
  */
 export const fetchCryptocurrency = async (id: string): Promise<Cryptocurrency | null> => {
   try {
-    const response = await apiClient.get(`${COINGECKO_BASE_URL}/coins/markets`, {
-      params: {
-        vs_currency: 'usd',
-        ids: id,
-        sparkline: false,
-        price_change_percentage: '24h',
+    const data = await cachedGet<Cryptocurrency[]>(
+      `${COINGECKO_BASE_URL}/coins/markets`,
+      {
+        params: {
+          vs_currency: 'usd',
+          ids: id,
+          sparkline: false,
+          price_change_percentage: '24h',
+        },
       },
-    });
+      { isCacheable: Array.isArray }
+    );
 
-    if (!Array.isArray(response.data) || response.data.length === 0) {
+    if (!Array.isArray(data) || data.length === 0) {
       return null;
     }
 
-    return response.data[0];
+    return data[0];
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch cryptocurrency: ${error.message}`);
   }
 };
 
+/**
+ * Fetch several cryptocurrencies by ID in one request, with 7-day sparklines
+ * @param ids - Cryptocurrency IDs (e.g., ['bitcoin', 'ethereum'])
+ */
+export const fetchCryptocurrencies = async (ids: string[]): Promise<Cryptocurrency[]> => {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  try {
+    const data = await cachedGet<Cryptocurrency[]>(
+      `${COINGECKO_BASE_URL}/coins/markets`,
+      {
+        params: {
+          vs_currency: 'usd',
+          ids: ids.join(','),
+          sparkline: true,
+          price_change_percentage: '24h',
+        },
+      },
+      { isCacheable: Array.isArray }
+    );
+
+    if (!Array.isArray(data)) {
+      throw new Error('Invalid response format from API');
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch cryptocurrencies: ${getErrorMessage(error)}`);
+  }
+};
+
+/**
+ * Fetch daily USD price history for a cryptocurrency
+ * @param id - Cryptocurrency ID (e.g., 'bitcoin', 'ethereum')
+ * @param days - Number of days of history (CoinGecko returns daily points above 90 days)
+ */
+export const fetchCryptoHistory = async (id: string, days: number = 365): Promise<CryptoPricePoint[]> => {
+  try {
+    const data = await cachedGet<CoinGeckoMarketChartResponse>(
+      `${COINGECKO_BASE_URL}/coins/${id}/market_chart`,
+      {
+        params: {
+          vs_currency: 'usd',
+          days,
+          interval: 'daily',
+        },
+      },
+      { isCacheable: (response) => Array.isArray(response.prices) }
+    );
+
+    if (!Array.isArray(data.prices)) {
+      throw new Error('Invalid response format from API');
+    }
+
+    const volumes = new Map((data.total_volumes || []).map(([timestamp, volume]) => [timestamp, volume]));
+    const byDate = new Map<string, CryptoPricePoint>();
+    data.prices.forEach(([timestamp, price]) => {
+      const date = new Date(timestamp).toISOString().split('T')[0];
+      // The last point is the live price; keep one point per day, latest wins
+      byDate.set(date, { date, price, volume: volumes.get(timestamp) || 0 });
+    });
+
+    return Array.from(byDate.values());
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch cryptocurrency history: ${getErrorMessage(error)}`);
+  }
+};
@@ -5,7 +5,8 @@
  * Using exchangerate.host API (free, no API key required)
  * Alternative: Open Exchange Rates (requires API key)
  */
-import apiClient from './api';
+import { cachedGet } from './api';
+import { RateLimitedError } from './rateLimiter';
 
 const EXCHANGE_RATE_BASE_URL = 'https://api.exchangerate.host';
 
@@ -20,6 +21,19 @@ export interface CurrencyList {
   [key: string]: string;
 }
 
+interface ConvertResponse {
+  success?: boolean;
+  result?: number;
+  date?: string;
+}
+
+interface LatestRatesResponse {
+  success?: boolean;
+  rates?: { [key: string]: number };
+}
+
+const isSuccessful = (data: { success?: boolean }) => Boolean(data && data.success);
+
 /**
  * Fetch exchange rate between two currencies
  * @param from - Source currency code (e.g., 'USD')
@@ -27,14 +41,16 @@ export interface CurrencyList {
  */
 export const fetchExchangeRate = async (from: string, to: string): Promise<ExchangeRate> => {
   try {
-    const response = await apiClient.get(`${EXCHANGE_RATE_BASE_URL}/convert`, {
-      params: {
-        from: from.toUpperCase(),
-        to: to.toUpperCase(),
+    const data = await cachedGet<ConvertResponse>(
+      `${EXCHANGE_RATE_BASE_URL}/convert`,
+      {
+        params: {
+          from: from.toUpperCase(),
+          to: to.toUpperCase(),
+        },
       },
-    });
-
-    const data = response.data;
+      { isCacheable: isSuccessful }
+    );
 
     if (!data.success) {
       throw new Error('Failed to fetch exchange rate');
@@ -43,10 +59,13 @@ export const fetchExchangeRate = async (from: string, to: string): Promise<Excha
     return {
       from: from.toUpperCase(),
       to: to.toUpperCase(),
-      rate: data.result,
+      rate: data.result ?? 0,
       date: data.date || new Date().toISOString(),
     };
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch exchange rate: ${error.message}`);
   }
 };
@@ -57,13 +76,15 @@ export const fetchExchangeRate = async (from: string, to: string): Promise<Excha
  */
 export const fetchLatestRates = async (base: string = 'USD'): Promise<{ [key: string]: number }> => {
   try {
-    const response = await apiClient.get(`${EXCHANGE_RATE_BASE_URL}/latest`, {
-      params: {
-        base: base.toUpperCase(),
+    const data = await cachedGet<LatestRatesResponse>(
+      `${EXCHANGE_RATE_BASE_URL}/latest`,
+      {
+        params: {
+          base: base.toUpperCase(),
+        },
       },
-    });
-
-    const data = response.data;
+      { isCacheable: isSuccessful }
+    );
 
     if (!data.success) {
       throw new Error('Failed to fetch latest rates');
@@ -71,6 +92,9 @@ export const fetchLatestRates = async (base: string = 'USD'): Promise<{ [key: st
 
     return data.rates || {};
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch latest rates: ${error.message}`);
   }
 };
@@ -0,0 +1,346 @@
+/**
+ * Retirement Decumulation
+ * Simulates the drawdown phase from retirement to a planning age: yearly
+ * withdrawals under a chosen strategy, Social Security and pension income,
+ * and random market returns, to estimate how long the portfolio lasts and
+ * the probability of running out (ruin).
+ *
+ * Withdrawal strategies:
+ * - 'fourPercent': spending of a share of the starting balance, raised with inflation every year
+ * - 'fixedDollar': spending of a set amount in today's dollars, raised with inflation
+ * - 'guardrails': starts like the 4% rule; skips the inflation raise after a
+ *   losing year, cuts spending when the current rate drifts above the upper
+ *   guardrail and raises it below the lower one (Guyton-Klinger style)
+ * - 'rmd': the balance divided by the IRS Uniform Lifetime Table divisor for the age
+ * - 'bucket': 4%-rule spending drawn from a cash bucket, refilled from a bond
+ *   bucket, both refilled from the growth bucket after winning years
+ *
+ * For the 4% rule, fixed dollar and bucket strategies the amount is the yearly
+ * spending need: Social Security and pensions cover part of it and the
+ * portfolio funds the rest. Guardrails and RMD set the portfolio withdrawal
+ * itself, with other income on top.
+ *
+ * Conventions:
+ * - Annual steps: withdrawals at the start of each year, growth over the year
+ * - Amounts in results are nominal; "today's dollars" inputs are inflated
+ *   from now, so `yearsUntilRetirement` of inflation applies before the first withdrawal
+ * - Rates are decimals (0.04 = 4%) unless named as percent
+ * - The same inputs and seed always produce the same result
+ */
+import { createRandom } from './random';
+import { percentile } from './monteCarlo';
+
+export type WithdrawalStrategy = 'fourPercent' | 'fixedDollar' | 'guardrails' | 'rmd' | 'bucket';
+
+export interface IncomeStream {
+  id: string;
+  name: string;
+  annualAmount: number; // Today's dollars
+  startAge: number;
+  inflationAdjusted: boolean; // Otherwise fixed in nominal terms once payments start
+}
+
+export interface ReturnAssumption {
+  annualReturn: number; // Expected arithmetic return, decimal
+  volatility: number; // Decimal
+}
+
+export interface DecumulationInputs {
+  startingBalance: number; // Nominal, at retirement
+  retirementAge: number;
+  planningAge: number; // Life expectancy: the plan has to last through this age
+  yearsUntilRetirement: number;
+  strategy: WithdrawalStrategy;
+  withdrawalRate: number; // Percent of the starting balance ('fourPercent', 'guardrails', 'bucket')
+  annualWithdrawal: number; // Today's dollars ('fixedDollar')
+  guardrailBand: number; // Percent: how far the current rate may drift, and the size of each cut or raise
+  bucketYears: { cash: number; bonds: number }; // Years of spending held in each bucket
+  incomeStreams: IncomeStream[];
+  portfolio: ReturnAssumption; // Whole portfolio, or the growth bucket for 'bucket'
+  bonds: ReturnAssumption; // Bond bucket
+  cashReturn: number; // Cash bucket, decimal
+  inflationRate: number; // Decimal
+  annualCost: number; // Fees and tax drag taken out of returns each year, decimal
+  paths: number;
+  seed: number;
+}
+
+export interface DecumulationYear {
+  age: number;
+  yearsFromNow: number;
+  balance: { p10: number; p50: number; p90: number }; // Start of year, before the withdrawal
+  withdrawal: number; // Median portfolio withdrawal
+  otherIncome: number; // Social Security and pensions, the same on every path
+  solvent: number; // Share of paths still funding the full withdrawal this year
+}
+
+export interface DecumulationResult {
+  years: DecumulationYear[];
+  probabilityOfRuin: number; // Share of paths that could not fund a withdrawal before the planning age
+  moneyLastsTo: { p10: number; p50: number }; // Age through which withdrawals are funded, capped at the planning age
+  finalBalance: { p10: number; p50: number; p90: number }; // After the planning age
+  firstYearWithdrawal: number; // Median, nominal
+  seed: number;
+}
+
+export const WITHDRAWAL_STRATEGY_LABELS: Record<WithdrawalStrategy, string> = {
+  fourPercent: '4% rule (inflation-adjusted)',
+  fixedDollar: 'Fixed dollar amount',
+  guardrails: 'Guardrails',
+  rmd: 'RMD-based',
+  bucket: 'Bucket strategy',
+};
+
+// The parts of the inputs a user chooses; the rest comes from the accumulation projection
+export type WithdrawalPlan = Pick<
+  DecumulationInputs,
+  'planningAge' | 'strategy' | 'withdrawalRate' | 'annualWithdrawal' | 'guardrailBand' | 'bucketYears' | 'incomeStreams'
+>;
+
+export const DEFAULT_WITHDRAWAL_PLAN: WithdrawalPlan = {
+  planningAge: 95,
+  strategy: 'fourPercent',
+  withdrawalRate: 4,
+  annualWithdrawal: 40000,
+  guardrailBand: 20,
+  bucketYears: { cash: 2, bonds: 5 },
+  incomeStreams: [
+    { id: 'social-security', name: 'Social Security', annualAmount: 24000, startAge: 67, inflationAdjusted: true },
+  ],
+};
+
+/**
+ * New income stream with editable defaults
+ */
+export const createIncomeStream = (): IncomeStream => ({
+  id: `income-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: 'Pension',
+  annualAmount: 12000,
+  startAge: 65,
+  inflationAdjusted: false,
+});
+
+// IRS Uniform Lifetime Table (2022), distribution period by age
+const UNIFORM_LIFETIME_TABLE: Record<number, number> = {
+  72: 27.4, 73: 26.5, 74: 25.5, 75: 24.6, 76: 23.7, 77: 22.9, 78: 22.0, 79: 21.1,
+  80: 20.2, 81: 19.4, 82: 18.5, 83: 17.7, 84: 16.8, 85: 16.0, 86: 15.2, 87: 14.4,
+  88: 13.7, 89: 12.9, 90: 12.2, 91: 11.5, 92: 10.8, 93: 10.1, 94: 9.5, 95: 8.9,
+  96: 8.4, 97: 7.8, 98: 7.3, 99: 6.8, 100: 6.4, 101: 6.0, 102: 5.6, 103: 5.2,
+  104: 4.9, 105: 4.6, 106: 4.3, 107: 4.1, 108: 3.9, 109: 3.7, 110: 3.5, 111: 3.4,
+  112: 3.3, 113: 3.1, 114: 3.0, 115: 2.9, 116: 2.8, 117: 2.7, 118: 2.5, 119: 2.3,
+};
+
+const FIRST_TABLE_AGE = 72;
+const LAST_TABLE_DIVISOR = 2.0; // Age 120 and over
+
+// Below this a balance counts as spent
+const DEPLETED = 1;
+
+// Strategies whose planned amount is a spending need that other income offsets
+const INCOME_OFFSET_STRATEGIES: WithdrawalStrategy[] = ['fourPercent', 'fixedDollar', 'bucket'];
+
+/**
+ * RMD divisor for an age. Before the table starts the divisor grows by one
+ * per year younger, roughly tracking remaining life expectancy.
+ */
+export const rmdDivisor = (age: number): number => {
+  const whole = Math.floor(age);
+  if (whole < FIRST_TABLE_AGE) return UNIFORM_LIFETIME_TABLE[FIRST_TABLE_AGE] + (FIRST_TABLE_AGE - whole);
+  return UNIFORM_LIFETIME_TABLE[whole] ?? LAST_TABLE_DIVISOR;
+};
+
+/**
+ * Social Security and pension income at an age, nominal
+ */
+export const incomeAtAge = (
+  streams: IncomeStream[],
+  age: number,
+  yearsFromNow: number,
+  inflationRate: number
+): number =>
+  streams.reduce((total, stream) => {
+    if (age < stream.startAge) return total;
+    // Fixed pensions stop growing once payments start
+    const inflationYears = stream.inflationAdjusted
+      ? yearsFromNow
+      : Math.max(yearsFromNow - (age - stream.startAge), 0);
+    return total + stream.annualAmount * Math.pow(1 + inflationRate, inflationYears);
+  }, 0);
+
+/**
+ * Lognormal yearly return sampler with the given arithmetic mean and volatility
+ */
+const createAnnualSampler = (assumption: ReturnAssumption, normal: () => number) => {
+  const sigma = Math.sqrt(Math.log(1 + (assumption.volatility / (1 + assumption.annualReturn)) ** 2));
+  const mu = Math.log(1 + assumption.annualReturn) - (sigma * sigma) / 2;
+  return () => Math.exp(mu + sigma * normal()) - 1;
+};
+
+/**
+ * Run the drawdown simulation
+ * @throws Error if the inputs are invalid
+ */
+export const runDecumulation = (inputs: DecumulationInputs): DecumulationResult => {
+  const years = Math.floor(inputs.planningAge - inputs.retirementAge) + 1;
+  const paths = Math.floor(inputs.paths);
+  if (years < 1) throw new Error('Life expectancy must be at or after the retirement age');
+  if (paths < 1) throw new Error('Simulate at least one path');
+  if (!(inputs.startingBalance >= 0)) throw new Error('Starting balance cannot be negative');
+
+  const random = createRandom(inputs.seed);
+  const samplePortfolio = createAnnualSampler(inputs.portfolio, random.normal);
+  const sampleBonds = createAnnualSampler(inputs.bonds, random.normal);
+  const costFactor = 1 - Math.min(Math.max(inputs.annualCost, 0), 1);
+  const inflation = inputs.inflationRate;
+  const initialRate = Math.max(inputs.withdrawalRate, 0) / 100;
+  const band = Math.max(inputs.guardrailBand, 0) / 100;
+  const offsetsIncome = INCOME_OFFSET_STRATEGIES.includes(inputs.strategy);
+
+  const balances = new Float64Array(paths * years);
+  const withdrawals = new Float64Array(paths * years);
+  const finals = new Float64Array(paths);
+  const lastsTo = new Float64Array(paths);
+  const solventCounts = new Array(years).fill(0);
+  let ruined = 0;
+
+  const otherIncome = Array.from({ length: years }, (_, year) =>
+    incomeAtAge(
+      inputs.incomeStreams,
+      inputs.retirementAge + year,
+      inputs.yearsUntilRetirement + year,
+      inflation
+    )
+  );
+  // Portfolio share of a year's spending
+  const fromPortfolio = (amount: number, year: number) =>
+    offsetsIncome ? Math.max(amount - (otherIncome[year] ?? 0), 0) : amount;
+
+  for (let path = 0; path < paths; path++) {
+    let balance = inputs.startingBalance;
+    let spending = 0;
+    let previousReturn = 0;
+    let depletedAt: number | null = null;
+
+    // Bucket strategy holdings
+    let cash = 0;
+    let bonds = 0;
+    let growth = 0;
+
+    for (let year = 0; year < years; year++) {
+      const age = inputs.retirementAge + year;
+      const offset = path * years + year;
+      balances[offset] = balance;
+
+      // Planned withdrawal for the year
+      if (year === 0) {
+        spending = inputs.strategy === 'fixedDollar'
+          ? inputs.annualWithdrawal * Math.pow(1 + inflation, inputs.yearsUntilRetirement)
+          : balance * initialRate;
+      } else if (inputs.strategy === 'guardrails') {
+        if (previousReturn >= 0) spending *= 1 + inflation;
+        const currentRate = balance > 0 ? spending / balance : Infinity;
+        if (currentRate > initialRate * (1 + band)) spending *= 1 - band;
+        else if (currentRate < initialRate * (1 - band)) spending *= 1 + band;
+      } else {
+        spending *= 1 + inflation;
+      }
+      const planned = inputs.strategy === 'rmd' ? balance / rmdDivisor(age) : fromPortfolio(spending, year);
+
+      if (inputs.strategy === 'bucket' && year === 0) {
+        cash = Math.min(balance, planned * inputs.bucketYears.cash);
+        bonds = Math.min(balance - cash, planned * inputs.bucketYears.bonds);
+        growth = balance - cash - bonds;
+      }
+
+      const withdrawal = Math.min(planned, balance);
+      withdrawals[offset] = withdrawal;
+      if (depletedAt === null && (balance < DEPLETED || withdrawal < planned - DEPLETED)) depletedAt = age;
+      if (depletedAt === null) solventCounts[year]++;
+
+      if (inputs.strategy === 'bucket') {
+        // Spend cash first, then bonds, then growth
+        let remaining = withdrawal;
+        const fromCash = Math.min(cash, remaining);
+        cash -= fromCash;
+        remaining -= fromCash;
+        const fromBonds = Math.min(bonds, remaining);
+        bonds -= fromBonds;
+        remaining -= fromBonds;
+        growth = Math.max(growth - remaining, 0);
+
+        const growthReturn = samplePortfolio();
+        cash *= (1 + inputs.cashReturn) * costFactor;
+        bonds *= (1 + sampleBonds()) * costFactor;
+        growth *= (1 + growthReturn) * costFactor;
+        previousReturn = growthReturn;
+
+        // Refill next year's buckets: from growth after a winning year, otherwise cash from bonds
+        const nextSpending = fromPortfolio(spending * (1 + inflation), year + 1);
+        const cashGap = Math.max(nextSpending * inputs.bucketYears.cash - cash, 0);
+        if (growthReturn > 0) {
+          const fromGrowth = Math.min(cashGap, growth);
+          growth -= fromGrowth;
+          cash += fromGrowth;
+          const bondGap = Math.max(nextSpending * inputs.bucketYears.bonds - bonds, 0);
+          const toBonds = Math.min(bondGap, growth);
+          growth -= toBonds;
+          bonds += toBonds;
+        } else {
+          const fromBonds = Math.min(cashGap, bonds);
+          bonds -= fromBonds;
+          cash += fromBonds;
+        }
+        balance = cash + bonds + growth;
+      } else {
+        const portfolioReturn = samplePortfolio();
+        balance = (balance - withdrawal) * (1 + portfolioReturn) * costFactor;
+        previousReturn = portfolioReturn;
+      }
+    }
+
+    finals[path] = balance;
+    if (depletedAt !== null) ruined++;
+    lastsTo[path] = depletedAt !== null ? Math.max(depletedAt - 1, inputs.retirementAge) : inputs.planningAge;
+  }
+
+  const column = new Float64Array(paths);
+  const result: DecumulationYear[] = [];
+  for (let year = 0; year < years; year++) {
+    for (let path = 0; path < paths; path++) column[path] = balances[path * years + year];
+    const sortedBalances = Float64Array.from(column).sort();
+    for (let path = 0; path < paths; path++) column[path] = withdrawals[path * years + year];
+    const sortedWithdrawals = Float64Array.from(column).sort();
+
+    result.push({
+      age: inputs.retirementAge + year,
+      yearsFromNow: inputs.yearsUntilRetirement + year,
+      balance: {
+        p10: percentile(sortedBalances, 10),
+        p50: percentile(sortedBalances, 50),
+        p90: percentile(sortedBalances, 90),
+      },
+      withdrawal: percentile(sortedWithdrawals, 50),
+      otherIncome: otherIncome[year],
+      solvent: solventCounts[year] / paths,
+    });
+  }
+
+  const sortedFinals = Float64Array.from(finals).sort();
+  const sortedLastsTo = Float64Array.from(lastsTo).sort();
+
+  return {
+    years: result,
+    probabilityOfRuin: ruined / paths,
+    moneyLastsTo: {
+      p10: Math.floor(percentile(sortedLastsTo, 10)),
+      p50: Math.floor(percentile(sortedLastsTo, 50)),
+    },
+    finalBalance: {
+      p10: percentile(sortedFinals, 10),
+      p50: percentile(sortedFinals, 50),
+      p90: percentile(sortedFinals, 90),
+    },
+    firstYearWithdrawal: result[0].withdrawal,
+    seed: inputs.seed,
+  };
+};
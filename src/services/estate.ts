@@ -0,0 +1,358 @@
+/**
+ * Estate Planning
+ * Projects the estate at death and estimates federal estate tax and what
+ * reaches the heirs under common planning strategies.
+ *
+ * Model:
+ * - Today's dollars: assets grow at real rates and the exclusions, indexed to
+ *   inflation, stay at the tax year's amounts
+ * - Assets of kind 'portfolio' split the projected portfolio at death in
+ *   proportion to their values today (equally when none has a value)
+ * - Married couples: the plan holder dies first; joint property is half in
+ *   that estate and passes to the spouse; the spouse outlives them by
+ *   `survivorYears` and leaves everything to the heirs
+ * - Bequests to the spouse (marital deduction) and to charity are deductible;
+ *   estate tax is paid from the heirs' share
+ * - Tax is the tentative tax on the taxable estate plus adjusted taxable gifts,
+ *   less the credit on the exclusion (plus the deceased spouse's unused
+ *   exclusion when portability is elected)
+ * - Everything the heirs receive is grown to the survivor's death so strategies
+ *   compare at the same date
+ * - Not modeled: state estate or inheritance tax, income tax on inherited
+ *   retirement accounts, generation-skipping transfer tax
+ */
+import { getTaxRules, taxOnBrackets, TaxBracket } from './taxRules';
+
+export type EstateAssetKind = 'portfolio' | 'realEstate' | 'business' | 'lifeInsurance' | 'cash' | 'other';
+
+export type EstateOwnership = 'individual' | 'joint' | 'spouse' | 'revocableTrust' | 'irrevocableTrust';
+
+export type EstateBeneficiary = 'spouse' | 'heirs' | 'charity';
+
+export interface EstateAsset {
+  id: string;
+  name: string;
+  kind: EstateAssetKind;
+  ownership: EstateOwnership;
+  beneficiary: EstateBeneficiary;
+  value: number; // Today's dollars; death benefit for life insurance; for portfolio assets only sets their share
+  growthRate: number; // Real, percent per year
+}
+
+export interface EstatePlan {
+  married: boolean;
+  assets: EstateAsset[];
+  donees: number; // Children and grandchildren receiving annual gifts
+  annualGiftPerDonee: number; // Per donor
+  survivorYears: number; // Years the spouse outlives the plan holder
+}
+
+export type EstateStrategyId = 'none' | 'portability' | 'bypassTrust' | 'gifting' | 'ilit' | 'combined';
+
+export interface EstateStrategy {
+  id: EstateStrategyId;
+  label: string;
+  description: string;
+  portability: boolean;
+  bypassTrust: boolean;
+  gifting: boolean;
+  ilit: boolean;
+}
+
+export interface EstateInputs {
+  plan: EstatePlan;
+  taxYear: number;
+  yearsUntilDeath: number;
+  projectedPortfolio: number; // At death before gifts, today's dollars
+  portfolioReturn: number; // Real, decimal; growth of gifts, trusts and the survivor's estate
+}
+
+export interface EstateOutcome {
+  strategy: EstateStrategy;
+  grossEstate: number; // At the first death
+  taxableEstate: number;
+  firstDeathTax: number;
+  survivorEstate: number; // Zero if single
+  secondDeathTax: number;
+  totalTax: number;
+  portedExclusion: number; // Unused exclusion carried to the spouse
+  gifts: number; // Given during life, grown
+  inTrust: number; // Bypass and irrevocable trusts, grown
+  toCharity: number;
+  netToHeirs: number;
+}
+
+export interface EstateAnalysis {
+  outcomes: EstateOutcome[]; // Applicable strategies, in ESTATE_STRATEGIES order
+  best: EstateOutcome;
+  exclusion: number;
+  annualGiftExclusion: number;
+}
+
+export const ESTATE_ASSET_KIND_LABELS: Record<EstateAssetKind, string> = {
+  portfolio: 'Investment portfolio',
+  realEstate: 'Real estate',
+  business: 'Business interest',
+  lifeInsurance: 'Life insurance',
+  cash: 'Cash',
+  other: 'Other',
+};
+
+export const ESTATE_OWNERSHIP_LABELS: Record<EstateOwnership, string> = {
+  individual: 'Individual',
+  joint: 'Joint with spouse',
+  spouse: 'Spouse',
+  revocableTrust: 'Revocable trust',
+  irrevocableTrust: 'Irrevocable trust',
+};
+
+export const ESTATE_BENEFICIARY_LABELS: Record<EstateBeneficiary, string> = {
+  spouse: 'Spouse',
+  heirs: 'Children / heirs',
+  charity: 'Charity',
+};
+
+// Real growth suggested for new assets, percent
+export const DEFAULT_GROWTH_RATES: Record<EstateAssetKind, number> = {
+  portfolio: 0,
+  realEstate: 1,
+  business: 2,
+  lifeInsurance: 0,
+  cash: 0,
+  other: 0,
+};
+
+export const ESTATE_STRATEGIES: EstateStrategy[] = [
+  {
+    id: 'none',
+    label: 'No planning',
+    description: 'Assets pass as titled; no portability election',
+    portability: false, bypassTrust: false, gifting: false, ilit: false,
+  },
+  {
+    id: 'portability',
+    label: 'Portability election',
+    description: 'File an estate tax return at the first death so the spouse keeps the unused exclusion',
+    portability: true, bypassTrust: false, gifting: false, ilit: false,
+  },
+  {
+    id: 'bypassTrust',
+    label: 'Credit shelter trust',
+    description: 'Up to the unused exclusion goes into a trust for the spouse that stays out of their estate, growth included',
+    portability: true, bypassTrust: true, gifting: false, ilit: false,
+  },
+  {
+    id: 'gifting',
+    label: 'Annual gifting',
+    description: 'Give the annual amount to each donee every year, moving it and its growth out of the estate',
+    portability: true, bypassTrust: false, gifting: true, ilit: false,
+  },
+  {
+    id: 'ilit',
+    label: 'Irrevocable life insurance trust',
+    description: 'The trust owns the policies, so the death benefit is not in either estate',
+    portability: true, bypassTrust: false, gifting: false, ilit: true,
+  },
+  {
+    id: 'combined',
+    label: 'All of the above',
+    description: 'Gifting, an insurance trust and a credit shelter trust together',
+    portability: true, bypassTrust: true, gifting: true, ilit: true,
+  },
+];
+
+// Unified transfer tax rate schedule, IRC §2001(c)
+const TRANSFER_TAX_BRACKETS: TaxBracket[] = [
+  { rate: 0.18, upTo: 10000 },
+  { rate: 0.2, upTo: 20000 },
+  { rate: 0.22, upTo: 40000 },
+  { rate: 0.24, upTo: 60000 },
+  { rate: 0.26, upTo: 80000 },
+  { rate: 0.28, upTo: 100000 },
+  { rate: 0.3, upTo: 150000 },
+  { rate: 0.32, upTo: 250000 },
+  { rate: 0.34, upTo: 500000 },
+  { rate: 0.37, upTo: 750000 },
+  { rate: 0.39, upTo: 1000000 },
+  { rate: 0.4, upTo: null },
+];
+
+const generateId = () => `est-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createEstateAsset = (kind: EstateAssetKind = 'realEstate'): EstateAsset => ({
+  id: generateId(),
+  name: ESTATE_ASSET_KIND_LABELS[kind],
+  kind,
+  ownership: 'individual',
+  beneficiary: 'heirs',
+  value: 0,
+  growthRate: DEFAULT_GROWTH_RATES[kind],
+});
+
+export const createDefaultEstatePlan = (): EstatePlan => ({
+  married: true,
+  assets: [
+    { ...createEstateAsset('portfolio'), beneficiary: 'spouse' },
+    { ...createEstateAsset('realEstate'), name: 'Home', ownership: 'joint', beneficiary: 'spouse', value: 500000 },
+    { ...createEstateAsset('lifeInsurance'), name: 'Term life policy', beneficiary: 'spouse', value: 1000000 },
+  ],
+  donees: 2,
+  annualGiftPerDonee: 19000,
+  survivorYears: 5,
+});
+
+/**
+ * Federal estate tax after the unified credit
+ * @param exclusion - Exclusion available, including any ported from a spouse
+ */
+export const estateTax = (taxableEstate: number, adjustedTaxableGifts: number, exclusion: number): number =>
+  Math.max(
+    taxOnBrackets(Math.max(taxableEstate, 0) + adjustedTaxableGifts, TRANSFER_TAX_BRACKETS) - taxOnBrackets(exclusion, TRANSFER_TAX_BRACKETS),
+    0
+  );
+
+/**
+ * Fraction of the projected portfolio held by each portfolio asset, by asset ID
+ */
+export const portfolioShares = (assets: EstateAsset[]): Record<string, number> => {
+  const portfolios = assets.filter((asset) => asset.kind === 'portfolio');
+  const total = portfolios.reduce((sum, asset) => sum + Math.max(asset.value, 0), 0);
+  return Object.fromEntries(
+    portfolios.map((asset) => [asset.id, total > 0 ? Math.max(asset.value, 0) / total : 1 / portfolios.length])
+  );
+};
+
+// Value of a sum of equal yearly amounts after `years` of growth
+const futureValueOfGifts = (annual: number, rate: number, years: number): number =>
+  rate === 0 ? annual * years : annual * (Math.pow(1 + rate, years) - 1) / rate;
+
+/**
+ * Estate, tax and net to heirs under one strategy
+ * @throws Error if the tax year has no rules
+ */
+export const evaluateEstateStrategy = (inputs: EstateInputs, strategy: EstateStrategy): EstateOutcome => {
+  const { plan } = inputs;
+  const { basicExclusion, annualGiftExclusion } = getTaxRules(inputs.taxYear).estate;
+  const years = Math.max(inputs.yearsUntilDeath, 0);
+  const married = plan.married;
+  const survivorGrowth = married ? Math.pow(1 + inputs.portfolioReturn, Math.max(plan.survivorYears, 0)) : 1;
+
+  // Gifts come out of the portfolio and grow with the heirs instead; split between spouses
+  const donors = married ? 2 : 1;
+  let annualGifts = strategy.gifting ? Math.max(plan.donees, 0) * Math.max(plan.annualGiftPerDonee, 0) * donors : 0;
+  let gifts = futureValueOfGifts(annualGifts, inputs.portfolioReturn, years);
+  const shares = portfolioShares(plan.assets);
+  const portfolioAtDeath = Object.keys(shares).length > 0 ? Math.max(inputs.projectedPortfolio, 0) : 0;
+  if (gifts > portfolioAtDeath) {
+    annualGifts *= portfolioAtDeath / gifts;
+    gifts = portfolioAtDeath;
+  }
+  const giftShare = portfolioAtDeath > 0 ? gifts / portfolioAtDeath : 0;
+  // Each donor's gifts above the annual exclusion use up lifetime exclusion
+  const giftPerDonee = annualGifts > 0 ? annualGifts / (plan.donees * donors) : 0;
+  const taxableGiftsPerDonor = Math.max(giftPerDonee - annualGiftExclusion, 0) * Math.max(plan.donees, 0) * years;
+
+  let gross = 0;
+  let toSpouse = 0;
+  let toHeirs = 0;
+  let toCharity = 0;
+  let inTrust = 0;
+  let spouseOwn = 0;
+
+  plan.assets.forEach((asset) => {
+    const value = asset.kind === 'portfolio'
+      ? portfolioAtDeath * shares[asset.id] * (1 - giftShare)
+      : Math.max(asset.value, 0) * Math.pow(1 + asset.growthRate / 100, years);
+    const ownership: EstateOwnership = strategy.ilit && asset.kind === 'lifeInsurance' && asset.ownership !== 'spouse'
+      ? 'irrevocableTrust'
+      : !married && (asset.ownership === 'joint' || asset.ownership === 'spouse') ? 'individual' : asset.ownership;
+
+    if (ownership === 'irrevocableTrust') {
+      inTrust += value;
+      return;
+    }
+    if (ownership === 'spouse') {
+      spouseOwn += value;
+      return;
+    }
+    if (ownership === 'joint') {
+      // Half is already the spouse's; the decedent's half passes to them by survivorship
+      gross += value / 2;
+      toSpouse += value / 2;
+      spouseOwn += value / 2;
+      return;
+    }
+    gross += value;
+    const beneficiary = !married && asset.beneficiary === 'spouse' ? 'heirs' : asset.beneficiary;
+    if (beneficiary === 'spouse') toSpouse += value;
+    else if (beneficiary === 'charity') toCharity += value;
+    else toHeirs += value;
+  });
+
+  // A credit shelter trust takes what the exclusion still covers from the spouse's share
+  let bypass = 0;
+  if (married && strategy.bypassTrust) {
+    bypass = Math.min(Math.max(basicExclusion - taxableGiftsPerDonor - toHeirs, 0), toSpouse);
+    toSpouse -= bypass;
+  }
+
+  const taxableEstate = gross - toSpouse - toCharity;
+  const firstDeathTax = estateTax(taxableEstate, taxableGiftsPerDonor, basicExclusion);
+  const portedExclusion = married && strategy.portability
+    ? Math.max(basicExclusion - taxableEstate - taxableGiftsPerDonor, 0)
+    : 0;
+
+  const survivorEstate = married ? (spouseOwn + toSpouse) * survivorGrowth : 0;
+  const secondDeathTax = married ? estateTax(survivorEstate, taxableGiftsPerDonor, basicExclusion + portedExclusion) : 0;
+
+  const grownTrusts = (inTrust + bypass) * survivorGrowth;
+  const grownGifts = gifts * survivorGrowth;
+  return {
+    strategy,
+    grossEstate: gross,
+    taxableEstate,
+    firstDeathTax,
+    survivorEstate,
+    secondDeathTax,
+    totalTax: firstDeathTax + secondDeathTax,
+    portedExclusion,
+    gifts: grownGifts,
+    inTrust: grownTrusts,
+    toCharity,
+    netToHeirs: (toHeirs - firstDeathTax) * survivorGrowth + grownTrusts + grownGifts + survivorEstate - secondDeathTax,
+  };
+};
+
+/**
+ * Strategies that change something for this plan
+ */
+export const applicableStrategies = (plan: EstatePlan): EstateStrategy[] => {
+  const canGift = plan.donees > 0 && plan.annualGiftPerDonee > 0;
+  const hasInsurance = plan.assets.some(
+    (asset) => asset.kind === 'lifeInsurance' && asset.value > 0 && asset.ownership !== 'irrevocableTrust' && asset.ownership !== 'spouse'
+  );
+  return ESTATE_STRATEGIES.filter((strategy) => {
+    if (!plan.married && (strategy.id === 'portability' || strategy.id === 'bypassTrust')) return false;
+    if (strategy.id === 'gifting' && !canGift) return false;
+    if (strategy.id === 'ilit' && !hasInsurance) return false;
+    // Only worth listing when it combines at least two of the others
+    if (strategy.id === 'combined') return [plan.married, canGift, hasInsurance].filter(Boolean).length >= 2;
+    return true;
+  });
+};
+
+/**
+ * Compare the applicable strategies; the best leaves the most to the heirs
+ * @throws Error if the tax year has no rules
+ */
+export const analyzeEstate = (inputs: EstateInputs): EstateAnalysis => {
+  const rules = getTaxRules(inputs.taxYear);
+  const outcomes = applicableStrategies(inputs.plan).map((strategy) => evaluateEstateStrategy(inputs, strategy));
+  const best = [...outcomes].sort((a, b) => b.netToHeirs - a.netToHeirs || a.totalTax - b.totalTax)[0];
+  return {
+    outcomes,
+    best,
+    exclusion: rules.estate.basicExclusion,
+    annualGiftExclusion: rules.estate.annualGiftExclusion,
+  };
+};
@@ -5,7 +5,14 @@
  * API Key: Get free API key from https://site.financialmodelingprep.com/developer/docs/
  * Free tier: 250 requests/day
  */
-import apiClient from './api';
+import { cachedGet, getErrorMessage } from './api';
+import { RateLimitedError } from './rateLimiter';
+import {
+  aggregateSeries,
+  StockInterval,
+  StockQuote,
+  StockTimeSeriesData,
+} from './stockApi';
 
 const FMP_API_KEY = import.meta.env.VITE_FMP_API_KEY || 'demo';
 const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
@@ -59,36 +66,104 @@ export interface KeyMetrics {
   profitMargin: number;
 }
 
+interface FmpProfileResponse {
+  symbol: string;
+  companyName: string;
+  currency: string;
+  exchangeShortName: string;
+  industry: string;
+  sector: string;
+  mktCap?: number;
+  description: string;
+  website: string;
+  ceo: string;
+  fullTimeEmployees?: number;
+}
+
+interface FmpKeyMetricsResponse {
+  peRatio?: number;
+  priceToBookRatio?: number;
+  debtToEquity?: number;
+  currentRatio?: number;
+  roe?: number;
+  roa?: number;
+  netProfitMargin?: number;
+}
+
+type FmpStatementResponse = Record<string, string | number>;
+
+interface FmpHistoricalPriceResponse {
+  symbol?: string;
+  historical?: Array<{
+    date: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    adjClose?: number;
+    volume: number;
+  }>;
+}
+
+interface FmpIntradayBarResponse {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface FmpQuoteResponse {
+  symbol: string;
+  price: number;
+  change: number;
+  changesPercentage: number;
+}
+
+/**
+ * FMP returns an error object instead of an array on failure;
+ * empty arrays are not cached so a later retry can pick up new filings
+ */
+const isFmpSuccess = (data: unknown[]) => Array.isArray(data) && data.length > 0;
+
 /**
  * Fetch company profile information
  */
 export const fetchCompanyProfile = async (symbol: string): Promise<CompanyProfile | null> => {
   try {
-    const response = await apiClient.get(`${FMP_BASE_URL}/profile/${symbol.toUpperCase()}`, {
-      params: {
-        apikey: FMP_API_KEY,
+    const data = await cachedGet<FmpProfileResponse[]>(
+      `${FMP_BASE_URL}/profile/${symbol.toUpperCase()}`,
+      {
+        params: {
+          apikey: FMP_API_KEY,
+        },
       },
-    });
+      { isCacheable: isFmpSuccess }
+    );
 
-    if (!response.data || response.data.length === 0) {
+    if (!data || data.length === 0) {
       return null;
     }
 
-    const data = response.data[0];
+    const profile = data[0];
     return {
-      symbol: data.symbol,
-      companyName: data.companyName,
-      currency: data.currency,
-      exchange: data.exchangeShortName,
-      industry: data.industry,
-      sector: data.sector,
-      marketCap: data.mktCap || 0,
-      description: data.description,
-      website: data.website,
-      ceo: data.ceo,
-      employees: data.fullTimeEmployees || 0,
+      symbol: profile.symbol,
+      companyName: profile.companyName,
+      currency: profile.currency,
+      exchange: profile.exchangeShortName,
+      industry: profile.industry,
+      sector: profile.sector,
+      marketCap: profile.mktCap || 0,
+      description: profile.description,
+      website: profile.website,
+      ceo: profile.ceo,
+      employees: profile.fullTimeEmployees || 0,
     };
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch company profile: ${error.message}`);
   }
 };
@@ -98,19 +173,23 @@ export const fetchCompanyProfile = async (symbol: string): Promise<CompanyProfil
  */
 export const fetchIncomeStatement = async (symbol: string): Promise<IncomeStatement[]> => {
   try {
-    const response = await apiClient.get(`${FMP_BASE_URL}/income-statement/${symbol.toUpperCase()}`, {
-      params: {
-        period: 'annual',
-        limit: 5,
-        apikey: FMP_API_KEY,
+    const data = await cachedGet<FmpStatementResponse[]>(
+      `${FMP_BASE_URL}/income-statement/${symbol.toUpperCase()}`,
+      {
+        params: {
+          period: 'annual',
+          limit: 5,
+          apikey: FMP_API_KEY,
+        },
       },
-    });
+      { isCacheable: isFmpSuccess }
+    );
 
-    if (!response.data || response.data.length === 0) {
+    if (!data || data.length === 0) {
       return [];
     }
 
-    return response.data.map((item: any) => ({
+    return data.map((item: any) => ({
       date: item.date,
       revenue: item.revenue || 0,
       grossProfit: item.grossProfit || 0,
@@ -119,6 +198,9 @@ export const fetchIncomeStatement = async (symbol: string): Promise<IncomeStatem
       eps: item.eps || 0,
     }));
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch income statement: ${error.message}`);
   }
 };
@@ -128,19 +210,23 @@ export const fetchIncomeStatement = async (symbol: string): Promise<IncomeStatem
  */
 export const fetchBalanceSheet = async (symbol: string): Promise<BalanceSheet[]> => {
   try {
-    const response = await apiClient.get(`${FMP_BASE_URL}/balance-sheet-statement/${symbol.toUpperCase()}`, {
-      params: {
-        period: 'annual',
-        limit: 5,
-        apikey: FMP_API_KEY,
+    const data = await cachedGet<FmpStatementResponse[]>(
+      `${FMP_BASE_URL}/balance-sheet-statement/${symbol.toUpperCase()}`,
+      {
+        params: {
+          period: 'annual',
+          limit: 5,
+          apikey: FMP_API_KEY,
+        },
       },
-    });
+      { isCacheable: isFmpSuccess }
+    );
 
-    if (!response.data || response.data.length === 0) {
+    if (!data || data.length === 0) {
       return [];
     }
 
-    return response.data.map((item: any) => ({
+    return data.map((item: any) => ({
       date: item.date,
       totalAssets: item.totalAssets || 0,
       totalLiabilities: item.totalLiabilities || 0,
@@ -149,6 +235,9 @@ export const fetchBalanceSheet = async (symbol: string): Promise<BalanceSheet[]>
       totalDebt: item.totalDebt || 0,
     }));
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch balance sheet: ${error.message}`);
   }
 };
@@ -158,25 +247,32 @@ export const fetchBalanceSheet = async (symbol: string): Promise<BalanceSheet[]>
  */
 export const fetchCashFlow = async (symbol: string): Promise<CashFlow[]> => {
   try {
-    const response = await apiClient.get(`${FMP_BASE_URL}/cash-flow-statement/${symbol.toUpperCase()}`, {
-      params: {
-        period: 'annual',
-        limit: 5,
-        apikey: FMP_API_KEY,
+    const data = await cachedGet<FmpStatementResponse[]>(
+      `${FMP_BASE_URL}/cash-flow-statement/${symbol.toUpperCase()}`,
+      {
+        params: {
+          period: 'annual',
+          limit: 5,
+          apikey: FMP_API_KEY,
+        },
       },
-    });
+      { isCacheable: isFmpSuccess }
+    );
 
-    if (!response.data || response.data.length === 0) {
+    if (!data || data.length === 0) {
       return [];
     }
 
-    return response.data.map((item: any) => ({
+    return data.map((item: any) => ({
       date: item.date,
       operatingCashFlow: item.operatingCashFlow || 0,
       capitalExpenditure: item.capitalExpenditure || 0,
       freeCashFlow: item.freeCashFlow || 0,
     }));
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch cash flow: ${error.message}`);
   }
 };
@@ -186,30 +282,173 @@ export const fetchCashFlow = async (symbol: string): Promise<CashFlow[]> => {
  */
 export const fetchKeyMetrics = async (symbol: string): Promise<KeyMetrics | null> => {
   try {
-    const response = await apiClient.get(`${FMP_BASE_URL}/key-metrics/${symbol.toUpperCase()}`, {
-      params: {
-        period: 'annual',
-        limit: 1,
-        apikey: FMP_API_KEY,
+    const data = await cachedGet<FmpKeyMetricsResponse[]>(
+      `${FMP_BASE_URL}/key-metrics/${symbol.toUpperCase()}`,
+      {
+        params: {
+          period: 'annual',
+          limit: 1,
+          apikey: FMP_API_KEY,
+        },
       },
-    });
+      { isCacheable: isFmpSuccess }
+    );
 
-    if (!response.data || response.data.length === 0) {
+    if (!data || data.length === 0) {
       return null;
     }
 
-    const data = response.data[0];
+    const metrics = data[0];
     return {
-      peRatio: data.peRatio || 0,
-      priceToBook: data.priceToBookRatio || 0,
-      debtToEquity: data.debtToEquity || 0,
-      currentRatio: data.currentRatio || 0,
-      returnOnEquity: data.roe || 0,
-      returnOnAssets: data.roa || 0,
-      profitMargin: data.netProfitMargin || 0,
+      peRatio: metrics.peRatio || 0,
+      priceToBook: metrics.priceToBookRatio || 0,
+      debtToEquity: metrics.debtToEquity || 0,
+      currentRatio: metrics.currentRatio || 0,
+      returnOnEquity: metrics.roe || 0,
+      returnOnAssets: metrics.roa || 0,
+      profitMargin: metrics.netProfitMargin || 0,
     };
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch key metrics: ${error.message}`);
   }
 };
 
+
+/**
+ * Fetch daily historical prices
+ * @param symbol - Stock ticker symbol
+ * @param outputsize - 'compact' (last 100 data points) or 'full' (full history)
+ */
+export const fetchHistoricalPrices = async (
+  symbol: string,
+  outputsize: 'compact' | 'full' = 'compact'
+): Promise<StockTimeSeriesData[]> => {
+  try {
+    const data = await cachedGet<FmpHistoricalPriceResponse>(
+      `${FMP_BASE_URL}/historical-price-full/${symbol.toUpperCase()}`,
+      {
+        params: {
+          timeseries: outputsize === 'compact' ? 100 : undefined,
+          apikey: FMP_API_KEY,
+        },
+      },
+      { isCacheable: (response) => Array.isArray(response.historical) && response.historical.length > 0 }
+    );
+
+    if (!data || !Array.isArray(data.historical)) {
+      return [];
+    }
+
+    return data.historical
+      .map((item) => ({
+        date: item.date,
+        open: item.open || 0,
+        high: item.high || 0,
+        low: item.low || 0,
+        close: item.close || 0,
+        volume: item.volume || 0,
+        ...(item.adjClose !== undefined && { adjustedClose: item.adjClose }),
+      }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch historical prices: ${getErrorMessage(error)}`);
+  }
+};
+
+/**
+ * Fetch real-time stock quote
+ * @param symbol - Stock ticker symbol
+ */
+export const fetchQuote = async (symbol: string): Promise<StockQuote | null> => {
+  try {
+    const data = await cachedGet<FmpQuoteResponse[]>(
+      `${FMP_BASE_URL}/quote/${symbol.toUpperCase()}`,
+      {
+        params: {
+          apikey: FMP_API_KEY,
+        },
+      },
+      { isCacheable: isFmpSuccess }
+    );
+
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    const quote = data[0];
+    return {
+      symbol: quote.symbol,
+      price: quote.price || 0,
+      change: quote.change || 0,
+      changePercent: quote.changesPercentage || 0,
+    };
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch quote: ${getErrorMessage(error)}`);
+  }
+};
+
+/**
+ * Fetch an intraday, daily, weekly or monthly price series
+ * FMP has no weekly/monthly endpoint, so those are aggregated from daily bars
+ * @param symbol - Stock ticker symbol
+ * @param interval - Bar interval ('1min' ... '60min', 'daily', 'weekly', 'monthly')
+ * @param outputsize - 'compact' (last 100 bars) or 'full'
+ */
+export const fetchHistoricalSeries = async (
+  symbol: string,
+  interval: StockInterval,
+  outputsize: 'compact' | 'full' = 'compact'
+): Promise<StockTimeSeriesData[]> => {
+  if (interval === 'daily') {
+    return fetchHistoricalPrices(symbol, outputsize);
+  }
+
+  if (interval === 'weekly' || interval === 'monthly') {
+    return aggregateSeries(await fetchHistoricalPrices(symbol, 'full'), interval);
+  }
+
+  try {
+    // FMP names the hourly chart '1hour'
+    const chart = interval === '60min' ? '1hour' : interval;
+    const data = await cachedGet<FmpIntradayBarResponse[]>(
+      `${FMP_BASE_URL}/historical-chart/${chart}/${symbol.toUpperCase()}`,
+      {
+        params: {
+          apikey: FMP_API_KEY,
+        },
+      },
+      { isCacheable: isFmpSuccess }
+    );
+
+    if (!data || data.length === 0) {
+      return [];
+    }
+
+    const bars = data
+      .map((item) => ({
+        date: item.date,
+        open: item.open || 0,
+        high: item.high || 0,
+        low: item.low || 0,
+        close: item.close || 0,
+        volume: item.volume || 0,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    return outputsize === 'compact' ? bars.slice(-100) : bars;
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch ${interval} prices: ${getErrorMessage(error)}`);
+  }
+};
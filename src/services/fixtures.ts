@@ -0,0 +1,145 @@
+/**
+ * Offline Fixture Mode
+ * With VITE_DATA_MODE=fixtures every data service reads recorded JSON
+ * responses from src/fixtures instead of calling the network, so the app can
+ * be demoed and developed fully offline with deterministic data.
+ *
+ * Fixtures keep each provider's raw response format, so the normal parsing
+ * code in the services runs unchanged:
+ * - Alpha Vantage: fixtures/alphaVantage/<FUNCTION>/<SYMBOL>.json
+ *   (intraday: fixtures/alphaVantage/TIME_SERIES_INTRADAY/<SYMBOL>-<interval>.json)
+ * - Financial Modeling Prep: fixtures/fmp/<endpoint>/<SYMBOL>.json
+ * - CoinGecko: fixtures/coinGecko/coins-markets.json (filtered by `ids`, sliced by `per_page`)
+ *   and fixtures/coinGecko/market-chart/<id>.json (trimmed to `days`)
+ * - exchangerate.host: fixtures/exchangeRate/latest-USD.json (`/convert` and
+ *   `/latest` responses are derived from the USD rate table)
+ */
+
+type FixtureModule = { default: unknown };
+
+// Lazy glob: fixtures are split into their own chunks and only loaded in fixture mode
+const fixtureFiles = import.meta.glob<FixtureModule>('../fixtures/**/*.json');
+
+interface RateTable {
+  success: boolean;
+  base: string;
+  date: string;
+  rates: { [key: string]: number };
+}
+
+/**
+ * Whether the app is running against recorded fixtures
+ */
+export const isFixtureMode = (): boolean => import.meta.env.VITE_DATA_MODE === 'fixtures';
+
+/**
+ * Load one fixture file by its path relative to src/fixtures
+ */
+const readFixture = async <T>(path: string): Promise<T> => {
+  const loader = fixtureFiles[`../fixtures/${path}`];
+  if (!loader) {
+    throw new Error(`No fixture recorded for ${path}`);
+  }
+
+  const module = await loader();
+  // Return a copy so callers cannot mutate the shared module object
+  return JSON.parse(JSON.stringify(module.default)) as T;
+};
+
+const loadAlphaVantageFixture = (params: Record<string, unknown>) => {
+  const symbol = String(params.symbol).toUpperCase();
+  const name = params.interval ? `${symbol}-${String(params.interval)}` : symbol;
+  return readFixture(`alphaVantage/${String(params.function)}/${name}.json`);
+};
+
+const loadFmpFixture = (url: string) => {
+  const match = url.match(/financialmodelingprep\.com\/api\/v3\/(.+)\/([^/]+)$/);
+  if (!match) {
+    throw new Error(`No fixture recorded for ${url}`);
+  }
+  return readFixture(`fmp/${match[1]}/${match[2].toUpperCase()}.json`);
+};
+
+interface MarketChart {
+  prices: Array<[number, number]>;
+  total_volumes: Array<[number, number]>;
+}
+
+const loadCoinGeckoFixture = async (url: string, params: Record<string, unknown>) => {
+  const chart = url.match(/\/coins\/([^/]+)\/market_chart$/);
+  if (chart) {
+    const history = await readFixture<MarketChart>(`coinGecko/market-chart/${chart[1]}.json`);
+    const points = (Number(params.days) || history.prices.length) + 1;
+    return { prices: history.prices.slice(-points), total_volumes: history.total_volumes.slice(-points) };
+  }
+
+  const coins = await readFixture<Array<{ id: string }>>('coinGecko/coins-markets.json');
+
+  if (params.ids) {
+    const ids = String(params.ids).split(',');
+    return coins.filter((coin) => ids.includes(coin.id));
+  }
+
+  const perPage = Number(params.per_page) || coins.length;
+  const page = Number(params.page) || 1;
+  return coins.slice((page - 1) * perPage, page * perPage);
+};
+
+const loadExchangeRateFixture = async (url: string, params: Record<string, unknown>) => {
+  const table = await readFixture<RateTable>('exchangeRate/latest-USD.json');
+  const rateOf = (code: unknown) => table.rates[String(code || 'USD').toUpperCase()];
+
+  if (url.endsWith('/convert')) {
+    const fromRate = rateOf(params.from);
+    const toRate = rateOf(params.to);
+    if (!fromRate || !toRate) {
+      return { success: false };
+    }
+
+    const amount = Number(params.amount) || 1;
+    const rate = toRate / fromRate;
+    return {
+      success: true,
+      query: { from: params.from, to: params.to, amount },
+      info: { rate },
+      date: table.date,
+      result: rate * amount,
+    };
+  }
+
+  const baseRate = rateOf(params.base);
+  if (!baseRate) {
+    return { success: false };
+  }
+
+  const rates: { [key: string]: number } = {};
+  Object.keys(table.rates).forEach((code) => {
+    rates[code] = table.rates[code] / baseRate;
+  });
+  return { success: true, base: String(params.base || 'USD').toUpperCase(), date: table.date, rates };
+};
+
+/**
+ * Resolve a GET request to its recorded fixture response
+ * @param url - Request URL as passed to cachedGet
+ * @param params - Query params
+ */
+export const loadFixtureResponse = async <T>(url: string, params: Record<string, unknown> = {}): Promise<T> => {
+  if (url.includes('alphavantage.co')) {
+    return (await loadAlphaVantageFixture(params)) as T;
+  }
+
+  if (url.includes('financialmodelingprep.com')) {
+    return (await loadFmpFixture(url)) as T;
+  }
+
+  if (url.includes('coingecko.com')) {
+    return (await loadCoinGeckoFixture(url, params)) as T;
+  }
+
+  if (url.includes('exchangerate.host')) {
+    return (await loadExchangeRateFixture(url, params)) as T;
+  }
+
+  throw new Error(`No fixture recorded for ${url}`);
+};
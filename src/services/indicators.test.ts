@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import { atr, bollingerBands, ema, macd, obv, rsi, sma, vwap, IndicatorValue } from './indicators';
+import { StockTimeSeriesData } from './stockApi';
+
+/**
+ * Daily bars from closes; open, high and low equal the close unless given
+ */
+const toBars = (closes: number[], extra: Partial<StockTimeSeriesData>[] = []): StockTimeSeriesData[] =>
+  closes.map((close, index) => ({
+    date: `2024-01-${String(index + 1).padStart(2, '0')}`,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 0,
+    ...extra[index],
+  }));
+
+/**
+ * Expect a series to equal `expected` to `digits` decimals, nulls included
+ */
+const expectSeries = (actual: IndicatorValue[], expected: IndicatorValue[], digits = 2) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, index) => {
+    const reference = expected[index];
+    if (reference === null) {
+      expect(value, `index ${index}`).toBeNull();
+    } else {
+      expect(value, `index ${index}`).not.toBeNull();
+      expect(value as number, `index ${index}`).toBeCloseTo(reference, digits);
+    }
+  });
+};
+
+const nulls = (count: number): null[] => Array(count).fill(null);
+
+// StockCharts "Moving Averages" worksheet, 10-day SMA and EMA
+const MOVING_AVERAGE_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39, 22.38, 22.61, 23.36,
+  24.05, 23.75, 23.83, 23.95, 23.63, 23.82, 23.87, 23.65, 23.19, 23.1, 23.33, 22.68, 23.1, 22.4, 22.17,
+];
+
+// StockCharts "RSI" worksheet, 14-day RSI with Wilder's smoothing
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.0, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+
+describe('sma', () => {
+  it('matches the reference 10-day SMA', () => {
+    expectSeries(sma(MOVING_AVERAGE_CLOSES, 10), [
+      ...nulls(9),
+      22.22, 22.21, 22.23, 22.26, 22.3, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21,
+      23.38, 23.52, 23.65, 23.71, 23.68, 23.61, 23.5, 23.43, 23.28, 23.13,
+    ]);
+  });
+
+  it('restarts the window after a null', () => {
+    expectSeries(sma([1, 2, null, 4, 5, 6], 2), [null, 1.5, null, null, 4.5, 5.5]);
+  });
+
+  it('returns only nulls when the input is shorter than the period', () => {
+    expect(sma([1, 2, 3], 5)).toEqual(nulls(3));
+    expect(sma([], 5)).toEqual([]);
+  });
+});
+
+describe('ema', () => {
+  it('matches the reference 10-day EMA seeded with the SMA', () => {
+    expectSeries(ema(MOVING_AVERAGE_CLOSES, 10), [
+      ...nulls(9),
+      22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.8, 22.97, 23.13, 23.28, 23.34,
+      23.43, 23.51, 23.53, 23.47, 23.4, 23.39, 23.26, 23.23, 23.08, 22.92,
+    ]);
+  });
+
+  it('skips leading nulls before seeding', () => {
+    expectSeries(ema([null, null, 2, 4, 6], 2), [null, null, null, 3, 5]);
+  });
+
+  it('returns only nulls when the input is shorter than the period', () => {
+    expect(ema([1, 2, 3], 5)).toEqual(nulls(3));
+  });
+});
+
+describe('bollingerBands', () => {
+  it('uses the population standard deviation', () => {
+    // Closes 1..20: mean 10.5, population variance (20² - 1) / 12
+    const deviation = Math.sqrt(399 / 12);
+    const bands = bollingerBands(toBars(Array.from({ length: 20 }, (_, index) => index + 1)), 20, 2);
+    expectSeries(bands.middle, [...nulls(19), 10.5], 6);
+    expectSeries(bands.upper, [...nulls(19), 10.5 + 2 * deviation], 6);
+    expectSeries(bands.lower, [...nulls(19), 10.5 - 2 * deviation], 6);
+  });
+
+  it('collapses onto the average for a flat series', () => {
+    const bands = bollingerBands(toBars([5, 5, 5, 5]), 3, 2);
+    expectSeries(bands.upper, [null, null, 5, 5], 6);
+    expectSeries(bands.lower, [null, null, 5, 5], 6);
+  });
+});
+
+describe('rsi', () => {
+  // Full-precision Wilder averages; the worksheet rounds each average to cents
+  const expected = [
+    70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34,
+    54.67, 50.39, 40.02, 41.49, 41.9, 45.5, 37.32, 33.09, 37.79,
+  ];
+  // Values as printed in the worksheet
+  const published = [
+    70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38,
+    54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.3, 33.08, 37.77,
+  ];
+
+  it('matches the Wilder reference series', () => {
+    const values = rsi(toBars(RSI_CLOSES), 14);
+    expectSeries(values, [...nulls(14), ...expected]);
+    values.slice(14).forEach((value, index) => {
+      expect(Math.abs((value as number) - published[index])).toBeLessThan(0.1);
+    });
+  });
+
+  it('is 100 with no losses and 50 with no movement', () => {
+    expect(rsi(toBars([1, 2, 3, 4]), 3)[3]).toBe(100);
+    expect(rsi(toBars([2, 2, 2, 2]), 3)[3]).toBe(50);
+  });
+
+  it('returns only nulls until there are period + 1 closes', () => {
+    expect(rsi(toBars(RSI_CLOSES.slice(0, 14)), 14)).toEqual(nulls(14));
+    expect(rsi([], 14)).toEqual([]);
+  });
+});
+
+describe('macd', () => {
+  it('settles at the difference of EMA lags on a linear trend', () => {
+    // An SMA-seeded EMA of a straight line lags it by (period - 1) / 2: 12.5 - 5.5 = 7
+    const result = macd(toBars(Array.from({ length: 40 }, (_, index) => index)), 12, 26, 9);
+    expectSeries(result.macd, [...nulls(25), ...Array(15).fill(7)], 9);
+    expectSeries(result.signal, [...nulls(33), ...Array(7).fill(7)], 9);
+    expectSeries(result.histogram, [...nulls(33), ...Array(7).fill(0)], 9);
+  });
+
+  it('returns only nulls when there are fewer closes than the slow period', () => {
+    const result = macd(toBars(MOVING_AVERAGE_CLOSES.slice(0, 25)), 12, 26, 9);
+    expect(result.macd).toEqual(nulls(25));
+    expect(result.signal).toEqual(nulls(25));
+    expect(result.histogram).toEqual(nulls(25));
+  });
+});
+
+describe('atr', () => {
+  it('smooths true ranges including gaps with Wilder averaging', () => {
+    const bars = toBars([10, 11, 14, 13], [
+      { high: 11, low: 9 }, // TR 2
+      { high: 12, low: 10 }, // TR 2
+      { high: 15, low: 13 }, // Gap up: |15 - 11| = 4
+      { high: 14, low: 12 }, // TR 2
+    ]);
+    // First ATR is the mean of three TRs, then (previous * 2 + TR) / 3
+    expectSeries(atr(bars, 3), [null, null, 8 / 3, (16 / 3 + 2) / 3], 9);
+  });
+
+  it('returns only nulls when the input is shorter than the period', () => {
+    expect(atr(toBars([1, 2]), 3)).toEqual(nulls(2));
+  });
+});
+
+describe('vwap', () => {
+  it('weights the typical price by volume cumulatively for daily bars', () => {
+    const bars = toBars([10, 20], [
+      { high: 12, low: 8, volume: 100 }, // Typical 10
+      { high: 23, low: 17, volume: 300 }, // Typical 20
+    ]);
+    expectSeries(vwap(bars), [10, (10 * 100 + 20 * 300) / 400], 9);
+  });
+
+  it('resets at each intraday session', () => {
+    const bars = toBars([10, 20, 30], [
+      { date: '2024-01-02 15:55:00', volume: 100 },
+      { date: '2024-01-02 16:00:00', volume: 100 },
+      { date: '2024-01-03 09:30:00', volume: 50 },
+    ]);
+    expectSeries(vwap(bars), [10, 15, 30], 9);
+  });
+
+  it('is null until there is volume', () => {
+    expect(vwap(toBars([10, 11]))).toEqual([null, null]);
+  });
+});
+
+describe('obv', () => {
+  it('adds volume on up closes and subtracts it on down closes', () => {
+    const bars = toBars([10, 11, 10.5, 10.5, 12], [
+      { volume: 100 },
+      { volume: 200 },
+      { volume: 150 },
+      { volume: 300 },
+      { volume: 250 },
+    ]);
+    expect(obv(bars)).toEqual([0, 200, 50, 50, 300]);
+  });
+
+  it('handles empty input', () => {
+    expect(obv([])).toEqual([]);
+  });
+});
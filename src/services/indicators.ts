@@ -0,0 +1,365 @@
+/**
+ * Technical Indicators
+ * Pure functions computing technical indicators over StockTimeSeriesData.
+ * Every indicator returns one value per input bar, with `null` for bars
+ * before the indicator has enough history (warm-up period).
+ *
+ * Conventions:
+ * - EMA is seeded with the SMA of its first `period` values
+ * - RSI and ATR use Wilder's smoothing (alpha = 1 / period)
+ * - Bollinger Bands use the population standard deviation
+ * - VWAP resets at each session for intraday bars and is cumulative otherwise
+ */
+import { StockTimeSeriesData } from './stockApi';
+
+export type IndicatorValue = number | null;
+
+export type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'macd' | 'atr' | 'vwap' | 'obv';
+
+// Overlays share the price axis; panes get their own chart below the price pane
+export type IndicatorPlacement = 'overlay' | 'pane';
+
+export interface IndicatorParams {
+  period?: number;
+  stdDev?: number;
+  fastPeriod?: number;
+  slowPeriod?: number;
+  signalPeriod?: number;
+}
+
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: IndicatorParams;
+}
+
+export interface IndicatorLine {
+  key: string;
+  label: string;
+  color: string;
+  values: IndicatorValue[];
+  style?: 'line' | 'dashed' | 'histogram';
+}
+
+export interface IndicatorResult {
+  config: IndicatorConfig;
+  label: string;
+  placement: IndicatorPlacement;
+  lines: IndicatorLine[];
+}
+
+export interface IndicatorDefinition {
+  name: string;
+  placement: IndicatorPlacement;
+  defaults: IndicatorParams;
+}
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: { name: 'Simple Moving Average', placement: 'overlay', defaults: { period: 20 } },
+  ema: { name: 'Exponential Moving Average', placement: 'overlay', defaults: { period: 20 } },
+  bollinger: { name: 'Bollinger Bands', placement: 'overlay', defaults: { period: 20, stdDev: 2 } },
+  vwap: { name: 'VWAP', placement: 'overlay', defaults: {} },
+  rsi: { name: 'RSI', placement: 'pane', defaults: { period: 14 } },
+  macd: { name: 'MACD', placement: 'pane', defaults: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 } },
+  atr: { name: 'ATR', placement: 'pane', defaults: { period: 14 } },
+  obv: { name: 'On-Balance Volume', placement: 'pane', defaults: {} },
+};
+
+const COLORS = ['#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16', '#f97316'];
+
+/**
+ * Simple moving average of a value series
+ * @param values - Input values; nulls break the window
+ * @param period - Window length
+ */
+export const sma = (values: IndicatorValue[], period: number): IndicatorValue[] => {
+  const result: IndicatorValue[] = [];
+  let sum = 0;
+  let count = 0;
+
+  values.forEach((value, index) => {
+    if (value === null) {
+      sum = 0;
+      count = 0;
+      result.push(null);
+      return;
+    }
+
+    sum += value;
+    count += 1;
+    if (count > period) {
+      sum -= values[index - period] as number;
+      count = period;
+    }
+    result.push(count === period ? sum / period : null);
+  });
+
+  return result;
+};
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period` values.
+ * Leading nulls (e.g. the warm-up of another indicator) are skipped.
+ * @param values - Input values
+ * @param period - Smoothing period
+ * @param alpha - Smoothing factor (defaults to 2 / (period + 1))
+ */
+export const ema = (
+  values: IndicatorValue[],
+  period: number,
+  alpha: number = 2 / (period + 1)
+): IndicatorValue[] => {
+  const result: IndicatorValue[] = [];
+  let previous: number | null = null;
+  let seed = 0;
+  let seedCount = 0;
+
+  values.forEach((value) => {
+    if (value === null) {
+      result.push(previous);
+      return;
+    }
+
+    if (previous === null) {
+      seed += value;
+      seedCount += 1;
+      if (seedCount === period) {
+        previous = seed / period;
+        result.push(previous);
+      } else {
+        result.push(null);
+      }
+      return;
+    }
+
+    previous = alpha * value + (1 - alpha) * previous;
+    result.push(previous);
+  });
+
+  return result;
+};
+
+/**
+ * Wilder's smoothing (RMA): an EMA with alpha = 1 / period
+ */
+const wilder = (values: IndicatorValue[], period: number) => ema(values, period, 1 / period);
+
+/**
+ * Bollinger Bands: SMA middle band with bands `stdDev` standard deviations away
+ * @param data - Price series
+ * @param period - Window length
+ * @param stdDev - Band width in standard deviations
+ */
+export const bollingerBands = (
+  data: StockTimeSeriesData[],
+  period: number,
+  stdDev: number
+): { middle: IndicatorValue[]; upper: IndicatorValue[]; lower: IndicatorValue[] } => {
+  const closes = data.map((bar) => bar.close);
+  const middle = sma(closes, period);
+  const upper: IndicatorValue[] = [];
+  const lower: IndicatorValue[] = [];
+
+  middle.forEach((mean, index) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+
+    const window = closes.slice(index - period + 1, index + 1);
+    const variance = window.reduce((sum, close) => sum + (close - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance) * stdDev;
+    upper.push(mean + deviation);
+    lower.push(mean - deviation);
+  });
+
+  return { middle, upper, lower };
+};
+
+/**
+ * Relative Strength Index (Wilder)
+ * @param data - Price series
+ * @param period - Lookback period
+ */
+export const rsi = (data: StockTimeSeriesData[], period: number): IndicatorValue[] => {
+  const changes = data.map((bar, index) => (index === 0 ? null : bar.close - data[index - 1].close));
+  const gains = changes.map((change) => (change === null ? null : Math.max(change, 0)));
+  const losses = changes.map((change) => (change === null ? null : Math.max(-change, 0)));
+
+  const averageGain = wilder(gains, period);
+  const averageLoss = wilder(losses, period);
+
+  return averageGain.map((gain, index) => {
+    const loss = averageLoss[index];
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+};
+
+/**
+ * Moving Average Convergence/Divergence
+ * @param data - Price series
+ * @param fastPeriod - Fast EMA period
+ * @param slowPeriod - Slow EMA period
+ * @param signalPeriod - Signal line EMA period
+ */
+export const macd = (
+  data: StockTimeSeriesData[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): { macd: IndicatorValue[]; signal: IndicatorValue[]; histogram: IndicatorValue[] } => {
+  const closes = data.map((bar) => bar.close);
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const line = fast.map((value, index) => {
+    const slowValue = slow[index];
+    return value === null || slowValue === null ? null : value - slowValue;
+  });
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, index) => {
+    const signalValue = signal[index];
+    return value === null || signalValue === null ? null : value - signalValue;
+  });
+
+  return { macd: line, signal, histogram };
+};
+
+/**
+ * Average True Range (Wilder)
+ * @param data - Price series
+ * @param period - Smoothing period
+ */
+export const atr = (data: StockTimeSeriesData[], period: number): IndicatorValue[] => {
+  const trueRanges: IndicatorValue[] = data.map((bar, index) => {
+    if (index === 0) return bar.high - bar.low;
+    const previousClose = data[index - 1].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+  });
+
+  return wilder(trueRanges, period);
+};
+
+/**
+ * Volume-Weighted Average Price using the typical price (H + L + C) / 3.
+ * Intraday bars ('YYYY-MM-DD HH:mm:ss') reset at each new session.
+ * @param data - Price series
+ */
+export const vwap = (data: StockTimeSeriesData[]): IndicatorValue[] => {
+  let session = '';
+  let priceVolume = 0;
+  let volume = 0;
+
+  return data.map((bar) => {
+    const day = bar.date.includes(' ') ? bar.date.split(' ')[0] : '';
+    if (day !== session) {
+      session = day;
+      priceVolume = 0;
+      volume = 0;
+    }
+
+    priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    volume += bar.volume;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+};
+
+/**
+ * On-Balance Volume, starting from zero at the first bar
+ * @param data - Price series
+ */
+export const obv = (data: StockTimeSeriesData[]): IndicatorValue[] => {
+  let total = 0;
+
+  return data.map((bar, index) => {
+    if (index > 0) {
+      const previousClose = data[index - 1].close;
+      if (bar.close > previousClose) total += bar.volume;
+      else if (bar.close < previousClose) total -= bar.volume;
+    }
+    return total;
+  });
+};
+
+/**
+ * Short label for an indicator instance, e.g. "SMA(20)" or "MACD(12,26,9)"
+ */
+export const formatIndicatorLabel = (config: IndicatorConfig): string => {
+  const { type, params } = config;
+  const name = type === 'bollinger' ? 'BB' : type.toUpperCase();
+
+  switch (type) {
+    case 'bollinger':
+      return `${name}(${params.period},${params.stdDev})`;
+    case 'macd':
+      return `${name}(${params.fastPeriod},${params.slowPeriod},${params.signalPeriod})`;
+    case 'vwap':
+    case 'obv':
+      return name;
+    default:
+      return `${name}(${params.period})`;
+  }
+};
+
+/**
+ * Compute an indicator instance into chartable lines
+ * @param config - Indicator type and parameters
+ * @param data - Price series
+ * @param colorIndex - Position of the indicator, used to pick distinct colors
+ */
+export const computeIndicator = (
+  config: IndicatorConfig,
+  data: StockTimeSeriesData[],
+  colorIndex: number = 0
+): IndicatorResult => {
+  const definition = INDICATOR_DEFINITIONS[config.type];
+  const params = { ...definition.defaults, ...config.params };
+  const label = formatIndicatorLabel({ ...config, params });
+  const color = COLORS[colorIndex % COLORS.length];
+  const key = (suffix: string) => `${config.id}_${suffix}`;
+  const period = params.period ?? 14;
+
+  let lines: IndicatorLine[];
+  switch (config.type) {
+    case 'sma':
+      lines = [{ key: key('value'), label, color, values: sma(data.map((bar) => bar.close), period) }];
+      break;
+    case 'ema':
+      lines = [{ key: key('value'), label, color, values: ema(data.map((bar) => bar.close), period) }];
+      break;
+    case 'bollinger': {
+      const bands = bollingerBands(data, period, params.stdDev ?? 2);
+      lines = [
+        { key: key('upper'), label: `${label} Upper`, color, values: bands.upper, style: 'dashed' },
+        { key: key('middle'), label: `${label} Middle`, color, values: bands.middle },
+        { key: key('lower'), label: `${label} Lower`, color, values: bands.lower, style: 'dashed' },
+      ];
+      break;
+    }
+    case 'rsi':
+      lines = [{ key: key('value'), label, color, values: rsi(data, period) }];
+      break;
+    case 'macd': {
+      const result = macd(data, params.fastPeriod ?? 12, params.slowPeriod ?? 26, params.signalPeriod ?? 9);
+      lines = [
+        { key: key('histogram'), label: 'Histogram', color: '#94a3b8', values: result.histogram, style: 'histogram' },
+        { key: key('macd'), label: 'MACD', color, values: result.macd },
+        { key: key('signal'), label: 'Signal', color: '#ef4444', values: result.signal, style: 'dashed' },
+      ];
+      break;
+    }
+    case 'atr':
+      lines = [{ key: key('value'), label, color, values: atr(data, period) }];
+      break;
+    case 'vwap':
+      lines = [{ key: key('value'), label, color, values: vwap(data) }];
+      break;
+    case 'obv':
+      lines = [{ key: key('value'), label, color, values: obv(data) }];
+      break;
+  }
+
+  return { config: { ...config, params }, label, placement: definition.placement, lines };
+};
@@ -0,0 +1,190 @@
+/**
+ * Cash Ledger
+ * Dated bank and card transactions (usually imported from statements) stored
+ * in localStorage. The budget planner rolls them up into monthly income and
+ * per-category spending.
+ *
+ * Conventions:
+ * - Amounts are signed: negative for money out, positive for money in
+ * - Every entry carries one of BUDGET_CATEGORIES (or 'Income')
+ */
+
+export interface LedgerEntry {
+  id: string;
+  date: string; // 'YYYY-MM-DD'
+  amount: number;
+  description: string;
+  category: string;
+  importId?: string; // Fingerprint of the imported statement row, used to skip re-imports
+}
+
+export interface MonthlyLedgerSummary {
+  month: string; // 'YYYY-MM'
+  income: number;
+  expenses: Array<{ category: string; amount: number }>;
+}
+
+type LedgerListener = (entries: LedgerEntry[]) => void;
+
+const STORAGE_KEY = 'valunetics-ledger';
+
+export const BUDGET_CATEGORIES = [
+  'Food',
+  'Rent',
+  'Utilities',
+  'Transportation',
+  'Entertainment',
+  'Healthcare',
+  'Shopping',
+  'Travel',
+  'Education',
+  'Insurance',
+  'Savings',
+  'Other',
+];
+
+export const INCOME_CATEGORY = 'Income';
+
+// Keyword rules used when a statement row has no usable category
+const CATEGORY_KEYWORDS: Array<{ category: string; pattern: RegExp }> = [
+  { category: 'Food', pattern: /grocer|restaurant|cafe|coffee|pizza|burger|market|food|dining|bakery|starbucks|mcdonald/i },
+  { category: 'Rent', pattern: /rent|mortgage|landlord|lease|housing/i },
+  { category: 'Utilities', pattern: /electric|water|gas bill|utility|utilities|internet|phone|mobile|cable|power/i },
+  { category: 'Transportation', pattern: /uber|lyft|taxi|fuel|gasoline|shell|chevron|parking|transit|metro|train|bus|toll|auto/i },
+  { category: 'Entertainment', pattern: /netflix|spotify|cinema|movie|theater|concert|game|steam|entertainment|hulu|disney/i },
+  { category: 'Healthcare', pattern: /pharmacy|doctor|dental|hospital|clinic|health|medical|cvs|walgreens/i },
+  { category: 'Shopping', pattern: /amazon|walmart|target|store|shop|mall|clothing|ebay/i },
+  { category: 'Travel', pattern: /airline|hotel|airbnb|booking|expedia|flight|travel/i },
+  { category: 'Education', pattern: /tuition|school|course|udemy|coursera|book|education|university/i },
+  { category: 'Insurance', pattern: /insurance|geico|allstate|premium/i },
+  { category: 'Savings', pattern: /savings|transfer to|investment|brokerage|401k|ira/i },
+];
+
+const listeners = new Set<LedgerListener>();
+
+const readStorage = (): LedgerEntry[] => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as LedgerEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+let entries: LedgerEntry[] = readStorage();
+
+const saveEntries = (next: LedgerEntry[]) => {
+  entries = next;
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    }
+  } catch {
+    // Storage full or unavailable: keep the in-memory copy only
+  }
+  listeners.forEach((listener) => listener(getLedgerEntries()));
+};
+
+/**
+ * Map a statement row to a budget category: the row's own category when it
+ * matches one of ours, otherwise keyword rules on the description
+ */
+export const categorizeLedgerEntry = (amount: number, description: string, category?: string): string => {
+  if (amount > 0) return INCOME_CATEGORY;
+
+  const own = category?.trim().toLowerCase();
+  if (own) {
+    const match = BUDGET_CATEGORIES.find((candidate) => candidate.toLowerCase() === own);
+    if (match) return match;
+  }
+
+  const text = `${category || ''} ${description}`;
+  return CATEGORY_KEYWORDS.find((rule) => rule.pattern.test(text))?.category || 'Other';
+};
+
+/**
+ * All entries, newest first
+ */
+export const getLedgerEntries = (): LedgerEntry[] =>
+  [...entries].sort((a, b) => b.date.localeCompare(a.date));
+
+/**
+ * Record entries
+ * @throws Error if an entry has an invalid date or amount
+ */
+export const addLedgerEntries = (inputs: Array<Omit<LedgerEntry, 'id'>>): LedgerEntry[] => {
+  const added = inputs.map((input, index) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) throw new Error(`Invalid date: ${input.date}`);
+    if (!Number.isFinite(input.amount)) throw new Error(`Invalid amount for ${input.description || input.date}`);
+
+    return {
+      ...input,
+      description: input.description.trim(),
+      id: `ledger-${Date.now().toString(36)}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+    };
+  });
+
+  saveEntries([...entries, ...added]);
+  return added;
+};
+
+/**
+ * Change the category of an entry
+ */
+export const setLedgerEntryCategory = (id: string, category: string) => {
+  saveEntries(entries.map((entry) => (entry.id === id ? { ...entry, category } : entry)));
+};
+
+export const deleteLedgerEntry = (id: string) => {
+  saveEntries(entries.filter((entry) => entry.id !== id));
+};
+
+export const clearLedger = () => {
+  saveEntries([]);
+};
+
+/**
+ * Subscribe to ledger changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToLedger = (listener: LedgerListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Months that have entries ('YYYY-MM'), newest first
+ */
+export const getLedgerMonths = (list: LedgerEntry[]): string[] =>
+  Array.from(new Set(list.map((entry) => entry.date.slice(0, 7)))).sort().reverse();
+
+/**
+ * Roll a month of entries up into income and spending per category
+ */
+export const summarizeLedgerMonth = (list: LedgerEntry[], month: string): MonthlyLedgerSummary => {
+  const totals = new Map<string, number>();
+  let income = 0;
+
+  list
+    .filter((entry) => entry.date.startsWith(month))
+    .forEach((entry) => {
+      if (entry.category === INCOME_CATEGORY) {
+        income += entry.amount;
+      } else {
+        // Refunds booked to a spending category reduce that category
+        totals.set(entry.category, (totals.get(entry.category) || 0) - entry.amount);
+      }
+    });
+
+  return {
+    month,
+    income,
+    expenses: Array.from(totals.entries())
+      .filter(([, amount]) => amount > 0)
+      .map(([category, amount]) => ({ category, amount: Math.round(amount * 100) / 100 }))
+      .sort((a, b) => b.amount - a.amount),
+  };
+};
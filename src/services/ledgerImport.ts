@@ -0,0 +1,571 @@
+/**
+ * Statement Import
+ * Parses brokerage and bank exports into dated transactions:
+ * - Generic CSV with a user-confirmed column mapping
+ * - OFX / QFX (bank, card and investment statements)
+ * - QIF (bank, card, cash and investment accounts)
+ *
+ * Trades (buys and sells with a symbol and quantity) are routed to the
+ * portfolio, everything else to the cash ledger used by the budget planner.
+ * Each row gets a fingerprint (`importId`) so importing an overlapping
+ * statement again only adds the rows that are new.
+ */
+import Papa from 'papaparse';
+import { addTransactions, getTransactions, AssetClass, TransactionType } from './portfolio';
+import { addLedgerEntries, getLedgerEntries, categorizeLedgerEntry } from './ledger';
+
+export type LedgerFormat = 'csv' | 'ofx' | 'qif';
+
+// Field order of numeric dates in CSV and QIF files
+export type DateOrder = 'ymd' | 'mdy' | 'dmy';
+
+export interface ImportedCashTransaction {
+  kind: 'cash';
+  importId: string;
+  date: string; // 'YYYY-MM-DD'
+  amount: number; // Negative for money out
+  description: string;
+  category?: string;
+}
+
+export interface ImportedTrade {
+  kind: 'trade';
+  importId: string;
+  date: string;
+  type: TransactionType;
+  symbol: string;
+  assetClass: AssetClass;
+  quantity: number;
+  price: number;
+  fees: number;
+  description: string;
+}
+
+export type ImportedTransaction = ImportedCashTransaction | ImportedTrade;
+
+export interface ParseResult {
+  transactions: ImportedTransaction[];
+  errors: string[]; // Rows that could not be read
+  skipped: number; // Rows that are neither cash movements nor trades (e.g. reinvested dividends)
+}
+
+export interface CsvColumnMapping {
+  date: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  description?: string;
+  category?: string;
+  type?: string;
+  symbol?: string;
+  quantity?: string;
+  price?: string;
+  fees?: string;
+}
+
+export interface CsvOptions {
+  dateOrder: DateOrder;
+  assetClass: AssetClass; // Asset class given to trades
+}
+
+export interface ImportSummary {
+  trades: number;
+  cash: number;
+  duplicates: number;
+}
+
+export const CSV_MAPPING_FIELDS: Array<{ key: keyof CsvColumnMapping; label: string; required?: boolean }> = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'amount', label: 'Amount' },
+  { key: 'debit', label: 'Debit (money out)' },
+  { key: 'credit', label: 'Credit (money in)' },
+  { key: 'description', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'type', label: 'Action (buy/sell)' },
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'price', label: 'Price' },
+  { key: 'fees', label: 'Fees / Commission' },
+];
+
+// Header names commonly used by banks and brokers, per mapping field
+const CSV_HEADER_GUESSES: Record<keyof CsvColumnMapping, RegExp> = {
+  date: /^(trade |transaction |posted |posting |settlement )?date$|^run date$/i,
+  amount: /^(net )?amount( \(\$\)| usd)?$|^total$|^value$/i,
+  debit: /^(debit|withdrawal|money out|paid out)s?$/i,
+  credit: /^(credit|deposit|money in|paid in)s?$/i,
+  description: /^(description|payee|name|memo|details|narrative|security description)$/i,
+  category: /^category$/i,
+  type: /^(action|type|transaction type|activity|side)$/i,
+  symbol: /^(symbol|ticker|security|instrument)$/i,
+  quantity: /^(quantity|qty|shares|units)$/i,
+  price: /^(price|unit price|price \(\$\)|share price)$/i,
+  fees: /^(fees?|commission|commissions)( \(\$\))?$/i,
+};
+
+const TRADE_ACTIONS: Array<{ type: TransactionType; pattern: RegExp }> = [
+  { type: 'buy', pattern: /\b(buy|bought|purchase|purchased|buy to open)\b/i },
+  { type: 'sell', pattern: /\b(sell|sold|sale|sell to close)\b/i },
+];
+
+/**
+ * Guess the file format from its name, falling back to the content
+ */
+export const detectLedgerFormat = (fileName: string, text: string): LedgerFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+
+  const head = text.slice(0, 1000).trimStart();
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/^!(Type|Account|Option)/i.test(head)) return 'qif';
+  return 'csv';
+};
+
+/**
+ * Parse an amount such as '-1,234.56', '$12.00' or '(45.10)'
+ */
+export const parseAmount = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const negative = /^\(.*\)$/.test(trimmed) || /^-|-$/.test(trimmed.replace(/[^\d.-]/g, ''));
+  const digits = trimmed.replace(/[^\d.]/g, '');
+  const parsed = parseFloat(digits);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+/**
+ * Parse a date into 'YYYY-MM-DD'. ISO and compact (YYYYMMDD) dates are
+ * always recognized; other numeric dates follow `order`.
+ */
+export const parseLedgerDate = (value: string, order: DateOrder = 'mdy'): string | null => {
+  const trimmed = value.trim().replace(/'/g, '/').replace(/\s+/g, '');
+
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  const iso = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (iso || (compact && !/[-/.]/.test(trimmed.slice(0, 8)))) {
+    const [, y, m, d] = (iso || compact) as RegExpMatchArray;
+    year = Number(y);
+    month = Number(m);
+    day = Number(d);
+  } else {
+    const parts = trimmed.split(/[-/.]/);
+    if (parts.length < 3) return null;
+    const [a, b, c] = parts.map(Number);
+    if (order === 'ymd') [year, month, day] = [a, b, c];
+    else if (order === 'dmy') [day, month, year] = [a, b, c];
+    else [month, day, year] = [a, b, c];
+    if (year < 100) year += year < 70 ? 2000 : 1900;
+  }
+
+  if (!(month >= 1 && month <= 12 && day >= 1 && day <= 31 && year > 1900)) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Builds row fingerprints. Identical rows within one file get an occurrence
+ * counter so two equal card payments on the same day both import, while the
+ * same file imported twice does not.
+ */
+const createFingerprinter = () => {
+  const seen = new Map<string, number>();
+  return (parts: Array<string | number | undefined>) => {
+    const base = parts
+      .map((part) => (typeof part === 'number' ? part.toFixed(6) : (part || '').trim().toLowerCase().replace(/\s+/g, ' ')))
+      .join('|');
+    const occurrence = (seen.get(base) || 0) + 1;
+    seen.set(base, occurrence);
+    return `${base}#${occurrence}`;
+  };
+};
+
+/**
+ * Read the header row of a CSV file
+ */
+export const readCsvHeaders = (text: string): string[] => {
+  const result = Papa.parse<string[]>(text, { preview: 1, skipEmptyLines: true });
+  return (result.data[0] || []).map((header) => header.trim()).filter(Boolean);
+};
+
+/**
+ * Suggest a column mapping from header names
+ */
+export const guessCsvMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = { date: '' };
+  CSV_MAPPING_FIELDS.forEach(({ key }) => {
+    const match = headers.find((header) => CSV_HEADER_GUESSES[key].test(header.trim()));
+    if (match) mapping[key] = match;
+  });
+  return mapping;
+};
+
+/**
+ * Parse a CSV export with the given column mapping
+ */
+export const parseCsvLedger = (text: string, mapping: CsvColumnMapping, options: CsvOptions): ParseResult => {
+  const parsed = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+  });
+  const fingerprint = createFingerprinter();
+  const transactions: ImportedTransaction[] = [];
+  const errors: string[] = parsed.errors.map((error) => `Row ${(error.row ?? 0) + 2}: ${error.message}`);
+  let skipped = 0;
+
+  if (!mapping.date) {
+    return { transactions, errors: ['Choose the column that holds the date'], skipped };
+  }
+  if (!mapping.amount && !mapping.debit && !mapping.credit && !(mapping.quantity && mapping.price)) {
+    return { transactions, errors: ['Choose an amount column (or debit/credit, or quantity and price)'], skipped };
+  }
+
+  const cell = (row: Record<string, string>, key: keyof CsvColumnMapping) => {
+    const column = mapping[key];
+    return column ? (row[column] || '').trim() : '';
+  };
+
+  parsed.data.forEach((row, index) => {
+    const rowNumber = index + 2; // 1-based, after the header row
+    const date = parseLedgerDate(cell(row, 'date'), options.dateOrder);
+    if (!date) {
+      errors.push(`Row ${rowNumber}: unreadable date "${cell(row, 'date')}"`);
+      return;
+    }
+
+    const description = cell(row, 'description');
+    let amount = parseAmount(cell(row, 'amount'));
+    if (amount === null && (mapping.debit || mapping.credit)) {
+      const debit = parseAmount(cell(row, 'debit'));
+      const credit = parseAmount(cell(row, 'credit'));
+      if (debit !== null || credit !== null) amount = Math.abs(credit || 0) - Math.abs(debit || 0);
+    }
+
+    const symbol = cell(row, 'symbol');
+    const quantity = parseAmount(cell(row, 'quantity'));
+
+    if (symbol && quantity) {
+      const actionText = `${cell(row, 'type')} ${description}`;
+      const action = TRADE_ACTIONS.find((candidate) => candidate.pattern.test(actionText))?.type;
+      // Without an explicit action, a negative quantity or a cash outflow marks the direction
+      const type: TransactionType | undefined =
+        action || (quantity < 0 ? 'sell' : amount !== null && amount < 0 ? 'buy' : amount !== null ? 'sell' : undefined);
+      if (!type) {
+        skipped++;
+        return;
+      }
+
+      const units = Math.abs(quantity);
+      const fees = Math.abs(parseAmount(cell(row, 'fees')) || 0);
+      const price = Math.abs(parseAmount(cell(row, 'price')) ?? (amount !== null ? (Math.abs(amount) - (type === 'buy' ? fees : -fees)) / units : NaN));
+      if (!Number.isFinite(price)) {
+        errors.push(`Row ${rowNumber}: no price for ${symbol}`);
+        return;
+      }
+
+      transactions.push({
+        kind: 'trade',
+        importId: `csv:${fingerprint([date, type, symbol, units, price])}`,
+        date,
+        type,
+        symbol,
+        assetClass: options.assetClass,
+        quantity: units,
+        price,
+        fees,
+        description,
+      });
+      return;
+    }
+
+    // Dividends, interest and other activity on a security stay out of the cash ledger,
+    // as they do for OFX and QIF investment statements
+    if (symbol) {
+      skipped++;
+      return;
+    }
+    if (amount === null) {
+      errors.push(`Row ${rowNumber}: no amount`);
+      return;
+    }
+
+    transactions.push({
+      kind: 'cash',
+      importId: `csv:${fingerprint([date, amount, description])}`,
+      date,
+      amount,
+      description: description || cell(row, 'type'),
+      category: cell(row, 'category') || undefined,
+    });
+  });
+
+  return { transactions, errors, skipped };
+};
+
+/**
+ * Value of an OFX element. OFX 1.x (SGML) leaves leaf elements unclosed, so
+ * the value runs up to the next tag or line break.
+ */
+const ofxValue = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+/**
+ * Contents of every `<TAG>...</TAG>` aggregate
+ */
+const ofxBlocks = (text: string, tag: string): string[] =>
+  Array.from(text.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi'))).map((match) => match[1]);
+
+/**
+ * Parse an OFX / QFX statement
+ */
+export const parseOfxLedger = (text: string): ParseResult => {
+  const fingerprint = createFingerprinter();
+  const transactions: ImportedTransaction[] = [];
+  const errors: string[] = [];
+  let skipped = 0;
+
+  const account = ofxValue(text, 'ACCTID');
+
+  // Security list: CUSIP/ISIN -> ticker
+  const tickers = new Map<string, string>();
+  ofxBlocks(text, 'SECINFO').forEach((block) => {
+    const id = ofxValue(block, 'UNIQUEID');
+    const ticker = ofxValue(block, 'TICKER');
+    if (id && ticker) tickers.set(id, ticker);
+  });
+
+  // Bank, card and investment-account cash movements
+  ofxBlocks(text, 'STMTTRN').forEach((block) => {
+    const date = parseLedgerDate(ofxValue(block, 'DTPOSTED').slice(0, 8));
+    const amount = parseAmount(ofxValue(block, 'TRNAMT'));
+    const fitId = ofxValue(block, 'FITID');
+    const description = [ofxValue(block, 'NAME'), ofxValue(block, 'MEMO')].filter(Boolean).join(' - ');
+
+    if (!date || amount === null) {
+      errors.push(`Transaction ${fitId || '(no id)'}: missing date or amount`);
+      return;
+    }
+
+    transactions.push({
+      kind: 'cash',
+      // FITID is unique per account, so it is the natural fingerprint
+      importId: fitId ? `ofx:${account}:${fitId}` : `ofx:${fingerprint([date, amount, description])}`,
+      date,
+      amount,
+      description,
+    });
+  });
+
+  // Trades
+  const tradeTags: Array<{ tag: string; type: TransactionType; assetClass: AssetClass }> = [
+    { tag: 'BUYSTOCK', type: 'buy', assetClass: 'stock' },
+    { tag: 'SELLSTOCK', type: 'sell', assetClass: 'stock' },
+    // Mutual funds are priced through the same quote endpoints as ETFs
+    { tag: 'BUYMF', type: 'buy', assetClass: 'etf' },
+    { tag: 'SELLMF', type: 'sell', assetClass: 'etf' },
+    { tag: 'BUYDEBT', type: 'buy', assetClass: 'bond' },
+    { tag: 'SELLDEBT', type: 'sell', assetClass: 'bond' },
+    { tag: 'BUYOTHER', type: 'buy', assetClass: 'other' },
+    { tag: 'SELLOTHER', type: 'sell', assetClass: 'other' },
+  ];
+
+  tradeTags.forEach(({ tag, type, assetClass }) => {
+    ofxBlocks(text, tag).forEach((block) => {
+      const fitId = ofxValue(block, 'FITID');
+      const date = parseLedgerDate(ofxValue(block, 'DTTRADE').slice(0, 8));
+      const securityId = ofxValue(block, 'UNIQUEID');
+      const symbol = tickers.get(securityId) || securityId;
+      const quantity = Math.abs(parseAmount(ofxValue(block, 'UNITS')) || 0);
+      const price = parseAmount(ofxValue(block, 'UNITPRICE'));
+      const fees = Math.abs(parseAmount(ofxValue(block, 'COMMISSION')) || 0) + Math.abs(parseAmount(ofxValue(block, 'FEES')) || 0);
+
+      if (!date || !symbol || !quantity || price === null) {
+        errors.push(`Trade ${fitId || symbol || '(no id)'}: incomplete ${tag} record`);
+        return;
+      }
+
+      transactions.push({
+        kind: 'trade',
+        importId: fitId ? `ofx:${account}:${fitId}` : `ofx:${fingerprint([date, type, symbol, quantity, price])}`,
+        date,
+        type,
+        symbol,
+        assetClass,
+        quantity,
+        price: Math.abs(price),
+        fees,
+        description: ofxValue(block, 'MEMO'),
+      });
+    });
+  });
+
+  // Income, reinvestments and transfers in kind change neither cash nor lots here
+  ['INCOME', 'REINVEST', 'TRANSFER', 'SPLIT'].forEach((tag) => {
+    skipped += ofxBlocks(text, tag).length;
+  });
+
+  return { transactions, errors, skipped };
+};
+
+/**
+ * Parse a QIF export. Dates follow `dateOrder` (US exports use 'mdy').
+ */
+export const parseQifLedger = (text: string, dateOrder: DateOrder = 'mdy'): ParseResult => {
+  const fingerprint = createFingerprinter();
+  const transactions: ImportedTransaction[] = [];
+  const errors: string[] = [];
+  let skipped = 0;
+  let section = '';
+  let fields: Record<string, string> = {};
+  let recordNumber = 0;
+
+  const flush = () => {
+    const hasFields = Object.keys(fields).length > 0;
+    const record = fields;
+    fields = {};
+    if (!hasFields) return;
+    recordNumber++;
+
+    // Account lists, categories, classes and memorized payees are not transactions
+    if (!/^type:(bank|cash|ccard|oth a|oth l|invst)$/.test(section)) return;
+
+    const date = parseLedgerDate(record.D || '', dateOrder);
+    if (!date) {
+      errors.push(`Record ${recordNumber}: unreadable date "${record.D || ''}"`);
+      return;
+    }
+    const amount = parseAmount(record.T ?? record.U);
+    const description = [record.P, record.M].filter(Boolean).join(' - ');
+
+    if (section === 'type:invst') {
+      const action = (record.N || '').toLowerCase();
+      const type: TransactionType | undefined = /^buy/.test(action) ? 'buy' : /^sell/.test(action) ? 'sell' : undefined;
+      const symbol = record.Y || '';
+      const quantity = Math.abs(parseAmount(record.Q) || 0);
+      if (!type || !symbol || !quantity) {
+        skipped++;
+        return;
+      }
+
+      const fees = Math.abs(parseAmount(record.O) || 0);
+      const price = parseAmount(record.I) ?? (amount !== null ? (Math.abs(amount) - (type === 'buy' ? fees : -fees)) / quantity : null);
+      if (price === null) {
+        errors.push(`Record ${recordNumber}: no price for ${symbol}`);
+        return;
+      }
+
+      transactions.push({
+        kind: 'trade',
+        importId: `qif:${fingerprint([date, type, symbol, quantity, price])}`,
+        date,
+        type,
+        symbol,
+        assetClass: 'stock',
+        quantity,
+        price: Math.abs(price),
+        fees,
+        description: record.M || '',
+      });
+      return;
+    }
+
+    if (amount === null) {
+      errors.push(`Record ${recordNumber}: no amount`);
+      return;
+    }
+
+    transactions.push({
+      kind: 'cash',
+      importId: `qif:${fingerprint([date, amount, description])}`,
+      date,
+      amount,
+      description,
+      // Subcategories are written 'Parent:Child'; transfers as '[Account]'
+      category: record.L && !record.L.startsWith('[') ? record.L.split(':')[0] : undefined,
+    });
+  };
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      flush();
+      const header = line.slice(1).toLowerCase();
+      // '!Option:AutoSwitch' and '!Clear:AutoSwitch' toggle account-list mode without starting a section
+      if (!header.startsWith('option') && !header.startsWith('clear')) section = header;
+      return;
+    }
+    if (line === '^') {
+      flush();
+      return;
+    }
+
+    const code = line[0];
+    // Split lines (S/E/$) repeat per split; only the first value of a code is kept
+    if (!(code in fields)) fields[code] = line.slice(1).trim();
+  });
+  flush();
+
+  return { transactions, errors, skipped };
+};
+
+/**
+ * Mark rows already imported into the portfolio or the cash ledger
+ */
+export const findDuplicateImports = (transactions: ImportedTransaction[]): Set<string> => {
+  const known = new Set<string>();
+  getTransactions().forEach((transaction) => transaction.importId && known.add(transaction.importId));
+  getLedgerEntries().forEach((entry) => entry.importId && known.add(entry.importId));
+  return new Set(transactions.filter((transaction) => known.has(transaction.importId)).map((transaction) => transaction.importId));
+};
+
+/**
+ * Record new rows: trades go to the portfolio, cash movements to the ledger
+ * @throws Error if the trades are invalid (e.g. a sell without holdings); nothing is recorded then
+ */
+export const applyImport = (transactions: ImportedTransaction[]): ImportSummary => {
+  const duplicates = findDuplicateImports(transactions);
+  const fresh = transactions.filter((transaction) => !duplicates.has(transaction.importId));
+  const trades = fresh.filter((transaction): transaction is ImportedTrade => transaction.kind === 'trade');
+  const cash = fresh.filter((transaction): transaction is ImportedCashTransaction => transaction.kind === 'cash');
+
+  if (trades.length > 0) {
+    addTransactions(
+      trades.map((trade) => ({
+        type: trade.type,
+        symbol: trade.symbol,
+        assetClass: trade.assetClass,
+        quantity: trade.quantity,
+        price: trade.price,
+        fees: trade.fees,
+        date: trade.date,
+        note: trade.description || undefined,
+        importId: trade.importId,
+      }))
+    );
+  }
+
+  if (cash.length > 0) {
+    addLedgerEntries(
+      cash.map((entry) => ({
+        date: entry.date,
+        amount: entry.amount,
+        description: entry.description,
+        category: categorizeLedgerEntry(entry.amount, entry.description, entry.category),
+        importId: entry.importId,
+      }))
+    );
+  }
+
+  return { trades: trades.length, cash: cash.length, duplicates: transactions.length - fresh.length };
+};
@@ -0,0 +1,325 @@
+/**
+ * Market Data Provider Abstraction
+ * Routes stock time series (intraday to monthly), quotes and company profiles through a
+ * configurable priority chain of providers. When a provider errors, is rate
+ * limited or has no data, the request falls through to the next one, and the
+ * provider that answered is recorded on the result.
+ *
+ * Priority is read from VITE_MARKET_DATA_PROVIDERS (comma separated,
+ * e.g. "alphaVantage,fmp,mock") and defaults to Alpha Vantage then FMP.
+ */
+import { getErrorMessage } from './api';
+import {
+  fetchStockTimeSeries,
+  fetchStockSeries,
+  fetchStockQuote,
+  fetchCompanyOverview,
+  aggregateSeries,
+  isIntradayInterval,
+  StockTimeSeriesData,
+  StockQuote,
+  StockInterval,
+} from './stockApi';
+import {
+  fetchCompanyProfile,
+  fetchHistoricalPrices,
+  fetchHistoricalSeries,
+  fetchQuote,
+  CompanyProfile,
+} from './financialApi';
+import { createRandom, seedFromString } from './random';
+
+export type MarketDataSource = 'alphaVantage' | 'fmp' | 'mock';
+
+export interface MarketDataProvider {
+  id: MarketDataSource;
+  name: string;
+  fetchTimeSeries: (symbol: string, outputsize: 'compact' | 'full') => Promise<StockTimeSeriesData[]>;
+  fetchSeries: (
+    symbol: string,
+    interval: StockInterval,
+    outputsize: 'compact' | 'full'
+  ) => Promise<StockTimeSeriesData[]>;
+  fetchQuote: (symbol: string) => Promise<StockQuote | null>;
+  fetchCompanyProfile: (symbol: string) => Promise<CompanyProfile | null>;
+}
+
+export interface ProviderFailure {
+  source: MarketDataSource;
+  message: string;
+}
+
+export interface MarketDataResult<T> {
+  data: T;
+  source: MarketDataSource;
+  sourceName: string;
+  failures: ProviderFailure[]; // Providers tried before `source` answered
+}
+
+const DEFAULT_PRIORITY: MarketDataSource[] = ['alphaVantage', 'fmp'];
+
+/**
+ * Alpha Vantage provider
+ */
+const alphaVantageProvider: MarketDataProvider = {
+  id: 'alphaVantage',
+  name: 'Alpha Vantage',
+  fetchTimeSeries: fetchStockTimeSeries,
+  fetchSeries: (symbol, interval, outputsize) => fetchStockSeries(symbol, interval, outputsize, true),
+  fetchQuote: fetchStockQuote,
+  fetchCompanyProfile: async (symbol) => {
+    const overview = await fetchCompanyOverview(symbol);
+    if (!overview) {
+      return null;
+    }
+
+    return {
+      symbol: overview.symbol,
+      companyName: overview.name,
+      currency: overview.currency,
+      exchange: overview.exchange,
+      industry: overview.industry,
+      sector: overview.sector,
+      marketCap: overview.marketCap,
+      description: overview.description,
+      website: overview.website,
+      ceo: '',
+      employees: overview.employees,
+    };
+  },
+};
+
+/**
+ * Financial Modeling Prep provider
+ */
+const fmpProvider: MarketDataProvider = {
+  id: 'fmp',
+  name: 'Financial Modeling Prep',
+  fetchTimeSeries: fetchHistoricalPrices,
+  fetchSeries: fetchHistoricalSeries,
+  fetchQuote,
+  fetchCompanyProfile,
+};
+
+/**
+ * Deterministic pseudo-random number source from a string seed (0..1)
+ */
+const seededRandom = (seed: string) => createRandom(seedFromString(seed)).next;
+
+/**
+ * Generate a deterministic daily series for a symbol, ending today
+ */
+const generateMockSeries = (symbol: string, points: number): StockTimeSeriesData[] => {
+  const random = seededRandom(symbol.toUpperCase());
+  let close = 50 + random() * 250;
+  const series: StockTimeSeriesData[] = [];
+  const day = new Date();
+
+  while (series.length < points) {
+    if (day.getDay() !== 0 && day.getDay() !== 6) {
+      const open = close * (1 + (random() - 0.5) * 0.02);
+      const high = Math.max(open, close) * (1 + random() * 0.01);
+      const low = Math.min(open, close) * (1 - random() * 0.01);
+      series.push({
+        date: day.toISOString().split('T')[0],
+        open: Number(open.toFixed(2)),
+        high: Number(high.toFixed(2)),
+        low: Number(low.toFixed(2)),
+        close: Number(close.toFixed(2)),
+        volume: Math.round(1000000 + random() * 50000000),
+      });
+      // Walk backwards in time
+      close = open * (1 + (random() - 0.5) * 0.03);
+    }
+    day.setDate(day.getDate() - 1);
+  }
+
+  return series.reverse();
+};
+
+/**
+ * Generate deterministic intraday bars (09:30-16:00) for the last `days` weekdays
+ */
+const generateMockIntraday = (symbol: string, stepMinutes: number, days: number): StockTimeSeriesData[] => {
+  const daily = generateMockSeries(symbol, days);
+  const random = seededRandom(`${symbol.toUpperCase()}-${stepMinutes}`);
+  const bars: StockTimeSeriesData[] = [];
+
+  daily.forEach((day) => {
+    let price = day.open;
+    const steps = Math.floor(390 / stepMinutes);
+    for (let step = 1; step <= steps; step++) {
+      // Drift towards the day's close so intraday bars agree with the daily bar
+      const target = day.open + ((day.close - day.open) * step) / steps;
+      const close = target * (1 + (random() - 0.5) * 0.004);
+      const minutes = 9 * 60 + 30 + step * stepMinutes;
+      const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+      bars.push({
+        date: `${day.date} ${time}`,
+        open: Number(price.toFixed(2)),
+        high: Number((Math.max(price, close) * (1 + random() * 0.002)).toFixed(2)),
+        low: Number((Math.min(price, close) * (1 - random() * 0.002)).toFixed(2)),
+        close: Number(close.toFixed(2)),
+        volume: Math.round((day.volume / steps) * (0.5 + random())),
+      });
+      price = close;
+    }
+  });
+
+  return bars;
+};
+
+/**
+ * Local mock provider: deterministic data per symbol, never fails
+ */
+const mockProvider: MarketDataProvider = {
+  id: 'mock',
+  name: 'Mock data',
+  fetchTimeSeries: async (symbol, outputsize) =>
+    generateMockSeries(symbol, outputsize === 'compact' ? 100 : 1000),
+  fetchSeries: async (symbol, interval, outputsize) => {
+    if (isIntradayInterval(interval)) {
+      const bars = generateMockIntraday(symbol, interval === '60min' ? 60 : parseInt(interval), 5);
+      return outputsize === 'compact' ? bars.slice(-100) : bars;
+    }
+    if (interval === 'daily') {
+      return generateMockSeries(symbol, outputsize === 'compact' ? 100 : 1000);
+    }
+    return aggregateSeries(generateMockSeries(symbol, 2600), interval);
+  },
+  fetchQuote: async (symbol) => {
+    const [previous, latest] = generateMockSeries(symbol, 2);
+    const change = latest.close - previous.close;
+    return {
+      symbol: symbol.toUpperCase(),
+      price: latest.close,
+      change: Number(change.toFixed(2)),
+      changePercent: Number(((change / previous.close) * 100).toFixed(4)),
+    };
+  },
+  fetchCompanyProfile: async (symbol) => ({
+    symbol: symbol.toUpperCase(),
+    companyName: `${symbol.toUpperCase()} Holdings (Mock)`,
+    currency: 'USD',
+    exchange: 'MOCK',
+    industry: 'Diversified',
+    sector: 'Technology',
+    marketCap: Math.round(seededRandom(symbol.toUpperCase())() * 1e12),
+    description: 'Generated placeholder profile for offline development.',
+    website: '',
+    ceo: '',
+    employees: 0,
+  }),
+};
+
+const PROVIDERS: Record<MarketDataSource, MarketDataProvider> = {
+  alphaVantage: alphaVantageProvider,
+  fmp: fmpProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Parse a comma-separated priority list, dropping unknown provider IDs
+ */
+const parsePriority = (value: string | undefined): MarketDataSource[] => {
+  if (!value) {
+    return DEFAULT_PRIORITY;
+  }
+
+  const ids = value
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id): id is MarketDataSource => id in PROVIDERS);
+  return ids.length > 0 ? ids : DEFAULT_PRIORITY;
+};
+
+let providerPriority: MarketDataSource[] = parsePriority(import.meta.env.VITE_MARKET_DATA_PROVIDERS);
+
+/**
+ * Current provider priority chain
+ */
+export const getProviderPriority = (): MarketDataSource[] => [...providerPriority];
+
+/**
+ * Replace the provider priority chain
+ * @param priority - Provider IDs, highest priority first
+ */
+export const setProviderPriority = (priority: MarketDataSource[]) => {
+  providerPriority = priority.length > 0 ? [...priority] : DEFAULT_PRIORITY;
+};
+
+/**
+ * Look up a provider by ID
+ */
+export const getMarketDataProvider = (id: MarketDataSource): MarketDataProvider => PROVIDERS[id];
+
+/**
+ * Try each provider in priority order until one returns usable data
+ */
+const runChain = async <T>(
+  label: string,
+  request: (provider: MarketDataProvider) => Promise<T | null>,
+  isUsable: (data: T) => boolean = () => true
+): Promise<MarketDataResult<T>> => {
+  const failures: ProviderFailure[] = [];
+
+  for (const id of providerPriority) {
+    const provider = PROVIDERS[id];
+    try {
+      const data = await request(provider);
+      if (data !== null && isUsable(data)) {
+        return { data, source: provider.id, sourceName: provider.name, failures };
+      }
+      failures.push({ source: provider.id, message: 'No data returned' });
+    } catch (error) {
+      failures.push({ source: provider.id, message: getErrorMessage(error) });
+    }
+  }
+
+  const details = failures.map((failure) => `${PROVIDERS[failure.source].name}: ${failure.message}`).join('; ');
+  throw new Error(`Failed to fetch ${label} from any provider (${details})`);
+};
+
+/**
+ * Fetch a daily time series through the provider chain
+ * @param symbol - Stock ticker symbol
+ * @param outputsize - 'compact' (last 100 data points) or 'full'
+ */
+export const getStockTimeSeries = (
+  symbol: string,
+  outputsize: 'compact' | 'full' = 'compact'
+): Promise<MarketDataResult<StockTimeSeriesData[]>> =>
+  runChain('stock data', (provider) => provider.fetchTimeSeries(symbol, outputsize), (data) => data.length > 0);
+
+/**
+ * Fetch an intraday, daily, weekly or monthly series through the provider chain.
+ * Providers return split/dividend-adjusted data where available (`adjustedClose`);
+ * intraday bars have no separate adjusted close and cannot be switched to raw.
+ * @param symbol - Stock ticker symbol
+ * @param interval - Bar interval
+ * @param outputsize - 'compact' (last 100 bars) or 'full'
+ */
+export const getStockSeries = (
+  symbol: string,
+  interval: StockInterval,
+  outputsize: 'compact' | 'full' = 'compact'
+): Promise<MarketDataResult<StockTimeSeriesData[]>> =>
+  runChain(
+    `${interval} stock data`,
+    (provider) => provider.fetchSeries(symbol, interval, outputsize),
+    (data) => data.length > 0
+  );
+
+/**
+ * Fetch a real-time quote through the provider chain
+ * @param symbol - Stock ticker symbol
+ */
+export const getStockQuote = (symbol: string): Promise<MarketDataResult<StockQuote>> =>
+  runChain('stock quote', (provider) => provider.fetchQuote(symbol));
+
+/**
+ * Fetch a company profile through the provider chain
+ * @param symbol - Stock ticker symbol
+ */
+export const getCompanyProfile = (symbol: string): Promise<MarketDataResult<CompanyProfile>> =>
+  runChain('company profile', (provider) => provider.fetchCompanyProfile(symbol));
@@ -0,0 +1,216 @@
+/**
+ * Monte Carlo Engine
+ * Simulates thousands of monthly return paths for a portfolio with an
+ * initial amount and monthly contributions, and summarizes them as yearly
+ * percentile bands, the probability of reaching a target, and measured
+ * (not assumed) volatility, drawdown and return distributions.
+ *
+ * Return models:
+ * - 'lognormal': monthly log returns drawn from a normal distribution whose
+ *   parameters reproduce the expected annual return and volatility
+ * - 'bootstrap': monthly returns resampled from a historical series, rescaled
+ *   to the expected return and volatility so the history contributes its
+ *   shape (fat tails, skew) rather than its level
+ *
+ * Fees and tax drag (`annualCost`) are deducted every month, so every
+ * measured figure is net of costs.
+ *
+ * Pure and synchronous: run it in a Web Worker for large path counts
+ * (see simulationRunner.ts). The same inputs and seed always produce the
+ * same result.
+ */
+import { createRandom, RandomGenerator } from './random';
+
+export type ReturnModel = 'lognormal' | 'bootstrap';
+
+export interface MonteCarloInputs {
+  initialAmount: number;
+  monthlyContribution: number; // Added at the start of each month
+  years: number;
+  annualReturn: number; // Expected annual return, decimal
+  annualVolatility: number; // Annual standard deviation, decimal
+  annualCost?: number; // Fees and tax drag taken out of returns each year, decimal (see projectionCosts.ts)
+  paths: number;
+  model: ReturnModel;
+  historicalReturns?: number[]; // Monthly simple returns, required for 'bootstrap'
+  target?: number; // Final value to reach
+  seed: number; // See random.ts
+}
+
+export interface PercentileBand {
+  year: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  seed: number;
+  bands: PercentileBand[]; // One per year, year 0 included
+  finalValue: Omit<PercentileBand, 'year'> & { mean: number };
+  totalContributed: number;
+  probabilityOfTarget: number | null; // Share of paths ending at or above the target
+  annualizedReturn: { p5: number; p50: number; p95: number }; // Time-weighted, per path
+  volatility: number; // Median measured annualized volatility
+  maxDrawdown: { p50: number; p95: number }; // Peak-to-trough decline; p95 is the worst 5%
+}
+
+// How often progress is reported, in paths
+const PROGRESS_INTERVAL = 250;
+
+// Floor for a single month's return (a total loss breaks the log math)
+const MIN_MONTHLY_RETURN = -0.99;
+
+/**
+ * Value at percentile `p` (0-100) of an ascending array, interpolated
+ */
+export const percentile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return 0;
+  const position = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const sortedCopy = (values: Float64Array) => Float64Array.from(values).sort();
+
+/**
+ * Monthly simple returns from a price series (oldest first)
+ */
+export const monthlyReturnsFromPrices = (prices: number[]): number[] =>
+  prices.slice(1).map((price, i) => price / prices[i] - 1).filter((value) => Number.isFinite(value));
+
+/**
+ * Build the monthly return sampler for a model
+ */
+const createReturnSampler = (inputs: MonteCarloInputs, random: RandomGenerator): (() => number) => {
+  if (inputs.model === 'bootstrap') {
+    const history = (inputs.historicalReturns || []).filter((value) => Number.isFinite(value));
+    if (history.length < 12) {
+      throw new Error('Bootstrapping needs at least 12 months of historical returns');
+    }
+
+    const mean = history.reduce((sum, value) => sum + value, 0) / history.length;
+    const sd = Math.sqrt(history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (history.length - 1)) || 1;
+    const standardized = history.map((value) => (value - mean) / sd);
+    const targetMean = Math.pow(1 + inputs.annualReturn, 1 / 12) - 1;
+    const targetSd = inputs.annualVolatility / Math.sqrt(12);
+
+    return () => {
+      const z = standardized[random.integer(standardized.length)];
+      return Math.max(MIN_MONTHLY_RETURN, targetMean + targetSd * z);
+    };
+  }
+
+  // Lognormal parameters whose mean growth is 1 + annualReturn
+  const sigma = Math.sqrt(Math.log(1 + (inputs.annualVolatility / (1 + inputs.annualReturn)) ** 2));
+  const mu = Math.log(1 + inputs.annualReturn) - (sigma * sigma) / 2;
+  const monthlyMu = mu / 12;
+  const monthlySigma = sigma / Math.sqrt(12);
+  return () => Math.max(MIN_MONTHLY_RETURN, Math.exp(monthlyMu + monthlySigma * random.normal()) - 1);
+};
+
+/**
+ * Run the simulation
+ * @param onProgress - Called with the number of completed paths
+ * @throws Error if the inputs are invalid
+ */
+export const runMonteCarlo = (
+  inputs: MonteCarloInputs,
+  onProgress?: (completed: number) => void
+): MonteCarloResult => {
+  const years = Math.floor(inputs.years);
+  const paths = Math.floor(inputs.paths);
+  if (years < 1) throw new Error('Simulate at least one year');
+  if (paths < 1) throw new Error('Simulate at least one path');
+
+  const random = createRandom(inputs.seed);
+  const sample = createReturnSampler(inputs, random);
+  const months = years * 12;
+  const monthlyCostFactor = Math.pow(1 - Math.min(Math.max(inputs.annualCost || 0, 0), 1), 1 / 12);
+
+  const yearlyValues = new Float64Array(paths * (years + 1));
+  const annualizedReturns = new Float64Array(paths);
+  const volatilities = new Float64Array(paths);
+  const drawdowns = new Float64Array(paths);
+
+  for (let path = 0; path < paths; path++) {
+    const offset = path * (years + 1);
+    let value = inputs.initialAmount;
+    // Growth of one unit invested: drawdown and return exclude contributions
+    let index = 1;
+    let peak = 1;
+    let worst = 0;
+    let sum = 0;
+    let sumSquares = 0;
+    yearlyValues[offset] = value;
+
+    for (let month = 0; month < months; month++) {
+      const r = (1 + sample()) * monthlyCostFactor - 1;
+      value = (value + inputs.monthlyContribution) * (1 + r);
+      index *= 1 + r;
+      if (index > peak) peak = index;
+      worst = Math.max(worst, 1 - index / peak);
+      sum += r;
+      sumSquares += r * r;
+
+      if (month % 12 === 11) yearlyValues[offset + (month + 1) / 12] = value;
+    }
+
+    const mean = sum / months;
+    const variance = months > 1 ? (sumSquares - months * mean * mean) / (months - 1) : 0;
+    annualizedReturns[path] = Math.pow(index, 1 / years) - 1;
+    volatilities[path] = Math.sqrt(Math.max(variance, 0) * 12);
+    drawdowns[path] = worst;
+
+    if (onProgress && ((path + 1) % PROGRESS_INTERVAL === 0 || path + 1 === paths)) onProgress(path + 1);
+  }
+
+  const bands: PercentileBand[] = [];
+  const column = new Float64Array(paths);
+  for (let year = 0; year <= years; year++) {
+    for (let path = 0; path < paths; path++) column[path] = yearlyValues[path * (years + 1) + year];
+    const sorted = sortedCopy(column);
+    bands.push({
+      year,
+      p5: percentile(sorted, 5),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p95: percentile(sorted, 95),
+    });
+  }
+
+  const finals = sortedCopy(column);
+  const last = bands[years];
+  const sortedReturns = sortedCopy(annualizedReturns);
+  const sortedDrawdowns = sortedCopy(drawdowns);
+  const target = inputs.target;
+
+  return {
+    paths,
+    seed: inputs.seed,
+    bands,
+    finalValue: {
+      p5: last.p5,
+      p25: last.p25,
+      p50: last.p50,
+      p75: last.p75,
+      p95: last.p95,
+      mean: finals.reduce((total, value) => total + value, 0) / paths,
+    },
+    totalContributed: inputs.initialAmount + inputs.monthlyContribution * months,
+    probabilityOfTarget:
+      target && target > 0 ? finals.filter((value) => value >= target).length / paths : null,
+    annualizedReturn: {
+      p5: percentile(sortedReturns, 5),
+      p50: percentile(sortedReturns, 50),
+      p95: percentile(sortedReturns, 95),
+    },
+    volatility: percentile(sortedCopy(volatilities), 50),
+    maxDrawdown: { p50: percentile(sortedDrawdowns, 50), p95: percentile(sortedDrawdowns, 95) },
+  };
+};
@@ -0,0 +1,559 @@
+/**
+ * Portfolio Holdings
+ * Transaction-based portfolio model: buys open tax lots, sells close them
+ * first-in first-out. Positions, cost basis, realized and unrealized P&L and
+ * allocations are all derived from the transaction list, which is stored in
+ * localStorage.
+ *
+ * Conventions:
+ * - Buy fees are added to the lot's cost basis
+ * - Sell fees reduce the sale proceeds
+ * - Stocks and ETFs are valued through the market data provider chain,
+ *   crypto through CoinGecko (IDs such as 'bitcoin'), cash at 1.00
+ */
+import { getStockQuote, getCompanyProfile, getStockSeries } from './marketData';
+import { fetchCryptocurrencies, fetchCryptoHistory } from './cryptoApi';
+import { getErrorMessage } from './api';
+import { PricePoint } from './comparison';
+import { calculateReturns, CashFlow, ReturnSummary, ValuationPoint } from './returns';
+
+export type AssetClass = 'stock' | 'etf' | 'crypto' | 'bond' | 'cash' | 'other';
+
+export type TransactionType = 'buy' | 'sell';
+
+export interface PortfolioTransaction {
+  id: string;
+  type: TransactionType;
+  symbol: string; // Ticker, or CoinGecko ID for crypto
+  assetClass: AssetClass;
+  quantity: number;
+  price: number; // Per unit, USD
+  fees: number;
+  date: string; // 'YYYY-MM-DD'
+  note?: string;
+  importId?: string; // Fingerprint of the imported statement row, used to skip re-imports
+}
+
+export interface TaxLot {
+  transactionId: string;
+  symbol: string;
+  date: string;
+  quantity: number; // Remaining open quantity
+  price: number;
+  costBasis: number; // Remaining cost including buy fees
+}
+
+export interface RealizedGain {
+  symbol: string;
+  assetClass: AssetClass;
+  quantity: number;
+  openDate: string;
+  closeDate: string;
+  proceeds: number; // Net of sell fees
+  costBasis: number;
+  gain: number;
+}
+
+export interface Position {
+  symbol: string;
+  assetClass: AssetClass;
+  quantity: number;
+  costBasis: number;
+  averageCost: number;
+  lots: TaxLot[];
+  realizedPnl: number;
+}
+
+export interface PriceQuote {
+  price: number;
+  changePercent: number | null;
+  sector?: string;
+}
+
+export interface ValuedPosition extends Position {
+  price: number | null; // null when no quote could be loaded
+  marketValue: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  dayChangePercent: number | null;
+  sector: string;
+  weight: number; // Share of total market value (0..1)
+}
+
+export interface PortfolioSummary {
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalPnl: number;
+}
+
+export interface AllocationSlice {
+  name: string;
+  value: number;
+  weight: number;
+}
+
+type PortfolioListener = (transactions: PortfolioTransaction[]) => void;
+
+const STORAGE_KEY = 'valunetics-portfolio';
+
+// Quantities below this are treated as fully closed (floating point dust)
+const QUANTITY_EPSILON = 1e-9;
+
+// CoinGecko's public API serves at most a year of daily history
+const MAX_CRYPTO_HISTORY_DAYS = 365;
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  stock: 'Stocks',
+  etf: 'ETFs',
+  crypto: 'Crypto',
+  bond: 'Bonds',
+  cash: 'Cash',
+  other: 'Other',
+};
+
+const listeners = new Set<PortfolioListener>();
+
+const readStorage = (): PortfolioTransaction[] => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as PortfolioTransaction[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+let transactions: PortfolioTransaction[] = readStorage();
+
+const saveTransactions = (next: PortfolioTransaction[]) => {
+  transactions = next;
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+    }
+  } catch {
+    // Storage full or unavailable: keep the in-memory copy only
+  }
+  listeners.forEach((listener) => listener(getTransactions()));
+};
+
+/**
+ * Normalize a symbol: tickers are uppercase, CoinGecko IDs lowercase
+ */
+export const normalizePortfolioSymbol = (assetClass: AssetClass, symbol: string) =>
+  assetClass === 'crypto' ? symbol.trim().toLowerCase() : symbol.trim().toUpperCase();
+
+/**
+ * Sort transactions chronologically; buys before sells on the same day
+ */
+const sortTransactions = (list: PortfolioTransaction[]) =>
+  [...list].sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'buy' ? -1 : 1));
+
+/**
+ * All transactions, oldest first
+ */
+export const getTransactions = (): PortfolioTransaction[] => sortTransactions(transactions);
+
+/**
+ * Validate and record transactions
+ * @throws Error if a transaction is invalid or a sell exceeds the open quantity
+ */
+export const addTransactions = (inputs: Array<Omit<PortfolioTransaction, 'id'>>): PortfolioTransaction[] => {
+  const added = inputs.map((input, index) => {
+    const symbol = normalizePortfolioSymbol(input.assetClass, input.symbol);
+    if (!symbol) throw new Error('Symbol is required');
+    if (!(input.quantity > 0)) throw new Error(`Quantity must be positive (${symbol})`);
+    if (!(input.price >= 0)) throw new Error(`Price cannot be negative (${symbol})`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) throw new Error(`Invalid date for ${symbol}`);
+
+    return {
+      ...input,
+      symbol,
+      fees: input.fees > 0 ? input.fees : 0,
+      id: `txn-${Date.now().toString(36)}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+    };
+  });
+
+  const next = [...transactions, ...added];
+  // Replaying the ledger throws if any sell exceeds the open position
+  computePositions(next);
+  saveTransactions(next);
+  return added;
+};
+
+export const addTransaction = (input: Omit<PortfolioTransaction, 'id'>): PortfolioTransaction =>
+  addTransactions([input])[0];
+
+/**
+ * Delete a transaction
+ * @throws Error if removing a buy would leave a later sell uncovered
+ */
+export const deleteTransaction = (id: string) => {
+  const next = transactions.filter((transaction) => transaction.id !== id);
+  computePositions(next);
+  saveTransactions(next);
+};
+
+/**
+ * Subscribe to transaction changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToPortfolio = (listener: PortfolioListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Replay transactions into open positions (FIFO lot relief) and realized gains
+ * @throws Error when a sell exceeds the open quantity
+ */
+export const computePositions = (
+  list: PortfolioTransaction[]
+): { positions: Position[]; realized: RealizedGain[] } => {
+  const lotsBySymbol = new Map<string, { assetClass: AssetClass; lots: TaxLot[]; realizedPnl: number }>();
+  const realized: RealizedGain[] = [];
+
+  sortTransactions(list).forEach((transaction) => {
+    const key = `${transaction.assetClass}:${transaction.symbol}`;
+    const entry = lotsBySymbol.get(key) || { assetClass: transaction.assetClass, lots: [], realizedPnl: 0 };
+    lotsBySymbol.set(key, entry);
+
+    if (transaction.type === 'buy') {
+      entry.lots.push({
+        transactionId: transaction.id,
+        symbol: transaction.symbol,
+        date: transaction.date,
+        quantity: transaction.quantity,
+        price: transaction.price,
+        costBasis: transaction.quantity * transaction.price + transaction.fees,
+      });
+      return;
+    }
+
+    const open = entry.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (transaction.quantity > open + QUANTITY_EPSILON) {
+      throw new Error(
+        `Cannot sell ${transaction.quantity} ${transaction.symbol} on ${transaction.date}: only ${open} held`
+      );
+    }
+
+    let remaining = transaction.quantity;
+    const proceedsPerUnit = (transaction.quantity * transaction.price - transaction.fees) / transaction.quantity;
+
+    while (remaining > QUANTITY_EPSILON && entry.lots.length > 0) {
+      const lot = entry.lots[0];
+      const closed = Math.min(lot.quantity, remaining);
+      const cost = lot.costBasis * (closed / lot.quantity);
+      const proceeds = proceedsPerUnit * closed;
+
+      realized.push({
+        symbol: transaction.symbol,
+        assetClass: transaction.assetClass,
+        quantity: closed,
+        openDate: lot.date,
+        closeDate: transaction.date,
+        proceeds,
+        costBasis: cost,
+        gain: proceeds - cost,
+      });
+      entry.realizedPnl += proceeds - cost;
+
+      lot.quantity -= closed;
+      lot.costBasis -= cost;
+      remaining -= closed;
+      if (lot.quantity <= QUANTITY_EPSILON) {
+        entry.lots.shift();
+      }
+    }
+  });
+
+  const positions: Position[] = [];
+  lotsBySymbol.forEach((entry, key) => {
+    const quantity = entry.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const costBasis = entry.lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+    const symbol = key.slice(key.indexOf(':') + 1);
+    if (quantity <= QUANTITY_EPSILON && entry.realizedPnl === 0) return;
+
+    positions.push({
+      symbol,
+      assetClass: entry.assetClass,
+      quantity: quantity > QUANTITY_EPSILON ? quantity : 0,
+      costBasis,
+      averageCost: quantity > QUANTITY_EPSILON ? costBasis / quantity : 0,
+      lots: entry.lots,
+      realizedPnl: entry.realizedPnl,
+    });
+  });
+
+  return { positions, realized };
+};
+
+/**
+ * Load current prices (and, if asked, stock sectors) for open positions.
+ * Symbols that fail to load are reported in `errors` and left unpriced.
+ * @param positions - Positions to price
+ * @param includeSectors - Also load company profiles for stock sectors (one more call per uncached stock)
+ */
+export const fetchPortfolioQuotes = async (
+  positions: Position[],
+  includeSectors: boolean = false
+): Promise<{ quotes: Record<string, PriceQuote>; errors: string[] }> => {
+  const quotes: Record<string, PriceQuote> = {};
+  const errors: string[] = [];
+  const open = positions.filter((position) => position.quantity > 0);
+  const keyOf = (position: Position) => `${position.assetClass}:${position.symbol}`;
+
+  const listed = open.filter((position) => position.assetClass === 'stock' || position.assetClass === 'etf');
+  const crypto = open.filter((position) => position.assetClass === 'crypto');
+
+  const listedRequests = listed.map(async (position) => {
+    try {
+      const [{ data: quote }, profile] = await Promise.all([
+        getStockQuote(position.symbol),
+        // Sector is a nice-to-have: never fail the valuation over it
+        includeSectors && position.assetClass === 'stock' ? getCompanyProfile(position.symbol).catch(() => null) : Promise.resolve(null),
+      ]);
+      quotes[keyOf(position)] = {
+        price: quote.price,
+        changePercent: quote.changePercent,
+        sector: profile?.data.sector || undefined,
+      };
+    } catch (error) {
+      errors.push(`${position.symbol}: ${getErrorMessage(error)}`);
+    }
+  });
+
+  const cryptoRequest = (async () => {
+    if (crypto.length === 0) return;
+    try {
+      const coins = await fetchCryptocurrencies(crypto.map((position) => position.symbol));
+      crypto.forEach((position) => {
+        const coin = coins.find((candidate) => candidate.id === position.symbol);
+        if (coin) {
+          quotes[keyOf(position)] = { price: coin.current_price, changePercent: coin.price_change_percentage_24h };
+        } else {
+          errors.push(`${position.symbol}: unknown CoinGecko ID`);
+        }
+      });
+    } catch (error) {
+      errors.push(`Crypto: ${getErrorMessage(error)}`);
+    }
+  })();
+
+  open
+    .filter((position) => position.assetClass === 'cash')
+    .forEach((position) => {
+      quotes[keyOf(position)] = { price: 1, changePercent: 0 };
+    });
+
+  await Promise.all([...listedRequests, cryptoRequest]);
+  return { quotes, errors };
+};
+
+/**
+ * Value positions at the given quotes. Unpriced positions are carried at cost.
+ */
+export const valuePositions = (positions: Position[], quotes: Record<string, PriceQuote>): ValuedPosition[] => {
+  const valued = positions
+    .filter((position) => position.quantity > 0)
+    .map((position) => {
+      const quote = quotes[`${position.assetClass}:${position.symbol}`];
+      const marketValue = quote ? quote.price * position.quantity : position.costBasis;
+      const unrealizedPnl = marketValue - position.costBasis;
+
+      return {
+        ...position,
+        price: quote ? quote.price : null,
+        marketValue,
+        unrealizedPnl,
+        unrealizedPnlPercent: position.costBasis > 0 ? (unrealizedPnl / position.costBasis) * 100 : 0,
+        dayChangePercent: quote ? quote.changePercent : null,
+        sector: quote?.sector || (position.assetClass === 'stock' ? 'Unclassified' : ASSET_CLASS_LABELS[position.assetClass]),
+        weight: 0,
+      };
+    });
+
+  const total = valued.reduce((sum, position) => sum + position.marketValue, 0);
+  return valued.map((position) => ({ ...position, weight: total > 0 ? position.marketValue / total : 0 }));
+};
+
+/**
+ * Portfolio totals
+ */
+export const summarizePortfolio = (valued: ValuedPosition[], realized: RealizedGain[]): PortfolioSummary => {
+  const marketValue = valued.reduce((sum, position) => sum + position.marketValue, 0);
+  const costBasis = valued.reduce((sum, position) => sum + position.costBasis, 0);
+  const realizedPnl = realized.reduce((sum, gain) => sum + gain.gain, 0);
+
+  return {
+    marketValue,
+    costBasis,
+    unrealizedPnl: marketValue - costBasis,
+    realizedPnl,
+    totalPnl: marketValue - costBasis + realizedPnl,
+  };
+};
+
+/**
+ * Group market value by asset class or sector, largest first
+ */
+export const computeAllocation = (valued: ValuedPosition[], groupBy: 'assetClass' | 'sector'): AllocationSlice[] => {
+  const totals = new Map<string, number>();
+  valued.forEach((position) => {
+    const name = groupBy === 'assetClass' ? ASSET_CLASS_LABELS[position.assetClass] : position.sector;
+    totals.set(name, (totals.get(name) || 0) + position.marketValue);
+  });
+
+  const total = valued.reduce((sum, position) => sum + position.marketValue, 0);
+  return Array.from(totals.entries())
+    .map(([name, value]) => ({ name, value, weight: total > 0 ? value / total : 0 }))
+    .sort((a, b) => b.value - a.value);
+};
+
+const positionKey = (item: { assetClass: AssetClass; symbol: string }) => `${item.assetClass}:${item.symbol}`;
+
+const previousDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().split('T')[0];
+};
+
+/**
+ * External cash flows of the holdings: buys add money (cost plus fees),
+ * sells take it out (proceeds net of fees)
+ */
+export const portfolioCashFlows = (list: PortfolioTransaction[]): CashFlow[] =>
+  sortTransactions(list).map((transaction) => ({
+    date: transaction.date,
+    amount:
+      transaction.type === 'buy'
+        ? transaction.quantity * transaction.price + transaction.fees
+        : -(transaction.quantity * transaction.price - transaction.fees),
+  }));
+
+/**
+ * Load daily closing prices for everything the transactions ever held, so
+ * the portfolio can be valued on past dates. Cash needs no history.
+ */
+export const fetchPortfolioHistories = async (
+  list: PortfolioTransaction[]
+): Promise<{ histories: Record<string, PricePoint[]>; errors: string[] }> => {
+  const histories: Record<string, PricePoint[]> = {};
+  const errors: string[] = [];
+  const firstDate = sortTransactions(list)[0]?.date;
+  if (!firstDate) return { histories, errors };
+
+  const held = new Map<string, PortfolioTransaction>();
+  list.forEach((transaction) => held.set(positionKey(transaction), transaction));
+  const cryptoDays = Math.min(
+    MAX_CRYPTO_HISTORY_DAYS,
+    Math.ceil((Date.now() - Date.parse(`${firstDate}T00:00:00Z`)) / 86400000) + 1
+  );
+
+  await Promise.all(
+    Array.from(held.entries()).map(async ([key, { assetClass, symbol }]) => {
+      if (assetClass === 'cash') return;
+      try {
+        if (assetClass === 'crypto') {
+          histories[key] = (await fetchCryptoHistory(symbol, cryptoDays)).map((point) => ({
+            date: point.date,
+            close: point.price,
+          }));
+        } else if (assetClass === 'stock' || assetClass === 'etf') {
+          histories[key] = (await getStockSeries(symbol, 'daily', 'full')).data.map((bar) => ({
+            date: bar.date,
+            close: bar.close,
+          }));
+        }
+      } catch (error) {
+        errors.push(`${symbol}: ${getErrorMessage(error)}`);
+      }
+    })
+  );
+
+  return { histories, errors };
+};
+
+/**
+ * Value the holdings on every transaction date and every date with price
+ * history. Prices fall back to the latest trade price when no close is
+ * known (bonds, other assets, or gaps in the history). A zero valuation the
+ * day before the first trade makes the first buy a contribution.
+ */
+export const buildPortfolioValuations = (
+  list: PortfolioTransaction[],
+  histories: Record<string, PricePoint[]>
+): ValuationPoint[] => {
+  const sorted = sortTransactions(list);
+  if (sorted.length === 0) return [];
+
+  const firstDate = sorted[0].date;
+  const closes = new Map<string, PricePoint[]>();
+  Object.entries(histories).forEach(([key, points]) => {
+    closes.set(key, [...points].filter((point) => point.close > 0).sort((a, b) => a.date.localeCompare(b.date)));
+  });
+
+  const dates = new Set<string>(sorted.map((transaction) => transaction.date));
+  closes.forEach((points) => points.forEach((point) => point.date >= firstDate && dates.add(point.date)));
+
+  const quantities = new Map<string, number>();
+  const prices = new Map<string, number>();
+  const cursors = new Map<string, number>();
+  const assetClasses = new Map<string, AssetClass>();
+  let next = 0;
+
+  const valuations: ValuationPoint[] = [{ date: previousDay(firstDate), value: 0 }];
+  Array.from(dates)
+    .sort()
+    .forEach((date) => {
+      while (next < sorted.length && sorted[next].date <= date) {
+        const transaction = sorted[next++];
+        const key = positionKey(transaction);
+        const sign = transaction.type === 'buy' ? 1 : -1;
+        quantities.set(key, (quantities.get(key) || 0) + sign * transaction.quantity);
+        prices.set(key, transaction.price);
+        assetClasses.set(key, transaction.assetClass);
+      }
+
+      let value = 0;
+      quantities.forEach((quantity, key) => {
+        if (quantity <= QUANTITY_EPSILON) return;
+
+        const points = closes.get(key);
+        if (points) {
+          let cursor = cursors.get(key) ?? -1;
+          while (cursor + 1 < points.length && points[cursor + 1].date <= date) cursor++;
+          cursors.set(key, cursor);
+          if (cursor >= 0) prices.set(key, points[cursor].close);
+        }
+        const price = assetClasses.get(key) === 'cash' ? 1 : prices.get(key) || 0;
+        value += quantity * price;
+      });
+
+      valuations.push({ date, value });
+    });
+
+  return valuations;
+};
+
+/**
+ * TWR, XIRR and modified Dietz for the holdings. The current market value
+ * (from live quotes) closes the series at `asOf`.
+ */
+export const computePortfolioReturns = (
+  list: PortfolioTransaction[],
+  histories: Record<string, PricePoint[]>,
+  marketValue: number,
+  asOf: string,
+  startDate?: string
+): ReturnSummary | null => {
+  const valuations = buildPortfolioValuations(list, histories).filter((point) => point.date < asOf);
+  if (valuations.length === 0) return null;
+  valuations.push({ date: asOf, value: marketValue });
+
+  return calculateReturns(valuations, portfolioCashFlows(list), startDate, asOf);
+};
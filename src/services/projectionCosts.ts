@@ -0,0 +1,101 @@
+/**
+ * Projection Costs
+ * Inflation, fees and taxes applied to long-term projections, shared by the
+ * investment simulator and the retirement projection.
+ *
+ * Model:
+ * - Expense ratio and advisory fee are charged on assets, spread evenly over the year
+ * - Taxable accounts lose part of each year's gain to tax: the share of the
+ *   gain realized every year (dividends, fund turnover) times the tax rate
+ * - Tax-deferred accounts grow untaxed; the whole balance is taxed on withdrawal
+ * - Tax-free accounts are never taxed
+ * - Real values are nominal values deflated by constant inflation
+ *
+ * Inputs are percentages; rates returned are decimals (0.05 = 5%).
+ */
+
+export type AccountType = 'taxable' | 'taxDeferred' | 'taxFree';
+
+export type DollarMode = 'nominal' | 'real';
+
+export interface ProjectionCosts {
+  inflationRate: number; // Annual percent
+  expenseRatio: number; // Annual percent of assets
+  advisoryFee: number; // Annual percent of assets
+  accountType: AccountType;
+  taxRate: number; // Percent: on realized gains (taxable) or on withdrawals (tax-deferred)
+  realizedGainShare: number; // Percent of each year's gain taxed in a taxable account
+}
+
+export const DEFAULT_PROJECTION_COSTS: ProjectionCosts = {
+  inflationRate: 2.5,
+  expenseRatio: 0.1,
+  advisoryFee: 0,
+  accountType: 'taxDeferred',
+  taxRate: 22,
+  realizedGainShare: 40,
+};
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  taxable: 'Taxable',
+  taxDeferred: 'Tax-deferred (401(k), traditional IRA)',
+  taxFree: 'Tax-free (Roth)',
+};
+
+/**
+ * Annual fees charged on assets, decimal
+ */
+export const annualFees = (costs: ProjectionCosts): number =>
+  (Math.max(costs.expenseRatio, 0) + Math.max(costs.advisoryFee, 0)) / 100;
+
+/**
+ * Return lost to tax each year in a taxable account, decimal
+ * @param grossReturn - Expected annual return before costs, decimal
+ */
+export const annualTaxDrag = (grossReturn: number, costs: ProjectionCosts): number => {
+  if (costs.accountType !== 'taxable') return 0;
+  const gain = Math.max(grossReturn - annualFees(costs), 0);
+  return gain * (Math.max(costs.realizedGainShare, 0) / 100) * (Math.max(costs.taxRate, 0) / 100);
+};
+
+/**
+ * Everything deducted from returns each year: fees plus tax drag, decimal
+ */
+export const annualCostDrag = (grossReturn: number, costs: ProjectionCosts): number =>
+  annualFees(costs) + annualTaxDrag(grossReturn, costs);
+
+/**
+ * Expected annual return after fees and tax drag, decimal
+ */
+export const netAnnualReturn = (grossReturn: number, costs: ProjectionCosts): number =>
+  grossReturn - annualCostDrag(grossReturn, costs);
+
+/**
+ * What a balance is worth once withdrawn: tax-deferred balances are taxed in full
+ */
+export const afterTaxValue = (value: number, costs: ProjectionCosts): number =>
+  costs.accountType === 'taxDeferred' ? value * (1 - Math.max(costs.taxRate, 0) / 100) : value;
+
+/**
+ * Growth of prices over `years`
+ */
+export const inflationFactor = (years: number, costs: ProjectionCosts): number =>
+  Math.pow(1 + costs.inflationRate / 100, years);
+
+/**
+ * Convert a value `years` from now into today's dollars
+ */
+export const toRealValue = (value: number, years: number, costs: ProjectionCosts): number =>
+  value / inflationFactor(years, costs);
+
+/**
+ * Convert a nominal rate into a real (inflation-adjusted) rate, decimal
+ */
+export const toRealRate = (rate: number, costs: ProjectionCosts): number =>
+  (1 + rate) / (1 + costs.inflationRate / 100) - 1;
+
+/**
+ * Express a value in the chosen dollars
+ */
+export const inDollars = (value: number, years: number, mode: DollarMode, costs: ProjectionCosts): number =>
+  mode === 'real' ? toRealValue(value, years, costs) : value;
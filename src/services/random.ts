@@ -0,0 +1,91 @@
+/**
+ * Seeded Random Numbers
+ * Deterministic pseudo-random generator for all simulation code: the same
+ * seed always produces the same sequence, so a simulation can be reproduced
+ * exactly from its inputs and seed. Not suitable for anything security
+ * related.
+ *
+ * Seeds are unsigned 32-bit integers.
+ */
+
+export interface RandomGenerator {
+  seed: number;
+  next: () => number; // Uniform float in [0, 1)
+  normal: () => number; // Standard normal
+  integer: (maxExclusive: number) => number; // Uniform integer in [0, maxExclusive)
+}
+
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Normalize any number to a valid seed
+ */
+export const normalizeSeed = (seed: number): number => (Number.isFinite(seed) ? Math.floor(Math.abs(seed)) % (MAX_SEED + 1) : 0);
+
+/**
+ * Parse a seed typed by a user; null when it is not a whole number in range
+ */
+export const parseSeed = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= MAX_SEED ? seed : null;
+};
+
+/**
+ * Stable seed derived from text (FNV-1a), for data that must look the same
+ * every time it is generated for the same key
+ */
+export const seedFromString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * A fresh seed for a new, unrelated run. This is the only place simulation
+ * code touches Math.random: everything downstream derives from the seed.
+ */
+export const createSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+/**
+ * Create a generator (mulberry32, with Box-Muller normals)
+ */
+export const createRandom = (seed: number): RandomGenerator => {
+  const normalized = normalizeSeed(seed);
+  let state = normalized;
+  let spare: number | null = null;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const normal = () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    const angle = 2 * Math.PI * next();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+
+  return {
+    seed: normalized,
+    next,
+    normal,
+    integer: (maxExclusive: number) => Math.floor(next() * maxExclusive),
+  };
+};
+
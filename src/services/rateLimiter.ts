@@ -0,0 +1,308 @@
+/**
+ * Client-side Rate Limiter
+ * Token-bucket scheduler that knows each provider's published quota,
+ * queues and paces outbound calls, and exposes the remaining budget to the UI
+ *
+ * Published limits:
+ * - Alpha Vantage: 5 calls per minute, 500 calls per day
+ * - Financial Modeling Prep: 250 calls per day
+ * - CoinGecko: 10-50 calls per minute (we use the conservative lower bound)
+ * - exchangerate.host: no official limit (we self-limit to 30 calls per minute)
+ */
+
+export type ProviderId = 'alphaVantage' | 'fmp' | 'coinGecko' | 'exchangeRate';
+
+export interface QuotaWindow {
+  limit: number;
+  intervalMs: number;
+}
+
+export interface ProviderConfig {
+  name: string;
+  host: string;
+  windows: QuotaWindow[];
+}
+
+export interface BudgetWindow extends QuotaWindow {
+  remaining: number;
+}
+
+export interface ProviderBudget {
+  provider: ProviderId;
+  name: string;
+  windows: BudgetWindow[];
+  queued: number;
+  blockedUntil: number | null;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Longest time a request may wait in the queue before failing fast
+const MAX_QUEUE_WAIT_MS = 2 * MINUTE;
+
+// Windows this long are persisted so a reload does not reset the daily quota
+const PERSISTED_WINDOW_MS = HOUR;
+const STORAGE_KEY = 'valunetics-rate-limits';
+
+export const PROVIDER_LIMITS: Record<ProviderId, ProviderConfig> = {
+  alphaVantage: {
+    name: 'Alpha Vantage',
+    host: 'alphavantage.co',
+    windows: [
+      { limit: 5, intervalMs: MINUTE },
+      { limit: 500, intervalMs: DAY },
+    ],
+  },
+  fmp: {
+    name: 'Financial Modeling Prep',
+    host: 'financialmodelingprep.com',
+    windows: [{ limit: 250, intervalMs: DAY }],
+  },
+  coinGecko: {
+    name: 'CoinGecko',
+    host: 'coingecko.com',
+    windows: [{ limit: 10, intervalMs: MINUTE }],
+  },
+  exchangeRate: {
+    name: 'exchangerate.host',
+    host: 'exchangerate.host',
+    windows: [{ limit: 30, intervalMs: MINUTE }],
+  },
+};
+
+/**
+ * Thrown when a provider's quota is exhausted, either locally or as reported
+ * by the provider itself
+ */
+export class RateLimitedError extends Error {
+  readonly provider: ProviderId;
+  readonly retryAfterMs: number;
+
+  constructor(provider: ProviderId, retryAfterMs: number) {
+    const seconds = Math.ceil(retryAfterMs / 1000);
+    const wait = seconds >= 3600
+      ? `${Math.ceil(seconds / 3600)}h`
+      : seconds >= 60
+        ? `${Math.ceil(seconds / 60)}m`
+        : `${seconds}s`;
+    super(`${PROVIDER_LIMITS[provider].name} rate limit reached. Please try again in ${wait}.`);
+    this.name = 'RateLimitedError';
+    this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface ProviderState {
+  buckets: BucketState[];
+  queue: Promise<void>;
+  queued: number;
+  blockedUntil: number;
+}
+
+type BudgetListener = (budgets: ProviderBudget[]) => void;
+
+const listeners = new Set<BudgetListener>();
+
+/**
+ * Load persisted bucket state for long windows
+ */
+const loadPersistedBuckets = (): Partial<Record<ProviderId, BucketState[]>> => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const createProviderState = (
+  provider: ProviderId,
+  persisted: Partial<Record<ProviderId, BucketState[]>>
+): ProviderState => ({
+  buckets: PROVIDER_LIMITS[provider].windows.map((window, index) => {
+    const saved = persisted[provider]?.[index];
+    if (window.intervalMs >= PERSISTED_WINDOW_MS && saved) {
+      return { tokens: Math.min(saved.tokens, window.limit), updatedAt: saved.updatedAt };
+    }
+    return { tokens: window.limit, updatedAt: Date.now() };
+  }),
+  queue: Promise.resolve(),
+  queued: 0,
+  blockedUntil: 0,
+});
+
+const providerStates: Record<ProviderId, ProviderState> = (() => {
+  const persisted = loadPersistedBuckets();
+  return {
+    alphaVantage: createProviderState('alphaVantage', persisted),
+    fmp: createProviderState('fmp', persisted),
+    coinGecko: createProviderState('coinGecko', persisted),
+    exchangeRate: createProviderState('exchangeRate', persisted),
+  };
+})();
+
+const persistBuckets = () => {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    const snapshot: Partial<Record<ProviderId, BucketState[]>> = {};
+    (Object.keys(providerStates) as ProviderId[]).forEach((provider) => {
+      snapshot[provider] = providerStates[provider].buckets;
+    });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+  } catch {
+    // Storage full or unavailable: fall back to in-memory limits only
+  }
+};
+
+/**
+ * Refill every bucket for a provider based on elapsed time
+ */
+const refill = (provider: ProviderId, now: number) => {
+  const { windows } = PROVIDER_LIMITS[provider];
+  providerStates[provider].buckets.forEach((bucket, index) => {
+    const { limit, intervalMs } = windows[index];
+    const elapsed = now - bucket.updatedAt;
+    bucket.tokens = Math.min(limit, bucket.tokens + (elapsed * limit) / intervalMs);
+    bucket.updatedAt = now;
+  });
+};
+
+/**
+ * Milliseconds until every bucket (and any provider-reported block) allows one call
+ */
+const msUntilAvailable = (provider: ProviderId, now: number): number => {
+  const { windows } = PROVIDER_LIMITS[provider];
+  const state = providerStates[provider];
+  const bucketWait = state.buckets.reduce((wait, bucket, index) => {
+    if (bucket.tokens >= 1) return wait;
+    const { limit, intervalMs } = windows[index];
+    return Math.max(wait, Math.ceil(((1 - bucket.tokens) * intervalMs) / limit));
+  }, 0);
+  return Math.max(bucketWait, state.blockedUntil - now, 0);
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const notifyListeners = () => {
+  const budgets = getRateLimitBudgets();
+  listeners.forEach((listener) => listener(budgets));
+};
+
+/**
+ * Wait for a token, consuming it once available
+ */
+const waitForToken = async (provider: ProviderId): Promise<void> => {
+  for (;;) {
+    const now = Date.now();
+    refill(provider, now);
+    const wait = msUntilAvailable(provider, now);
+
+    if (wait === 0) {
+      providerStates[provider].buckets.forEach((bucket) => {
+        bucket.tokens -= 1;
+      });
+      persistBuckets();
+      return;
+    }
+
+    if (wait > MAX_QUEUE_WAIT_MS) {
+      throw new RateLimitedError(provider, wait);
+    }
+
+    await sleep(wait);
+  }
+};
+
+/**
+ * Resolve which provider a request URL belongs to
+ * @param url - Absolute request URL
+ */
+export const resolveProvider = (url: string = ''): ProviderId | null => {
+  const match = (Object.keys(PROVIDER_LIMITS) as ProviderId[]).find((provider) =>
+    url.includes(PROVIDER_LIMITS[provider].host)
+  );
+  return match || null;
+};
+
+/**
+ * Reserve one call from a provider's budget.
+ * Calls are queued FIFO per provider and paced to the quota; rejects with
+ * RateLimitedError when the wait would exceed MAX_QUEUE_WAIT_MS.
+ * @param provider - Provider to reserve a call for
+ */
+export const acquireToken = (provider: ProviderId): Promise<void> => {
+  const state = providerStates[provider];
+  state.queued += 1;
+  notifyListeners();
+
+  const ticket = state.queue.then(() => waitForToken(provider));
+  state.queue = ticket.catch(() => undefined);
+
+  return ticket.finally(() => {
+    state.queued -= 1;
+    notifyListeners();
+  });
+};
+
+/**
+ * Record a limit reported by the provider (HTTP 429, Alpha Vantage `Note`).
+ * Blocks the provider until the retry time has passed.
+ * @param provider - Provider that reported the limit
+ * @param retryAfterMs - Server-suggested wait; defaults to the shortest window
+ */
+export const reportRateLimited = (provider: ProviderId, retryAfterMs?: number): RateLimitedError => {
+  const now = Date.now();
+  const shortestWindow = Math.min(...PROVIDER_LIMITS[provider].windows.map((window) => window.intervalMs));
+  const wait = retryAfterMs ?? shortestWindow;
+  const state = providerStates[provider];
+
+  state.blockedUntil = Math.max(state.blockedUntil, now + wait);
+  notifyListeners();
+
+  return new RateLimitedError(provider, wait);
+};
+
+/**
+ * Snapshot of the remaining budget for one provider
+ */
+export const getRateLimitBudget = (provider: ProviderId): ProviderBudget => {
+  const now = Date.now();
+  refill(provider, now);
+  const state = providerStates[provider];
+  const config = PROVIDER_LIMITS[provider];
+
+  return {
+    provider,
+    name: config.name,
+    windows: config.windows.map((window, index) => ({
+      ...window,
+      remaining: Math.floor(state.buckets[index].tokens),
+    })),
+    queued: state.queued,
+    blockedUntil: state.blockedUntil > now ? state.blockedUntil : null,
+  };
+};
+
+/**
+ * Snapshot of the remaining budget for every provider
+ */
+export const getRateLimitBudgets = (): ProviderBudget[] =>
+  (Object.keys(PROVIDER_LIMITS) as ProviderId[]).map(getRateLimitBudget);
+
+/**
+ * Subscribe to budget changes (calls made, queued, or limits reported)
+ * @returns Unsubscribe function
+ */
+export const subscribeToRateLimits = (listener: BudgetListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
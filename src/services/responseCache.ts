@@ -0,0 +1,106 @@
+/**
+ * Response Cache Storage
+ * Two-tier store for API responses: an in-memory map for the current session
+ * backed by IndexedDB so cached data survives page reloads.
+ */
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  data: T;
+  storedAt: number;
+}
+
+const DB_NAME = 'valunetics-api-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+const memoryCache = new Map<string, CacheEntry>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open (or create) the IndexedDB database.
+ * Resolves to null when IndexedDB is unavailable (private mode, tests, SSR)
+ * so callers silently fall back to the memory cache.
+ */
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Run a single request against the responses object store
+ */
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) {
+    return undefined;
+  }
+
+  return new Promise((resolve) => {
+    try {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => resolve(undefined);
+    } catch {
+      resolve(undefined);
+    }
+  });
+};
+
+/**
+ * Read a cache entry, checking memory first and then IndexedDB
+ * @param key - Cache key built from the request URL and params
+ */
+export const readCacheEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const cached = memoryCache.get(key);
+  if (cached) {
+    return cached as CacheEntry<T>;
+  }
+
+  const persisted = await runTransaction<CacheEntry<T>>('readonly', (store) => store.get(key));
+  if (!persisted) {
+    return null;
+  }
+
+  memoryCache.set(key, persisted);
+  return persisted;
+};
+
+/**
+ * Write a response to both cache tiers
+ * @param key - Cache key built from the request URL and params
+ * @param data - Response payload (must be structured-cloneable)
+ */
+export const writeCacheEntry = async <T>(key: string, data: T): Promise<void> => {
+  const entry: CacheEntry<T> = { key, data, storedAt: Date.now() };
+  memoryCache.set(key, entry);
+  await runTransaction('readwrite', (store) => store.put(entry));
+};
@@ -0,0 +1,221 @@
+/**
+ * Return Calculations
+ * Performance measures that account for contributions and withdrawals:
+ * - Time-weighted return (TWR): chain-linked sub-period returns, measures the
+ *   investments independently of when money was added or taken out
+ * - Money-weighted return (IRR / XIRR): the discount rate that zeroes all
+ *   cash flows, measures the investor's actual experience
+ * - Modified Dietz: a day-weighted approximation of the money-weighted return
+ *   that needs no iteration
+ *
+ * Conventions:
+ * - Portfolio cash flows are positive for contributions, negative for withdrawals
+ * - A valuation is the value at the end of its date, after that date's flows
+ * - Returns are decimals (0.05 = 5%)
+ */
+
+export interface CashFlow {
+  date: string; // 'YYYY-MM-DD'
+  amount: number;
+}
+
+export interface ValuationPoint {
+  date: string; // 'YYYY-MM-DD'
+  value: number;
+}
+
+export interface ReturnPeriod {
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  flows: CashFlow[]; // Flows after startDate, up to and including endDate
+}
+
+export interface ReturnSummary extends ReturnPeriod {
+  days: number;
+  netFlows: number;
+  gain: number; // Investment gain: end value less start value and net flows
+  timeWeighted: number | null;
+  timeWeightedAnnualized: number | null;
+  moneyWeighted: number | null; // Annualized (XIRR)
+  modifiedDietz: number | null;
+}
+
+const DAYS_PER_YEAR = 365;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+export const daysBetween = (start: string, end: string) => Math.round((toTime(end) - toTime(start)) / 86400000);
+
+/**
+ * Convert a return over `days` into an annual rate
+ */
+export const annualizeReturn = (totalReturn: number, days: number) =>
+  days > 0 ? Math.pow(1 + totalReturn, DAYS_PER_YEAR / days) - 1 : totalReturn;
+
+/**
+ * Find a root of `f` in (-1, ∞): Newton's method from `guess`, falling back
+ * to bisection when Newton diverges. Returns null when no sign change exists.
+ */
+const solveRate = (f: (rate: number) => number, df: (rate: number) => number, guess: number): number | null => {
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = f(rate);
+    const slope = df(rate);
+    if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (!(next > -1) || !Number.isFinite(next)) break;
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+
+  let low = -0.999999;
+  let high = 1;
+  while (f(low) * f(high) > 0 && high < 1e6) high *= 2;
+  if (f(low) * f(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = f(mid);
+    if (Math.abs(value) < TOLERANCE || (high - low) / 2 < TOLERANCE) return mid;
+    if (f(low) * value < 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Internal rate of return per period for evenly spaced cash flows
+ * (investor's view: money invested is negative, money received positive)
+ */
+export const irr = (amounts: number[], guess = 0.01): number | null => {
+  if (!amounts.some((amount) => amount > 0) || !amounts.some((amount) => amount < 0)) return null;
+
+  const npv = (rate: number) => amounts.reduce((sum, amount, t) => sum + amount / Math.pow(1 + rate, t), 0);
+  const dnpv = (rate: number) => amounts.reduce((sum, amount, t) => sum - (t * amount) / Math.pow(1 + rate, t + 1), 0);
+  return solveRate(npv, dnpv, guess);
+};
+
+/**
+ * Annual internal rate of return for irregularly dated cash flows, as in
+ * spreadsheet XIRR (investor's view: invested negative, received positive)
+ */
+export const xirr = (cashflows: CashFlow[], guess = 0.1): number | null => {
+  if (!cashflows.some((flow) => flow.amount > 0) || !cashflows.some((flow) => flow.amount < 0)) return null;
+
+  const origin = cashflows.reduce((first, flow) => (flow.date < first ? flow.date : first), cashflows[0].date);
+  const years = cashflows.map((flow) => daysBetween(origin, flow.date) / DAYS_PER_YEAR);
+
+  const npv = (rate: number) =>
+    cashflows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+  const dnpv = (rate: number) =>
+    cashflows.reduce((sum, flow, i) => sum - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+  return solveRate(npv, dnpv, guess);
+};
+
+/**
+ * Time-weighted return over a series of valuations. Each sub-period runs
+ * between consecutive valuations; flows inside it are assumed to arrive at
+ * its end. Exact when there is a valuation on every flow date.
+ */
+export const timeWeightedReturn = (valuations: ValuationPoint[], flows: CashFlow[]): number | null => {
+  const points = [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+  if (points.length < 2) return null;
+
+  let growth = 1;
+  let measured = false;
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+    const periodFlows = flows
+      .filter((flow) => flow.date > previous.date && flow.date <= current.date)
+      .reduce((sum, flow) => sum + flow.amount, 0);
+
+    // Nothing invested during the sub-period: it has no return to link
+    if (previous.value <= 0) continue;
+
+    growth *= (current.value - periodFlows) / previous.value;
+    measured = true;
+  }
+
+  return measured ? growth - 1 : null;
+};
+
+/**
+ * Modified Dietz return: gain divided by the day-weighted average capital
+ */
+export const modifiedDietzReturn = (period: ReturnPeriod): number | null => {
+  const totalDays = daysBetween(period.startDate, period.endDate);
+  if (totalDays <= 0) return null;
+
+  const netFlows = period.flows.reduce((sum, flow) => sum + flow.amount, 0);
+  const weightedFlows = period.flows.reduce(
+    (sum, flow) => sum + flow.amount * (daysBetween(flow.date, period.endDate) / totalDays),
+    0
+  );
+  const averageCapital = period.startValue + weightedFlows;
+  if (averageCapital <= 0) return null;
+
+  return (period.endValue - period.startValue - netFlows) / averageCapital;
+};
+
+/**
+ * Annualized money-weighted return (XIRR) for a period: the start value and
+ * contributions count as invested, withdrawals and the end value as received
+ */
+export const moneyWeightedReturn = (period: ReturnPeriod): number | null =>
+  xirr([
+    { date: period.startDate, amount: -period.startValue },
+    ...period.flows.map((flow) => ({ date: flow.date, amount: -flow.amount })),
+    { date: period.endDate, amount: period.endValue },
+  ].filter((flow) => flow.amount !== 0));
+
+/**
+ * All return measures over [startDate, endDate]. The period starts at the
+ * last valuation on or before `startDate` and ends at the last valuation on
+ * or before `endDate`; both default to the ends of the series.
+ */
+export const calculateReturns = (
+  valuations: ValuationPoint[],
+  flows: CashFlow[],
+  startDate?: string,
+  endDate?: string
+): ReturnSummary | null => {
+  const points = [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+  if (points.length === 0) return null;
+
+  const pickAtOrBefore = (date: string | undefined, fallback: ValuationPoint) =>
+    date ? [...points].reverse().find((point) => point.date <= date) || points[0] : fallback;
+
+  const start = pickAtOrBefore(startDate, points[0]);
+  const end = pickAtOrBefore(endDate, points[points.length - 1]);
+  if (end.date < start.date) return null;
+
+  const periodPoints = points.filter((point) => point.date >= start.date && point.date <= end.date);
+  const periodFlows = flows.filter((flow) => flow.date > start.date && flow.date <= end.date);
+  const period: ReturnPeriod = {
+    startDate: start.date,
+    endDate: end.date,
+    startValue: start.value,
+    endValue: end.value,
+    flows: periodFlows,
+  };
+
+  const days = daysBetween(start.date, end.date);
+  const netFlows = periodFlows.reduce((sum, flow) => sum + flow.amount, 0);
+  const timeWeighted = timeWeightedReturn(periodPoints, periodFlows);
+
+  return {
+    ...period,
+    days,
+    netFlows,
+    gain: end.value - start.value - netFlows,
+    timeWeighted,
+    timeWeightedAnnualized: timeWeighted !== null && days > 0 ? annualizeReturn(timeWeighted, days) : null,
+    moneyWeighted: days > 0 ? moneyWeightedReturn(period) : null,
+    modifiedDietz: modifiedDietzReturn(period),
+  };
+};
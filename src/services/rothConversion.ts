@@ -0,0 +1,274 @@
+/**
+ * Roth Conversion & Asset Location
+ * Projects taxable, traditional (pre-tax) and Roth accounts year by year to
+ * compare Roth conversion ladders and asset location strategies by lifetime
+ * federal tax and after-tax wealth at the end of the plan.
+ *
+ * Model:
+ * - Runs in today's dollars with real returns, so the tax year's brackets stay
+ *   fixed as if indexed to inflation
+ * - Ladders convert enough each year of the conversion window to fill taxable
+ *   income to the top of a bracket; conversion tax is paid from the taxable account
+ * - Retirement spending comes from RMDs, then taxable, then traditional, then Roth
+ * - RMDs start at 73, or 75 for those born in 1960 or later
+ * - Bond interest and stock dividends in the taxable account are taxed every year
+ * - Income streams are taxed in full as ordinary income
+ * - Taxable holdings get a stepped-up basis at the end; traditional balances left
+ *   are taxed at the heirs' rate
+ */
+import { estimateTax, getTaxRules, FilingStatus } from './taxRules';
+import { incomeAtAge, rmdDivisor, IncomeStream } from './decumulation';
+
+export type AccountKind = 'taxable' | 'traditional' | 'roth';
+
+export type AccountBalances = Record<AccountKind, number>;
+
+export type AssetLocation = 'proRata' | 'taxEfficient' | 'bondsInRoth';
+
+export interface ConversionLadder {
+  id: string;
+  label: string;
+  fillToRate: number | null; // Fill taxable income to the top of this bracket; null converts nothing
+}
+
+export interface ConversionInputs {
+  taxYear: number;
+  filingStatus: FilingStatus;
+  age: number;
+  retirementAge: number;
+  planningAge: number;
+  wages: number; // Until retirement
+  incomeStreams: IncomeStream[]; // Social Security and pensions, today's dollars
+  inflationRate: number; // Decimal; erodes streams without cost-of-living adjustments
+  balances: AccountBalances;
+  taxableBasis: number; // Cost basis of the taxable account
+  contributions: AccountBalances; // Per year until retirement
+  spending: number; // Per year in retirement, after tax
+  stockShare: number; // 0-1, across all accounts
+  stockReturn: number; // Real, decimal
+  bondReturn: number; // Real, decimal
+  dividendYield: number; // Decimal, taxed yearly in the taxable account
+  conversionStartAge: number;
+  conversionEndAge: number;
+  heirTaxRate: number; // Decimal, on traditional money left at the end
+}
+
+export interface ConversionYear {
+  age: number;
+  conversion: number;
+  rmd: number;
+  tax: number; // Federal tax for the year, including yearly tax on taxable account income
+  balances: AccountBalances; // End of year
+}
+
+export interface ConversionRun {
+  ladder: ConversionLadder;
+  location: AssetLocation;
+  years: ConversionYear[];
+  lifetimeTax: number;
+  totalConverted: number;
+  endingBalances: AccountBalances;
+  endingAfterTaxWealth: number;
+  depletedAge: number | null; // First age spending could not be met
+}
+
+export interface ConversionPlan {
+  runs: ConversionRun[];
+  best: ConversionRun;
+  rmdStartAge: number;
+}
+
+export const ASSET_LOCATION_LABELS: Record<AssetLocation, string> = {
+  proRata: 'Same mix in every account',
+  taxEfficient: 'Bonds in traditional, stocks in Roth',
+  bondsInRoth: 'Bonds in Roth, stocks in traditional',
+};
+
+export const CONVERSION_LADDERS: ConversionLadder[] = [
+  { id: 'none', label: 'No conversions', fillToRate: null },
+  { id: 'fill-12', label: 'Fill the 12% bracket', fillToRate: 0.12 },
+  { id: 'fill-22', label: 'Fill the 22% bracket', fillToRate: 0.22 },
+  { id: 'fill-24', label: 'Fill the 24% bracket', fillToRate: 0.24 },
+  { id: 'fill-32', label: 'Fill the 32% bracket', fillToRate: 0.32 },
+];
+
+// Order each location strategy fills with bonds
+const BOND_PLACEMENT: Record<Exclude<AssetLocation, 'proRata'>, AccountKind[]> = {
+  taxEfficient: ['traditional', 'taxable', 'roth'],
+  bondsInRoth: ['roth', 'taxable', 'traditional'],
+};
+
+// Rounds of tax-on-withdrawals-on-tax before a year's cash flows settle
+const TAX_ITERATIONS = 6;
+
+/**
+ * Age required minimum distributions start (SECURE 2.0)
+ */
+export const rmdStartAge = (birthYear: number): number => (birthYear >= 1960 ? 75 : 73);
+
+/**
+ * Dollars of bonds held in each account
+ */
+const placeBonds = (balances: AccountBalances, stockShare: number, location: AssetLocation): AccountBalances => {
+  const bondShare = 1 - Math.min(Math.max(stockShare, 0), 1);
+  if (location === 'proRata') {
+    return { taxable: balances.taxable * bondShare, traditional: balances.traditional * bondShare, roth: balances.roth * bondShare };
+  }
+  let remaining = (balances.taxable + balances.traditional + balances.roth) * bondShare;
+  const bonds: AccountBalances = { taxable: 0, traditional: 0, roth: 0 };
+  BOND_PLACEMENT[location].forEach((account) => {
+    bonds[account] = Math.min(balances[account], remaining);
+    remaining -= bonds[account];
+  });
+  return bonds;
+};
+
+/**
+ * Project one ladder under one asset location
+ * @throws Error if the tax year has no rules or the ladder's bracket does not exist
+ */
+export const runConversionLadder = (inputs: ConversionInputs, ladder: ConversionLadder, location: AssetLocation): ConversionRun => {
+  const rules = getTaxRules(inputs.taxYear);
+  const status = inputs.filingStatus;
+  const deduction = rules.standardDeduction[status];
+  const rmdAge = rmdStartAge(inputs.taxYear - inputs.age);
+  let fillTo: number | null = null;
+  if (ladder.fillToRate !== null) {
+    const bracket = rules.brackets[status].find((item) => item.rate === ladder.fillToRate);
+    if (!bracket || bracket.upTo === null) throw new Error(`No closed ${ladder.fillToRate * 100}% bracket in ${inputs.taxYear}`);
+    fillTo = bracket.upTo + deduction; // Ordinary income that fills the bracket
+  }
+
+  const balances: AccountBalances = { ...inputs.balances };
+  let basis = Math.min(inputs.taxableBasis, balances.taxable);
+  let lifetimeTax = 0;
+  let totalConverted = 0;
+  let depletedAge: number | null = null;
+  const years: ConversionYear[] = [];
+
+  for (let age = inputs.age; age <= inputs.planningAge; age++) {
+    const yearsFromNow = age - inputs.age;
+    const working = age < inputs.retirementAge;
+    const wages = working ? Math.max(inputs.wages - inputs.contributions.traditional, 0) : 0;
+    // Streams in today's dollars
+    const streams = working
+      ? 0
+      : incomeAtAge(inputs.incomeStreams, age, yearsFromNow, inputs.inflationRate) / Math.pow(1 + inputs.inflationRate, yearsFromNow);
+
+    if (working) {
+      balances.taxable += inputs.contributions.taxable;
+      basis += inputs.contributions.taxable;
+      balances.traditional += inputs.contributions.traditional;
+      balances.roth += inputs.contributions.roth;
+    }
+
+    const rmd = age >= rmdAge ? balances.traditional / rmdDivisor(age) : 0;
+    balances.traditional -= rmd;
+
+    const fillLimit = age >= inputs.conversionStartAge && age <= inputs.conversionEndAge ? fillTo : null;
+
+    // Wages cover their own tax while working; the portfolio pays conversion tax and retirement spending.
+    // Spending draws and the conversion both depend on the tax, so settle them together.
+    const workingTax = working ? estimateTax({ year: inputs.taxYear, filingStatus: status, ordinaryIncome: wages }).totalTax : 0;
+    let estimate = estimateTax({ year: inputs.taxYear, filingStatus: status, ordinaryIncome: wages + streams + rmd });
+    let need = 0;
+    let conversion = 0;
+    let fromTaxable = 0;
+    let fromTraditional = 0;
+    let fromRoth = 0;
+    let shortfall = 0;
+    for (let round = 0; round < TAX_ITERATIONS; round++) {
+      need = working ? estimate.totalTax - workingTax : inputs.spending + estimate.totalTax - streams - rmd;
+      let remaining = Math.max(need, 0);
+      fromTaxable = Math.min(remaining, balances.taxable);
+      remaining -= fromTaxable;
+      fromTraditional = Math.min(remaining, balances.traditional);
+      remaining -= fromTraditional;
+      fromRoth = Math.min(remaining, balances.roth);
+      shortfall = remaining - fromRoth;
+
+      // Convert what still fits below the top of the bracket
+      conversion = fillLimit !== null
+        ? Math.min(Math.max(fillLimit - (wages + streams + rmd + fromTraditional), 0), balances.traditional - fromTraditional)
+        : 0;
+      const realizedGain = balances.taxable > 0 ? fromTaxable * Math.max(1 - basis / balances.taxable, 0) : 0;
+      estimate = estimateTax({
+        year: inputs.taxYear,
+        filingStatus: status,
+        ordinaryIncome: wages + streams + rmd + conversion + fromTraditional,
+        longTermGains: realizedGain,
+      });
+    }
+
+    balances.traditional -= conversion;
+    balances.roth += conversion;
+    totalConverted += conversion;
+    if (balances.taxable > 0) basis -= basis * (fromTaxable / balances.taxable);
+    balances.taxable -= fromTaxable;
+    balances.traditional -= fromTraditional;
+    balances.roth -= fromRoth;
+    if (need < 0) {
+      // RMDs beyond spending are reinvested
+      balances.taxable -= need;
+      basis -= need;
+    }
+    if (shortfall > 1 && depletedAge === null) depletedAge = age;
+
+    // Growth, with yearly tax on interest and dividends in the taxable account
+    const bonds = placeBonds(balances, inputs.stockShare, location);
+    const taxableStocks = balances.taxable - bonds.taxable;
+    const taxableIncome = bonds.taxable * Math.max(inputs.bondReturn, 0) + taxableStocks * inputs.dividendYield;
+    const incomeTax = bonds.taxable * Math.max(inputs.bondReturn, 0) * estimate.marginalRate
+      + taxableStocks * inputs.dividendYield * estimate.capitalGainsRate;
+    (Object.keys(balances) as AccountKind[]).forEach((account) => {
+      const stocks = balances[account] - bonds[account];
+      balances[account] = Math.max(balances[account] + stocks * inputs.stockReturn + bonds[account] * inputs.bondReturn, 0);
+    });
+    balances.taxable = Math.max(balances.taxable - incomeTax, 0);
+    basis = Math.min(basis + taxableIncome - incomeTax, balances.taxable);
+
+    const tax = estimate.totalTax + incomeTax;
+    lifetimeTax += tax;
+    years.push({ age, conversion, rmd, tax, balances: { ...balances } });
+  }
+
+  return {
+    ladder,
+    location,
+    years,
+    lifetimeTax,
+    totalConverted,
+    endingBalances: { ...balances },
+    endingAfterTaxWealth: balances.taxable + balances.roth + balances.traditional * (1 - inputs.heirTaxRate),
+    depletedAge,
+  };
+};
+
+/**
+ * Ranks runs: money lasting longest first, then the most after-tax wealth, then the least tax
+ */
+const compareRuns = (a: ConversionRun, b: ConversionRun): number => {
+  const lastsA = a.depletedAge ?? Infinity;
+  const lastsB = b.depletedAge ?? Infinity;
+  if (lastsA !== lastsB) return lastsB - lastsA;
+  if (Math.abs(a.endingAfterTaxWealth - b.endingAfterTaxWealth) > 1) return b.endingAfterTaxWealth - a.endingAfterTaxWealth;
+  return a.lifetimeTax - b.lifetimeTax;
+};
+
+/**
+ * Run every ladder under every asset location and pick the best combination
+ * @throws Error if the inputs are invalid
+ */
+export const planRothConversions = (inputs: ConversionInputs): ConversionPlan => {
+  if (inputs.planningAge < inputs.age) throw new Error('Life expectancy must be after the current age');
+  if (inputs.retirementAge < inputs.age) throw new Error('Retirement age must be at or after the current age');
+
+  const runs = CONVERSION_LADDERS.flatMap((ladder) =>
+    (Object.keys(ASSET_LOCATION_LABELS) as AssetLocation[]).map((location) => runConversionLadder(inputs, ladder, location))
+  );
+  return {
+    runs,
+    best: [...runs].sort(compareRuns)[0],
+    rmdStartAge: rmdStartAge(inputs.taxYear - inputs.age),
+  };
+};
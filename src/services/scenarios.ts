@@ -0,0 +1,355 @@
+/**
+ * Scenarios
+ * Named snapshots of a calculator's inputs and headline outputs, stored in
+ * localStorage so plans survive navigation, can be compared side by side and
+ * can be shared as a link.
+ *
+ * - Drafts: the latest inputs of each tool, restored when the tool opens again
+ * - Saved scenarios: named snapshots per tool; saving under an existing name replaces it
+ * - Share links: `?scenario=` carries the tool, name and inputs as base64url
+ *   JSON; the hub opens that tool and the tool loads the inputs. Tools that run
+ *   on the capital-market assumptions also carry a snapshot of them, which the
+ *   recipient can adopt to get the same numbers.
+ */
+import type { AssumptionsSnapshot } from './assumptions';
+
+export type ScenarioTool = 'simulator' | 'wealth' | 'goals';
+
+export type ScenarioOutputFormat = 'currency' | 'percent' | 'number';
+
+export interface ScenarioOutput {
+  label: string;
+  value: number;
+  format: ScenarioOutputFormat;
+}
+
+export interface SavedScenario {
+  id: string;
+  tool: ScenarioTool;
+  name: string;
+  inputs: object;
+  outputs: ScenarioOutput[]; // Empty if the inputs had not been calculated when saved
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SharedScenario {
+  tool: ScenarioTool;
+  name: string;
+  inputs: object;
+  assumptions?: AssumptionsSnapshot; // Asset classes, correlations and custom presets of the sender
+}
+
+export type ScenarioValue = string | number | boolean | null;
+
+// One input or output across the compared scenarios; null where a scenario lacks it
+export interface ScenarioDiffRow {
+  label: string;
+  values: ScenarioValue[];
+  format?: ScenarioOutputFormat;
+  differs: boolean;
+}
+
+interface SharePayload extends SharedScenario {
+  version: 1;
+}
+
+type ScenarioListener = (scenarios: SavedScenario[]) => void;
+
+const SCENARIOS_KEY = 'valunetics-scenarios';
+const DRAFTS_KEY = 'valunetics-scenario-drafts';
+const SHARE_PARAM = 'scenario';
+
+export const SCENARIO_TOOLS: ScenarioTool[] = ['simulator', 'wealth', 'goals'];
+
+export const SCENARIO_TOOL_LABELS: Record<ScenarioTool, string> = {
+  simulator: 'Investment Scenario Simulator',
+  wealth: 'Wealth Management Tools',
+  goals: 'Goal-Based Financial Planning',
+};
+
+const listeners = new Set<ScenarioListener>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // Storage full or unavailable: keep the in-memory copy only
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isScenarioTool = (value: unknown): value is ScenarioTool =>
+  SCENARIO_TOOLS.includes(value as ScenarioTool);
+
+const isNumberRecord = (value: unknown): value is Record<string, number> =>
+  isRecord(value) && Object.values(value).every((item) => typeof item === 'number');
+
+// Shape check only; importing the assumptions validates the values
+const isAssumptionsSnapshot = (value: unknown): value is AssumptionsSnapshot =>
+  isRecord(value) &&
+  Array.isArray(value.assetClasses) &&
+  value.assetClasses.every(
+    (item) =>
+      isRecord(item) &&
+      typeof item.id === 'string' &&
+      typeof item.name === 'string' &&
+      typeof item.expectedReturn === 'number' &&
+      typeof item.volatility === 'number'
+  ) &&
+  isRecord(value.correlations) &&
+  Object.values(value.correlations).every(isNumberRecord) &&
+  Array.isArray(value.presets) &&
+  value.presets.every(
+    (item) =>
+      isRecord(item) &&
+      typeof item.id === 'string' &&
+      typeof item.name === 'string' &&
+      typeof item.description === 'string' &&
+      isNumberRecord(item.weights)
+  );
+
+let scenarios: SavedScenario[] = readJson<unknown[]>(SCENARIOS_KEY, []).filter(
+  (item): item is SavedScenario =>
+    isRecord(item) && isScenarioTool(item.tool) && typeof item.name === 'string' && isRecord(item.inputs) && Array.isArray(item.outputs)
+);
+let drafts: Partial<Record<ScenarioTool, object>> = readJson<Partial<Record<ScenarioTool, object>>>(DRAFTS_KEY, {});
+
+const generateId = () => `scn-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const saveScenarios = (next: SavedScenario[]) => {
+  scenarios = next;
+  writeJson(SCENARIOS_KEY, scenarios);
+  listeners.forEach((listener) => listener(scenarios));
+};
+
+/**
+ * Saved scenarios of a tool, most recently updated first
+ */
+export const getScenarios = (tool: ScenarioTool): SavedScenario[] =>
+  scenarios.filter((scenario) => scenario.tool === tool).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+/**
+ * Subscribe to changes of the saved scenarios (all tools)
+ * @returns Unsubscribe function
+ */
+export const subscribeToScenarios = (listener: ScenarioListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Save a named snapshot; an existing scenario of the tool with the same name is replaced
+ * @throws Error if the name is empty
+ */
+export const saveScenario = (
+  tool: ScenarioTool,
+  name: string,
+  inputs: object,
+  outputs: ScenarioOutput[] = []
+): SavedScenario => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Give the scenario a name');
+
+  const now = new Date().toISOString();
+  const existing = scenarios.find(
+    (scenario) => scenario.tool === tool && scenario.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  const saved: SavedScenario = {
+    id: existing?.id ?? generateId(),
+    tool,
+    name: trimmed,
+    // Stored as plain data, detached from the component's state
+    inputs: JSON.parse(JSON.stringify(inputs)) as object,
+    outputs,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  saveScenarios(existing ? scenarios.map((scenario) => (scenario.id === existing.id ? saved : scenario)) : [...scenarios, saved]);
+  return saved;
+};
+
+export const deleteScenario = (id: string) => {
+  saveScenarios(scenarios.filter((scenario) => scenario.id !== id));
+};
+
+/**
+ * Remember the latest inputs of a tool so they survive navigation
+ */
+export const saveDraft = (tool: ScenarioTool, inputs: object) => {
+  drafts = { ...drafts, [tool]: inputs };
+  writeJson(DRAFTS_KEY, drafts);
+};
+
+/**
+ * Lay stored inputs over a tool's defaults. Fields whose type no longer
+ * matches the default are dropped, so older snapshots still load.
+ */
+export const mergeInputs = <T extends object>(defaults: T, stored: unknown): T => {
+  if (!isRecord(stored)) return defaults;
+  const fallbacks = defaults as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...fallbacks };
+  Object.entries(stored).forEach(([key, value]) => {
+    const fallback = fallbacks[key];
+    const matches =
+      fallback === undefined ||
+      (Array.isArray(fallback) ? Array.isArray(value) : typeof fallback === typeof value && isRecord(fallback) === isRecord(value));
+    if (matches) merged[key] = value;
+  });
+  return merged as T;
+};
+
+/**
+ * Inputs a tool opens with: a shared link for this tool, else its draft, else the defaults
+ */
+export const restoreInputs = <T extends object>(tool: ScenarioTool, defaults: T): T => {
+  const shared = readSharedScenario();
+  if (shared?.tool === tool) return mergeInputs(defaults, shared.inputs);
+  return mergeInputs(defaults, drafts[tool]);
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+/**
+ * Encode a scenario for a share link
+ */
+export const encodeScenario = (scenario: SharedScenario): string => {
+  const payload: SharePayload = { version: 1, ...scenario };
+  return toBase64Url(JSON.stringify(payload));
+};
+
+/**
+ * Decode a share link parameter
+ * @returns The scenario, or null if the parameter is not a valid scenario
+ */
+export const decodeScenario = (encoded: string): SharedScenario | null => {
+  try {
+    const payload: unknown = JSON.parse(fromBase64Url(encoded));
+    if (!isRecord(payload) || payload.version !== 1 || !isScenarioTool(payload.tool) || !isRecord(payload.inputs)) {
+      return null;
+    }
+    return {
+      tool: payload.tool,
+      name: typeof payload.name === 'string' ? payload.name : 'Shared scenario',
+      inputs: payload.inputs,
+      assumptions: isAssumptionsSnapshot(payload.assumptions) ? payload.assumptions : undefined,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Link that opens a tool with these inputs (and assumptions, if given)
+ */
+export const createShareUrl = (scenario: SharedScenario): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(SHARE_PARAM, encodeScenario(scenario));
+  return url.toString();
+};
+
+/**
+ * Scenario carried by the current page URL, if any
+ */
+export const readSharedScenario = (): SharedScenario | null => {
+  if (typeof window === 'undefined') return null;
+  const encoded = new URLSearchParams(window.location.search).get(SHARE_PARAM);
+  return encoded ? decodeScenario(encoded) : null;
+};
+
+/**
+ * Drop the shared scenario from the address bar once it has been loaded
+ */
+export const clearSharedScenario = () => {
+  if (typeof window === 'undefined') return;
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(SHARE_PARAM)) return;
+  url.searchParams.delete(SHARE_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+};
+
+const humanize = (key: string): string => {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Flatten nested inputs into labelled values, e.g. "Costs › Inflation rate"
+ */
+export const flattenInputs = (value: unknown, label = ''): Array<{ label: string; value: ScenarioValue }> => {
+  const join = (part: string) => (label ? `${label} › ${part}` : part);
+
+  if (Array.isArray(value)) {
+    if (value.every((item) => !isRecord(item))) return [{ label, value: value.join(', ') }];
+    return value.flatMap((item, index) =>
+      flattenInputs(item, join(isRecord(item) && typeof item.name === 'string' ? item.name : String(index + 1)))
+    );
+  }
+  if (isRecord(value)) {
+    return Object.entries(value)
+      // IDs are internal and differ between otherwise equal entries
+      .filter(([key]) => key !== 'id')
+      .flatMap(([key, item]) => flattenInputs(item, join(humanize(key))));
+  }
+  if (value === undefined || value === null) return [{ label, value: null }];
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return [{ label, value }];
+  return [];
+};
+
+const buildRows = (
+  columns: Array<Array<{ label: string; value: ScenarioValue; format?: ScenarioOutputFormat }>>
+): ScenarioDiffRow[] => {
+  const rows = new Map<string, ScenarioDiffRow>();
+  columns.forEach((column, index) => {
+    column.forEach(({ label, value, format }) => {
+      const row = rows.get(label) ?? { label, values: columns.map(() => null), format, differs: false };
+      row.values[index] = value;
+      rows.set(label, row);
+    });
+  });
+  return [...rows.values()].map((row) => ({
+    ...row,
+    differs: row.values.some((value) => value !== row.values[0]),
+  }));
+};
+
+/**
+ * Inputs of several scenarios side by side, marking the ones that differ
+ */
+export const compareInputs = (compared: SavedScenario[]): ScenarioDiffRow[] =>
+  buildRows(compared.map((scenario) => flattenInputs(scenario.inputs)));
+
+/**
+ * Outputs of several scenarios side by side, marking the ones that differ
+ */
+export const compareOutputs = (compared: SavedScenario[]): ScenarioDiffRow[] =>
+  buildRows(compared.map((scenario) => scenario.outputs));
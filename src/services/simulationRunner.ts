@@ -0,0 +1,72 @@
+/**
+ * Simulation Runner
+ * Runs Monte Carlo batches in a Web Worker so the UI stays responsive,
+ * falling back to the main thread where workers are unavailable.
+ */
+import { runMonteCarlo, MonteCarloInputs, MonteCarloResult } from './monteCarlo';
+import type { MonteCarloWorkerMessage, MonteCarloWorkerRequest } from '../workers/monteCarlo.worker';
+
+export interface SimulationRun {
+  promise: Promise<MonteCarloResult[]>;
+  cancel: () => void;
+}
+
+let nextRunId = 1;
+
+/**
+ * Start simulating a batch of scenarios
+ * @param onProgress - Called with completed and total paths across the batch
+ * @returns The pending results and a cancel function (the promise then never settles)
+ */
+export const startMonteCarlo = (
+  batch: MonteCarloInputs[],
+  onProgress?: (completed: number, total: number) => void
+): SimulationRun => {
+  if (typeof Worker === 'undefined') {
+    const total = batch.reduce((sum, inputs) => sum + inputs.paths, 0);
+    let done = 0;
+    const promise = new Promise<MonteCarloResult[]>((resolve, reject) => {
+      try {
+        resolve(
+          batch.map((inputs) => {
+            const result = runMonteCarlo(inputs, (completed) => onProgress?.(done + completed, total));
+            done += inputs.paths;
+            return result;
+          })
+        );
+      } catch (error) {
+        reject(error);
+      }
+    });
+    return { promise, cancel: () => undefined };
+  }
+
+  const id = nextRunId++;
+  const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+
+  const promise = new Promise<MonteCarloResult[]>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerMessage>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.completed, message.total);
+      } else if (message.type === 'result') {
+        worker.terminate();
+        resolve(message.results);
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Simulation worker failed'));
+    };
+
+    const request: MonteCarloWorkerRequest = { id, batch };
+    worker.postMessage(request);
+  });
+
+  return { promise, cancel: () => worker.terminate() };
+};
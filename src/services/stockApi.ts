@@ -5,20 +5,33 @@
  * API Key: Get free API key from https://www.alphavantage.co/support/#api-key
  * Free tier: 5 API calls per minute, 500 calls per day
  */
-import apiClient from './api';
+import { cachedGet, getErrorMessage } from './api';
+import { RateLimitedError, reportRateLimited } from './rateLimiter';
 
 const ALPHA_VANTAGE_API_KEY = import.meta.env.VITE_ALPHA_VANTAGE_API_KEY || 'demo';
 const ALPHA_VANTAGE_BASE_URL = 'https://www.alphavantage.co/query';
 
 export interface StockTimeSeriesData {
-  date: string;
+  date: string; // 'YYYY-MM-DD', or 'YYYY-MM-DD HH:mm:ss' for intraday bars
   open: number;
   high: number;
   low: number;
   close: number;
   volume: number;
+  adjustedClose?: number; // Split/dividend-adjusted close, when the source provides it
 }
 
+export type IntradayInterval = '1min' | '5min' | '15min' | '30min' | '60min';
+export type StockInterval = IntradayInterval | 'daily' | 'weekly' | 'monthly';
+
+export const INTRADAY_INTERVALS: IntradayInterval[] = ['1min', '5min', '15min', '30min', '60min'];
+
+/**
+ * Whether an interval returns intraday (timestamped) bars
+ */
+export const isIntradayInterval = (interval: StockInterval): interval is IntradayInterval =>
+  (INTRADAY_INTERVALS as StockInterval[]).includes(interval);
+
 export interface StockQuote {
   symbol: string;
   price: number;
@@ -26,6 +39,159 @@ export interface StockQuote {
   changePercent: number;
 }
 
+interface AlphaVantageStatus {
+  'Error Message'?: string;
+  Note?: string;
+  Information?: string;
+}
+
+type AlphaVantageSeries = Record<string, Record<string, string>>;
+
+interface AlphaVantageDailyResponse extends AlphaVantageStatus {
+  'Time Series (Daily)'?: AlphaVantageSeries;
+}
+
+// Any series endpoint: the payload key depends on the function and interval
+type AlphaVantageSeriesResponse = AlphaVantageStatus & Record<string, AlphaVantageSeries | string | undefined>;
+
+// Function names and payload keys per interval (raw, then split/dividend-adjusted)
+const SERIES_ENDPOINTS: Record<'daily' | 'weekly' | 'monthly', {
+  raw: { fn: string; key: string };
+  adjusted: { fn: string; key: string };
+}> = {
+  daily: {
+    raw: { fn: 'TIME_SERIES_DAILY', key: 'Time Series (Daily)' },
+    adjusted: { fn: 'TIME_SERIES_DAILY_ADJUSTED', key: 'Time Series (Daily)' },
+  },
+  weekly: {
+    raw: { fn: 'TIME_SERIES_WEEKLY', key: 'Weekly Time Series' },
+    adjusted: { fn: 'TIME_SERIES_WEEKLY_ADJUSTED', key: 'Weekly Adjusted Time Series' },
+  },
+  monthly: {
+    raw: { fn: 'TIME_SERIES_MONTHLY', key: 'Monthly Time Series' },
+    adjusted: { fn: 'TIME_SERIES_MONTHLY_ADJUSTED', key: 'Monthly Adjusted Time Series' },
+  },
+};
+
+interface AlphaVantageQuoteResponse extends AlphaVantageStatus {
+  'Global Quote'?: Record<string, string>;
+}
+
+interface AlphaVantageOverviewResponse extends AlphaVantageStatus {
+  Symbol?: string;
+  Name?: string;
+  Description?: string;
+  Exchange?: string;
+  Currency?: string;
+  Sector?: string;
+  Industry?: string;
+  MarketCapitalization?: string;
+  OfficialSite?: string;
+  FullTimeEmployees?: string;
+}
+
+export interface CompanyOverview {
+  symbol: string;
+  name: string;
+  description: string;
+  exchange: string;
+  currency: string;
+  sector: string;
+  industry: string;
+  marketCap: number;
+  website: string;
+  employees: number;
+}
+
+/**
+ * Alpha Vantage reports errors and rate limits with HTTP 200, so only
+ * payloads without a status message may be cached
+ */
+const isAlphaVantageSuccess = (data: AlphaVantageStatus) =>
+  !data['Error Message'] && !data.Note && !data.Information;
+
+/**
+ * Normalize an Alpha Vantage series payload to ascending StockTimeSeriesData.
+ * Adjusted endpoints number their fields differently ('5. adjusted close', '6. volume').
+ */
+const parseAlphaVantageSeries = (timeSeries: AlphaVantageSeries): StockTimeSeriesData[] =>
+  Object.keys(timeSeries)
+    .map((date) => {
+      const bar = timeSeries[date];
+      const adjustedClose = bar['5. adjusted close'];
+      return {
+        date,
+        open: parseFloat(bar['1. open']),
+        high: parseFloat(bar['2. high']),
+        low: parseFloat(bar['3. low']),
+        close: parseFloat(bar['4. close']),
+        volume: parseInt(bar['6. volume'] ?? bar['5. volume']),
+        ...(adjustedClose !== undefined && { adjustedClose: parseFloat(adjustedClose) }),
+      };
+    })
+    // Dates are zero-padded, so string order is chronological (and safe for intraday timestamps)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Rescale open/high/low/close by each bar's adjustment factor so the whole
+ * bar is split/dividend-adjusted. Bars without an adjusted close are unchanged.
+ */
+export const toAdjustedSeries = (series: StockTimeSeriesData[]): StockTimeSeriesData[] =>
+  series.map((bar) => {
+    if (bar.adjustedClose === undefined || bar.close === 0) {
+      return bar;
+    }
+
+    const factor = bar.adjustedClose / bar.close;
+    return {
+      ...bar,
+      open: bar.open * factor,
+      high: bar.high * factor,
+      low: bar.low * factor,
+      close: bar.adjustedClose,
+    };
+  });
+
+/**
+ * Roll daily bars up into weekly (week ending Friday) or monthly bars
+ * @param series - Ascending daily bars
+ * @param interval - Target interval
+ */
+export const aggregateSeries = (
+  series: StockTimeSeriesData[],
+  interval: 'weekly' | 'monthly'
+): StockTimeSeriesData[] => {
+  const bucketOf = (date: string) => {
+    if (interval === 'monthly') {
+      return date.slice(0, 7);
+    }
+    const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() + ((5 - day.getUTCDay() + 7) % 7));
+    return day.toISOString().slice(0, 10);
+  };
+
+  const buckets = new Map<string, StockTimeSeriesData>();
+  series.forEach((bar) => {
+    const key = bucketOf(bar.date);
+    const current = buckets.get(key);
+    if (!current) {
+      buckets.set(key, { ...bar });
+      return;
+    }
+
+    current.date = bar.date;
+    current.high = Math.max(current.high, bar.high);
+    current.low = Math.min(current.low, bar.low);
+    current.close = bar.close;
+    current.volume += bar.volume;
+    if (bar.adjustedClose !== undefined) {
+      current.adjustedClose = bar.adjustedClose;
+    }
+  });
+
+  return Array.from(buckets.values());
+};
+
 /**
  * Fetch daily time series data for a stock symbol
  * @param symbol - Stock ticker symbol (e.g., 'AAPL', 'MSFT')
@@ -36,72 +202,131 @@ export const fetchStockTimeSeries = async (
   outputsize: 'compact' | 'full' = 'compact'
 ): Promise<StockTimeSeriesData[]> => {
   try {
-    const response = await apiClient.get(ALPHA_VANTAGE_BASE_URL, {
-      params: {
-        function: 'TIME_SERIES_DAILY',
-        symbol: symbol.toUpperCase(),
-        outputsize,
-        apikey: ALPHA_VANTAGE_API_KEY,
+    const data = await cachedGet<AlphaVantageDailyResponse>(
+      ALPHA_VANTAGE_BASE_URL,
+      {
+        params: {
+          function: 'TIME_SERIES_DAILY',
+          symbol: symbol.toUpperCase(),
+          outputsize,
+          apikey: ALPHA_VANTAGE_API_KEY,
+        },
       },
-    });
-
-    const data = response.data;
+      { isCacheable: isAlphaVantageSuccess }
+    );
 
     // Check for API errors
     if (data['Error Message']) {
       throw new Error(data['Error Message']);
     }
 
-    if (data['Note']) {
-      throw new Error('API call frequency limit reached. Please try again later.');
+    if (data['Note'] || data['Information']) {
+      throw reportRateLimited('alphaVantage');
     }
 
     // Extract time series data
-    const timeSeriesKey = 'Time Series (Daily)';
-    if (!data[timeSeriesKey]) {
+    const timeSeries = data['Time Series (Daily)'];
+    if (!timeSeries) {
       throw new Error('Invalid response format from API');
     }
 
-    const timeSeries = data[timeSeriesKey];
-    const formattedData: StockTimeSeriesData[] = Object.keys(timeSeries)
-      .map((date) => ({
-        date,
-        open: parseFloat(timeSeries[date]['1. open']),
-        high: parseFloat(timeSeries[date]['2. high']),
-        low: parseFloat(timeSeries[date]['3. low']),
-        close: parseFloat(timeSeries[date]['4. close']),
-        volume: parseInt(timeSeries[date]['5. volume']),
-      }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    return formattedData;
+    return parseAlphaVantageSeries(timeSeries);
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch stock data: ${error.message}`);
   }
 };
 
+/**
+ * Fetch an intraday, daily, weekly or monthly series
+ * @param symbol - Stock ticker symbol
+ * @param interval - Bar interval ('1min' ... '60min', 'daily', 'weekly', 'monthly')
+ * @param outputsize - 'compact' (last 100 bars) or 'full'; weekly/monthly always return full history
+ * @param adjusted - Request split/dividend-adjusted data (sets `adjustedClose` on each bar)
+ */
+export const fetchStockSeries = async (
+  symbol: string,
+  interval: StockInterval,
+  outputsize: 'compact' | 'full' = 'compact',
+  adjusted: boolean = true
+): Promise<StockTimeSeriesData[]> => {
+  try {
+    let params: Record<string, string>;
+    let seriesKey: string;
+
+    if (isIntradayInterval(interval)) {
+      // Intraday bars are split/dividend-adjusted in place when `adjusted=true`
+      params = { function: 'TIME_SERIES_INTRADAY', interval, adjusted: String(adjusted), outputsize };
+      seriesKey = `Time Series (${interval})`;
+    } else {
+      const endpoint = SERIES_ENDPOINTS[interval][adjusted ? 'adjusted' : 'raw'];
+      params = { function: endpoint.fn };
+      if (interval === 'daily') {
+        params.outputsize = outputsize;
+      }
+      seriesKey = endpoint.key;
+    }
+
+    const data = await cachedGet<AlphaVantageSeriesResponse>(
+      ALPHA_VANTAGE_BASE_URL,
+      {
+        params: {
+          ...params,
+          symbol: symbol.toUpperCase(),
+          apikey: ALPHA_VANTAGE_API_KEY,
+        },
+      },
+      { isCacheable: isAlphaVantageSuccess }
+    );
+
+    if (data['Error Message']) {
+      throw new Error(data['Error Message']);
+    }
+
+    if (data['Note'] || data['Information']) {
+      throw reportRateLimited('alphaVantage');
+    }
+
+    const timeSeries = data[seriesKey];
+    if (!timeSeries || typeof timeSeries === 'string') {
+      throw new Error('Invalid response format from API');
+    }
+
+    return parseAlphaVantageSeries(timeSeries);
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch ${interval} stock data: ${getErrorMessage(error)}`);
+  }
+};
+
 /**
  * Fetch real-time stock quote
  * @param symbol - Stock ticker symbol
  */
 export const fetchStockQuote = async (symbol: string): Promise<StockQuote> => {
   try {
-    const response = await apiClient.get(ALPHA_VANTAGE_BASE_URL, {
-      params: {
-        function: 'GLOBAL_QUOTE',
-        symbol: symbol.toUpperCase(),
-        apikey: ALPHA_VANTAGE_API_KEY,
+    const data = await cachedGet<AlphaVantageQuoteResponse>(
+      ALPHA_VANTAGE_BASE_URL,
+      {
+        params: {
+          function: 'GLOBAL_QUOTE',
+          symbol: symbol.toUpperCase(),
+          apikey: ALPHA_VANTAGE_API_KEY,
+        },
       },
-    });
-
-    const data = response.data;
+      { isCacheable: isAlphaVantageSuccess }
+    );
 
     if (data['Error Message']) {
       throw new Error(data['Error Message']);
     }
 
-    if (data['Note']) {
-      throw new Error('API call frequency limit reached. Please try again later.');
+    if (data['Note'] || data['Information']) {
+      throw reportRateLimited('alphaVantage');
     }
 
     const quote = data['Global Quote'];
@@ -116,7 +341,61 @@ export const fetchStockQuote = async (symbol: string): Promise<StockQuote> => {
       changePercent: parseFloat(quote['10. change percent'].replace('%', '')),
     };
   } catch (error: any) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     throw new Error(`Failed to fetch stock quote: ${error.message}`);
   }
 };
 
+
+/**
+ * Fetch company overview (fundamentals summary)
+ * @param symbol - Stock ticker symbol
+ */
+export const fetchCompanyOverview = async (symbol: string): Promise<CompanyOverview | null> => {
+  try {
+    const data = await cachedGet<AlphaVantageOverviewResponse>(
+      ALPHA_VANTAGE_BASE_URL,
+      {
+        params: {
+          function: 'OVERVIEW',
+          symbol: symbol.toUpperCase(),
+          apikey: ALPHA_VANTAGE_API_KEY,
+        },
+      },
+      { isCacheable: (response) => isAlphaVantageSuccess(response) && Boolean(response.Symbol) }
+    );
+
+    if (data['Error Message']) {
+      throw new Error(data['Error Message']);
+    }
+
+    if (data['Note'] || data['Information']) {
+      throw reportRateLimited('alphaVantage');
+    }
+
+    // Unknown symbols return an empty object
+    if (!data.Symbol) {
+      return null;
+    }
+
+    return {
+      symbol: data.Symbol,
+      name: data.Name || data.Symbol,
+      description: data.Description || '',
+      exchange: data.Exchange || '',
+      currency: data.Currency || 'USD',
+      sector: data.Sector || '',
+      industry: data.Industry || '',
+      marketCap: parseFloat(data.MarketCapitalization || '0') || 0,
+      website: data.OfficialSite || '',
+      employees: parseInt(data.FullTimeEmployees || '0') || 0,
+    };
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch company overview: ${getErrorMessage(error)}`);
+  }
+};
@@ -0,0 +1,309 @@
+/**
+ * Tax-Loss Harvesting
+ * Finds open portfolio lots trading below cost, estimates the federal tax a
+ * sale would save this year and flags wash-sale conflicts.
+ *
+ * Model:
+ * - Lots are sold on the harvest date at the current quote, by specific identification
+ * - Held more than one year is long-term; losses net against gains of the same
+ *   term first, then the other term; up to $3,000 ($1,500 married filing
+ *   separately) of net loss offsets ordinary income and the rest carries forward
+ * - Wash sale (IRC §1091): buying the same security within 30 days before or
+ *   after the sale disallows the loss in proportion to the shares bought.
+ *   Lots bought in that window and not harvested are conflicts; crypto is not
+ *   a security and is exempt
+ * - Replacements track a different index or are sector funds, so they are not
+ *   substantially identical; funds tracking the same index may be
+ */
+import { computePositions, AssetClass, PortfolioTransaction, PriceQuote, RealizedGain } from './portfolio';
+import { CAPITAL_LOSS_LIMIT, estimateTax, FilingStatus } from './taxRules';
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface WashSaleConflict {
+  transactionId: string;
+  date: string;
+  quantity: number; // Still held from this buy
+}
+
+export interface HarvestCandidate {
+  transactionId: string; // Buy that opened the lot
+  symbol: string;
+  assetClass: AssetClass;
+  openDate: string;
+  quantity: number;
+  costBasis: number;
+  price: number;
+  marketValue: number;
+  loss: number; // Positive
+  term: HoldingTerm;
+  washSaleApplies: boolean;
+  conflicts: WashSaleConflict[]; // Shared by every candidate of the symbol
+  disallowedLoss: number;
+  estimatedSavings: number; // Share of the plan's savings
+  repurchaseAfter: string | null; // First day the same security can be bought back
+  replacements: string[];
+}
+
+export interface HarvestTaxSettings {
+  year: number;
+  filingStatus: FilingStatus;
+  ordinaryIncome: number; // Wages and other ordinary income
+  preTaxContributions: number;
+  otherLongTermGains: number; // Realized this year outside the portfolio
+}
+
+export interface HarvestInputs {
+  transactions: PortfolioTransaction[];
+  quotes: Record<string, PriceQuote>; // Keyed `${assetClass}:${symbol}`, as fetchPortfolioQuotes returns them
+  asOf: string; // Harvest date, 'YYYY-MM-DD'
+  minLoss: number; // Skip lots losing less than this
+  tax: HarvestTaxSettings;
+}
+
+export interface GainsByTerm {
+  shortTerm: number;
+  longTerm: number;
+}
+
+export interface HarvestPlan {
+  candidates: HarvestCandidate[]; // Largest loss first
+  realized: GainsByTerm; // Already realized this calendar year, net
+  harvested: GainsByTerm; // Allowed losses, positive
+  disallowedLoss: number;
+  taxBefore: number;
+  taxAfter: number;
+  taxSavings: number;
+  ordinaryOffset: number; // Net loss used against ordinary income
+  carryForward: number; // Net loss left for later years
+  unpriced: string[]; // Symbols with open lots but no quote
+}
+
+const WASH_SALE_DAYS = 30;
+
+// Funds tracking the same index, and funds that track a different one
+const FUND_GROUPS: Array<{ symbols: string[]; replacements: string[] }> = [
+  { symbols: ['SPY', 'VOO', 'IVV', 'SPLG'], replacements: ['VTI', 'SCHX', 'IWB'] },
+  { symbols: ['VTI', 'ITOT', 'SCHB', 'SPTM'], replacements: ['VOO', 'SCHX', 'IWB'] },
+  { symbols: ['QQQ', 'QQQM'], replacements: ['VGT', 'XLK', 'IYW'] },
+  { symbols: ['IWM', 'VTWO'], replacements: ['VB', 'SCHA', 'IJR'] },
+  { symbols: ['VEA', 'IEFA', 'EFA'], replacements: ['SCHF', 'SPDW'] },
+  { symbols: ['VXUS', 'IXUS'], replacements: ['VEU', 'ACWX'] },
+  { symbols: ['VWO', 'IEMG', 'EEM'], replacements: ['SCHE', 'SPEM'] },
+  { symbols: ['BND', 'AGG'], replacements: ['SCHZ', 'SPAB', 'IUSB'] },
+  { symbols: ['TLT', 'VGLT'], replacements: ['SPTL', 'SCHQ'] },
+];
+
+// Sector funds for single stocks, matched on the provider's sector name
+const SECTOR_FUNDS: Array<{ keywords: string[]; funds: string[] }> = [
+  { keywords: ['tech'], funds: ['XLK', 'VGT'] },
+  { keywords: ['financ'], funds: ['XLF', 'VFH'] },
+  { keywords: ['health'], funds: ['XLV', 'VHT'] },
+  { keywords: ['energy'], funds: ['XLE', 'VDE'] },
+  { keywords: ['cyclical', 'discretionary', 'retail'], funds: ['XLY', 'VCR'] },
+  { keywords: ['defensive', 'staples'], funds: ['XLP', 'VDC'] },
+  { keywords: ['industr', 'manufactur'], funds: ['XLI', 'VIS'] },
+  { keywords: ['material'], funds: ['XLB', 'VAW'] },
+  { keywords: ['utilit'], funds: ['XLU', 'VPU'] },
+  { keywords: ['real estate'], funds: ['XLRE', 'VNQ'] },
+  { keywords: ['communication', 'media', 'telecom'], funds: ['XLC', 'VOX'] },
+];
+
+const BROAD_MARKET_FUNDS = ['VTI', 'VOO'];
+const BOND_FUNDS = ['BND', 'SCHZ'];
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const addDays = (date: string, days: number): string =>
+  new Date(toTime(date) + days * 86400000).toISOString().slice(0, 10);
+
+/**
+ * Long-term once held more than one year
+ */
+export const holdingTerm = (openDate: string, closeDate: string): HoldingTerm => {
+  const anniversary = `${Number(openDate.slice(0, 4)) + 1}${openDate.slice(4)}`;
+  return closeDate > anniversary ? 'long' : 'short';
+};
+
+/**
+ * Similar but not substantially identical securities to hold while waiting out the wash-sale window
+ */
+export const suggestReplacements = (symbol: string, assetClass: AssetClass, sector?: string): string[] => {
+  const pick = (candidates: string[]) => candidates.filter((candidate) => candidate !== symbol);
+  const group = FUND_GROUPS.find((item) => item.symbols.includes(symbol));
+  if (group) return pick(group.replacements);
+
+  if (assetClass === 'stock') {
+    const name = (sector ?? '').toLowerCase();
+    const match = SECTOR_FUNDS.find((item) => item.keywords.some((keyword) => name.includes(keyword)));
+    return pick(match ? [...match.funds, BROAD_MARKET_FUNDS[0]] : BROAD_MARKET_FUNDS);
+  }
+  if (assetClass === 'bond') return pick(BOND_FUNDS);
+  return [];
+};
+
+/**
+ * Net short- and long-term results the way Schedule D does
+ */
+const netCapitalGains = (gains: GainsByTerm, lossLimit: number) => {
+  let { shortTerm, longTerm } = gains;
+  if (shortTerm < 0 && longTerm > 0) {
+    const used = Math.min(-shortTerm, longTerm);
+    shortTerm += used;
+    longTerm -= used;
+  } else if (longTerm < 0 && shortTerm > 0) {
+    const used = Math.min(-longTerm, shortTerm);
+    longTerm += used;
+    shortTerm -= used;
+  }
+  const netLoss = Math.max(-shortTerm, 0) + Math.max(-longTerm, 0);
+  const ordinaryOffset = Math.min(netLoss, lossLimit);
+  return {
+    shortTermGain: Math.max(shortTerm, 0),
+    longTermGain: Math.max(longTerm, 0),
+    ordinaryOffset,
+    carryForward: netLoss - ordinaryOffset,
+  };
+};
+
+const taxFor = (settings: HarvestTaxSettings, gains: GainsByTerm) => {
+  const net = netCapitalGains(gains, CAPITAL_LOSS_LIMIT[settings.filingStatus]);
+  const estimate = estimateTax({
+    year: settings.year,
+    filingStatus: settings.filingStatus,
+    ordinaryIncome: settings.ordinaryIncome + net.shortTermGain - net.ordinaryOffset,
+    preTaxContributions: settings.preTaxContributions,
+    longTermGains: net.longTermGain,
+  });
+  return { ...net, totalTax: estimate.totalTax };
+};
+
+const sumByTerm = (realized: RealizedGain[], year: string): GainsByTerm =>
+  realized
+    .filter((gain) => gain.closeDate.startsWith(year))
+    .reduce(
+      (totals, gain) =>
+        holdingTerm(gain.openDate, gain.closeDate) === 'long'
+          ? { ...totals, longTerm: totals.longTerm + gain.gain }
+          : { ...totals, shortTerm: totals.shortTerm + gain.gain },
+      { shortTerm: 0, longTerm: 0 }
+    );
+
+/**
+ * Harvestable losses in the portfolio with their tax value and wash-sale conflicts
+ * @throws Error if the tax year has no rules or the transactions do not replay
+ */
+export const planTaxLossHarvest = (inputs: HarvestInputs): HarvestPlan => {
+  const { positions, realized: realizedGains } = computePositions(inputs.transactions);
+  const realized = sumByTerm(realizedGains, inputs.asOf.slice(0, 4));
+  const windowStart = addDays(inputs.asOf, -WASH_SALE_DAYS);
+  const windowEnd = addDays(inputs.asOf, WASH_SALE_DAYS);
+  const unpriced: string[] = [];
+  const candidates: HarvestCandidate[] = [];
+
+  positions
+    .filter((position) => position.quantity > 0 && position.assetClass !== 'cash')
+    .forEach((position) => {
+      const quote = inputs.quotes[`${position.assetClass}:${position.symbol}`];
+      if (!quote) {
+        unpriced.push(position.symbol);
+        return;
+      }
+
+      const losing = position.lots.filter((lot) => lot.costBasis - lot.quantity * quote.price >= Math.max(inputs.minLoss, 0.01));
+      if (losing.length === 0) return;
+
+      const washSaleApplies = position.assetClass !== 'crypto';
+      const harvestedIds = new Set(losing.map((lot) => lot.transactionId));
+      // Lots kept that were bought within 30 days of the sale are replacement shares
+      const conflicts: WashSaleConflict[] = washSaleApplies
+        ? position.lots
+          .filter((lot) => !harvestedIds.has(lot.transactionId) && lot.date >= windowStart && lot.date <= windowEnd)
+          .map((lot) => ({ transactionId: lot.transactionId, date: lot.date, quantity: lot.quantity }))
+        : [];
+      const harvestedQuantity = losing.reduce((sum, lot) => sum + lot.quantity, 0);
+      const conflictQuantity = conflicts.reduce((sum, conflict) => sum + conflict.quantity, 0);
+      const disallowedShare = Math.min(conflictQuantity / harvestedQuantity, 1);
+      const replacements = washSaleApplies ? suggestReplacements(position.symbol, position.assetClass, quote.sector) : [];
+
+      losing.forEach((lot) => {
+        const marketValue = lot.quantity * quote.price;
+        const loss = lot.costBasis - marketValue;
+        candidates.push({
+          transactionId: lot.transactionId,
+          symbol: position.symbol,
+          assetClass: position.assetClass,
+          openDate: lot.date,
+          quantity: lot.quantity,
+          costBasis: lot.costBasis,
+          price: quote.price,
+          marketValue,
+          loss,
+          term: holdingTerm(lot.date, inputs.asOf),
+          washSaleApplies,
+          conflicts,
+          disallowedLoss: loss * disallowedShare,
+          estimatedSavings: 0,
+          repurchaseAfter: washSaleApplies ? addDays(inputs.asOf, WASH_SALE_DAYS + 1) : null,
+          replacements,
+        });
+      });
+    });
+
+  const harvested = candidates.reduce(
+    (totals, candidate) => {
+      const allowed = candidate.loss - candidate.disallowedLoss;
+      return candidate.term === 'long'
+        ? { ...totals, longTerm: totals.longTerm + allowed }
+        : { ...totals, shortTerm: totals.shortTerm + allowed };
+    },
+    { shortTerm: 0, longTerm: 0 }
+  );
+
+  const otherGains: GainsByTerm = { ...realized, longTerm: realized.longTerm + inputs.tax.otherLongTermGains };
+  const before = taxFor(inputs.tax, otherGains);
+  const after = taxFor(inputs.tax, {
+    shortTerm: otherGains.shortTerm - harvested.shortTerm,
+    longTerm: otherGains.longTerm - harvested.longTerm,
+  });
+  const taxSavings = before.totalTax - after.totalTax;
+  const allowedTotal = harvested.shortTerm + harvested.longTerm;
+  candidates.forEach((candidate) => {
+    candidate.estimatedSavings = allowedTotal > 0 ? taxSavings * (candidate.loss - candidate.disallowedLoss) / allowedTotal : 0;
+  });
+
+  return {
+    candidates: candidates.sort((a, b) => b.loss - a.loss),
+    realized,
+    harvested,
+    disallowedLoss: candidates.reduce((sum, candidate) => sum + candidate.disallowedLoss, 0),
+    taxBefore: before.totalTax,
+    taxAfter: after.totalTax,
+    taxSavings,
+    // Only the part created by the harvest
+    ordinaryOffset: after.ordinaryOffset - before.ordinaryOffset,
+    carryForward: after.carryForward - before.carryForward,
+    unpriced,
+  };
+};
+
+/**
+ * Harvest list rows for CSV export
+ */
+export const harvestListRows = (plan: HarvestPlan) =>
+  plan.candidates.map((candidate) => ({
+    symbol: candidate.symbol,
+    assetClass: candidate.assetClass,
+    openDate: candidate.openDate,
+    quantity: candidate.quantity,
+    costBasis: candidate.costBasis.toFixed(2),
+    price: candidate.price.toFixed(2),
+    marketValue: candidate.marketValue.toFixed(2),
+    loss: candidate.loss.toFixed(2),
+    term: candidate.term,
+    disallowedLoss: candidate.disallowedLoss.toFixed(2),
+    estimatedSavings: candidate.estimatedSavings.toFixed(2),
+    washSaleConflicts: candidate.conflicts.map((conflict) => `${conflict.quantity} bought ${conflict.date}`).join('; '),
+    repurchaseAfter: candidate.repurchaseAfter ?? '',
+    replacements: candidate.replacements.join(' '),
+  }));
@@ -0,0 +1,424 @@
+/**
+ * Tax Rules
+ * Versioned US federal income tax rules (brackets, standard deduction,
+ * long-term capital gains tiers, contribution limits, estate and gift
+ * exclusions) with an estimator for
+ * marginal and effective rates and the dollar value of common tax moves.
+ *
+ * Adding a year means adding one entry to TAX_RULES; nothing else changes.
+ *
+ * Model:
+ * - Pre-tax contributions (401(k), HSA) come off ordinary income
+ * - The larger of the standard or itemized deduction comes off ordinary
+ *   income first, then off long-term gains
+ * - Long-term gains and qualified dividends stack on top of ordinary income
+ * - Net investment income tax (3.8%) applies above fixed MAGI thresholds
+ * - Not modeled: state tax, payroll tax, credits, AMT, the extra deduction at 65+
+ *
+ * Amounts are dollars; rates are decimals (0.22 = 22%).
+ */
+
+export type FilingStatus = 'single' | 'marriedJointly' | 'marriedSeparately' | 'headOfHousehold';
+
+export interface TaxBracket {
+  rate: number;
+  upTo: number | null; // Top of the bracket in taxable income; null for the last one
+}
+
+export interface ContributionLimits {
+  k401: number; // Employee 401(k)/403(b) deferral
+  k401CatchUp: number; // Extra at 50 and over
+  k401CatchUp60To63: number | null; // Extra at 60-63 instead of the regular catch-up, from 2025
+  ira: number;
+  iraCatchUp: number; // Extra at 50 and over
+  hsaSelf: number;
+  hsaFamily: number;
+  hsaCatchUp: number; // Extra at 55 and over
+}
+
+export interface EstateGiftRules {
+  basicExclusion: number; // Estate and lifetime gift exclusion per person
+  annualGiftExclusion: number; // Per donor, per donee
+}
+
+export interface TaxYearRules {
+  year: number;
+  source: string;
+  brackets: Record<FilingStatus, TaxBracket[]>;
+  standardDeduction: Record<FilingStatus, number>;
+  capitalGains: Record<FilingStatus, TaxBracket[]>; // Long-term gains and qualified dividends
+  rothIraPhaseOut: Record<FilingStatus, [number, number]>; // MAGI range over which Roth contributions phase out
+  limits: ContributionLimits;
+  estate: EstateGiftRules;
+}
+
+export interface TaxInput {
+  year: number;
+  filingStatus: FilingStatus;
+  ordinaryIncome: number; // Wages and other ordinary income, before pre-tax contributions
+  preTaxContributions?: number; // 401(k), HSA and similar
+  longTermGains?: number; // Net long-term gains and qualified dividends
+  itemizedDeductions?: number;
+}
+
+export interface TaxEstimate {
+  adjustedGrossIncome: number;
+  deduction: number;
+  taxableIncome: number;
+  ordinaryTax: number;
+  capitalGainsTax: number;
+  netInvestmentIncomeTax: number;
+  totalTax: number;
+  marginalRate: number; // On the next dollar of ordinary income
+  capitalGainsRate: number; // On the next dollar of long-term gains
+  effectiveRate: number; // Total tax over total income
+}
+
+export interface TaxProfile {
+  year: number;
+  filingStatus: FilingStatus;
+  age: number;
+  wages: number;
+  preTaxContributions: number; // 401(k) deferrals already made this year
+  longTermGains: number;
+  yearsToRetirement: number;
+  expectedReturn: number; // Decimal, for growth sheltered by a Roth
+}
+
+export type TaxSuggestionId = 'k401' | 'rothIra' | 'hsa' | 'lossHarvesting' | 'gainHarvesting';
+
+export interface TaxSuggestion {
+  id: TaxSuggestionId;
+  title: string;
+  description: string;
+  savings: number; // Dollars
+  savingsBasis: string; // What the savings figure measures, e.g. "this year"
+}
+
+export const FILING_STATUS_LABELS: Record<FilingStatus, string> = {
+  single: 'Single',
+  marriedJointly: 'Married filing jointly',
+  marriedSeparately: 'Married filing separately',
+  headOfHousehold: 'Head of household',
+};
+
+const ORDINARY_RATES = [0.1, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37];
+const CAPITAL_GAINS_RATES = [0, 0.15, 0.2];
+
+const NIIT_RATE = 0.038;
+// Not indexed for inflation
+const NIIT_THRESHOLD: Record<FilingStatus, number> = {
+  single: 200000,
+  marriedJointly: 250000,
+  marriedSeparately: 125000,
+  headOfHousehold: 200000,
+};
+
+// Capital losses beyond gains that may offset ordinary income each year
+export const CAPITAL_LOSS_LIMIT: Record<FilingStatus, number> = {
+  single: 3000,
+  marriedJointly: 3000,
+  marriedSeparately: 1500,
+  headOfHousehold: 3000,
+};
+
+/**
+ * Brackets from their rates and the top of every bracket but the last
+ */
+const bracketsFrom = (rates: number[], tops: number[]): TaxBracket[] =>
+  rates.map((rate, index) => ({ rate, upTo: index < tops.length ? tops[index] : null }));
+
+const ordinary = (tops: number[]) => bracketsFrom(ORDINARY_RATES, tops);
+const gains = (tops: number[]) => bracketsFrom(CAPITAL_GAINS_RATES, tops);
+
+export const TAX_RULES: TaxYearRules[] = [
+  {
+    year: 2023,
+    source: 'IRS Rev. Proc. 2022-38',
+    brackets: {
+      single: ordinary([11000, 44725, 95375, 182100, 231250, 578125]),
+      marriedJointly: ordinary([22000, 89450, 190750, 364200, 462500, 693750]),
+      marriedSeparately: ordinary([11000, 44725, 95375, 182100, 231250, 346875]),
+      headOfHousehold: ordinary([15700, 59850, 95350, 182100, 231250, 578100]),
+    },
+    standardDeduction: { single: 13850, marriedJointly: 27700, marriedSeparately: 13850, headOfHousehold: 20800 },
+    capitalGains: {
+      single: gains([44625, 492300]),
+      marriedJointly: gains([89250, 553850]),
+      marriedSeparately: gains([44625, 276900]),
+      headOfHousehold: gains([59750, 523050]),
+    },
+    rothIraPhaseOut: {
+      single: [138000, 153000],
+      marriedJointly: [218000, 228000],
+      marriedSeparately: [0, 10000],
+      headOfHousehold: [138000, 153000],
+    },
+    limits: { k401: 22500, k401CatchUp: 7500, k401CatchUp60To63: null, ira: 6500, iraCatchUp: 1000, hsaSelf: 3850, hsaFamily: 7750, hsaCatchUp: 1000 },
+    estate: { basicExclusion: 12920000, annualGiftExclusion: 17000 },
+  },
+  {
+    year: 2024,
+    source: 'IRS Rev. Proc. 2023-34',
+    brackets: {
+      single: ordinary([11600, 47150, 100525, 191950, 243725, 609350]),
+      marriedJointly: ordinary([23200, 94300, 201050, 383900, 487450, 731200]),
+      marriedSeparately: ordinary([11600, 47150, 100525, 191950, 243725, 365600]),
+      headOfHousehold: ordinary([16550, 63100, 100500, 191950, 243700, 609350]),
+    },
+    standardDeduction: { single: 14600, marriedJointly: 29200, marriedSeparately: 14600, headOfHousehold: 21900 },
+    capitalGains: {
+      single: gains([47025, 518900]),
+      marriedJointly: gains([94050, 583750]),
+      marriedSeparately: gains([47025, 291850]),
+      headOfHousehold: gains([63000, 551350]),
+    },
+    rothIraPhaseOut: {
+      single: [146000, 161000],
+      marriedJointly: [230000, 240000],
+      marriedSeparately: [0, 10000],
+      headOfHousehold: [146000, 161000],
+    },
+    limits: { k401: 23000, k401CatchUp: 7500, k401CatchUp60To63: null, ira: 7000, iraCatchUp: 1000, hsaSelf: 4150, hsaFamily: 8300, hsaCatchUp: 1000 },
+    estate: { basicExclusion: 13610000, annualGiftExclusion: 18000 },
+  },
+  {
+    year: 2025,
+    source: 'IRS Rev. Proc. 2024-40; standard deduction as amended by Pub. L. 119-21',
+    brackets: {
+      single: ordinary([11925, 48475, 103350, 197300, 250525, 626350]),
+      marriedJointly: ordinary([23850, 96950, 206700, 394600, 501050, 751600]),
+      marriedSeparately: ordinary([11925, 48475, 103350, 197300, 250525, 375800]),
+      headOfHousehold: ordinary([17000, 64850, 103350, 197300, 250500, 626350]),
+    },
+    standardDeduction: { single: 15750, marriedJointly: 31500, marriedSeparately: 15750, headOfHousehold: 23625 },
+    capitalGains: {
+      single: gains([48350, 533400]),
+      marriedJointly: gains([96700, 600050]),
+      marriedSeparately: gains([48350, 300000]),
+      headOfHousehold: gains([64750, 566700]),
+    },
+    rothIraPhaseOut: {
+      single: [150000, 165000],
+      marriedJointly: [236000, 246000],
+      marriedSeparately: [0, 10000],
+      headOfHousehold: [150000, 165000],
+    },
+    limits: { k401: 23500, k401CatchUp: 7500, k401CatchUp60To63: 11250, ira: 7000, iraCatchUp: 1000, hsaSelf: 4300, hsaFamily: 8550, hsaCatchUp: 1000 },
+    estate: { basicExclusion: 13990000, annualGiftExclusion: 19000 },
+  },
+  {
+    year: 2026,
+    source: 'IRS Rev. Proc. 2025-32',
+    brackets: {
+      single: ordinary([12400, 50400, 105700, 201775, 256225, 640600]),
+      marriedJointly: ordinary([24800, 100800, 211400, 403550, 512450, 768700]),
+      marriedSeparately: ordinary([12400, 50400, 105700, 201775, 256225, 384350]),
+      headOfHousehold: ordinary([17700, 67450, 105700, 201750, 256200, 640600]),
+    },
+    standardDeduction: { single: 16100, marriedJointly: 32200, marriedSeparately: 16100, headOfHousehold: 24150 },
+    capitalGains: {
+      single: gains([49450, 545500]),
+      marriedJointly: gains([98900, 613700]),
+      marriedSeparately: gains([49450, 306850]),
+      headOfHousehold: gains([66200, 579600]),
+    },
+    rothIraPhaseOut: {
+      single: [153000, 168000],
+      marriedJointly: [242000, 252000],
+      marriedSeparately: [0, 10000],
+      headOfHousehold: [153000, 168000],
+    },
+    limits: { k401: 24500, k401CatchUp: 8000, k401CatchUp60To63: 11250, ira: 7500, iraCatchUp: 1100, hsaSelf: 4400, hsaFamily: 8750, hsaCatchUp: 1000 },
+    estate: { basicExclusion: 15000000, annualGiftExclusion: 19000 },
+  },
+];
+
+export const TAX_YEARS = TAX_RULES.map((rules) => rules.year);
+export const LATEST_TAX_YEAR = TAX_YEARS[TAX_YEARS.length - 1];
+
+/**
+ * Rules for a tax year
+ * @throws Error if the year has no rules
+ */
+export const getTaxRules = (year: number): TaxYearRules => {
+  const rules = TAX_RULES.find((item) => item.year === year);
+  if (!rules) throw new Error(`No tax rules for ${year}; available years are ${TAX_YEARS.join(', ')}`);
+  return rules;
+};
+
+/**
+ * Tax on the slice of income from `from` to `to` under a bracket schedule
+ */
+const taxBetween = (from: number, to: number, brackets: TaxBracket[]): number => {
+  let tax = 0;
+  let floor = 0;
+  for (const bracket of brackets) {
+    const ceiling = bracket.upTo ?? Infinity;
+    const low = Math.max(from, floor);
+    const high = Math.min(to, ceiling);
+    if (high > low) tax += (high - low) * bracket.rate;
+    if (to <= ceiling) break;
+    floor = ceiling;
+  }
+  return tax;
+};
+
+/**
+ * Tax on taxable income under a bracket schedule
+ */
+export const taxOnBrackets = (taxableIncome: number, brackets: TaxBracket[]): number =>
+  taxBetween(0, Math.max(taxableIncome, 0), brackets);
+
+// Tax owed, without the marginal rates (which need it twice more)
+const computeTax = (input: TaxInput) => {
+  const rules = getTaxRules(input.year);
+  const status = input.filingStatus;
+  const gainsIncome = Math.max(input.longTermGains ?? 0, 0);
+  const ordinaryIncome = Math.max(input.ordinaryIncome - Math.max(input.preTaxContributions ?? 0, 0), 0);
+  const adjustedGrossIncome = ordinaryIncome + gainsIncome;
+
+  const deduction = Math.max(rules.standardDeduction[status], input.itemizedDeductions ?? 0);
+  const taxableOrdinary = Math.max(ordinaryIncome - deduction, 0);
+  const taxableGains = Math.max(gainsIncome - Math.max(deduction - ordinaryIncome, 0), 0);
+
+  const ordinaryTax = taxOnBrackets(taxableOrdinary, rules.brackets[status]);
+  // Gains fill the capital gains tiers above ordinary income
+  const capitalGainsTax = taxBetween(taxableOrdinary, taxableOrdinary + taxableGains, rules.capitalGains[status]);
+  const netInvestmentIncomeTax =
+    NIIT_RATE * Math.max(Math.min(gainsIncome, adjustedGrossIncome - NIIT_THRESHOLD[status]), 0);
+
+  return {
+    adjustedGrossIncome,
+    deduction,
+    taxableIncome: taxableOrdinary + taxableGains,
+    ordinaryTax,
+    capitalGainsTax,
+    netInvestmentIncomeTax,
+    totalTax: ordinaryTax + capitalGainsTax + netInvestmentIncomeTax,
+  };
+};
+
+// Step used to measure marginal rates
+const MARGINAL_STEP = 100;
+
+/**
+ * Estimate federal income tax with marginal and effective rates
+ * @throws Error if the year has no rules
+ */
+export const estimateTax = (input: TaxInput): TaxEstimate => {
+  const base = computeTax(input);
+  const nextOrdinary = computeTax({ ...input, ordinaryIncome: input.ordinaryIncome + MARGINAL_STEP });
+  const nextGain = computeTax({ ...input, longTermGains: Math.max(input.longTermGains ?? 0, 0) + MARGINAL_STEP });
+  const totalIncome = Math.max(input.ordinaryIncome, 0) + Math.max(input.longTermGains ?? 0, 0);
+
+  return {
+    ...base,
+    marginalRate: (nextOrdinary.totalTax - base.totalTax) / MARGINAL_STEP,
+    capitalGainsRate: (nextGain.totalTax - base.totalTax) / MARGINAL_STEP,
+    effectiveRate: totalIncome > 0 ? base.totalTax / totalIncome : 0,
+  };
+};
+
+/**
+ * Most a person of this age may defer into a 401(k) this year
+ */
+export const k401Limit = (limits: ContributionLimits, age: number): number => {
+  if (limits.k401CatchUp60To63 !== null && age >= 60 && age <= 63) return limits.k401 + limits.k401CatchUp60To63;
+  return limits.k401 + (age >= 50 ? limits.k401CatchUp : 0);
+};
+
+/**
+ * Roth IRA contribution allowed at a MAGI, reduced linearly across the phase-out range
+ */
+export const rothIraAllowance = (rules: TaxYearRules, filingStatus: FilingStatus, age: number, magi: number): number => {
+  const limit = rules.limits.ira + (age >= 50 ? rules.limits.iraCatchUp : 0);
+  const [start, end] = rules.rothIraPhaseOut[filingStatus];
+  if (magi <= start) return limit;
+  if (magi >= end) return 0;
+  return limit * (end - magi) / (end - start);
+};
+
+const formatDollars = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+
+/**
+ * Tax moves for a profile with the dollars each would save, largest first
+ * @throws Error if the year has no rules
+ */
+export const taxSuggestions = (profile: TaxProfile): TaxSuggestion[] => {
+  const rules = getTaxRules(profile.year);
+  const { filingStatus, age, year } = profile;
+  const input: TaxInput = {
+    year,
+    filingStatus,
+    ordinaryIncome: profile.wages,
+    preTaxContributions: profile.preTaxContributions,
+    longTermGains: profile.longTermGains,
+  };
+  const current = estimateTax(input);
+  const taxWith = (changes: Partial<TaxInput>) => computeTax({ ...input, ...changes }).totalTax;
+  const suggestions: TaxSuggestion[] = [];
+
+  // 401(k): defer up to the limit
+  const k401Max = k401Limit(rules.limits, age);
+  const k401Room = Math.min(Math.max(k401Max - profile.preTaxContributions, 0), Math.max(profile.wages - profile.preTaxContributions, 0));
+  suggestions.push({
+    id: 'k401',
+    title: 'Maximize 401(k) Contributions',
+    description: k401Room > 0
+      ? `Deferring another ${formatDollars(k401Room)} reaches the ${year} limit of ${formatDollars(k401Max)}${age >= 50 ? ' including catch-up' : ''}.`
+      : `You already defer the ${year} limit of ${formatDollars(k401Max)}.`,
+    savings: current.totalTax - taxWith({ preTaxContributions: profile.preTaxContributions + k401Room }),
+    savingsBasis: 'this year',
+  });
+
+  // Roth IRA: no tax on growth until retirement
+  const rothAllowed = rothIraAllowance(rules, filingStatus, age, current.adjustedGrossIncome);
+  const growth = rothAllowed * (Math.pow(1 + Math.max(profile.expectedReturn, 0), Math.max(profile.yearsToRetirement, 0)) - 1);
+  suggestions.push({
+    id: 'rothIra',
+    title: 'Contribute to a Roth IRA',
+    description: rothAllowed > 0
+      ? `${formatDollars(rothAllowed)} this year grows tax-free; at your current ${(current.capitalGainsRate * 100).toFixed(1)}% gains rate a taxable account would owe tax on its growth.`
+      : `Income is above the ${year} Roth IRA limit; a backdoor Roth (nondeductible IRA, then conversion) still works.`,
+    savings: growth * current.capitalGainsRate,
+    savingsBasis: 'by retirement, per year contributed',
+  });
+
+  // HSA: pre-tax if covered by a high-deductible health plan
+  const hsaLimit = (filingStatus === 'marriedJointly' ? rules.limits.hsaFamily : rules.limits.hsaSelf) + (age >= 55 ? rules.limits.hsaCatchUp : 0);
+  suggestions.push({
+    id: 'hsa',
+    title: 'Fund a Health Savings Account',
+    description: `With a high-deductible health plan, up to ${formatDollars(hsaLimit)} goes in pre-tax and comes out tax-free for medical costs.`,
+    savings: current.totalTax - taxWith({ preTaxContributions: profile.preTaxContributions + hsaLimit }),
+    savingsBasis: 'this year',
+  });
+
+  // Loss harvesting: offset realized gains plus the yearly ordinary allowance
+  const lossLimit = CAPITAL_LOSS_LIMIT[filingStatus];
+  const harvestable = Math.max(profile.longTermGains, 0) + lossLimit;
+  suggestions.push({
+    id: 'lossHarvesting',
+    title: 'Tax-Loss Harvesting',
+    description: `Realizing ${formatDollars(harvestable)} of losses offsets ${profile.longTermGains > 0 ? `your ${formatDollars(profile.longTermGains)} of gains and ` : ''}${formatDollars(lossLimit)} of ordinary income; larger losses carry forward.`,
+    savings: current.totalTax - taxWith({ longTermGains: 0, ordinaryIncome: profile.wages - lossLimit }),
+    savingsBasis: 'this year, with enough unrealized losses',
+  });
+
+  // Gain harvesting: realize gains that fall in the 0% tier
+  const zeroTop = rules.capitalGains[filingStatus][0].upTo ?? 0;
+  const zeroRoom = Math.max(zeroTop - current.taxableIncome, 0);
+  if (zeroRoom > 0) {
+    const longTermRate = rules.capitalGains[filingStatus][1].rate;
+    suggestions.push({
+      id: 'gainHarvesting',
+      title: 'Harvest Gains at 0%',
+      description: `Up to ${formatDollars(zeroRoom)} of long-term gains can be realized tax-free this year, resetting cost basis higher.`,
+      savings: zeroRoom * longTermRate,
+      savingsBasis: `future tax at ${(longTermRate * 100).toFixed(0)}% avoided`,
+    });
+  }
+
+  return suggestions.sort((a, b) => b.savings - a.savings);
+};
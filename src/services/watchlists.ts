@@ -0,0 +1,343 @@
+/**
+ * Watchlists
+ * Named lists of stock tickers and CoinGecko crypto IDs, stored in
+ * localStorage and optionally synced to a Supabase `watchlists` table.
+ *
+ * Supabase sync is enabled with VITE_WATCHLIST_SYNC=supabase (plus the
+ * existing VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY). Lists are stored one
+ * row per watchlist; on conflict the most recently updated copy wins.
+ */
+
+export type WatchlistItemKind = 'stock' | 'crypto';
+
+export interface WatchlistItem {
+  kind: WatchlistItemKind;
+  id: string; // Ticker (uppercase) or CoinGecko ID (lowercase)
+  addedAt: string;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  items: WatchlistItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WatchlistExport {
+  version: 1;
+  exportedAt: string;
+  watchlists: Watchlist[];
+}
+
+interface WatchlistRow {
+  id: string;
+  name: string;
+  items: WatchlistItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+type WatchlistListener = (watchlists: Watchlist[]) => void;
+
+const STORAGE_KEY = 'valunetics-watchlists';
+const SUPABASE_TABLE = 'watchlists';
+
+const listeners = new Set<WatchlistListener>();
+
+/**
+ * Normalize an item ID: tickers are uppercase, CoinGecko IDs lowercase
+ */
+const normalizeItemId = (kind: WatchlistItemKind, id: string) =>
+  kind === 'stock' ? id.trim().toUpperCase() : id.trim().toLowerCase();
+
+const generateId = () => `wl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Validate and normalize untrusted watchlist data (storage, imports, Supabase)
+ */
+const parseWatchlist = (value: unknown): Watchlist | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<Watchlist>;
+  if (typeof raw.name !== 'string' || !Array.isArray(raw.items)) return null;
+
+  const now = new Date().toISOString();
+  const seen = new Set<string>();
+  const items = raw.items
+    .filter((item): item is WatchlistItem =>
+      !!item && (item.kind === 'stock' || item.kind === 'crypto') && typeof item.id === 'string' && item.id.trim() !== ''
+    )
+    .map((item) => ({
+      kind: item.kind,
+      id: normalizeItemId(item.kind, item.id),
+      addedAt: typeof item.addedAt === 'string' ? item.addedAt : now,
+    }))
+    .filter((item) => {
+      const key = `${item.kind}:${item.id}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+    name: raw.name.trim() || 'Untitled',
+    items,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : now,
+  };
+};
+
+const readStorage = (): Watchlist[] => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.map(parseWatchlist).filter((list): list is Watchlist => list !== null)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+let watchlists: Watchlist[] = readStorage();
+
+/**
+ * Persist, notify subscribers and push changed lists to Supabase
+ */
+const commit = (next: Watchlist[], changed: Watchlist[] = [], deletedIds: string[] = []) => {
+  watchlists = next;
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(watchlists));
+    }
+  } catch {
+    // Storage full or unavailable: keep the in-memory copy only
+  }
+  listeners.forEach((listener) => listener(getWatchlists()));
+
+  if (isWatchlistSyncEnabled() && (changed.length > 0 || deletedIds.length > 0)) {
+    Promise.all([pushToSupabase(changed), ...deletedIds.map(deleteFromSupabase)]).catch((error) => {
+      console.error('Watchlist sync failed:', error);
+    });
+  }
+};
+
+/**
+ * Replace one watchlist, stamping its update time
+ */
+const updateWatchlist = (id: string, update: (list: Watchlist) => Watchlist) => {
+  const current = watchlists.find((list) => list.id === id);
+  if (!current) {
+    throw new Error('Watchlist not found');
+  }
+
+  const updated = { ...update(current), updatedAt: new Date().toISOString() };
+  commit(watchlists.map((list) => (list.id === id ? updated : list)), [updated]);
+  return updated;
+};
+
+/**
+ * All watchlists, oldest first
+ */
+export const getWatchlists = (): Watchlist[] => watchlists.map((list) => ({ ...list, items: [...list.items] }));
+
+/**
+ * Create an empty watchlist
+ * @param name - Display name
+ */
+export const createWatchlist = (name: string): Watchlist => {
+  const now = new Date().toISOString();
+  const list: Watchlist = { id: generateId(), name: name.trim() || 'Untitled', items: [], createdAt: now, updatedAt: now };
+  commit([...watchlists, list], [list]);
+  return list;
+};
+
+export const renameWatchlist = (id: string, name: string): Watchlist =>
+  updateWatchlist(id, (list) => ({ ...list, name: name.trim() || list.name }));
+
+export const deleteWatchlist = (id: string) => {
+  commit(watchlists.filter((list) => list.id !== id), [], [id]);
+};
+
+/**
+ * Add a stock ticker or crypto ID to a watchlist (no-op if already present)
+ */
+export const addWatchlistItem = (listId: string, kind: WatchlistItemKind, itemId: string): Watchlist => {
+  const id = normalizeItemId(kind, itemId);
+  if (!id) {
+    throw new Error('Symbol is required');
+  }
+
+  return updateWatchlist(listId, (list) =>
+    list.items.some((item) => item.kind === kind && item.id === id)
+      ? list
+      : { ...list, items: [...list.items, { kind, id, addedAt: new Date().toISOString() }] }
+  );
+};
+
+export const removeWatchlistItem = (listId: string, kind: WatchlistItemKind, itemId: string): Watchlist =>
+  updateWatchlist(listId, (list) => ({
+    ...list,
+    items: list.items.filter((item) => !(item.kind === kind && item.id === itemId)),
+  }));
+
+/**
+ * Subscribe to watchlist changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToWatchlists = (listener: WatchlistListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Serialize watchlists to a JSON export
+ * @param ids - Watchlists to export (defaults to all)
+ */
+export const exportWatchlists = (ids?: string[]): string => {
+  const payload: WatchlistExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    watchlists: getWatchlists().filter((list) => !ids || ids.includes(list.id)),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+/**
+ * Import watchlists from a JSON export (or a bare array of watchlists).
+ * Lists with a matching ID or name are merged; others are added.
+ * @returns Number of watchlists imported
+ */
+export const importWatchlists = (json: string): number => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid JSON file');
+  }
+
+  const source = Array.isArray(parsed) ? parsed : (parsed as Partial<WatchlistExport> | null)?.watchlists;
+  if (!Array.isArray(source)) {
+    throw new Error('No watchlists found in file');
+  }
+
+  const incoming = source.map(parseWatchlist).filter((list): list is Watchlist => list !== null);
+  if (incoming.length === 0) {
+    throw new Error('No valid watchlists found in file');
+  }
+
+  const now = new Date().toISOString();
+  const next = [...watchlists];
+  const changed: Watchlist[] = [];
+
+  incoming.forEach((list) => {
+    const index = next.findIndex((existing) => existing.id === list.id || existing.name === list.name);
+    if (index === -1) {
+      const added = { ...list, updatedAt: now };
+      next.push(added);
+      changed.push(added);
+      return;
+    }
+
+    const existing = next[index];
+    const known = new Set(existing.items.map((item) => `${item.kind}:${item.id}`));
+    const merged = {
+      ...existing,
+      items: [...existing.items, ...list.items.filter((item) => !known.has(`${item.kind}:${item.id}`))],
+      updatedAt: now,
+    };
+    next[index] = merged;
+    changed.push(merged);
+  });
+
+  commit(next, changed);
+  return incoming.length;
+};
+
+/**
+ * Whether watchlists are synced to Supabase
+ */
+export const isWatchlistSyncEnabled = (): boolean =>
+  import.meta.env.VITE_WATCHLIST_SYNC === 'supabase' &&
+  !!import.meta.env.VITE_SUPABASE_URL &&
+  !!import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const supabaseRequest = async (path: string, init: RequestInit = {}) => {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: supabaseKey,
+      Authorization: `Bearer ${supabaseKey}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Supabase request failed: ${response.status} ${response.statusText}`);
+  }
+  return response;
+};
+
+const toRow = (list: Watchlist): WatchlistRow => ({
+  id: list.id,
+  name: list.name,
+  items: list.items,
+  created_at: list.createdAt,
+  updated_at: list.updatedAt,
+});
+
+const pushToSupabase = async (lists: Watchlist[]) => {
+  if (lists.length === 0) return;
+  await supabaseRequest(SUPABASE_TABLE, {
+    method: 'POST',
+    headers: { Prefer: 'resolution=merge-duplicates' },
+    body: JSON.stringify(lists.map(toRow)),
+  });
+};
+
+const deleteFromSupabase = async (id: string) => {
+  await supabaseRequest(`${SUPABASE_TABLE}?id=eq.${encodeURIComponent(id)}`, { method: 'DELETE' });
+};
+
+/**
+ * Pull watchlists from Supabase and merge them with the local copy
+ * (newest `updatedAt` wins; local-only lists are pushed up)
+ */
+export const syncWatchlists = async (): Promise<Watchlist[]> => {
+  if (!isWatchlistSyncEnabled()) {
+    return getWatchlists();
+  }
+
+  const response = await supabaseRequest(`${SUPABASE_TABLE}?select=*`);
+  const rows = (await response.json()) as WatchlistRow[];
+  const remote = rows
+    .map((row) => parseWatchlist({
+      id: row.id,
+      name: row.name,
+      items: row.items,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }))
+    .filter((list): list is Watchlist => list !== null);
+
+  const merged = new Map(remote.map((list) => [list.id, list]));
+  const localNewer: Watchlist[] = [];
+  watchlists.forEach((list) => {
+    const remoteList = merged.get(list.id);
+    if (!remoteList || list.updatedAt > remoteList.updatedAt) {
+      merged.set(list.id, list);
+      localNewer.push(list);
+    }
+  });
+
+  const next = Array.from(merged.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  commit(next, localNewer);
+  return getWatchlists();
+};
@@ -0,0 +1,38 @@
+/**
+ * Monte Carlo Worker
+ * Runs simulation batches off the main thread and reports progress.
+ * Imports only the pure engine, so no browser storage or network code
+ * ends up in the worker bundle.
+ */
+import { runMonteCarlo, MonteCarloInputs, MonteCarloResult } from '../services/monteCarlo';
+
+export type MonteCarloWorkerRequest = { id: number; batch: MonteCarloInputs[] };
+
+export type MonteCarloWorkerMessage =
+  | { id: number; type: 'progress'; completed: number; total: number }
+  | { id: number; type: 'result'; results: MonteCarloResult[] }
+  | { id: number; type: 'error'; message: string };
+
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<MonteCarloWorkerRequest>) => {
+  const { id, batch } = event.data;
+  const total = batch.reduce((sum, inputs) => sum + inputs.paths, 0);
+  let done = 0;
+
+  try {
+    const results = batch.map((inputs) => {
+      const result = runMonteCarlo(inputs, (completed) => {
+        const message: MonteCarloWorkerMessage = { id, type: 'progress', completed: done + completed, total };
+        context.postMessage(message);
+      });
+      done += inputs.paths;
+      return result;
+    });
+    const message: MonteCarloWorkerMessage = { id, type: 'result', results };
+    context.postMessage(message);
+  } catch (error) {
+    const message: MonteCarloWorkerMessage = { id, type: 'error', message: error instanceof Error ? error.message : String(error) };
+    context.postMessage(message);
+  }
+};